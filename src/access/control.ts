@@ -0,0 +1,245 @@
+/**
+ * IM 访问控制
+ *
+ * 按通道评估发送者/群聊名单、部门、@提及与管理员限制；
+ * 管理员通过命令修改的名单持久化到 JSON 文件，与配置文件中的名单合并生效
+ */
+
+import * as fs from "fs";
+import { join, dirname } from "path";
+import { homedir } from "os";
+import type { AccessConfig, AccessPolicy, ChannelId, InboundMessageContext } from "../types/index.js";
+import { getChildLogger } from "../utils/logger.js";
+
+const logger = getChildLogger("access");
+
+/** 默认名单文件 */
+export const DEFAULT_ACCESS_FILE = join(homedir(), ".mozi", "access.json");
+
+/** 部门缓存时间 (毫秒) */
+const DEPARTMENT_CACHE_TTL_MS = 10 * 60_000;
+
+/** 可通过命令修改的名单 */
+export type AccessListName = "allowUsers" | "blockUsers" | "allowGroups" | "blockGroups";
+
+/** 拒绝原因 */
+export type AccessDenyReason =
+  | "blocked_user"
+  | "blocked_group"
+  | "user_not_allowed"
+  | "group_not_allowed"
+  | "mention_required"
+  | "admin_only";
+
+/** 访问检查结果 */
+export type AccessDecision = { allowed: true } | { allowed: false; reason: AccessDenyReason };
+
+/** 查询发送者所在部门 */
+export type DepartmentResolver = (context: InboundMessageContext) => Promise<string[]>;
+
+/** 检查选项 */
+export interface AccessCheckOptions {
+  /** 跳过群聊 @ 限制 (斜杠命令) */
+  skipMention?: boolean;
+}
+
+/** 持久化的名单 */
+interface AccessStoreData {
+  admins: string[];
+  channels: Partial<Record<ChannelId, Partial<Record<AccessListName, string[]>>>>;
+}
+
+/** 列表是否包含 ID (支持 "channel:ID" 写法) */
+function matchesId(list: string[] | undefined, channelId: string, id: string): boolean {
+  return !!list?.some((entry) => entry === id || entry === `${channelId}:${id}`);
+}
+
+/** 合并去重 */
+function union(...lists: Array<string[] | undefined>): string[] | undefined {
+  const merged = lists.flatMap((list) => list ?? []);
+  return merged.length > 0 ? Array.from(new Set(merged)) : undefined;
+}
+
+/** 访问控制器 */
+export class AccessController {
+  private config: AccessConfig;
+  private filePath: string;
+  private store: AccessStoreData;
+  private departments = new Map<string, { ids: string[]; expiresAt: number }>();
+
+  constructor(config: AccessConfig = {}) {
+    this.config = config;
+    this.filePath = config.file ?? DEFAULT_ACCESS_FILE;
+    this.store = this.load();
+  }
+
+  /** 名单文件路径 */
+  getFilePath(): string {
+    return this.filePath;
+  }
+
+  /** 拒绝访问时的回复 */
+  getDenyMessage(): string | undefined {
+    return this.config.denyMessage;
+  }
+
+  /** 读取持久化名单 */
+  private load(): AccessStoreData {
+    if (!fs.existsSync(this.filePath)) return { admins: [], channels: {} };
+    try {
+      const data = JSON.parse(fs.readFileSync(this.filePath, "utf-8")) as Partial<AccessStoreData>;
+      return { admins: data.admins ?? [], channels: data.channels ?? {} };
+    } catch (error) {
+      logger.error({ error, file: this.filePath }, "Failed to load access lists");
+      return { admins: [], channels: {} };
+    }
+  }
+
+  /** 保存持久化名单 */
+  private save(): void {
+    fs.mkdirSync(dirname(this.filePath), { recursive: true });
+    fs.writeFileSync(this.filePath, JSON.stringify(this.store, null, 2));
+  }
+
+  /** 通道生效的策略 (全局 < 通道配置，名单与命令添加的条目合并) */
+  getPolicy(channelId: ChannelId): AccessPolicy {
+    const { channels, admins: _admins, denyMessage: _deny, file: _file, ...global } = this.config;
+    const channel = channels?.[channelId] ?? {};
+    const stored = this.store.channels[channelId] ?? {};
+    const policy: AccessPolicy = { ...global, ...channel };
+    for (const name of ["allowUsers", "blockUsers", "allowGroups", "blockGroups"] as const) {
+      policy[name] = union(global[name], channel[name], stored[name]);
+    }
+    return policy;
+  }
+
+  /** 是否为管理员 */
+  isAdmin(channelId: ChannelId, senderId: string): boolean {
+    return matchesId(this.config.admins, channelId, senderId) || matchesId(this.store.admins, channelId, senderId);
+  }
+
+  /** 检查消息是否可以交给 Agent 处理 */
+  async check(
+    context: InboundMessageContext,
+    resolveDepartments?: DepartmentResolver,
+    options: AccessCheckOptions = {}
+  ): Promise<AccessDecision> {
+    const { channelId, senderId, chatId } = context;
+    const policy = this.getPolicy(channelId);
+    const isGroup = context.chatType === "group";
+
+    // 群聊 @ 限制对所有人生效 (斜杠命令除外)
+    if (isGroup && policy.requireMention && !options.skipMention && !this.isMentioned(context, policy)) {
+      return { allowed: false, reason: "mention_required" };
+    }
+    if (this.isAdmin(channelId, senderId)) return { allowed: true };
+
+    if (policy.adminOnly) return { allowed: false, reason: "admin_only" };
+    if (matchesId(policy.blockUsers, channelId, senderId)) return { allowed: false, reason: "blocked_user" };
+    if (isGroup) {
+      if (matchesId(policy.blockGroups, channelId, chatId)) return { allowed: false, reason: "blocked_group" };
+      if (policy.allowGroups && !matchesId(policy.allowGroups, channelId, chatId)) {
+        return { allowed: false, reason: "group_not_allowed" };
+      }
+    }
+
+    // 用户名单与部门名单满足其一即可
+    if (!policy.allowUsers && !policy.allowDepartments) return { allowed: true };
+    if (matchesId(policy.allowUsers, channelId, senderId)) return { allowed: true };
+    if (policy.allowDepartments && resolveDepartments) {
+      const departments = await this.getDepartments(context, resolveDepartments);
+      if (departments.some((id) => matchesId(policy.allowDepartments, channelId, id))) return { allowed: true };
+    }
+    return { allowed: false, reason: "user_not_allowed" };
+  }
+
+  /** 是否 @ 了机器人 (通道标记或命中 botIds；@ 其他人不算) */
+  private isMentioned(context: InboundMessageContext, policy: AccessPolicy): boolean {
+    if (context.mentionedBot) return true;
+    return !!policy.botIds?.length && (context.mentions ?? []).some((id) => policy.botIds!.includes(id));
+  }
+
+  /** 查询发送者部门 (带缓存，查询失败视为无部门) */
+  private async getDepartments(context: InboundMessageContext, resolve: DepartmentResolver): Promise<string[]> {
+    const key = `${context.channelId}:${context.senderId}`;
+    const cached = this.departments.get(key);
+    if (cached && cached.expiresAt > Date.now()) return cached.ids;
+
+    let ids: string[] = [];
+    try {
+      ids = await resolve(context);
+    } catch (error) {
+      logger.warn({ error, channelId: context.channelId, senderId: context.senderId }, "Failed to resolve departments");
+    }
+    this.departments.set(key, { ids, expiresAt: Date.now() + DEPARTMENT_CACHE_TTL_MS });
+    return ids;
+  }
+
+  /** 通过命令添加的名单条目 */
+  getStoredList(channelId: ChannelId, name: AccessListName): string[] {
+    return this.store.channels[channelId]?.[name] ?? [];
+  }
+
+  /** 添加名单条目并保存，已存在时返回 false */
+  addToList(channelId: ChannelId, name: AccessListName, id: string): boolean {
+    const lists = (this.store.channels[channelId] ??= {});
+    const list = (lists[name] ??= []);
+    if (list.includes(id)) return false;
+    list.push(id);
+    this.save();
+    logger.info({ channelId, list: name, id }, "Access list updated");
+    return true;
+  }
+
+  /** 移除通过命令添加的名单条目并保存，不存在时返回 false */
+  removeFromList(channelId: ChannelId, name: AccessListName, id: string): boolean {
+    const list = this.store.channels[channelId]?.[name];
+    const index = list?.indexOf(id) ?? -1;
+    if (!list || index === -1) return false;
+    list.splice(index, 1);
+    this.save();
+    logger.info({ channelId, list: name, id }, "Access list entry removed");
+    return true;
+  }
+
+  /** 通过命令添加的管理员 */
+  getStoredAdmins(): string[] {
+    return this.store.admins;
+  }
+
+  /** 添加管理员 (ID 为 "channel:ID" 形式) */
+  addAdmin(id: string): boolean {
+    if (this.store.admins.includes(id)) return false;
+    this.store.admins.push(id);
+    this.save();
+    logger.info({ id }, "Admin added");
+    return true;
+  }
+
+  /** 移除通过命令添加的管理员 */
+  removeAdmin(id: string): boolean {
+    const index = this.store.admins.indexOf(id);
+    if (index === -1) return false;
+    this.store.admins.splice(index, 1);
+    this.save();
+    logger.info({ id }, "Admin removed");
+    return true;
+  }
+}
+
+/** 全局访问控制器 */
+let globalAccessController: AccessController | null = null;
+
+/** 获取全局访问控制器 */
+export function getAccessController(): AccessController {
+  if (!globalAccessController) {
+    globalAccessController = new AccessController();
+  }
+  return globalAccessController;
+}
+
+/** 初始化访问控制器 */
+export function initAccessController(config?: AccessConfig): AccessController {
+  globalAccessController = new AccessController(config);
+  return globalAccessController;
+}
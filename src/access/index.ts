@@ -0,0 +1,5 @@
+/**
+ * 访问控制模块
+ */
+
+export * from "./control.js";
@@ -7,15 +7,26 @@ import type {
   InboundMessageContext,
   ProviderId,
   MoziConfig,
+  ToolPolicyConfig,
+  OutboundBlock,
 } from "../types/index.js";
 import type { AgentTool } from "@mariozechner/pi-agent-core";
-import { AgentRuntime, createAgentRuntime, type ChatResponse, type StreamEvent } from "./runtime.js";
+import {
+  AgentRuntime,
+  createAgentRuntime,
+  type AgentServices,
+  type ChatResponse,
+  type CompactionSummary,
+  type ModelSelection,
+  type SessionInfo,
+  type StreamEvent,
+} from "./runtime.js";
 import { getChildLogger } from "../utils/logger.js";
 import { createBuiltinTools, type BuiltinToolsOptions } from "../tools/builtin/index.js";
 import { initSkills, type SkillsRegistry } from "../skills/index.js";
 import type { MemoryManager } from "../memory/index.js";
-import { getCronService } from "../cron/service.js";
-import { createDefaultCronExecuteJob } from "../cron/executor.js";
+import type { TranscriptMessage } from "../sessions/types.js";
+import type { CronService } from "../cron/service.js";
 
 const logger = getChildLogger("agent");
 
@@ -32,13 +43,17 @@ export interface AgentOptions {
   maxHistoryTurns?: number;
   contextWindow?: number;
   enableTools?: boolean;
-  toolPolicy?: { allow?: string[]; deny?: string[] };
+  toolPolicy?: ToolPolicyConfig;
   enableCompaction?: boolean;
   compactionThreshold?: number;
   maxToolRounds?: number;
   workingDirectory?: string;
   enableFunctionCalling?: boolean;
   memoryManager?: MemoryManager;
+  /** 启用 subagent 工具 (可把任务委派给其他命名 Agent) */
+  enableSubagents?: boolean;
+  /** 定时任务服务 (提供时向模型暴露 cron 工具) */
+  cronService?: CronService;
 }
 
 /** Agent 响应 */
@@ -52,6 +67,8 @@ export interface AgentResponse {
   };
   provider: ProviderId;
   model: string;
+  /** 待发送给用户的附件 */
+  media?: OutboundBlock[];
 }
 
 /** 工具调用结果 */
@@ -78,6 +95,10 @@ export class Agent {
     this.runtime = runtime;
     this.options = options;
 
+    if (this.options.toolPolicy) {
+      this.runtime.setToolPolicy(this.options.toolPolicy);
+    }
+
     if (this.options.enableTools) {
       this.initializeTools();
     }
@@ -90,7 +111,9 @@ export class Agent {
       enableBrowser: true,
       enableMemory: !!this.options.memoryManager,
       memoryManager: this.options.memoryManager,
-      enableCron: false,
+      enableCron: !!this.options.cronService,
+      cronService: this.options.cronService,
+      enableSubagents: this.options.enableSubagents,
     };
 
     this.tools = createBuiltinTools(builtinOptions);
@@ -121,44 +144,90 @@ export class Agent {
       usage: response.usage,
       provider: response.provider,
       model: response.model,
+      media: response.media,
     };
   }
 
-  /** 流式处理消息 */
+  /** 流式处理消息 (文本增量与工具进度以字符串输出) */
   async *processMessageStream(
     context: InboundMessageContext,
     options?: { signal?: AbortSignal }
   ): AsyncGenerator<string, AgentResponse, unknown> {
+    const stream = this.processMessageEvents(context, options);
+    let next = await stream.next();
+    try {
+      while (!next.done) {
+        const event = next.value;
+        if (event.type === "text_delta") {
+          yield event.delta;
+        } else if (event.type === "tool_start") {
+          yield `\n⏺ ${event.name}(${event.argsPreview})`;
+        } else if (event.type === "tool_end") {
+          yield event.isError ? " ✗" : " ✓";
+        }
+        next = await stream.next();
+      }
+    } finally {
+      if (!next.done) await stream.return(undefined as never);
+    }
+    return next.value;
+  }
+
+  /** 流式处理消息 (输出结构化事件) */
+  async *processMessageEvents(
+    context: InboundMessageContext,
+    options?: { signal?: AbortSignal }
+  ): AsyncGenerator<StreamEvent, AgentResponse, unknown> {
     const allToolCalls: ToolCallResult[] = [];
     let fullContent = "";
 
-    for await (const event of this.runtime.chatStream(context, options)) {
-      if (event.type === "text_delta") {
-        fullContent += event.delta;
-        yield event.delta;
-      } else if (event.type === "tool_start") {
-        yield `\n⏺ ${event.name}(${event.argsPreview})`;
-      } else if (event.type === "tool_end") {
-        yield event.isError ? " ✗" : " ✓";
+    const stream = this.runtime.chatStream(context, options);
+    let next = await stream.next();
+    try {
+      while (!next.done) {
+        const event = next.value;
+        if (event.type === "text_delta") {
+          fullContent += event.delta;
+        }
+        yield event;
+        next = await stream.next();
       }
+    } finally {
+      // 调用方提前结束迭代时关闭底层流 (取消事件订阅)
+      if (!next.done) await stream.return(undefined as never);
     }
 
-    // 返回最终响应
+    // 返回最终响应 (provider/model 为实际应答的模型，可能是故障转移后的备用模型)
     return {
       content: fullContent,
       toolCalls: allToolCalls.length > 0 ? allToolCalls : undefined,
-      provider: this.options.provider ?? ("deepseek" as ProviderId),
-      model: this.options.model,
+      usage: next.value.usage,
+      provider: next.value.provider,
+      model: next.value.model,
+      media: next.value.media,
     };
   }
 
-  clearSession(context: InboundMessageContext): void {
-    this.runtime.clearSession(context);
+  /** 获取消息对应的会话 key */
+  getSessionKey(context: InboundMessageContext): string {
+    return this.runtime.getSessionKey(context);
+  }
+
+  async clearSession(context: InboundMessageContext): Promise<void> {
+    await this.runtime.clearSession(context);
+  }
+
+  /** 将会话标记为一次性会话 (只保存在内存中，清除后不留文件) */
+  useEphemeralSession(sessionKey: string): void {
+    this.runtime.useEphemeralSession(sessionKey);
   }
 
   getSessionInfo(context: InboundMessageContext): {
+    provider: ProviderId;
+    model: string;
     messageCount: number;
     estimatedTokens: number;
+    usage: SessionInfo["usage"];
     hasSummary: boolean;
     lastUpdate: Date;
   } | null {
@@ -166,92 +235,120 @@ export class Agent {
     if (!info) return null;
 
     return {
+      provider: info.provider,
+      model: info.model,
       messageCount: info.messageCount,
-      estimatedTokens: 0, // 由 runtime 内部管理
+      estimatedTokens: info.usage.totalTokens,
+      usage: info.usage,
       hasSummary: false,
       lastUpdate: info.lastUpdate,
     };
   }
 
-  restoreSessionFromTranscript(
-    sessionKey: string,
-    messages: Array<{ role: "user" | "assistant"; content: string }>
-  ): void {
-    this.runtime.restoreSessionFromTranscript(sessionKey, messages);
+  /** 手动压缩当前会话上下文 */
+  async compactSession(
+    context: InboundMessageContext,
+    customInstructions?: string
+  ): Promise<CompactionSummary | null> {
+    return this.runtime.compactSession(context, customInstructions);
+  }
+
+  /** 获取当前默认模型 */
+  getDefaultModel(): { provider: ProviderId; model: string } {
+    return {
+      provider: this.options.provider ?? ("deepseek" as ProviderId),
+      model: this.options.model,
+    };
+  }
+
+  /** 获取消息所在会话使用的模型 (含路由规则与会话中的切换) */
+  async getSessionModel(context: InboundMessageContext): Promise<ModelSelection> {
+    return this.runtime.getSessionModel(this.runtime.getSessionKey(context), context);
+  }
+
+  /** 切换会话模型 (保留历史消息) */
+  async setSessionModel(sessionKey: string, selection: ModelSelection): Promise<void> {
+    await this.runtime.setSessionModel(sessionKey, selection);
+  }
+
+  /** 获取 MemoryManager (未启用记忆时为 undefined) */
+  getMemoryManager(): MemoryManager | undefined {
+    return this.options.memoryManager;
+  }
+
+  /** 从转录记录恢复会话上下文，返回恢复后的消息数 */
+  async restoreSessionFromTranscript(sessionKey: string, messages: TranscriptMessage[]): Promise<number> {
+    return this.runtime.restoreSessionFromTranscript(sessionKey, messages);
   }
 }
 
+/** 创建 Agent 的选项 */
+export interface CreateAgentOptions {
+  /** 按 agents 中的同名配置创建命名 Agent */
+  agentId?: string;
+  /** 定时任务服务 */
+  cronService?: CronService;
+  /** 共用的全局服务 (多个 Agent 时由路由统一初始化) */
+  services?: AgentServices;
+}
+
 /** 创建 Agent */
-export async function createAgent(config: MoziConfig): Promise<Agent> {
+export async function createAgent(config: MoziConfig, options: CreateAgentOptions = {}): Promise<Agent> {
+  const { agentId, cronService, services } = options;
+  const named = agentId ? config.agents?.find((agent) => agent.id === agentId) : undefined;
+  if (agentId && !named) {
+    throw new Error(`Unknown agent: ${agentId}`);
+  }
+
   let memoryManager: MemoryManager | undefined;
   if (config.memory?.enabled !== false && config.memory) {
-    const { createMemoryManager } = await import("../memory/index.js");
+    const { createMemoryManager, createEmbeddingProvider } = await import("../memory/index.js");
+    const namespace = named ? named.memoryNamespace ?? named.id : undefined;
+    const embedding = createEmbeddingProvider(config.memory, config.providers);
     memoryManager = createMemoryManager({
       enabled: config.memory.enabled ?? true,
       directory: config.memory.directory,
+      namespace,
+      embedding,
     });
-    logger.info({ directory: config.memory.directory }, "Memory system initialized");
+    logger.info(
+      { directory: config.memory.directory, namespace, embedding: embedding.id ?? "simple" },
+      "Memory system initialized"
+    );
   }
 
   // 创建 runtime
-  const runtime = createAgentRuntime(config);
-
-  // 设置 cron 执行器
-  const agentExecutor = async (params: {
-    message: string;
-    sessionKey?: string;
-    model?: string;
-    timeoutSeconds?: number;
-  }) => {
-    try {
-      const response = await runtime.chat({
-        channelId: "webchat",
-        chatId: params.sessionKey ?? `cron-${Date.now()}`,
-        chatType: "direct",
-        senderId: "cron-system",
-        content: params.message,
-        messageId: `cron-${Date.now()}`,
-        timestamp: Date.now(),
-      });
-      return { success: true, output: response.content };
-    } catch (err) {
-      return { success: false, output: "", error: err instanceof Error ? err.message : String(err) };
-    }
-  };
-
-  const cronExecuteJob = createDefaultCronExecuteJob({ agentExecutor });
-  const cronService = getCronService({
-    enabled: true,
-    executeJob: cronExecuteJob,
-    onEvent: (event) => { logger.debug({ event }, "Cron event"); },
-  });
-  cronService.start();
-  logger.info("Cron service initialized");
+  const runtime = createAgentRuntime(config, named, services);
 
   // 创建 Agent
   const agent = new Agent(runtime, {
-    model: config.agent.defaultModel,
-    provider: config.agent.defaultProvider,
-    systemPrompt: config.agent.systemPrompt ?? "",
-    temperature: config.agent.temperature,
-    maxTokens: config.agent.maxTokens,
-    workingDirectory: config.agent.workingDirectory ?? process.cwd(),
+    model: named?.model ?? config.agent.defaultModel,
+    provider: named?.provider ?? config.agent.defaultProvider,
+    systemPrompt: named?.systemPrompt ?? config.agent.systemPrompt ?? "",
+    temperature: named?.temperature ?? config.agent.temperature,
+    maxTokens: named?.maxTokens ?? config.agent.maxTokens,
+    workingDirectory: named?.workingDirectory ?? config.agent.workingDirectory ?? process.cwd(),
     enableFunctionCalling: config.agent.enableFunctionCalling ?? true,
     memoryManager,
     enableTools: true,
+    enableSubagents: (config.agents?.length ?? 0) > 0,
+    cronService,
+    toolPolicy: named?.tools?.policy ?? config.agent.tools?.policy,
+    enableCompaction: config.agent.enableCompaction,
+    compactionThreshold: config.agent.compactionThreshold,
   });
 
-  // 加载 skills
+  // 加载 skills (命名 Agent 可覆盖 only/disabled)
   if (config.skills?.enabled !== false) {
     try {
-      const registry = await initSkills(config.skills);
+      const registry = await initSkills({ ...config.skills, ...named?.skills });
       agent.setSkillsRegistry(registry);
       const skillCount = registry.getAll().length;
-      if (skillCount > 0) logger.info({ skillCount }, "Skills loaded");
+      if (skillCount > 0) logger.info({ skillCount, agentId }, "Skills loaded");
     } catch (error) {
-      logger.warn({ error }, "Failed to load skills");
+      logger.warn({ error, agentId }, "Failed to load skills");
     }
   }
 
   return agent;
-}
\ No newline at end of file
+}
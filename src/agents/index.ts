@@ -4,4 +4,4 @@
 
 export * from "./agent.js";
 export * from "./runtime.js";
-export * from "./system-prompt.js";
\ No newline at end of file
+export * from "./system-prompt.js";export * from "./router.js";
@@ -0,0 +1,170 @@
+/**
+ * Agent 路由 - 按通道、账号、聊天、关键词或斜杠命令为消息选择命名 Agent
+ */
+
+import { randomUUID } from "crypto";
+import type { AgentRoutingRule, InboundMessageContext, MoziConfig } from "../types/index.js";
+import { createAgent, type Agent } from "./agent.js";
+import { initAgentServices } from "./runtime.js";
+import { registerSubAgent, setSubAgentRunner } from "../tools/builtin/subagent.js";
+import { getCronService, getCronServiceDeps } from "../cron/service.js";
+import { createDefaultCronExecuteJob, type AgentExecutor } from "../cron/executor.js";
+import { getChildLogger } from "../utils/logger.js";
+
+const logger = getChildLogger("agent-router");
+
+/** 消息是否以该斜杠命令开头 */
+function startsWithCommand(content: string, command: string): boolean {
+  return content === command || (content.startsWith(command) && /\s/.test(content.charAt(command.length)));
+}
+
+/** 匹配 Agent 路由规则 (返回第一条命中的规则) */
+export function matchAgentRoute(
+  rules: AgentRoutingRule[] | undefined,
+  context: Pick<InboundMessageContext, "channelId" | "accountId" | "chatId" | "chatType" | "content">
+): AgentRoutingRule | undefined {
+  const content = context.content.trim();
+  const lowered = content.toLowerCase();
+  return rules?.find(
+    (rule) =>
+      (rule.channel === undefined || rule.channel === context.channelId) &&
+      (rule.accountId === undefined || rule.accountId === context.accountId) &&
+      (rule.chatId === undefined || rule.chatId === context.chatId) &&
+      (rule.chatType === undefined || rule.chatType === context.chatType) &&
+      (rule.keywords === undefined || rule.keywords.some((keyword) => lowered.includes(keyword.toLowerCase()))) &&
+      (rule.command === undefined || startsWithCommand(content, rule.command))
+  );
+}
+
+/** Agent 路由器 (未命中规则的消息由默认 Agent 处理) */
+export class AgentRouter {
+  constructor(
+    private defaultAgent: Agent,
+    private agents: Map<string, Agent> = new Map(),
+    private rules: AgentRoutingRule[] = []
+  ) {}
+
+  /** 为入站消息选择 Agent：记录 context.agentId，命中斜杠命令规则时去掉命令 */
+  route(context: InboundMessageContext): Agent {
+    const rule = matchAgentRoute(this.rules, context);
+    const agent = rule && this.agents.get(rule.agent);
+    if (!rule || !agent) return this.defaultAgent;
+
+    context.agentId = rule.agent;
+    if (rule.command) {
+      const rest = context.content.trim().slice(rule.command.length).trim();
+      if (rest) context.content = rest;
+    }
+    logger.debug({ agentId: rule.agent, channel: context.channelId, chatId: context.chatId }, "Message routed to agent");
+    return agent;
+  }
+
+  /** 获取 Agent (未指定或不存在时返回默认 Agent) */
+  get(agentId?: string): Agent {
+    return (agentId && this.agents.get(agentId)) || this.defaultAgent;
+  }
+
+  /** 获取默认 Agent */
+  getDefault(): Agent {
+    return this.defaultAgent;
+  }
+
+  /** 获取所有命名 Agent 的 ID */
+  getAgentIds(): string[] {
+    return Array.from(this.agents.keys());
+  }
+}
+
+/** 定时任务的 Agent 执行函数: 在任务归属的通道、聊天与 Agent 下以每个任务独立的会话运行 */
+function createCronAgentExecutor(resolveAgent: (agentId?: string) => Agent): AgentExecutor {
+  return async ({ message, sessionKey, owner }) => {
+    const context: InboundMessageContext = {
+      channelId: owner?.channel ?? "webchat",
+      accountId: owner?.accountId,
+      messageId: `cron-${Date.now()}`,
+      chatId: owner?.chatId ?? sessionKey ?? `cron-${Date.now()}`,
+      chatType: "direct",
+      senderId: sessionKey ?? "cron-system",
+      content: message,
+      timestamp: Date.now(),
+      agentId: owner?.agentId,
+    };
+    try {
+      const response = await resolveAgent(owner?.agentId).processMessage(context);
+      return { success: true, output: response.content };
+    } catch (err) {
+      return { success: false, output: "", error: err instanceof Error ? err.message : String(err) };
+    }
+  };
+}
+
+/** 创建默认 Agent 与 agents 中的命名 Agent (命名 Agent 同时注册为可委派的子 Agent)，并启动定时任务服务 */
+export async function createAgentRouter(config: MoziConfig): Promise<AgentRouter> {
+  let router: AgentRouter | undefined;
+  // 所有 Agent 共用同一份模型解析器、审批配置与用量账本 (预算按全局统计)
+  const services = initAgentServices(config);
+  const cronService = getCronService({
+    ...getCronServiceDeps(config.cron),
+    workingDirectory: config.agent.workingDirectory,
+    executeJob: createDefaultCronExecuteJob({
+      agentExecutor: createCronAgentExecutor((agentId) => router!.get(agentId)),
+    }),
+    onEvent: (event) => logger.debug({ event }, "Cron event"),
+  });
+
+  const defaultAgent = await createAgent(config, { cronService, services });
+  const agents = new Map<string, Agent>();
+
+  for (const named of config.agents ?? []) {
+    agents.set(named.id, await createAgent(config, { agentId: named.id, cronService, services }));
+    registerSubAgent({
+      id: named.id,
+      name: named.name ?? named.id,
+      description: named.description ?? named.name ?? named.id,
+      systemPrompt: named.systemPrompt ?? config.agent.systemPrompt ?? "",
+      model: named.model,
+      provider: named.provider,
+    });
+    logger.info({ agentId: named.id }, "Named agent created");
+  }
+
+  for (const rule of config.agentRouting ?? []) {
+    if (!agents.has(rule.agent)) {
+      logger.warn({ agentId: rule.agent }, "Agent routing rule refers to unknown agent, ignored");
+    }
+  }
+
+  if (agents.size > 0) {
+    // 子 Agent 每次委派使用独立的一次性会话
+    setSubAgentRunner(async (agentId, prompt) => {
+      const agent = agents.get(agentId);
+      if (!agent) return { content: "", error: `Unknown agent: ${agentId}` };
+
+      const runId = randomUUID();
+      const context: InboundMessageContext = {
+        channelId: "api",
+        messageId: `subagent-${runId}`,
+        chatId: `subagent-${runId}`,
+        chatType: "direct",
+        senderId: `subagent-${runId}`,
+        content: prompt,
+        timestamp: Date.now(),
+        agentId,
+      };
+      try {
+        const response = await agent.processMessage(context);
+        return { content: response.content };
+      } finally {
+        await agent.clearSession(context);
+      }
+    });
+  }
+
+  router = new AgentRouter(defaultAgent, agents, config.agentRouting);
+
+  // Agent 全部创建后再开始调度，到期任务才能找到所属 Agent
+  cronService.start();
+  logger.info("Cron service initialized");
+
+  return router;
+}
@@ -5,28 +5,76 @@
 
 import { join } from "path";
 import * as os from "os";
+import * as fs from "fs";
 import {
   createAgentSession,
   AgentSession,
   SessionManager,
+  SettingsManager,
   AuthStorage,
   ModelRegistry,
   type ToolDefinition,
   type AgentSessionEvent,
 } from "@mariozechner/pi-coding-agent";
 import type { AgentTool, ThinkingLevel } from "@mariozechner/pi-agent-core";
-import type { MoziConfig, ProviderId, InboundMessageContext } from "../types/index.js";
-import { resolveModel, initModelResolver, getApiKeyForProvider } from "../providers/model-resolver.js";
+import type { Api, Model, Message, AssistantMessage, ToolCall, TextContent, ImageContent } from "@mariozechner/pi-ai";
+import type {
+  MoziConfig,
+  NamedAgentConfig,
+  ChannelAccountOptions,
+  ProviderId,
+  InboundMessageContext,
+  ToolPolicyConfig,
+  ModelRoutingRule,
+  ChatType,
+  OutboundBlock,
+} from "../types/index.js";
+import {
+  resolveModel,
+  initModelResolver,
+  getApiKeyForProvider,
+  getFailoverChain,
+  getFailoverSettings,
+  getRetryDelay,
+  isProviderHealthy,
+  isRetryableProviderError,
+  markProviderCooldown,
+  reportProviderFailure,
+  reportProviderSuccess,
+} from "../providers/model-resolver.js";
 import { getChildLogger } from "../utils/logger.js";
 import { buildSystemPrompt } from "./system-prompt.js";
+import { filterToolsByPolicy, resolveToolPolicy } from "../tools/registry.js";
+import { configureApprovals, wrapToolWithApproval, clearSessionApprovals } from "../tools/approval.js";
+import { withToolContext } from "../tools/context.js";
 import type { SkillsRegistry } from "../skills/index.js";
 import type { MemoryManager } from "../memory/index.js";
 import type { CronService } from "../cron/service.js";
+import type { TranscriptMessage } from "../sessions/types.js";
+import { getSessionStore, type FileSessionStore } from "../sessions/store.js";
+import { resolveChannelAccounts } from "../config/index.js";
+import { initUsageLedger, type UsageLedger } from "../usage/ledger.js";
+import { buildMediaPrompt, type MediaPrompt } from "../media/prompt.js";
+import { analyzeImage } from "../tools/builtin/image.js";
+import { getOutboundMedia } from "../tools/builtin/send.js";
+import {
+  emitAgentStart,
+  emitAgentEnd,
+  emitToolStart,
+  emitToolEnd,
+  emitSessionStart,
+  emitSessionEnd,
+  emitCompactionStart,
+  emitCompactionEnd,
+  emitError,
+} from "../hooks/index.js";
 
 const logger = getChildLogger("runtime");
 
 /** Runtime 配置 */
 export interface RuntimeConfig {
+  /** 命名 Agent ID (会话 key 加上 ":agent:<id>" 后缀，与默认 Agent 的会话隔离) */
+  agentId?: string;
   model: string;
   provider: ProviderId;
   systemPrompt?: string;
@@ -36,6 +84,43 @@ export interface RuntimeConfig {
   sessionDir?: string;
   memoryManager?: MemoryManager;
   cronService?: CronService;
+  /** 通道账号选项 (key 为 "<通道 ID>:<账号 ID>"，提供各账号的提示词与会话命名空间) */
+  channelAccounts?: Record<string, ChannelAccountOptions>;
+  /** 工具策略 (按通道/聊天过滤可用工具) */
+  toolPolicy?: ToolPolicyConfig;
+  /** 模型路由规则 (按通道/聊天/发送者选择模型) */
+  modelRouting?: ModelRoutingRule[];
+  /** 会话存储 (持久化会话中切换的模型) */
+  sessionStore?: Pick<FileSessionStore, "get" | "getOrCreate" | "upsert" | "appendTranscript">;
+  /** 用量账本 (记录每轮 token 用量并检查每日预算) */
+  usageLedger?: Pick<UsageLedger, "record" | "checkBudget">;
+  /** 是否在上下文过长时自动压缩 (默认 true) */
+  enableCompaction?: boolean;
+  /** 自动压缩阈值 (占模型上下文窗口的比例，默认 0.8) */
+  compactionThreshold?: number;
+}
+
+/** 默认自动压缩阈值 */
+const DEFAULT_COMPACTION_THRESHOLD = 0.8;
+
+/** 压缩结果 */
+export interface CompactionSummary {
+  tokensBefore: number;
+  summary: string;
+}
+
+/** 模型选择 */
+export interface ModelSelection {
+  provider: ProviderId;
+  model: string;
+}
+
+/** 会话所属的通道与聊天 (用于工具策略与模型路由) */
+interface SessionScope {
+  channelId: string;
+  chatId?: string;
+  senderId?: string;
+  chatType?: ChatType;
 }
 
 /** Chat 响应 */
@@ -48,6 +133,22 @@ export interface ChatResponse {
     completionTokens: number;
     totalTokens: number;
   };
+  /** 工具产生的待发送附件 (如 send_file) */
+  media?: OutboundBlock[];
+}
+
+/** 会话信息 */
+export interface SessionInfo {
+  sessionKey: string;
+  provider: ProviderId;
+  model: string;
+  messageCount: number;
+  usage: {
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+  };
+  lastUpdate: Date;
 }
 
 /** Stream 事件 */
@@ -65,6 +166,16 @@ export class AgentRuntime {
   private sessionDir: string;
   private skillsRegistry: SkillsRegistry | null = null;
   private customTools: AgentTool[] = [];
+  /** 各会话当前处理中的消息 (用于工具审批定位来源通道) */
+  private activeContexts = new Map<string, InboundMessageContext>();
+  /** 各会话选择的模型 */
+  private sessionModels = new Map<string, ModelSelection>();
+  /** 各会话当前应用的模型 (故障转移后为备用模型) */
+  private appliedModels = new Map<string, ModelSelection>();
+  /** 各会话来源的通道与聊天 (创建会话时从消息上下文记录) */
+  private sessionScopes = new Map<string, SessionScope>();
+  /** 一次性会话 (只保存在内存中，清除后不留文件) */
+  private ephemeralSessions = new Set<string>();
 
   constructor(config: RuntimeConfig) {
     this.config = config;
@@ -83,44 +194,87 @@ export class AgentRuntime {
     this.customTools.push(tool);
   }
 
+  /** 设置工具策略 (仅对之后创建的会话生效) */
+  setToolPolicy(policy: ToolPolicyConfig | undefined): void {
+    this.config.toolPolicy = policy;
+  }
+
+  /**
+   * 解析会话的通道与聊天范围
+   * 优先使用消息上下文 (私聊的 session key 中是 senderId 而非 chatId)，没有上下文时才从 session key 解析
+   */
+  private resolveSessionScope(sessionKey: string, context?: InboundMessageContext): SessionScope {
+    if (context) {
+      return { channelId: context.channelId, chatId: context.chatId, senderId: context.senderId, chatType: context.chatType };
+    }
+    return this.sessionScopes.get(sessionKey) ?? this.parseSessionScope(sessionKey);
+  }
+
+  /** 按工具策略解析会话可用的工具 */
+  private resolveSessionTools(sessionKey: string): AgentTool[] {
+    const { channelId, chatId } = this.resolveSessionScope(sessionKey);
+
+    const policy = resolveToolPolicy(this.config.toolPolicy, { channelId, chatId });
+    const tools = filterToolsByPolicy(this.customTools, policy);
+    if (tools.length !== this.customTools.length) {
+      logger.debug(
+        { sessionKey, allowed: tools.length, total: this.customTools.length },
+        "Tools filtered by policy"
+      );
+    }
+    return tools;
+  }
+
   /** 获取或创建会话 */
-  private async getOrCreateSession(sessionKey: string): Promise<AgentSession> {
+  private async getOrCreateSession(sessionKey: string, context?: InboundMessageContext): Promise<AgentSession> {
     let session = this.sessions.get(sessionKey);
     if (session) return session;
 
+    if (context) {
+      this.sessionScopes.set(sessionKey, this.resolveSessionScope(sessionKey, context));
+    }
+
     // 解析模型
-    const model = resolveModel(this.config.provider, this.config.model);
+    const selection = await this.getSessionModel(sessionKey, context);
+    const model = resolveModel(selection.provider, selection.model);
     if (!model) {
-      throw new Error(`Cannot resolve model: ${this.config.provider}/${this.config.model}`);
+      throw new Error(`Cannot resolve model: ${selection.provider}/${selection.model}`);
     }
 
     // 为每个会话创建独立的 SessionManager
-    const sessionFile = join(this.sessionDir, `${this.sanitizeSessionKey(sessionKey)}.jsonl`);
-    const sessionManager = SessionManager.create(this.config.workingDirectory ?? process.cwd(), sessionFile);
+    // 会话目录中已有历史记录时继续最近一次会话 (Gateway 重启后恢复上下文，包括工具调用记录)
+    const cwd = this.config.workingDirectory ?? process.cwd();
+    const sessionManager = this.ephemeralSessions.has(sessionKey)
+      ? SessionManager.inMemory(cwd)
+      : SessionManager.continueRecent(cwd, this.getSessionDirForKey(sessionKey));
 
     // 创建 AuthStorage 并从 mozi 配置预填充 API key
     const authStorage = AuthStorage.inMemory();
 
-    // 重要：使用 model.provider (由 resolveModel 设置) 而不是 this.config.provider
+    // 重要：使用 model.provider (由 resolveModel 设置) 而不是 selection.provider
     // 因为 createAgentSession 内部通过 model.provider 查找 API key
     const modelProvider = model.provider;
-    const apiKey = getApiKeyForProvider(this.config.provider);
+    const apiKey = getApiKeyForProvider(selection.provider);
     if (apiKey) {
-      // 同时设置 config.provider 和 model.provider (如果不同)
-      authStorage.set(this.config.provider, { type: "api_key", key: apiKey });
-      if (modelProvider !== this.config.provider) {
+      // 同时设置 selection.provider 和 model.provider (如果不同)
+      authStorage.set(selection.provider, { type: "api_key", key: apiKey });
+      if (modelProvider !== selection.provider) {
         authStorage.set(modelProvider, { type: "api_key", key: apiKey });
       }
-      logger.debug({ provider: this.config.provider, modelProvider }, "API key set from mozi config");
+      logger.debug({ provider: selection.provider, modelProvider }, "API key set from mozi config");
     }
 
-    // 设置 fallback resolver 以支持其他 provider
+    // 创建 ModelRegistry 使用同一个 authStorage
+    const modelRegistry = new ModelRegistry(authStorage);
+
+    // 设置 fallback resolver 以支持其他 provider (故障转移切换模型时使用)
+    // 必须在创建 ModelRegistry 之后设置，其构造函数会覆盖 fallback resolver
     authStorage.setFallbackResolver((provider: string) => {
       // 尝试直接获取
       let key = getApiKeyForProvider(provider);
-      // 如果找不到，尝试用 config.provider 的 key (因为可能是同一个服务的不同别名)
+      // 如果找不到，尝试用 selection.provider 的 key (因为可能是同一个服务的不同别名)
       if (!key && provider === modelProvider) {
-        key = getApiKeyForProvider(this.config.provider);
+        key = getApiKeyForProvider(selection.provider);
       }
       if (key) {
         logger.debug({ provider }, "Got API key from mozi config via fallback");
@@ -128,11 +282,12 @@ export class AgentRuntime {
       return key;
     });
 
-    // 创建 ModelRegistry 使用同一个 authStorage
-    const modelRegistry = new ModelRegistry(authStorage);
-
-    // 构建自定义工具定义
-    const customToolDefinitions: ToolDefinition[] = this.customTools.map((tool) => ({
+    // 构建自定义工具定义 (被策略拒绝的工具不会暴露给模型，危险工具执行前需审批)
+    const getScope = () => ({ sessionKey, context: this.activeContexts.get(sessionKey) });
+    const sessionTools = this.resolveSessionTools(sessionKey).map((tool) =>
+      wrapToolWithApproval(withToolContext(tool, getScope), getScope)
+    );
+    const customToolDefinitions: ToolDefinition[] = sessionTools.map((tool) => ({
       name: tool.name,
       label: tool.label ?? tool.name,
       description: tool.description,
@@ -148,29 +303,373 @@ export class AgentRuntime {
       model,
       thinkingLevel: "medium" as ThinkingLevel,
       sessionManager,
+      // 重试由 mozi 的故障转移负责、压缩由 mozi 按阈值触发，关闭 pi 内置的自动重试与自动压缩
+      settingsManager: SettingsManager.inMemory({ retry: { enabled: false }, compaction: { enabled: false } }),
       customTools: customToolDefinitions,
       tools: [], // 不使用默认的 coding tools，只用自定义工具
     });
 
     // 设置系统提示
-    const systemPrompt = this.buildSystemPromptText();
+    const systemPrompt = this.buildSystemPromptText(sessionKey);
     newSession.agent.setSystemPrompt(systemPrompt);
 
     // 如果有自定义工具，设置到 agent
-    if (this.customTools.length > 0) {
-      newSession.agent.setTools(this.customTools);
+    if (sessionTools.length > 0) {
+      newSession.agent.setTools(sessionTools);
     }
 
     this.sessions.set(sessionKey, newSession);
-    logger.debug({ sessionKey }, "New session created");
+    this.sessionModels.set(sessionKey, selection);
+    this.appliedModels.set(sessionKey, selection);
+    logger.debug({ sessionKey, provider: selection.provider, model: selection.model }, "New session created");
+
+    if (context) {
+      emitSessionStart({
+        channelId: context.channelId,
+        chatId: context.chatId,
+        senderId: context.senderId,
+        sessionKey,
+      });
+    }
 
     return newSession;
   }
 
-  /** 构建系统提示 */
-  private buildSystemPromptText(): string {
+  /**
+   * 解析会话使用的模型
+   * 优先级: 当前会话模型 > 会话中切换并持久化的模型 > 路由规则 > 默认模型
+   */
+  async getSessionModel(sessionKey: string, context?: InboundMessageContext): Promise<ModelSelection> {
+    const current = this.sessionModels.get(sessionKey);
+    if (current) return current;
+
+    const persisted = await this.loadPersistedModel(sessionKey);
+    if (persisted) return persisted;
+
+    const rule = matchModelRoute(this.config.modelRouting, this.resolveSessionScope(sessionKey, context));
+    if (rule) {
+      return { provider: rule.provider, model: rule.model };
+    }
+
+    return { provider: this.config.provider, model: this.config.model };
+  }
+
+  /**
+   * 切换会话模型
+   * 已有会话会以新模型重建并保留历史消息；选择会持久化到会话存储
+   */
+  async setSessionModel(sessionKey: string, selection: ModelSelection): Promise<void> {
+    if (!resolveModel(selection.provider, selection.model)) {
+      throw new Error(`Cannot resolve model: ${selection.provider}/${selection.model}`);
+    }
+
+    const session = this.sessions.get(sessionKey);
+    if (session?.isStreaming) {
+      throw new Error("Session is busy, try again after the current reply finishes");
+    }
+
+    await this.persistSessionModel(sessionKey, selection);
+    this.sessionModels.set(sessionKey, selection);
+    this.appliedModels.set(sessionKey, selection);
+
+    if (session) {
+      const messages = [...session.messages];
+      session.dispose();
+      this.sessions.delete(sessionKey);
+
+      // 会话文件中的历史会被继续；尚未落盘的消息直接带入新会话
+      const newSession = await this.getOrCreateSession(sessionKey);
+      if (newSession.messages.length === 0 && messages.length > 0) {
+        newSession.agent.replaceMessages(messages);
+      }
+    }
+
+    logger.info({ sessionKey, provider: selection.provider, model: selection.model }, "Session model switched");
+  }
+
+  /** 读取会话存储中持久化的模型 */
+  private async loadPersistedModel(sessionKey: string): Promise<ModelSelection | null> {
+    if (!this.config.sessionStore || this.ephemeralSessions.has(sessionKey)) return null;
+    try {
+      const entry = await this.config.sessionStore.get(sessionKey);
+      if (entry?.provider && entry.model) {
+        return { provider: entry.provider as ProviderId, model: entry.model };
+      }
+    } catch (error) {
+      logger.warn({ error, sessionKey }, "Failed to load session model");
+    }
+    return null;
+  }
+
+  /** 持久化会话模型 */
+  private async persistSessionModel(sessionKey: string, selection: ModelSelection): Promise<void> {
+    if (!this.config.sessionStore || this.ephemeralSessions.has(sessionKey)) return;
+    const entry = await this.config.sessionStore.getOrCreate(sessionKey);
+    await this.config.sessionStore.upsert({
+      ...entry,
+      provider: selection.provider,
+      model: selection.model,
+      updatedAt: Date.now(),
+    });
+  }
+
+  /**
+   * 订阅会话事件并转发为 Hook 事件 (工具执行)
+   * 返回取消订阅函数
+   */
+  private observeSession(session: AgentSession, sessionKey: string, media: OutboundBlock[]): () => void {
+    const toolStartTimes = new Map<string, number>();
+
+    return session.subscribe((event: AgentSessionEvent) => {
+      if (event.type === "tool_execution_start") {
+        toolStartTimes.set(event.toolCallId, Date.now());
+        emitToolStart({
+          toolName: event.toolName,
+          toolCallId: event.toolCallId,
+          arguments: event.args,
+          sessionKey,
+        });
+      } else if (event.type === "tool_execution_end") {
+        const startedAt = toolStartTimes.get(event.toolCallId) ?? Date.now();
+        toolStartTimes.delete(event.toolCallId);
+        emitToolEnd({
+          toolName: event.toolName,
+          toolCallId: event.toolCallId,
+          result: event.result,
+          isError: event.isError,
+          durationMs: Date.now() - startedAt,
+          sessionKey,
+        });
+        if (!event.isError) {
+          media.push(...getOutboundMedia((event.result as { details?: unknown } | undefined)?.details));
+        }
+      }
+    });
+  }
+
+  /**
+   * 上下文超过阈值 (模型上下文窗口的一定比例) 时自动压缩
+   * 压缩失败不影响本次对话
+   */
+  private async maybeCompact(session: AgentSession, sessionKey: string): Promise<void> {
+    if (this.config.enableCompaction === false) return;
+
+    const usage = session.getContextUsage();
+    if (!usage || usage.tokens === null) return;
+
+    const threshold = this.config.compactionThreshold ?? DEFAULT_COMPACTION_THRESHOLD;
+    if (usage.tokens < usage.contextWindow * threshold) return;
+
+    logger.info({ sessionKey, tokens: usage.tokens, contextWindow: usage.contextWindow }, "Context threshold reached, compacting");
+    try {
+      await this.runCompaction(session, sessionKey);
+    } catch (error) {
+      logger.warn({ error, sessionKey }, "Auto compaction failed");
+    }
+  }
+
+  /** 压缩会话上下文: 触发 Hook，并将摘要写入转录记录 */
+  private async runCompaction(
+    session: AgentSession,
+    sessionKey: string,
+    customInstructions?: string
+  ): Promise<CompactionSummary> {
+    const startedAt = Date.now();
+    const messageCount = session.messages.length;
+    emitCompactionStart({
+      messageCount,
+      estimatedTokens: session.getContextUsage()?.tokens ?? 0,
+      sessionKey,
+    });
+
+    // 保留的最近上下文随模型窗口缩放，避免小窗口模型几乎无可压缩内容
+    const contextWindow = session.model?.contextWindow;
+    if (contextWindow) {
+      session.settingsManager.applyOverrides({ compaction: getCompactionSettings(contextWindow) });
+    }
+
+    const result = await session.compact(customInstructions);
+    emitCompactionEnd({
+      compactedMessages: Math.max(0, messageCount - session.messages.length),
+      summaryLength: result.summary.length,
+      durationMs: Date.now() - startedAt,
+      sessionKey,
+    });
+
+    // 压缩后首条为摘要，其余为保留的最近消息
+    await this.persistCompaction(sessionKey, {
+      role: "system",
+      content: result.summary,
+      timestamp: Date.now(),
+      compaction: { tokensBefore: result.tokensBefore, keptMessages: Math.max(0, session.messages.length - 1) },
+    });
+
+    logger.info({ sessionKey, tokensBefore: result.tokensBefore }, "Session compacted");
+    return { tokensBefore: result.tokensBefore, summary: result.summary };
+  }
+
+  /** 将压缩摘要追加到会话转录 (会话存储中没有该会话时跳过) */
+  private async persistCompaction(sessionKey: string, message: TranscriptMessage): Promise<void> {
+    const store = this.config.sessionStore;
+    if (!store || this.ephemeralSessions.has(sessionKey)) return;
+    try {
+      const entry = await store.get(sessionKey);
+      if (entry) {
+        await store.appendTranscript(entry.sessionId, sessionKey, message);
+      }
+    } catch (error) {
+      logger.warn({ error, sessionKey }, "Failed to persist compaction summary");
+    }
+  }
+
+  /**
+   * 构建模型输入: 附件图片在模型支持图片输入时作为图片内容发送，
+   * 否则自动调用 image_analyze 识别为文本
+   */
+  private async buildPrompt(context: InboundMessageContext, selection: ModelSelection): Promise<MediaPrompt> {
+    if (!context.attachments?.length) {
+      return { text: context.content, images: [] };
+    }
+    const model = resolveModel(selection.provider, selection.model);
+    return buildMediaPrompt(context.content, context.attachments, {
+      supportsVision: model?.input.includes("image") ?? false,
+      analyzeImage: async (path) => (await analyzeImage(path)).analysis,
+    });
+  }
+
+  /**
+   * 发送消息，遇到可重试错误 (限流、服务端错误等) 时按故障转移链处理:
+   * 同一模型指数退避重试，重试耗尽后提供商进入冷却并切换到下一个备用模型
+   * 返回实际应答的模型
+   */
+  private async promptWithFailover(
+    session: AgentSession,
+    sessionKey: string,
+    prompt: MediaPrompt,
+    primary: ModelSelection,
+    signal?: AbortSignal
+  ): Promise<ModelSelection> {
+    const { maxRetries } = getFailoverSettings();
+    let prompted = false;
+    let lastError: string | undefined;
+
+    for (const candidate of getFailoverChain(primary)) {
+      if (!(await this.applySessionModel(session, candidate))) continue;
+      this.appliedModels.set(sessionKey, candidate);
+
+      for (let retry = 0; retry <= maxRetries; retry++) {
+        if (retry > 0) {
+          await new Promise((resolve) => setTimeout(resolve, getRetryDelay(retry - 1)));
+        }
+        if (signal?.aborted) return candidate;
+
+        if (!prompted) {
+          prompted = true;
+          await session.prompt(prompt.text, prompt.images.length > 0 ? { images: prompt.images } : undefined);
+        } else {
+          // 移除上次的错误消息后继续 (错误仍保留在会话文件中)
+          if (getLastAssistantError(session) !== undefined) {
+            session.agent.replaceMessages(session.messages.slice(0, -1));
+          }
+          await session.agent.continue();
+        }
+        await session.agent.waitForIdle();
+
+        const error = getLastAssistantError(session);
+        if (error === undefined) {
+          reportProviderSuccess(candidate.provider);
+          return candidate;
+        }
+
+        reportProviderFailure(candidate.provider, error);
+        lastError = error;
+        if (!isRetryableProviderError(error)) {
+          throw new Error(`Model request failed (${candidate.provider}/${candidate.model}): ${error}`);
+        }
+        logger.warn(
+          { sessionKey, provider: candidate.provider, model: candidate.model, retry, error },
+          "Retryable model error"
+        );
+        // 已熔断则不再重试该提供商
+        if (!isProviderHealthy(candidate.provider)) break;
+      }
+
+      markProviderCooldown(candidate.provider);
+    }
+
+    throw new Error(lastError ? `All models failed: ${lastError}` : `No available model for ${primary.provider}/${primary.model}`);
+  }
+
+  /** 将会话切换到候选模型，无法解析或缺少 API key 时返回 false */
+  private async applySessionModel(session: AgentSession, candidate: ModelSelection): Promise<boolean> {
+    const model = resolveModel(candidate.provider, candidate.model);
+    if (!model) return false;
+    if (session.model?.provider === model.provider && session.model.id === model.id) return true;
+
+    try {
+      await session.setModel(model);
+      logger.info({ provider: candidate.provider, model: candidate.model }, "Session model applied");
+      return true;
+    } catch (error) {
+      logger.warn({ error, provider: candidate.provider, model: candidate.model }, "Failed to apply model");
+      return false;
+    }
+  }
+
+  /** 将本轮新增助手消息的 token 用量记入账本 */
+  private recordUsage(
+    session: AgentSession,
+    fromIndex: number,
+    sessionKey: string,
+    context: InboundMessageContext,
+    answered: ModelSelection
+  ): void {
+    const ledger = this.config.usageLedger;
+    if (!ledger) return;
+
+    const usage = { input: 0, output: 0, cacheRead: 0, cacheWrite: 0 };
+    for (const message of session.messages.slice(fromIndex)) {
+      if (message.role !== "assistant") continue;
+      usage.input += message.usage.input;
+      usage.output += message.usage.output;
+      usage.cacheRead += message.usage.cacheRead;
+      usage.cacheWrite += message.usage.cacheWrite;
+    }
+    if (usage.input + usage.output + usage.cacheRead + usage.cacheWrite === 0) return;
+
+    ledger.record({
+      sessionKey,
+      channelId: context.channelId,
+      chatId: context.chatId,
+      senderId: context.senderId,
+      provider: answered.provider,
+      model: answered.model,
+      usage,
+      cost: resolveModel(answered.provider, answered.model)?.cost,
+    });
+  }
+
+  /** 构建 Chat 响应 */
+  private buildChatResponse(session: AgentSession, selection: ModelSelection, media: OutboundBlock[]): ChatResponse {
+    const stats = session.getSessionStats();
+    return {
+      content: session.getLastAssistantText() ?? "",
+      provider: selection.provider,
+      model: selection.model,
+      usage: {
+        promptTokens: stats.tokens.input,
+        completionTokens: stats.tokens.output,
+        totalTokens: stats.tokens.total,
+      },
+      media: media.length > 0 ? media : undefined,
+    };
+  }
+
+  /** 构建系统提示 (默认 Agent 在账号配置了 systemPrompt 时替换默认提示词，命名 Agent 使用自己的提示词) */
+  private buildSystemPromptText(sessionKey: string): string {
+    const accountPrompt = this.config.agentId ? undefined : this.getSessionAccount(sessionKey)?.systemPrompt;
     return buildSystemPrompt({
-      basePrompt: this.config.systemPrompt,
+      basePrompt: accountPrompt ?? this.config.systemPrompt,
       workingDirectory: this.config.workingDirectory,
       includeEnvironment: true,
       includeDateTime: true,
@@ -180,46 +679,94 @@ export class AgentRuntime {
     });
   }
 
+  /** 会话 key 对应的 pi 会话目录 */
+  private getSessionDirForKey(sessionKey: string): string {
+    return join(this.sessionDir, `${this.sanitizeSessionKey(sessionKey)}.jsonl`);
+  }
+
   /** 清理 session key 使其可作为文件名 */
   private sanitizeSessionKey(key: string): string {
     return key.replace(/[^a-zA-Z0-9_-]/g, "_");
   }
 
-  /** 从 context 获取 session key */
-  private getSessionKey(context: InboundMessageContext): string {
-    if (context.chatType === "group") {
-      return `${context.channelId}:${context.chatId}`;
+  /** 从 context 获取 session key (多账号通道加入账号的会话命名空间，命名 Agent 加后缀) */
+  getSessionKey(context: InboundMessageContext): string {
+    const peerId = context.chatType === "group" ? context.chatId : context.senderId;
+    let key = context.sessionKey ?? `${context.channelId}:${peerId}`;
+    if (context.accountId && !context.sessionKey) {
+      const account = this.config.channelAccounts?.[`${context.channelId}:${context.accountId}`];
+      key = `${context.channelId}:${account?.sessionNamespace ?? context.accountId}:${peerId}`;
+    }
+    return this.config.agentId ? `${key}:agent:${this.config.agentId}` : key;
+  }
+
+  /** 从 session key 解析通道与聊天 ID (去掉账号的会话命名空间与命名 Agent 后缀) */
+  private parseSessionScope(sessionKey: string): SessionScope {
+    const suffix = this.config.agentId ? `:agent:${this.config.agentId}` : "";
+    const key = suffix && sessionKey.endsWith(suffix) ? sessionKey.slice(0, -suffix.length) : sessionKey;
+    const scope = parseSessionKey(key);
+    const account = this.getSessionAccount(key);
+    if (account && scope.chatId) {
+      scope.chatId = scope.chatId.slice((account.sessionNamespace ?? account.id).length + 1);
+    }
+    return scope;
+  }
+
+  /** 按 session key 的命名空间查找通道账号 */
+  private getSessionAccount(sessionKey: string): ChannelAccountOptions | undefined {
+    for (const [key, account] of Object.entries(this.config.channelAccounts ?? {})) {
+      const channelId = key.slice(0, key.indexOf(":"));
+      if (sessionKey.startsWith(`${channelId}:${account.sessionNamespace ?? account.id}:`)) {
+        return account;
+      }
     }
-    return `${context.channelId}:${context.senderId}`;
+    return undefined;
   }
 
   /** 非流式聊天 */
   async chat(context: InboundMessageContext): Promise<ChatResponse> {
     const sessionKey = this.getSessionKey(context);
     logger.debug({ sessionKey, content: context.content.slice(0, 100) }, "Processing message");
+    await this.config.usageLedger?.checkBudget(context.channelId, context.senderId);
 
-    const session = await this.getOrCreateSession(sessionKey);
+    const session = await this.getOrCreateSession(sessionKey, context);
+    await this.maybeCompact(session, sessionKey);
+    const selection = await this.getSessionModel(sessionKey, context);
+    this.activeContexts.set(sessionKey, context);
+    const startedAt = Date.now();
+    emitAgentStart({
+      provider: selection.provider,
+      model: selection.model,
+      messages: [{ role: "user", content: context.content }],
+      sessionKey,
+    });
 
     // 发送消息
-    await session.prompt(context.content);
-    await session.agent.waitForIdle();
-
-    // 提取最后一条助手消息
-    const lastText = session.getLastAssistantText() ?? "";
-
-    // 获取使用统计
-    const stats = session.getSessionStats();
+    const media: OutboundBlock[] = [];
+    const unobserve = this.observeSession(session, sessionKey, media);
+    const messageCount = session.messages.length;
+    let answered: ModelSelection;
+    try {
+      const prompt = await this.buildPrompt(context, selection);
+      answered = await this.promptWithFailover(session, sessionKey, prompt, selection);
+    } catch (error) {
+      emitError(error instanceof Error ? error : new Error(String(error)), "runtime.chat", sessionKey);
+      throw error;
+    } finally {
+      unobserve();
+    }
 
-    return {
-      content: lastText,
-      provider: this.config.provider,
-      model: this.config.model,
-      usage: {
-        promptTokens: stats.tokens.input,
-        completionTokens: stats.tokens.output,
-        totalTokens: stats.tokens.total,
-      },
-    };
+    this.recordUsage(session, messageCount, sessionKey, context, answered);
+    const response = this.buildChatResponse(session, answered, media);
+    emitAgentEnd({
+      provider: response.provider,
+      model: response.model,
+      response: response.content,
+      usage: response.usage,
+      durationMs: Date.now() - startedAt,
+      sessionKey,
+    });
+    return response;
   }
 
   /** 流式聊天 */
@@ -229,8 +776,22 @@ export class AgentRuntime {
   ): AsyncGenerator<StreamEvent, ChatResponse, unknown> {
     const sessionKey = this.getSessionKey(context);
     logger.debug({ sessionKey, content: context.content.slice(0, 100) }, "Processing message (stream)");
+    await this.config.usageLedger?.checkBudget(context.channelId, context.senderId);
 
-    const session = await this.getOrCreateSession(sessionKey);
+    const session = await this.getOrCreateSession(sessionKey, context);
+    await this.maybeCompact(session, sessionKey);
+    const selection = await this.getSessionModel(sessionKey, context);
+    this.activeContexts.set(sessionKey, context);
+    const startedAt = Date.now();
+    emitAgentStart({
+      provider: selection.provider,
+      model: selection.model,
+      messages: [{ role: "user", content: context.content }],
+      sessionKey,
+    });
+
+    // 先准备 prompt，出错时不会留下事件订阅
+    const prompt = await this.buildPrompt(context, selection);
 
     // 事件队列
     const eventQueue: StreamEvent[] = [];
@@ -238,6 +799,8 @@ export class AgentRuntime {
     let promptError: Error | null = null;
 
     // 订阅事件
+    const media: OutboundBlock[] = [];
+    const unobserve = this.observeSession(session, sessionKey, media);
     const unsubscribe = session.subscribe((event: AgentSessionEvent) => {
       if (event.type === "message_update") {
         const updateEvent = event as { type: "message_update"; assistantMessageEvent: { type: string; delta?: string } };
@@ -251,17 +814,21 @@ export class AgentRuntime {
       } else if (event.type === "tool_execution_end") {
         const toolEvent = event as { type: "tool_execution_end"; isError: boolean };
         eventQueue.push({ type: "tool_end", isError: toolEvent.isError });
-      } else if (event.type === "agent_end") {
-        done = true;
       }
     });
 
-    // 启动 prompt
-    const promptPromise = session.prompt(context.content)
-      .then(() => session.agent.waitForIdle())
+    // 启动 prompt (故障转移重试期间会产生多次 agent_end，以整体完成为准)
+    let answered = selection;
+    const messageCount = session.messages.length;
+    const promptPromise = this.promptWithFailover(session, sessionKey, prompt, selection, options?.signal)
+      .then((model) => {
+        answered = model;
+      })
       .catch((err: unknown) => {
-        done = true;
         promptError = err instanceof Error ? err : new Error(String(err));
+      })
+      .finally(() => {
+        done = true;
       });
 
     // 流式输出事件
@@ -287,28 +854,28 @@ export class AgentRuntime {
       }
     } finally {
       unsubscribe();
+      unobserve();
     }
 
     await promptPromise;
 
     if (promptError) {
+      emitError(promptError, "runtime.chatStream", sessionKey);
       throw promptError;
     }
 
     // 获取结果
-    const lastText = session.getLastAssistantText() ?? "";
-    const stats = session.getSessionStats();
-
-    return {
-      content: lastText,
-      provider: this.config.provider,
-      model: this.config.model,
-      usage: {
-        promptTokens: stats.tokens.input,
-        completionTokens: stats.tokens.output,
-        totalTokens: stats.tokens.total,
-      },
-    };
+    this.recordUsage(session, messageCount, sessionKey, context, answered);
+    const response = this.buildChatResponse(session, answered, media);
+    emitAgentEnd({
+      provider: response.provider,
+      model: response.model,
+      response: response.content,
+      usage: response.usage,
+      durationMs: Date.now() - startedAt,
+      sessionKey,
+    });
+    return response;
   }
 
   /** 获取参数预览 */
@@ -322,71 +889,324 @@ export class AgentRuntime {
     return "";
   }
 
+  /**
+   * 将会话标记为一次性会话 (需在会话创建前调用)
+   * 会话只保存在内存中，不写会话文件与会话存储，清除时直接丢弃
+   */
+  useEphemeralSession(sessionKey: string): void {
+    this.ephemeralSessions.add(sessionKey);
+  }
+
   /** 清除会话 */
   async clearSession(context: InboundMessageContext): Promise<void> {
     const sessionKey = this.getSessionKey(context);
     const session = this.sessions.get(sessionKey);
     if (session) {
+      this.emitSessionEndHook(session, sessionKey);
+      const sessionFile = session.sessionFile;
       session.dispose();
       this.sessions.delete(sessionKey);
+
+      // 归档会话文件，避免下次创建会话时被继续
+      if (sessionFile && fs.existsSync(sessionFile)) {
+        await fs.promises.rename(sessionFile, `${sessionFile}.cleared.${Date.now()}`);
+      }
     }
+    this.sessionModels.delete(sessionKey);
+    this.appliedModels.delete(sessionKey);
+    this.sessionScopes.delete(sessionKey);
+    this.ephemeralSessions.delete(sessionKey);
+    this.activeContexts.delete(sessionKey);
+    clearSessionApprovals(sessionKey);
     logger.debug({ sessionKey }, "Session cleared");
   }
 
+  /** 触发会话结束 Hook */
+  private emitSessionEndHook(session: AgentSession, sessionKey: string): void {
+    const stats = session.getSessionStats();
+    emitSessionEnd({
+      messageCount: stats.totalMessages,
+      totalTokens: stats.tokens.total,
+      sessionKey,
+    });
+  }
+
   /** 获取会话信息 */
-  getSessionInfo(context: InboundMessageContext): {
-    messageCount: number;
-    lastUpdate: Date;
-  } | null {
+  getSessionInfo(context: InboundMessageContext): SessionInfo | null {
     const sessionKey = this.getSessionKey(context);
     const session = this.sessions.get(sessionKey);
     if (!session) return null;
 
     const stats = session.getSessionStats();
+    // 提供商与模型取自同一来源，故障转移后报告实际使用的备用模型
+    const applied = this.appliedModels.get(sessionKey) ?? this.sessionModels.get(sessionKey);
     return {
+      sessionKey,
+      provider: applied?.provider ?? this.config.provider,
+      model: applied?.model ?? this.config.model,
       messageCount: stats.totalMessages,
+      usage: {
+        promptTokens: stats.tokens.input,
+        completionTokens: stats.tokens.output,
+        totalTokens: stats.tokens.total,
+      },
       lastUpdate: new Date(),
     };
   }
 
-  /** 从历史恢复会话 */
-  async restoreSessionFromTranscript(
-    sessionKey: string,
-    messages: Array<{ role: "user" | "assistant"; content: string }>
-  ): Promise<void> {
+  /** 手动压缩会话上下文 (无会话时返回 null) */
+  async compactSession(
+    context: InboundMessageContext,
+    customInstructions?: string
+  ): Promise<CompactionSummary | null> {
+    const sessionKey = this.getSessionKey(context);
+    const session = this.sessions.get(sessionKey);
+    if (!session) return null;
+    return this.runCompaction(session, sessionKey, customInstructions);
+  }
+
+  /**
+   * 从历史恢复会话
+   * 优先继续会话目录中的 pi 会话文件；没有时用转录记录 (含工具调用) 重建上下文
+   * 返回恢复后的消息数
+   */
+  async restoreSessionFromTranscript(sessionKey: string, messages: TranscriptMessage[]): Promise<number> {
     const session = await this.getOrCreateSession(sessionKey);
+    if (session.messages.length > 0) {
+      logger.debug({ sessionKey, messageCount: session.messages.length }, "Session already has context");
+      return session.messages.length;
+    }
 
-    // AgentSession 会自动持久化，这里我们可以通过发送初始消息来恢复上下文
-    // 注意：这是一个简化的实现，真正的恢复可能需要更复杂的处理
-    if (messages.length > 0) {
-      logger.debug({ sessionKey, messageCount: messages.length }, "Session restored from transcript");
+    const restored = transcriptToMessages(messages, session.model);
+    if (restored.length === 0) return 0;
+
+    session.agent.replaceMessages(restored);
+    for (const message of restored) {
+      session.sessionManager.appendMessage(message);
     }
+
+    logger.info({ sessionKey, messageCount: restored.length }, "Session restored from transcript");
+    return restored.length;
   }
 
   /** 关闭所有会话 */
   async shutdown(): Promise<void> {
-    for (const session of this.sessions.values()) {
+    for (const [sessionKey, session] of this.sessions) {
+      this.emitSessionEndHook(session, sessionKey);
       session.dispose();
     }
     this.sessions.clear();
+    this.sessionModels.clear();
+    this.appliedModels.clear();
+    this.sessionScopes.clear();
+    this.ephemeralSessions.clear();
+    this.activeContexts.clear();
     logger.info("All sessions disposed");
   }
 }
 
-/** 创建 AgentRuntime */
-export function createAgentRuntime(config: MoziConfig): AgentRuntime {
-  const runtimeConfig: RuntimeConfig = {
-    model: config.agent.defaultModel,
-    provider: config.agent.defaultProvider,
-    systemPrompt: config.agent.systemPrompt,
-    temperature: config.agent.temperature,
-    maxTokens: config.agent.maxTokens,
-    workingDirectory: config.agent.workingDirectory,
-    sessionDir: config.sessions?.directory,
+/** 按模型上下文窗口计算压缩参数 (摘要预留与保留的最近 token 数) */
+export function getCompactionSettings(contextWindow: number): { reserveTokens: number; keepRecentTokens: number } {
+  return {
+    reserveTokens: Math.min(16384, Math.floor(contextWindow * 0.2)),
+    keepRecentTokens: Math.min(20000, Math.floor(contextWindow * 0.25)),
   };
+}
+
+/** 获取最后一条助手消息的错误信息 (未出错时返回 undefined) */
+function getLastAssistantError(session: AgentSession): string | undefined {
+  const last = session.messages[session.messages.length - 1];
+  if (!last || last.role !== "assistant" || last.stopReason !== "error") return undefined;
+  return last.errorMessage ?? "Unknown error";
+}
+
+/** 解析 session key (形如 "channel:chatId") */
+function parseSessionKey(sessionKey: string): { channelId: string; chatId?: string } {
+  const separator = sessionKey.indexOf(":");
+  return {
+    channelId: separator === -1 ? sessionKey : sessionKey.slice(0, separator),
+    chatId: separator === -1 ? undefined : sessionKey.slice(separator + 1),
+  };
+}
+
+/** 匹配模型路由规则，返回第一条命中的规则 */
+export function matchModelRoute(
+  rules: ModelRoutingRule[] | undefined,
+  scope: { channelId: string; chatId?: string; senderId?: string; chatType?: ChatType }
+): ModelRoutingRule | undefined {
+  return rules?.find(
+    (rule) =>
+      (rule.channel === undefined || rule.channel === scope.channelId) &&
+      (rule.chatId === undefined || rule.chatId === scope.chatId) &&
+      (rule.senderId === undefined || rule.senderId === scope.senderId) &&
+      (rule.chatType === undefined || rule.chatType === scope.chatType)
+  );
+}
+
+/** 转换转录内容为 pi-ai 内容块 */
+function toContentBlocks(content: TranscriptMessage["content"]): Array<TextContent | ImageContent> {
+  if (typeof content === "string") {
+    return content ? [{ type: "text", text: content }] : [];
+  }
+  if (!content) return [];
+
+  const blocks: Array<TextContent | ImageContent> = [];
+  for (const part of content) {
+    if (part.type === "text") {
+      blocks.push({ type: "text", text: part.text });
+    } else if (part.base64) {
+      blocks.push({ type: "image", data: part.base64, mimeType: part.mediaType ?? "image/png" });
+    }
+  }
+  return blocks;
+}
+
+/** 解析工具调用参数 (JSON 字符串) */
+function parseToolArguments(raw: string): Record<string, unknown> {
+  try {
+    const parsed = JSON.parse(raw) as unknown;
+    return parsed && typeof parsed === "object" ? (parsed as Record<string, unknown>) : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * 将转录记录转换为 pi-ai 消息
+ * 没有对应结果的工具调用 (以及没有对应调用的结果) 会被丢弃，避免模型 API 拒绝不完整的工具调用序列；
+ * 遇到压缩记录时，之前的消息替换为摘要加保留的最近消息
+ */
+export function transcriptToMessages(
+  transcript: TranscriptMessage[],
+  model?: Pick<Model<Api>, "api" | "provider" | "id">
+): Message[] {
+  const toolNames = new Map<string, string>();
+  const answeredToolCalls = new Set<string>();
+  for (const entry of transcript) {
+    for (const call of entry.role === "assistant" ? entry.tool_calls ?? [] : []) {
+      toolNames.set(call.id, call.function.name);
+    }
+    if (entry.role === "tool" && entry.tool_call_id) {
+      answeredToolCalls.add(entry.tool_call_id);
+    }
+  }
 
-  // 初始化模型解析器
+  let messages: Message[] = [];
+  for (const entry of transcript) {
+    if (entry.role === "system" && entry.compaction) {
+      const { keptMessages } = entry.compaction;
+      const kept = keptMessages > 0 ? messages.slice(-keptMessages) : [];
+      // 保留部分不能以工具结果开头 (对应的调用已被压缩)
+      while (kept[0]?.role === "toolResult") kept.shift();
+      const summary = typeof entry.content === "string" ? entry.content : "";
+      messages = [
+        {
+          role: "user",
+          content: [{ type: "text", text: `以下是此前对话的摘要:\n\n<summary>\n${summary}\n</summary>` }],
+          timestamp: entry.timestamp,
+        },
+        ...kept,
+      ];
+    } else if (entry.role === "user") {
+      const content = toContentBlocks(entry.content);
+      if (content.length === 0) continue;
+      messages.push({ role: "user", content, timestamp: entry.timestamp });
+    } else if (entry.role === "assistant") {
+      const toolCalls: ToolCall[] = (entry.tool_calls ?? [])
+        .filter((call) => answeredToolCalls.has(call.id))
+        .map((call) => ({
+          type: "toolCall",
+          id: call.id,
+          name: call.function.name,
+          arguments: parseToolArguments(call.function.arguments),
+        }));
+      const content: AssistantMessage["content"] = [
+        ...toContentBlocks(entry.content).filter((block): block is TextContent => block.type === "text"),
+        ...toolCalls,
+      ];
+      if (content.length === 0) continue;
+
+      messages.push({
+        role: "assistant",
+        content,
+        api: model?.api ?? "openai-completions",
+        provider: entry.provider ?? model?.provider ?? "unknown",
+        model: entry.model ?? model?.id ?? "unknown",
+        usage: {
+          input: entry.usage?.promptTokens ?? 0,
+          output: entry.usage?.completionTokens ?? 0,
+          cacheRead: 0,
+          cacheWrite: 0,
+          totalTokens: entry.usage?.totalTokens ?? 0,
+          cost: { input: 0, output: 0, cacheRead: 0, cacheWrite: 0, total: 0 },
+        },
+        stopReason: toolCalls.length > 0 ? "toolUse" : "stop",
+        timestamp: entry.timestamp,
+      });
+    } else if (entry.role === "tool" && entry.tool_call_id) {
+      const toolName = toolNames.get(entry.tool_call_id);
+      if (!toolName) continue;
+      messages.push({
+        role: "toolResult",
+        toolCallId: entry.tool_call_id,
+        toolName,
+        content: toContentBlocks(entry.content),
+        isError: false,
+        timestamp: entry.timestamp,
+      });
+    }
+  }
+
+  return messages;
+}
+
+/** 收集各通道配置的账号选项 */
+function getChannelAccountOptions(config: MoziConfig): Record<string, ChannelAccountOptions> {
+  const result: Record<string, ChannelAccountOptions> = {};
+  for (const [channelId, channelConfig] of Object.entries(config.channels)) {
+    for (const { accountId, options } of resolveChannelAccounts(channelConfig)) {
+      if (accountId && options) result[`${channelId}:${accountId}`] = options;
+    }
+  }
+  return result;
+}
+
+/** 各 Agent 共用的全局服务 */
+export interface AgentServices {
+  usageLedger?: UsageLedger;
+}
+
+/** 初始化模型解析器、工具审批与用量账本 (全局单例，所有 Agent 共用，只需初始化一次) */
+export function initAgentServices(config: MoziConfig): AgentServices {
   initModelResolver(config);
+  configureApprovals(config.agent.tools?.approval);
+  return { usageLedger: config.usage?.enabled !== false ? initUsageLedger(config.usage) : undefined };
+}
+
+/** 创建 AgentRuntime (传入命名 Agent 时以其配置覆盖 agent 配置；未传入共用服务时自行初始化) */
+export function createAgentRuntime(
+  config: MoziConfig,
+  named?: NamedAgentConfig,
+  services: AgentServices = initAgentServices(config)
+): AgentRuntime {
+  const runtimeConfig: RuntimeConfig = {
+    agentId: named?.id,
+    model: named?.model ?? config.agent.defaultModel,
+    provider: named?.provider ?? config.agent.defaultProvider,
+    systemPrompt: named?.systemPrompt ?? config.agent.systemPrompt,
+    temperature: named?.temperature ?? config.agent.temperature,
+    maxTokens: named?.maxTokens ?? config.agent.maxTokens,
+    workingDirectory: named?.workingDirectory ?? config.agent.workingDirectory,
+    sessionDir: config.sessions?.directory,
+    channelAccounts: getChannelAccountOptions(config),
+    toolPolicy: named?.tools?.policy ?? config.agent.tools?.policy,
+    // 命名 Agent 指定了模型时不再按全局模型路由改写
+    modelRouting: named?.model ? undefined : config.agent.modelRouting,
+    sessionStore: getSessionStore(),
+    usageLedger: services.usageLedger,
+    enableCompaction: config.agent.enableCompaction,
+    compactionThreshold: config.agent.compactionThreshold,
+  };
 
   return new AgentRuntime(runtimeConfig);
 }
\ No newline at end of file
@@ -0,0 +1,76 @@
+/**
+ * 内置通道工厂
+ */
+
+import type {
+  FeishuConfig,
+  DingtalkConfig,
+  QQConfig,
+  WeComConfig,
+  WebhookConfig,
+  TelegramConfig,
+  SlackConfig,
+  DiscordConfig,
+} from "../types/index.js";
+import { registerChannelFactory, getChannelFactory, type ChannelFactory } from "./common/index.js";
+import { createFeishuChannel } from "./feishu/index.js";
+import { createDingtalkChannel } from "./dingtalk/index.js";
+import { createQQChannel } from "./qq/index.js";
+import { createWeComChannel } from "./wecom/index.js";
+import { createWebhookChannel } from "./webhook/index.js";
+import { createTelegramChannel } from "./telegram/index.js";
+import { createSlackChannel } from "./slack/index.js";
+import { createDiscordChannel } from "./discord/index.js";
+
+const BUILTIN_FACTORIES: ChannelFactory[] = [
+  {
+    id: "feishu",
+    create: (config) => createFeishuChannel(config as FeishuConfig),
+    describe: () => "WebSocket 长连接已启动",
+  },
+  {
+    id: "dingtalk",
+    create: (config) => createDingtalkChannel(config as DingtalkConfig),
+    describe: () => "Stream 长连接已启动",
+  },
+  {
+    id: "qq",
+    create: (config) => createQQChannel(config as QQConfig),
+    describe: () => "WebSocket 长连接已启动",
+  },
+  {
+    id: "wecom",
+    create: (config) => createWeComChannel(config as WeComConfig),
+    describe: (_config, routeUrl) => `${routeUrl}/webhook`,
+  },
+  {
+    id: "webhook",
+    create: (config) => createWebhookChannel(config as WebhookConfig),
+    describe: (_config, routeUrl) => routeUrl,
+  },
+  {
+    id: "telegram",
+    create: (config) => createTelegramChannel(config as TelegramConfig),
+    describe: () => "长轮询已启动",
+  },
+  {
+    id: "slack",
+    create: (config) => createSlackChannel(config as SlackConfig),
+    describe: (config, routeUrl) =>
+      (config as SlackConfig).appToken ? "Socket Mode 长连接已启动" : `Events API ${routeUrl}/events`,
+  },
+  {
+    id: "discord",
+    create: (config) => createDiscordChannel(config as DiscordConfig),
+    describe: () => "Gateway 长连接已启动",
+  },
+];
+
+/** 注册内置通道工厂 (不覆盖插件已注册的同名通道) */
+export function registerBuiltinChannels(): void {
+  for (const factory of BUILTIN_FACTORIES) {
+    if (!getChannelFactory(factory.id)) {
+      registerChannelFactory(factory);
+    }
+  }
+}
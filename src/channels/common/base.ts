@@ -7,10 +7,12 @@ import type {
   ChannelMeta,
   ChannelCapabilities,
   InboundMessageContext,
+  MediaAttachment,
   OutboundMessage,
   SendResult,
 } from "../../types/index.js";
 import { getChildLogger } from "../../utils/logger.js";
+import { getMediaCache } from "../../media/cache.js";
 
 /** 通道适配器接口 */
 export interface ChannelAdapter {
@@ -20,6 +22,9 @@ export interface ChannelAdapter {
   /** 通道元数据 */
   meta: ChannelMeta;
 
+  /** 账号 ID (同一通道配置多个账号时由 Gateway 设置) */
+  accountId?: string;
+
   /** 初始化通道 */
   initialize(): Promise<void>;
 
@@ -37,10 +42,167 @@ export interface ChannelAdapter {
    */
   replyToContext(context: InboundMessageContext, text: string): Promise<SendResult>;
 
+  /**
+   * 创建流式回复 (可选)，通道不支持或当前消息无法流式回复时返回 null
+   */
+  createReplyStream?(context: InboundMessageContext): Promise<ReplyStream | null>;
+
+  /** 查询发送者所在部门 ID (可选，用于按部门的访问控制) */
+  getSenderDepartments?(senderId: string): Promise<string[]>;
+
+  /** 下载消息附件到媒体缓存 (可选，由 Gateway 在通过访问控制与限流后调用) */
+  resolveAttachments?(context: InboundMessageContext): Promise<void>;
+
   /** 检查通道状态 */
   isHealthy(): Promise<boolean>;
 }
 
+/** 流式回复句柄 */
+export interface ReplyStream {
+  /** 更新回复 (text 为目前已生成的完整文本，progress 为工具执行进度行) */
+  update(text: string, progress: string[]): Promise<void>;
+  /** 写入最终文本并结束回复 */
+  finish(text: string): Promise<SendResult>;
+}
+
+/** 分段流式回复选项 */
+export interface ChunkedReplyStreamOptions {
+  /** 单条消息最大长度 */
+  maxLength: number;
+  /** 生成过程中发送分段的最小长度 */
+  minChunkLength?: number;
+  /** 最多发送的消息条数 (含结束时的消息) */
+  maxMessages?: number;
+}
+
+/**
+ * 分段流式回复 (用于不支持编辑消息的通道)
+ * 生成过程中按段落发送已完成的部分，结束时发送剩余内容；不显示工具进度
+ */
+export class ChunkedReplyStream implements ReplyStream {
+  private send: (text: string) => Promise<SendResult>;
+  private options: Required<ChunkedReplyStreamOptions>;
+  /** 已发送的文本长度 */
+  private sentLength = 0;
+  private sentMessages = 0;
+  private lastResult: SendResult = { success: true };
+
+  constructor(send: (text: string) => Promise<SendResult>, options: ChunkedReplyStreamOptions) {
+    this.send = send;
+    this.options = {
+      minChunkLength: 200,
+      maxMessages: Number.POSITIVE_INFINITY,
+      ...options,
+    };
+  }
+
+  async update(text: string): Promise<void> {
+    // 保留一条消息给结束时的剩余内容
+    while (this.sentMessages < this.options.maxMessages - 1) {
+      const pending = text.slice(this.sentLength);
+      let end = pending.slice(0, this.options.maxLength).lastIndexOf("\n\n") + 2;
+      if (end < this.options.minChunkLength) {
+        // 超长且没有合适的段落边界时强制切分
+        if (pending.length <= this.options.maxLength) return;
+        end = this.options.maxLength;
+      }
+
+      const chunk = pending.slice(0, end).trim();
+      this.sentLength += end;
+      if (chunk) await this.sendChunk(chunk);
+    }
+  }
+
+  async finish(text: string): Promise<SendResult> {
+    let pending = text.slice(this.sentLength).trim();
+    while (pending) {
+      const chunk = pending.slice(0, this.options.maxLength);
+      await this.sendChunk(chunk);
+      // 达到条数上限时丢弃超出部分
+      pending = this.sentMessages < this.options.maxMessages ? pending.slice(chunk.length).trim() : "";
+    }
+    this.sentLength = text.length;
+    return this.lastResult;
+  }
+
+  private async sendChunk(text: string): Promise<void> {
+    this.sentMessages++;
+    this.lastResult = await this.send(text);
+    if (!this.lastResult.success) {
+      throw new Error(this.lastResult.error ?? "Failed to send reply chunk");
+    }
+  }
+}
+
+/** 按长度切分文本 (尽量在换行处切分) */
+export function splitText(text: string, maxLength: number): string[] {
+  const chunks: string[] = [];
+  let rest = text;
+  while (rest.length > maxLength) {
+    const newline = rest.lastIndexOf("\n", maxLength);
+    const end = newline > maxLength / 2 ? newline : maxLength;
+    chunks.push(rest.slice(0, end));
+    rest = rest.slice(end).replace(/^\n/, "");
+  }
+  if (rest || chunks.length === 0) chunks.push(rest);
+  return chunks;
+}
+
+/** 编辑式流式回复选项 */
+export interface EditableReplyStreamOptions {
+  /** 发送新消息，返回消息 ID */
+  send(text: string): Promise<string>;
+  /** 编辑已发送的消息 */
+  edit(messageId: string, text: string): Promise<void>;
+  /** 单条消息最大长度 */
+  maxLength: number;
+}
+
+/**
+ * 编辑式流式回复 (用于支持编辑消息的通道)
+ * 生成过程中反复编辑同一条消息并附带工具进度，结束时超长部分另发新消息
+ */
+export class EditableReplyStream implements ReplyStream {
+  private options: EditableReplyStreamOptions;
+  private messageId: string | null = null;
+
+  constructor(options: EditableReplyStreamOptions) {
+    this.options = options;
+  }
+
+  async update(text: string, progress: string[]): Promise<void> {
+    const status = progress.length > 0 ? `\n\n${progress.join("\n")}` : "";
+    const body = `${text || "思考中…"}${status}`;
+    const { maxLength } = this.options;
+    // 生成过程中只显示末尾部分
+    await this.write(body.length > maxLength ? `…${body.slice(body.length - maxLength + 1)}` : body);
+  }
+
+  async finish(text: string): Promise<SendResult> {
+    const [first, ...rest] = splitText(text.trim() || "…", this.options.maxLength);
+    await this.write(first!);
+    let messageId = this.messageId ?? undefined;
+    for (const chunk of rest) {
+      messageId = await this.options.send(chunk);
+    }
+    return { success: true, messageId };
+  }
+
+  private async write(text: string): Promise<void> {
+    if (this.messageId) {
+      await this.options.edit(this.messageId, text);
+    } else {
+      this.messageId = await this.options.send(text);
+    }
+  }
+}
+
+/** 下载的附件数据 */
+export interface DownloadedMedia {
+  data: Buffer;
+  mimeType?: string;
+}
+
 /** 消息处理器类型 */
 export type MessageHandler = (context: InboundMessageContext) => Promise<void>;
 
@@ -48,6 +210,7 @@ export type MessageHandler = (context: InboundMessageContext) => Promise<void>;
 export abstract class BaseChannelAdapter implements ChannelAdapter {
   abstract id: ChannelId;
   abstract meta: ChannelMeta;
+  accountId?: string;
 
   protected logger = getChildLogger("channel");
   protected messageHandler?: MessageHandler;
@@ -57,8 +220,12 @@ export abstract class BaseChannelAdapter implements ChannelAdapter {
     this.messageHandler = handler;
   }
 
+  /** 下载附件 (支持媒体消息的通道实现) */
+  protected downloadAttachment?(context: InboundMessageContext, attachment: MediaAttachment): Promise<DownloadedMedia>;
+
   /** 处理入站消息 */
   protected async handleInboundMessage(context: InboundMessageContext): Promise<void> {
+    if (this.accountId) context.accountId ??= this.accountId;
     if (this.messageHandler) {
       await this.messageHandler(context);
     } else {
@@ -71,6 +238,33 @@ export abstract class BaseChannelAdapter implements ChannelAdapter {
   abstract sendMessage(message: OutboundMessage): Promise<SendResult>;
   abstract sendText(chatId: string, text: string, replyToId?: string): Promise<SendResult>;
 
+  /** 将附件下载到本地媒体缓存 (下载失败的附件没有 path，不影响消息处理) */
+  async resolveAttachments(context: InboundMessageContext): Promise<void> {
+    if (!context.attachments?.length || !this.downloadAttachment) return;
+
+    const cache = getMediaCache();
+    for (const attachment of context.attachments) {
+      if (attachment.path) continue;
+      try {
+        const media = await this.downloadAttachment(context, attachment);
+        const saved = cache.save(media.data, {
+          channelId: this.id,
+          type: attachment.type,
+          fileName: attachment.fileName,
+          mimeType: media.mimeType ?? attachment.mimeType,
+        });
+        attachment.path = saved.path;
+        attachment.size = saved.size;
+        attachment.mimeType = saved.mimeType ?? attachment.mimeType;
+      } catch (error) {
+        this.logger.warn(
+          { error, channelId: this.id, messageId: context.messageId, type: attachment.type },
+          "Failed to download attachment"
+        );
+      }
+    }
+  }
+
   /** 默认实现：使用 chatId 与 messageId 调用 sendText */
   async replyToContext(context: InboundMessageContext, text: string): Promise<SendResult> {
     return this.sendText(context.chatId, text, context.messageId);
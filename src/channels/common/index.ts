@@ -2,23 +2,64 @@
  * 通道注册表
  */
 
-import type { ChannelId } from "../../types/index.js";
+import type { Router } from "express";
+import type { BuiltinChannelId, ChannelId } from "../../types/index.js";
 import type { ChannelAdapter, MessageHandler } from "./base.js";
 import { getChildLogger } from "../../utils/logger.js";
 
 export * from "./base.js";
+export * from "./rich.js";
 
 const logger = getChildLogger("channels");
 
-/** 通道注册表 */
-const channels = new Map<ChannelId, ChannelAdapter>();
+/** 由 Gateway 按配置创建的通道 (需要 HTTP 回调的通道实现 createRouter) */
+export interface ConfigurableChannel extends ChannelAdapter {
+  setMessageHandler(handler: MessageHandler): void;
+  createRouter?(): Router;
+}
+
+/** 通道工厂 (根据 channels.<id> 配置块创建通道，插件可注册新的通道) */
+export interface ChannelFactory {
+  id: ChannelId;
+  /** 创建通道实例 */
+  create(config: unknown): ConfigurableChannel;
+  /** HTTP 路由挂载路径 (默认 /<id>) */
+  routePath?: string;
+  /** 启动信息 (接入方式说明，routeUrl 为该通道 HTTP 路由的完整地址) */
+  describe?(config: unknown, routeUrl: string): string;
+}
+
+/** 所有内置通道 ID (含不可投递的 webchat 与 api) */
+const BUILTIN_CHANNEL_IDS: BuiltinChannelId[] = [
+  "feishu",
+  "dingtalk",
+  "qq",
+  "wecom",
+  "webchat",
+  "api",
+  "webhook",
+  "telegram",
+  "slack",
+  "discord",
+];
+
+/** 通道注册表 (key 为通道 ID，多账号时为 "<通道 ID>:<账号 ID>") */
+const channels = new Map<string, ChannelAdapter>();
+
+/** 通道工厂注册表 */
+const factories = new Map<ChannelId, ChannelFactory>();
 
 /** 全局消息处理器 */
 let globalMessageHandler: MessageHandler | undefined;
 
+/** 通道实例在注册表中的 key */
+function channelKey(id: ChannelId, accountId?: string): string {
+  return accountId ? `${id}:${accountId}` : id;
+}
+
 /** 注册通道 */
 export function registerChannel(channel: ChannelAdapter): void {
-  channels.set(channel.id, channel);
+  channels.set(channelKey(channel.id, channel.accountId), channel);
 
   // 如果有全局消息处理器，设置到通道
   if (globalMessageHandler && "setMessageHandler" in channel) {
@@ -27,12 +68,13 @@ export function registerChannel(channel: ChannelAdapter): void {
     );
   }
 
-  logger.info({ channel: channel.id }, "Channel registered");
+  logger.info({ channel: channel.id, accountId: channel.accountId }, "Channel registered");
 }
 
-/** 获取通道 */
-export function getChannel(id: ChannelId): ChannelAdapter | undefined {
-  return channels.get(id);
+/** 获取通道 (未指定账号时返回该通道第一个注册的账号) */
+export function getChannel(id: ChannelId, accountId?: string): ChannelAdapter | undefined {
+  if (accountId) return channels.get(channelKey(id, accountId));
+  return channels.get(id) ?? getAllChannels().find((channel) => channel.id === id);
 }
 
 /** 获取所有通道 */
@@ -41,8 +83,39 @@ export function getAllChannels(): ChannelAdapter[] {
 }
 
 /** 检查通道是否可用 */
-export function hasChannel(id: ChannelId): boolean {
-  return channels.has(id);
+export function hasChannel(id: ChannelId, accountId?: string): boolean {
+  return getChannel(id, accountId) !== undefined;
+}
+
+/** 获取通道已注册的账号 ID */
+export function getChannelAccountIds(id: ChannelId): string[] {
+  return getAllChannels()
+    .filter((channel) => channel.id === id && channel.accountId)
+    .map((channel) => channel.accountId!);
+}
+
+/** 注册通道工厂 (同 ID 覆盖) */
+export function registerChannelFactory(factory: ChannelFactory): void {
+  if (factories.has(factory.id)) {
+    logger.warn({ channel: factory.id }, "Channel factory replaced");
+  }
+  factories.set(factory.id, factory);
+}
+
+/** 获取通道工厂 */
+export function getChannelFactory(id: ChannelId): ChannelFactory | undefined {
+  return factories.get(id);
+}
+
+/** 可作为投递目标的通道 ID (内置、已注册工厂或已注册实例) */
+export function getKnownChannelIds(): ChannelId[] {
+  const ids = new Set<ChannelId>([
+    ...BUILTIN_CHANNEL_IDS,
+    ...factories.keys(),
+    ...getAllChannels().map((channel) => channel.id),
+  ]);
+  ids.delete("api");
+  return Array.from(ids);
 }
 
 /** 设置全局消息处理器 */
@@ -0,0 +1,180 @@
+/**
+ * 出站富内容 - 各通道渲染器共用的工具函数
+ */
+
+import { readFileSync } from "fs";
+import { lookup } from "dns/promises";
+import { isIP } from "net";
+import { basename, extname } from "path";
+import type { OutboundBlock, OutboundMessage } from "../../types/index.js";
+import { detectImageMimeType, readLimitedBody } from "../../media/cache.js";
+
+/** 图片扩展名 */
+const IMAGE_EXTENSIONS = new Set([".jpg", ".jpeg", ".png", ".gif", ".webp", ".bmp"]);
+
+/** 远程媒体下载超时 */
+const MEDIA_FETCH_TIMEOUT_MS = 30_000;
+
+/** 远程媒体最多跟随的重定向次数 */
+const MAX_MEDIA_REDIRECTS = 3;
+
+/** 加载后的媒体 */
+export interface LoadedMedia {
+  data: Buffer;
+  fileName: string;
+  mimeType?: string;
+}
+
+/** 消息是否包含需要渲染的富内容 (纯文本消息沿用各通道原有的文本发送) */
+export function hasRichContent(message: OutboundMessage): boolean {
+  return !!(message.blocks?.length || message.mediaUrls?.length);
+}
+
+/** 汇总出站消息的内容块: 文本在前，其次为 blocks，mediaUrls 按扩展名视为图片或文件 */
+export function getOutboundBlocks(message: OutboundMessage): OutboundBlock[] {
+  const blocks: OutboundBlock[] = [];
+  if (message.content.trim()) {
+    blocks.push({ type: "markdown", text: message.content });
+  }
+  blocks.push(...(message.blocks ?? []));
+  for (const url of message.mediaUrls ?? []) {
+    blocks.push(isImageSource(url) ? { type: "image", source: url } : { type: "file", source: url });
+  }
+  return blocks;
+}
+
+/** 根据扩展名或 data URL 判断是否为图片 */
+export function isImageSource(source: string): boolean {
+  if (source.startsWith("data:")) return source.startsWith("data:image/");
+  const pathname = /^https?:\/\//.test(source) ? new URL(source).pathname : source;
+  return IMAGE_EXTENSIONS.has(extname(pathname).toLowerCase());
+}
+
+/** 是否为远程 URL */
+export function isRemoteSource(source: string): boolean {
+  return /^https?:\/\//.test(source);
+}
+
+/** 读取媒体来源 (本地路径、http(s) URL 或 data URL) */
+export async function loadMediaSource(source: string, fileName?: string): Promise<LoadedMedia> {
+  if (source.startsWith("data:")) {
+    const match = source.match(/^data:([^;,]+)?(;base64)?,(.*)$/s);
+    if (!match) {
+      throw new Error("Invalid data URL");
+    }
+    const data = match[2] ? Buffer.from(match[3]!, "base64") : Buffer.from(decodeURIComponent(match[3]!));
+    return { data, fileName: fileName ?? "file", mimeType: match[1] };
+  }
+
+  if (isRemoteSource(source)) {
+    const response = await fetchPublicUrl(source);
+    if (!response.ok) {
+      await response.body?.cancel();
+      throw new Error(`Failed to fetch media: ${response.status}`);
+    }
+    const data = await readLimitedBody(response);
+    return {
+      data,
+      fileName: fileName ?? (basename(new URL(source).pathname) || "file"),
+      mimeType: response.headers.get("content-type")?.split(";")[0] ?? detectImageMimeType(data),
+    };
+  }
+
+  const data = readFileSync(source);
+  return { data, fileName: fileName ?? basename(source), mimeType: detectImageMimeType(data) };
+}
+
+/** 下载远程媒体 (带超时，逐跳检查重定向目标，拒绝内网与链路本地地址) */
+async function fetchPublicUrl(source: string): Promise<Response> {
+  const signal = AbortSignal.timeout(MEDIA_FETCH_TIMEOUT_MS);
+  let url = new URL(source);
+  for (let redirects = 0; ; redirects++) {
+    if (url.protocol !== "http:" && url.protocol !== "https:") {
+      throw new Error(`Unsupported media URL: ${url.protocol}`);
+    }
+    await assertPublicHost(url.hostname);
+    const response = await fetch(url, { signal, redirect: "manual" });
+    const location = response.headers.get("location");
+    if (response.status < 300 || response.status >= 400 || !location) return response;
+
+    await response.body?.cancel();
+    if (redirects >= MAX_MEDIA_REDIRECTS) {
+      throw new Error("Too many redirects when fetching media");
+    }
+    url = new URL(location, url);
+  }
+}
+
+/** 主机名解析到内网、回环或链路本地地址时抛出错误 */
+async function assertPublicHost(hostname: string): Promise<void> {
+  const host = hostname.replace(/^\[|\]$/g, "");
+  const addresses = isIP(host) ? [host] : (await lookup(host, { all: true })).map((entry) => entry.address);
+  const blocked = addresses.find(isPrivateAddress);
+  if (blocked) {
+    throw new Error(`Refusing to fetch media from private address: ${hostname} (${blocked})`);
+  }
+}
+
+/** 是否为内网、回环、链路本地或保留地址 */
+function isPrivateAddress(address: string): boolean {
+  if (isIP(address) === 6) {
+    const lower = address.toLowerCase();
+    // IPv4 映射地址 (URL 会规范化为 ::ffff:7f00:1 形式)
+    const mapped = lower.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+    if (mapped) return isPrivateAddress(mapped[1]!);
+    const hex = lower.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+    if (hex) {
+      const high = parseInt(hex[1]!, 16);
+      const low = parseInt(hex[2]!, 16);
+      return isPrivateAddress(`${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`);
+    }
+    return (
+      lower === "::" ||
+      lower === "::1" ||
+      /^f[cd]/.test(lower) ||
+      /^fe[89ab]/.test(lower) ||
+      /^ff/.test(lower)
+    );
+  }
+
+  const [a = 0, b = 0] = address.split(".").map(Number);
+  return (
+    a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    a >= 224 ||
+    (a === 100 && b >= 64 && b < 128) ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b < 32) ||
+    (a === 192 && b === 168)
+  );
+}
+
+/** 将内容块渲染为 Markdown 文本 (不支持对应消息类型时降级使用) */
+export function blocksToMarkdown(blocks: OutboundBlock[]): string {
+  return blocks
+    .map((block) => {
+      switch (block.type) {
+        case "markdown":
+          return block.text;
+        case "image":
+          return isRemoteSource(block.source) ? `![图片](${block.source})` : "[图片]";
+        case "file": {
+          const name = block.fileName ?? basename(block.source.split("?")[0] ?? block.source);
+          return isRemoteSource(block.source) ? `[文件: ${name}](${block.source})` : `[文件: ${name}]`;
+        }
+        case "card":
+          return [
+            block.title ? `**${block.title}**` : "",
+            block.text,
+            ...(block.buttons ?? []).map((button) =>
+              button.url ? `[${button.text}](${button.url})` : `${button.text}: 发送 ${button.command ?? ""}`
+            ),
+          ]
+            .filter(Boolean)
+            .join("\n\n");
+      }
+    })
+    .filter(Boolean)
+    .join("\n\n");
+}
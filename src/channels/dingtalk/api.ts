@@ -2,9 +2,11 @@
  * 钉钉 API 客户端
  */
 
+import { randomUUID } from "crypto";
 import type { DingtalkConfig } from "../../types/index.js";
 import { getChildLogger } from "../../utils/logger.js";
 import { retry, computeHmacSha256 } from "../../utils/index.js";
+import { readLimitedBody } from "../../media/cache.js";
 import NodeCache from "node-cache";
 
 const logger = getChildLogger("dingtalk-api");
@@ -32,6 +34,12 @@ interface SendMessageResponse {
   flowControlledUserId?: string[];
 }
 
+/** 机器人消息模板与参数 */
+export interface DingtalkRobotPayload {
+  msgKey: string;
+  msgParam: Record<string, string>;
+}
+
 /** 钉钉 API 客户端 */
 export class DingtalkApiClient {
   private config: DingtalkConfig;
@@ -152,7 +160,20 @@ export class DingtalkApiClient {
     userId: string,
     content: string
   ): Promise<void> {
-    logger.debug({ userId }, "Sending robot message");
+    await this.sendRobotPayload(userId, { msgKey: "sampleText", msgParam: { content } });
+  }
+
+  /** 机器人发送群消息 */
+  async sendGroupMessage(
+    openConversationId: string,
+    content: string
+  ): Promise<void> {
+    await this.sendGroupPayload(openConversationId, { msgKey: "sampleText", msgParam: { content } });
+  }
+
+  /** 机器人发送单聊消息 (任意消息模板，如 sampleMarkdown、sampleImageMsg、sampleFile) */
+  async sendRobotPayload(userId: string, payload: DingtalkRobotPayload): Promise<void> {
+    logger.debug({ userId, msgKey: payload.msgKey }, "Sending robot message");
 
     await this.request(
       "POST",
@@ -160,18 +181,15 @@ export class DingtalkApiClient {
       {
         robotCode: this.config.robotCode,
         userIds: [userId],
-        msgKey: "sampleText",
-        msgParam: JSON.stringify({ content }),
+        msgKey: payload.msgKey,
+        msgParam: JSON.stringify(payload.msgParam),
       }
     );
   }
 
-  /** 机器人发送群消息 */
-  async sendGroupMessage(
-    openConversationId: string,
-    content: string
-  ): Promise<void> {
-    logger.debug({ openConversationId }, "Sending group message");
+  /** 机器人发送群消息 (任意消息模板) */
+  async sendGroupPayload(openConversationId: string, payload: DingtalkRobotPayload): Promise<void> {
+    logger.debug({ openConversationId, msgKey: payload.msgKey }, "Sending group message");
 
     await this.request(
       "POST",
@@ -179,12 +197,49 @@ export class DingtalkApiClient {
       {
         robotCode: this.config.robotCode,
         openConversationId,
-        msgKey: "sampleText",
-        msgParam: JSON.stringify({ content }),
+        msgKey: payload.msgKey,
+        msgParam: JSON.stringify(payload.msgParam),
       }
     );
   }
 
+  /** 上传媒体文件，返回 media_id (可用于 sampleImageMsg 的 photoURL 与 sampleFile) */
+  async uploadMedia(data: Buffer, fileName: string, type: "image" | "file"): Promise<string> {
+    const token = await this.getAccessToken();
+    const form = new FormData();
+    form.append("media", new Blob([data]), fileName);
+
+    const response = await fetch(`${DINGTALK_OLD_API_BASE}/media/upload?access_token=${token}&type=${type}`, {
+      method: "POST",
+      body: form,
+    });
+    if (!response.ok) {
+      throw new Error(`Failed to upload media: ${response.status}`);
+    }
+
+    const result = (await response.json()) as DingtalkApiResponse & { media_id?: string };
+    if (result.errcode !== undefined && result.errcode !== 0) {
+      throw new Error(`DingTalk API Error [${result.errcode}]: ${result.errmsg}`);
+    }
+    if (!result.media_id) {
+      throw new Error("No media_id in upload response");
+    }
+    return result.media_id;
+  }
+
+  /** 通过 sessionWebhook 发送任意消息 (text、markdown、actionCard 等) */
+  async sendWebhookPayload(sessionWebhook: string, body: unknown): Promise<void> {
+    const response = await fetch(sessionWebhook, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to send webhook message: ${response.status}`);
+    }
+  }
+
   /** 回复 Webhook 消息 */
   async replyWebhookMessage(
     sessionWebhook: string,
@@ -226,6 +281,73 @@ export class DingtalkApiClient {
     }
   }
 
+  /**
+   * 创建并投放 AI 卡片
+   * openSpaceId: 群聊为 dtv1.card//IM_GROUP.{conversationId}，单聊为 dtv1.card//IM_ROBOT.{userId}
+   */
+  async createAndDeliverCard(params: {
+    cardTemplateId: string;
+    outTrackId: string;
+    openSpaceId: string;
+    isGroup: boolean;
+    cardParamMap: Record<string, string>;
+  }): Promise<void> {
+    logger.debug({ outTrackId: params.outTrackId, openSpaceId: params.openSpaceId }, "Delivering card");
+
+    const robotCode = this.config.robotCode ?? this.config.appKey;
+    await this.request("POST", "/v1.0/card/instances/createAndDeliver", {
+      cardTemplateId: params.cardTemplateId,
+      outTrackId: params.outTrackId,
+      cardData: { cardParamMap: params.cardParamMap },
+      callbackType: "STREAM",
+      openSpaceId: params.openSpaceId,
+      ...(params.isGroup
+        ? {
+            imGroupOpenSpaceModel: { supportForward: true },
+            imGroupOpenDeliverModel: { robotCode },
+          }
+        : {
+            imRobotOpenSpaceModel: { supportForward: true },
+            imRobotOpenDeliverModel: { spaceType: "IM_ROBOT", robotCode },
+          }),
+    });
+  }
+
+  /** 流式更新 AI 卡片变量 (全量替换) */
+  async streamCard(params: {
+    outTrackId: string;
+    key: string;
+    content: string;
+    isFinalize: boolean;
+  }): Promise<void> {
+    await this.request("PUT", "/v1.0/card/streaming", {
+      outTrackId: params.outTrackId,
+      guid: randomUUID(),
+      key: params.key,
+      content: params.content,
+      isFull: true,
+      isFinalize: params.isFinalize,
+      isError: false,
+    });
+  }
+
+  /** 下载机器人收到的图片、文件、语音或视频 (downloadCode 换取临时下载地址) */
+  async downloadMessageFile(downloadCode: string): Promise<{ data: Buffer; mimeType?: string }> {
+    const { downloadUrl } = await this.request<{ downloadUrl: string }>("POST", "/v1.0/robot/messageFiles/download", {
+      downloadCode,
+      robotCode: this.config.robotCode ?? this.config.appKey,
+    });
+
+    const response = await fetch(downloadUrl);
+    if (!response.ok) {
+      throw new Error(`Failed to download message file: ${response.status}`);
+    }
+    return {
+      data: await readLimitedBody(response),
+      mimeType: response.headers.get("content-type") ?? undefined,
+    };
+  }
+
   /** 获取用户信息 */
   async getUserInfo(userId: string): Promise<unknown> {
     return this.request(
@@ -2,7 +2,7 @@
  * 钉钉事件处理
  */
 
-import type { DingtalkConfig, InboundMessageContext, ChatType } from "../../types/index.js";
+import type { DingtalkConfig, InboundMessageContext, ChatType, MediaAttachment } from "../../types/index.js";
 import { getChildLogger } from "../../utils/logger.js";
 import { computeHmacSha256 } from "../../utils/index.js";
 
@@ -32,6 +32,20 @@ export interface DingtalkCallbackMessage {
     text?: string;
     pictureDownloadCode?: string;
   }>;
+  /** 图片、文件、语音、视频及富文本消息内容 */
+  content?: {
+    downloadCode?: string;
+    pictureDownloadCode?: string;
+    fileName?: string;
+    /** 语音识别文本 */
+    recognition?: string;
+    richText?: Array<{
+      text?: string;
+      type?: string;
+      downloadCode?: string;
+      pictureDownloadCode?: string;
+    }>;
+  };
   /** 发送者ID */
   senderStaffId?: string;
   /** 发送者昵称 */
@@ -61,6 +75,64 @@ export interface DingtalkCallbackMessage {
   isInAtList?: boolean;
 }
 
+/** 解析钉钉消息的文本内容 (媒体消息使用占位文本) */
+export function parseDingtalkMessageContent(message: DingtalkCallbackMessage): string {
+  switch (message.msgtype) {
+    case "text":
+      return message.text?.content || "";
+
+    case "richText":
+      return (
+        (message.content?.richText ?? message.richText)
+          ?.map((item) => item.text || "[图片]")
+          .join("") || ""
+      );
+
+    case "picture":
+      return "[图片]";
+
+    case "video":
+      return "[视频]";
+
+    case "file":
+      return message.content?.fileName ? `[文件: ${message.content.fileName}]` : "[文件]";
+
+    case "audio":
+      // 钉钉已完成语音识别时直接使用识别文本
+      return message.content?.recognition || "[语音]";
+
+    default:
+      return `[${message.msgtype}]`;
+  }
+}
+
+/** 解析钉钉消息中的附件 (downloadCode 用于下载) */
+export function parseDingtalkAttachments(message: DingtalkCallbackMessage): MediaAttachment[] {
+  const content = message.content;
+  const downloadCode = content?.downloadCode ?? content?.pictureDownloadCode;
+
+  switch (message.msgtype) {
+    case "picture":
+      return downloadCode ? [{ type: "image", key: downloadCode }] : [];
+    case "file":
+      return downloadCode ? [{ type: "file", key: downloadCode, fileName: content?.fileName }] : [];
+    case "audio":
+      return downloadCode ? [{ type: "audio", key: downloadCode }] : [];
+    case "video":
+      return downloadCode ? [{ type: "video", key: downloadCode }] : [];
+    case "richText": {
+      const items: Array<{ downloadCode?: string; pictureDownloadCode?: string }> =
+        content?.richText ?? message.richText ?? [];
+      return items
+        .map((item) => item.downloadCode ?? item.pictureDownloadCode)
+        .filter((code): code is string => !!code)
+        .map((code) => ({ type: "image" as const, key: code }));
+    }
+    default:
+      return [];
+  }
+}
+
 /** 钉钉 Stream 消息 */
 export interface DingtalkStreamMessage {
   specVersion: string;
@@ -128,32 +200,7 @@ export class DingtalkEventHandler {
 
   /** 解析消息内容 */
   parseMessageContent(message: DingtalkCallbackMessage): string {
-    switch (message.msgtype) {
-      case "text":
-        return message.text?.content || "";
-
-      case "richText":
-        return (
-          message.richText
-            ?.map((item) => item.text || "[图片]")
-            .join("") || ""
-        );
-
-      case "picture":
-        return "[图片]";
-
-      case "video":
-        return "[视频]";
-
-      case "file":
-        return "[文件]";
-
-      case "audio":
-        return "[语音]";
-
-      default:
-        return `[${message.msgtype}]`;
-    }
+    return parseDingtalkMessageContent(message);
   }
 
   /** 将钉钉消息转换为通用消息上下文 */
@@ -165,6 +212,7 @@ export class DingtalkEventHandler {
     }
 
     const content = this.parseMessageContent(message);
+    const attachments = parseDingtalkAttachments(message);
 
     // 移除 @机器人 的内容
     let cleanContent = content;
@@ -183,9 +231,10 @@ export class DingtalkEventHandler {
       senderId: message.senderStaffId || "",
       senderName: message.senderNick,
       content: cleanContent,
-      mediaUrls: undefined,
+      attachments: attachments.length > 0 ? attachments : undefined,
       replyToId: undefined,
       mentions: message.atUsers?.map((u) => u.staffId || u.dingtalkId),
+      mentionedBot: message.isInAtList,
       timestamp: message.createAt || Date.now(),
       raw: message,
     };
@@ -11,12 +11,22 @@ import type {
   OutboundMessage,
   SendResult,
   InboundMessageContext,
+  MediaAttachment,
+  OutboundBlock,
 } from "../../types/index.js";
-import { BaseChannelAdapter } from "../common/base.js";
-import { DingtalkApiClient } from "./api.js";
+import { BaseChannelAdapter, type ReplyStream, type DownloadedMedia } from "../common/base.js";
+import {
+  blocksToMarkdown,
+  getOutboundBlocks,
+  hasRichContent,
+  isRemoteSource,
+  loadMediaSource,
+} from "../common/rich.js";
+import { DingtalkApiClient, type DingtalkRobotPayload } from "./api.js";
 import { DingtalkEventHandler, type DingtalkCallbackMessage } from "./events.js";
 import { DingtalkStreamClient } from "./stream.js";
 import { getChildLogger } from "../../utils/logger.js";
+import { generateId } from "../../utils/index.js";
 
 /** 钉钉通道元数据 */
 const DINGTALK_META: ChannelMeta = {
@@ -35,6 +45,50 @@ const DINGTALK_META: ChannelMeta = {
   },
 };
 
+/** 机器人 ActionCard 模板最多支持的按钮数 */
+const MAX_ACTION_CARD_BUTTONS = 5;
+
+/** 构建 Markdown / ActionCard 消息 (机器人接口与会话 webhook 两种格式) */
+function buildTextPayload(
+  title: string,
+  text: string,
+  links: Array<{ text: string; url?: string }>
+): { robot: DingtalkRobotPayload; webhook: unknown } {
+  const buttons = links.slice(0, MAX_ACTION_CARD_BUTTONS);
+  if (buttons.length === 0) {
+    return {
+      robot: { msgKey: "sampleMarkdown", msgParam: { title, text } },
+      webhook: { msgtype: "markdown", markdown: { title, text } },
+    };
+  }
+
+  const webhook = {
+    msgtype: "actionCard",
+    actionCard: {
+      title,
+      text,
+      btnOrientation: "0",
+      btns: buttons.map((button) => ({ title: button.text, actionURL: button.url })),
+    },
+  };
+  if (buttons.length === 1) {
+    return {
+      robot: {
+        msgKey: "sampleActionCard",
+        msgParam: { title, text, singleTitle: buttons[0]!.text, singleURL: buttons[0]!.url ?? "" },
+      },
+      webhook,
+    };
+  }
+
+  const msgParam: Record<string, string> = { title, text };
+  buttons.forEach((button, index) => {
+    msgParam[`actionTitle${index + 1}`] = button.text;
+    msgParam[`actionURL${index + 1}`] = button.url ?? "";
+  });
+  return { robot: { msgKey: `sampleActionCard${buttons.length}`, msgParam }, webhook };
+}
+
 /** 会话上下文缓存 */
 interface SessionContext {
   sessionWebhook: string;
@@ -45,7 +99,7 @@ interface SessionContext {
 
 export class DingtalkChannel extends BaseChannelAdapter {
   readonly id = "dingtalk" as const;
-  readonly meta = DINGTALK_META;
+  readonly meta: ChannelMeta;
 
   private config: DingtalkConfig;
   private apiClient: DingtalkApiClient;
@@ -59,6 +113,11 @@ export class DingtalkChannel extends BaseChannelAdapter {
   constructor(config: DingtalkConfig) {
     super();
     this.config = config;
+    // 配置 AI 卡片模板后支持流式更新回复
+    this.meta = {
+      ...DINGTALK_META,
+      capabilities: { ...DINGTALK_META.capabilities, supportsEdit: !!config.cardTemplateId },
+    };
     this.apiClient = new DingtalkApiClient(config);
     this.eventHandler = new DingtalkEventHandler(config);
     this.logger = getChildLogger("dingtalk");
@@ -114,6 +173,14 @@ export class DingtalkChannel extends BaseChannelAdapter {
     await this.streamClient.start();
   }
 
+  /** 通过 downloadCode 下载图片、文件、语音或视频 */
+  protected async downloadAttachment(
+    _context: InboundMessageContext,
+    attachment: MediaAttachment
+  ): Promise<DownloadedMedia> {
+    return this.apiClient.downloadMessageFile(attachment.key);
+  }
+
   /** 关闭通道 */
   async shutdown(): Promise<void> {
     this.logger.info("Shutting down DingTalk channel");
@@ -130,6 +197,11 @@ export class DingtalkChannel extends BaseChannelAdapter {
   /** 发送消息 */
   async sendMessage(message: OutboundMessage): Promise<SendResult> {
     try {
+      if (hasRichContent(message)) {
+        await this.sendRichMessage(message);
+        return { success: true };
+      }
+
       // 优先使用缓存的 session webhook
       const session = this.sessionCache.get(message.chatId);
 
@@ -153,11 +225,75 @@ export class DingtalkChannel extends BaseChannelAdapter {
     }
   }
 
+  /**
+   * 发送富内容: 文本与卡片渲染为 Markdown，带链接按钮时渲染为 ActionCard；
+   * 图片与文件上传后通过机器人消息接口发送
+   */
+  private async sendRichMessage(message: OutboundMessage): Promise<void> {
+    const blocks = getOutboundBlocks(message);
+
+    const textBlocks = blocks.filter((block) => block.type === "markdown" || block.type === "card");
+    if (textBlocks.length > 0) {
+      const links = textBlocks.flatMap((block) =>
+        block.type === "card" ? (block.buttons ?? []).filter((button) => button.url) : []
+      );
+      // 链接按钮由 ActionCard 展示，其余按钮以文本提示
+      const text = blocksToMarkdown(
+        textBlocks.map((block) =>
+          block.type === "card" ? { ...block, buttons: block.buttons?.filter((button) => !button.url) } : block
+        )
+      );
+      const card = textBlocks.find((block): block is Extract<OutboundBlock, { type: "card" }> => block.type === "card");
+      const title = card?.title || (text.split("\n")[0] ?? "").replace(/[#*>`]/g, "").trim().slice(0, 20) || "消息";
+      await this.deliverRichPayload(message.chatId, buildTextPayload(title, text, links));
+    }
+
+    for (const block of blocks) {
+      if (block.type === "image") {
+        // 远程图片直接使用 URL，本地图片上传后使用 media_id
+        let photoURL = block.source;
+        if (!isRemoteSource(block.source)) {
+          const media = await loadMediaSource(block.source);
+          photoURL = await this.apiClient.uploadMedia(media.data, media.fileName, "image");
+        }
+        await this.deliverRichPayload(message.chatId, { robot: { msgKey: "sampleImageMsg", msgParam: { photoURL } } });
+      } else if (block.type === "file") {
+        const media = await loadMediaSource(block.source, block.fileName);
+        const mediaId = await this.apiClient.uploadMedia(media.data, media.fileName, "file");
+        const fileType = media.fileName.split(".").pop() ?? "file";
+        await this.deliverRichPayload(message.chatId, {
+          robot: { msgKey: "sampleFile", msgParam: { mediaId, fileName: media.fileName, fileType } },
+        });
+      }
+    }
+  }
+
+  /** 投递富内容消息: 会话 webhook 有效且支持该消息类型时优先使用，否则使用机器人消息接口 */
+  private async deliverRichPayload(
+    chatId: string,
+    payload: { robot: DingtalkRobotPayload; webhook?: unknown }
+  ): Promise<void> {
+    const session = this.sessionCache.get(chatId);
+    if (payload.webhook && session && session.expireTime > Date.now()) {
+      await this.apiClient.sendWebhookPayload(session.sessionWebhook, payload.webhook);
+    } else if (session?.conversationType === "group" && session.openConversationId) {
+      await this.apiClient.sendGroupPayload(session.openConversationId, payload.robot);
+    } else {
+      await this.apiClient.sendRobotPayload(chatId, payload.robot);
+    }
+  }
+
   /** 发送文本消息 */
   async sendText(chatId: string, text: string, replyToId?: string): Promise<SendResult> {
     return this.sendMessage({ chatId, content: text, replyToId });
   }
 
+  /** 查询发送者所在部门 */
+  async getSenderDepartments(senderId: string): Promise<string[]> {
+    const user = (await this.apiClient.getUserInfo(senderId)) as { dept_id_list?: number[] };
+    return (user.dept_id_list ?? []).map(String);
+  }
+
   /** 检查通道状态 */
   async isHealthy(): Promise<boolean> {
     try {
@@ -219,6 +355,34 @@ export class DingtalkChannel extends BaseChannelAdapter {
     return this.replyWithSession(context, text);
   }
 
+  /** 创建流式回复 (AI 卡片)，未配置卡片模板时返回 null */
+  async createReplyStream(context: InboundMessageContext): Promise<ReplyStream | null> {
+    const cardTemplateId = this.config.cardTemplateId;
+    if (!cardTemplateId) return null;
+
+    const isGroup = context.chatType === "group";
+    const outTrackId = generateId("mozi");
+    await this.apiClient.createAndDeliverCard({
+      cardTemplateId,
+      outTrackId,
+      openSpaceId: isGroup ? `dtv1.card//IM_GROUP.${context.chatId}` : `dtv1.card//IM_ROBOT.${context.senderId}`,
+      isGroup,
+      cardParamMap: { content: "" },
+    });
+    const api = this.apiClient;
+
+    return {
+      update: async (text, progress) => {
+        const status = progress.length > 0 ? `\n\n> ${progress.join("\n> ")}` : "";
+        await api.streamCard({ outTrackId, key: "content", content: (text || "思考中…") + status, isFinalize: false });
+      },
+      finish: async (text) => {
+        await api.streamCard({ outTrackId, key: "content", content: text, isFinalize: true });
+        return { success: true, messageId: outTrackId };
+      },
+    };
+  }
+
   /** 使用 Session Webhook 回复 */
   async replyWithSession(
     context: InboundMessageContext & { sessionWebhook?: string },
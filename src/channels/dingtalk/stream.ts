@@ -17,6 +17,11 @@ import {
 import type { DingtalkConfig, InboundMessageContext } from "../../types/index.js";
 import { getChildLogger } from "../../utils/logger.js";
 import type { Logger } from "pino";
+import {
+  parseDingtalkMessageContent,
+  parseDingtalkAttachments,
+  type DingtalkCallbackMessage,
+} from "./events.js";
 
 /** 事件处理器类型 */
 export type DingtalkStreamEventHandler = (context: InboundMessageContext) => void | Promise<void>;
@@ -92,11 +97,10 @@ export class DingtalkStreamClient {
         "Processing robot message"
       );
 
-      // 提取消息内容
-      let content = "";
-      if (data.msgtype === "text" && data.text?.content) {
-        content = data.text.content.trim();
-      }
+      // 提取消息内容 (SDK 类型只声明了文本消息，媒体消息按回调格式解析)
+      const callback = data as unknown as DingtalkCallbackMessage;
+      const content = parseDingtalkMessageContent(callback).trim();
+      const attachments = parseDingtalkAttachments(callback);
 
       // 构建消息上下文
       const context: InboundMessageContext & { sessionWebhook?: string; sessionWebhookExpiredTime?: number } = {
@@ -107,6 +111,7 @@ export class DingtalkStreamClient {
         senderId: data.senderStaffId || data.senderId || "",
         senderName: data.senderNick,
         content,
+        attachments: attachments.length > 0 ? attachments : undefined,
         timestamp: data.createAt || Date.now(),
         raw: data,
         sessionWebhook: data.sessionWebhook,
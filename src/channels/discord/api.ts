@@ -0,0 +1,121 @@
+/**
+ * Discord REST API 客户端
+ */
+
+import type { DiscordConfig } from "../../types/index.js";
+import type { DownloadedMedia } from "../common/base.js";
+import { readLimitedBody } from "../../media/cache.js";
+
+const DISCORD_API_BASE = "https://discord.com/api/v10";
+
+/** 用户 */
+export interface DiscordUser {
+  id: string;
+  username: string;
+  global_name?: string | null;
+  bot?: boolean;
+}
+
+/** 附件 */
+export interface DiscordAttachment {
+  id: string;
+  filename: string;
+  url: string;
+  content_type?: string;
+  size?: number;
+}
+
+/** 消息 */
+export interface DiscordMessage {
+  id: string;
+  channel_id: string;
+  guild_id?: string;
+  author: DiscordUser;
+  content: string;
+  timestamp: string;
+  mentions?: DiscordUser[];
+  attachments?: DiscordAttachment[];
+  message_reference?: { message_id?: string };
+}
+
+/** 创建消息的请求体 */
+export interface DiscordMessagePayload {
+  content?: string;
+  embeds?: Array<Record<string, unknown>>;
+  components?: Array<Record<string, unknown>>;
+  message_reference?: { message_id: string; fail_if_not_exists: boolean };
+  allowed_mentions?: Record<string, unknown>;
+}
+
+/** Discord REST API 客户端 */
+export class DiscordApiClient {
+  private apiBase: string;
+  private token: string;
+
+  constructor(config: DiscordConfig) {
+    this.apiBase = (config.apiBase ?? DISCORD_API_BASE).replace(/\/$/, "");
+    this.token = config.botToken;
+  }
+
+  /** 发送请求 */
+  async request<T>(method: string, path: string, body?: unknown): Promise<T> {
+    const isForm = body instanceof FormData;
+    const response = await fetch(`${this.apiBase}${path}`, {
+      method,
+      headers: {
+        Authorization: `Bot ${this.token}`,
+        ...(isForm || body === undefined ? {} : { "Content-Type": "application/json" }),
+      },
+      body: isForm ? body : body === undefined ? undefined : JSON.stringify(body),
+    });
+    if (!response.ok) {
+      const text = await response.text();
+      throw new Error(`Discord API Error [${response.status}]: ${text}`);
+    }
+    return (response.status === 204 ? undefined : await response.json()) as T;
+  }
+
+  /** 获取机器人用户 */
+  async getCurrentUser(): Promise<DiscordUser> {
+    return this.request<DiscordUser>("GET", "/users/@me");
+  }
+
+  /** 获取网关地址 */
+  async getGatewayUrl(): Promise<string> {
+    const data = await this.request<{ url: string }>("GET", "/gateway/bot");
+    return data.url;
+  }
+
+  /** 发送消息 */
+  async createMessage(channelId: string, payload: DiscordMessagePayload): Promise<DiscordMessage> {
+    return this.request<DiscordMessage>("POST", `/channels/${channelId}/messages`, {
+      allowed_mentions: { parse: [], replied_user: false },
+      ...payload,
+    });
+  }
+
+  /** 编辑消息 */
+  async editMessage(channelId: string, messageId: string, content: string): Promise<void> {
+    await this.request("PATCH", `/channels/${channelId}/messages/${messageId}`, { content });
+  }
+
+  /** 上传文件 */
+  async uploadFile(channelId: string, data: Buffer, fileName: string): Promise<DiscordMessage> {
+    const form = new FormData();
+    form.append("payload_json", JSON.stringify({ attachments: [{ id: 0, filename: fileName }] }));
+    form.append("files[0]", new Blob([data]), fileName);
+    return this.request<DiscordMessage>("POST", `/channels/${channelId}/messages`, form);
+  }
+
+  /** 下载附件 (CDN 地址无需鉴权) */
+  async downloadFile(url: string): Promise<DownloadedMedia> {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Failed to download file: ${response.status}`);
+    }
+    return {
+      data: await readLimitedBody(response),
+      mimeType: response.headers.get("content-type")?.split(";")[0],
+    };
+  }
+}
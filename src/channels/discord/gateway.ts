@@ -0,0 +1,307 @@
+/**
+ * Discord Gateway WebSocket 客户端
+ * 实现 Hello/Identify/Resume、心跳与断线重连
+ */
+
+import WebSocket from "ws";
+import { getChildLogger } from "../../utils/logger.js";
+import type { DiscordConfig } from "../../types/index.js";
+import type { DiscordApiClient, DiscordMessage, DiscordUser } from "./api.js";
+
+const logger = getChildLogger("discord-gateway");
+
+/** Gateway OpCode */
+enum OpCode {
+  /** 事件分发 */
+  Dispatch = 0,
+  /** 心跳 */
+  Heartbeat = 1,
+  /** 鉴权 */
+  Identify = 2,
+  /** 恢复会话 */
+  Resume = 6,
+  /** 服务端要求重连 */
+  Reconnect = 7,
+  /** 会话无效 */
+  InvalidSession = 9,
+  /** 连接后服务端发送的 Hello */
+  Hello = 10,
+  /** 心跳响应 */
+  HeartbeatAck = 11,
+}
+
+/** Gateway Payload */
+interface GatewayPayload {
+  op: OpCode;
+  d?: unknown;
+  s?: number | null;
+  t?: string | null;
+}
+
+/** READY 事件数据 */
+interface ReadyData {
+  session_id: string;
+  resume_gateway_url?: string;
+  user: DiscordUser;
+}
+
+/** GUILDS | GUILD_MESSAGES | DIRECT_MESSAGES | MESSAGE_CONTENT */
+const INTENTS = (1 << 0) | (1 << 9) | (1 << 12) | (1 << 15);
+
+/** 网关协议版本参数 */
+const GATEWAY_QUERY = "?v=10&encoding=json";
+
+/** 等待 READY 的超时时间 */
+const CONNECT_TIMEOUT_MS = 30000;
+
+/** 消息处理器类型 */
+type MessageHandler = (message: DiscordMessage) => Promise<void>;
+
+export class DiscordGatewayClient {
+  private config: DiscordConfig;
+  private apiClient: DiscordApiClient;
+  private ws: WebSocket | null = null;
+  private sessionId: string | null = null;
+  private resumeUrl: string | null = null;
+  private sequence: number | null = null;
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+  private reconnectAttempts = 0;
+  private maxReconnectAttempts = 10;
+  private messageHandler: MessageHandler | null = null;
+  private botUser: DiscordUser | null = null;
+  private stopped = false;
+  private connected = false;
+
+  constructor(config: DiscordConfig, apiClient: DiscordApiClient) {
+    this.config = config;
+    this.apiClient = apiClient;
+  }
+
+  /** 设置消息处理器 */
+  setMessageHandler(handler: MessageHandler): void {
+    this.messageHandler = handler;
+  }
+
+  /** 启动连接 (收到 READY 后返回) */
+  async start(): Promise<void> {
+    this.stopped = false;
+    const url = this.config.gatewayUrl ?? (await this.apiClient.getGatewayUrl());
+    await this.connect(url);
+  }
+
+  /** 连接到网关 */
+  private connect(url: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const ws = new WebSocket(`${url.replace(/\/?(\?.*)?$/, "")}/${GATEWAY_QUERY}`);
+      this.ws = ws;
+      const timer = setTimeout(() => reject(new Error("Connection timeout")), CONNECT_TIMEOUT_MS);
+
+      ws.on("message", (data: WebSocket.Data) => {
+        try {
+          const payload = JSON.parse(data.toString()) as GatewayPayload;
+          this.handlePayload(payload);
+          if (payload.t === "READY" || payload.t === "RESUMED") {
+            clearTimeout(timer);
+            resolve();
+          }
+        } catch (error) {
+          logger.error({ error }, "Failed to handle gateway payload");
+        }
+      });
+
+      ws.on("close", (code) => {
+        if (this.ws !== ws) return;
+        this.ws = null;
+        this.connected = false;
+        this.stopHeartbeat();
+        if (!this.stopped) {
+          logger.warn({ code }, "Discord gateway closed");
+          // 4004 鉴权失败、4013/4014 intents 无效，无法通过重连恢复
+          if ([4004, 4013, 4014].includes(code)) {
+            logger.error({ code }, "Discord gateway closed with fatal code");
+            return;
+          }
+          this.scheduleReconnect();
+        }
+      });
+
+      ws.on("error", (error) => {
+        logger.error({ error }, "Discord gateway error");
+        clearTimeout(timer);
+        reject(error);
+      });
+    });
+  }
+
+  /** 处理网关消息 */
+  private handlePayload(payload: GatewayPayload): void {
+    if (typeof payload.s === "number") {
+      this.sequence = payload.s;
+    }
+
+    switch (payload.op) {
+      case OpCode.Hello:
+        this.startHeartbeat((payload.d as { heartbeat_interval: number }).heartbeat_interval);
+        if (this.sessionId) {
+          this.resume();
+        } else {
+          this.identify();
+        }
+        break;
+
+      case OpCode.Dispatch:
+        this.handleDispatch(payload.t ?? "", payload.d);
+        break;
+
+      case OpCode.Heartbeat:
+        this.sendHeartbeat();
+        break;
+
+      case OpCode.HeartbeatAck:
+        logger.debug("Heartbeat acknowledged");
+        break;
+
+      case OpCode.Reconnect:
+        logger.info("Received reconnect request");
+        this.reconnect();
+        break;
+
+      case OpCode.InvalidSession:
+        // d 为 true 时会话可恢复，否则需要重新鉴权
+        logger.warn({ resumable: payload.d }, "Invalid session");
+        if (!payload.d) {
+          this.sessionId = null;
+          this.sequence = null;
+          this.identify();
+        } else {
+          this.resume();
+        }
+        break;
+    }
+  }
+
+  /** 处理事件分发 */
+  private handleDispatch(eventType: string, data: unknown): void {
+    switch (eventType) {
+      case "READY": {
+        const ready = data as ReadyData;
+        this.sessionId = ready.session_id;
+        this.resumeUrl = ready.resume_gateway_url ?? null;
+        this.botUser = ready.user;
+        this.connected = true;
+        this.reconnectAttempts = 0;
+        logger.info({ username: ready.user.username }, "Discord gateway ready");
+        break;
+      }
+      case "RESUMED":
+        this.connected = true;
+        this.reconnectAttempts = 0;
+        logger.info("Discord session resumed");
+        break;
+      case "MESSAGE_CREATE":
+        this.messageHandler?.(data as DiscordMessage).catch((error) => {
+          logger.error({ error }, "Failed to handle Discord message");
+        });
+        break;
+    }
+  }
+
+  /** 发送鉴权 */
+  private identify(): void {
+    this.send({
+      op: OpCode.Identify,
+      d: {
+        token: this.config.botToken,
+        intents: INTENTS,
+        properties: { os: process.platform, browser: "mozi", device: "mozi" },
+      },
+    });
+    logger.info({ intents: INTENTS }, "Identify sent");
+  }
+
+  /** 恢复会话 */
+  private resume(): void {
+    this.send({
+      op: OpCode.Resume,
+      d: { token: this.config.botToken, session_id: this.sessionId, seq: this.sequence },
+    });
+    logger.info("Resume sent");
+  }
+
+  /** 开始心跳 (首次心跳按规范随机延迟) */
+  private startHeartbeat(interval: number): void {
+    this.stopHeartbeat();
+    this.heartbeatTimer = setTimeout(() => {
+      this.sendHeartbeat();
+      this.heartbeatTimer = setInterval(() => this.sendHeartbeat(), interval);
+    }, Math.floor(interval * Math.random()));
+  }
+
+  /** 停止心跳 */
+  private stopHeartbeat(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
+
+  /** 发送心跳 */
+  private sendHeartbeat(): void {
+    this.send({ op: OpCode.Heartbeat, d: this.sequence });
+  }
+
+  /** 发送消息 */
+  private send(payload: GatewayPayload): void {
+    if (this.ws && this.ws.readyState === WebSocket.OPEN) {
+      this.ws.send(JSON.stringify(payload));
+    }
+  }
+
+  /** 断线后按指数退避重连 */
+  private scheduleReconnect(): void {
+    if (this.reconnectAttempts >= this.maxReconnectAttempts) {
+      logger.error("Max reconnect attempts reached");
+      return;
+    }
+    this.reconnectAttempts++;
+    const delay = Math.min(1000 * Math.pow(2, this.reconnectAttempts), 60000);
+    setTimeout(() => this.reconnect(), delay);
+  }
+
+  /** 重新连接 (有会话时连接 resume 地址并恢复) */
+  private reconnect(): void {
+    if (this.stopped) return;
+    this.stopHeartbeat();
+    const previous = this.ws;
+    this.ws = null;
+    this.connected = false;
+    previous?.close(4000);
+
+    const connecting = this.sessionId && this.resumeUrl ? this.connect(this.resumeUrl) : this.start();
+    connecting.catch((error) => {
+      logger.error({ error }, "Failed to reconnect");
+      this.scheduleReconnect();
+    });
+  }
+
+  /** 停止连接 */
+  async stop(): Promise<void> {
+    this.stopped = true;
+    this.stopHeartbeat();
+    const ws = this.ws;
+    this.ws = null;
+    ws?.close(1000);
+    this.connected = false;
+    logger.info("Discord gateway stopped");
+  }
+
+  /** 获取 READY 中的机器人用户 */
+  getBotUser(): DiscordUser | null {
+    return this.botUser;
+  }
+
+  /** 检查是否已连接 */
+  isConnected(): boolean {
+    return this.connected;
+  }
+}
@@ -0,0 +1,231 @@
+/**
+ * Discord 通道适配器
+ *
+ * 通过 Gateway WebSocket 接收消息，REST API 发送消息
+ */
+
+import type {
+  DiscordConfig,
+  ChannelMeta,
+  OutboundMessage,
+  SendResult,
+  InboundMessageContext,
+  MediaAttachment,
+} from "../../types/index.js";
+import {
+  BaseChannelAdapter,
+  EditableReplyStream,
+  splitText,
+  type ReplyStream,
+  type DownloadedMedia,
+} from "../common/base.js";
+import { getOutboundBlocks, hasRichContent, isRemoteSource, loadMediaSource } from "../common/rich.js";
+import { DiscordApiClient, type DiscordMessage, type DiscordMessagePayload } from "./api.js";
+import { DiscordGatewayClient } from "./gateway.js";
+import { getChildLogger } from "../../utils/logger.js";
+
+/** 单条消息最大长度 */
+const MAX_MESSAGE_LENGTH = 2000;
+
+/** 每行最多按钮数 */
+const MAX_ROW_BUTTONS = 5;
+
+/** Discord 通道元数据 */
+const DISCORD_META: ChannelMeta = {
+  id: "discord",
+  name: "Discord",
+  description: "Discord Bot (Gateway)",
+  capabilities: {
+    chatTypes: ["direct", "group"],
+    supportsMedia: true,
+    supportsReply: true,
+    supportsMention: true,
+    supportsReaction: false,
+    supportsThread: false,
+    supportsEdit: true,
+    maxMessageLength: MAX_MESSAGE_LENGTH,
+  },
+};
+
+export class DiscordChannel extends BaseChannelAdapter {
+  readonly id = "discord" as const;
+  readonly meta = DISCORD_META;
+
+  private config: DiscordConfig;
+  private apiClient: DiscordApiClient;
+  private gatewayClient: DiscordGatewayClient | null = null;
+  private botUserId: string | null = null;
+
+  constructor(config: DiscordConfig) {
+    super();
+    this.config = config;
+    this.apiClient = new DiscordApiClient(config);
+    this.logger = getChildLogger("discord");
+  }
+
+  /** 初始化通道: 获取机器人信息并连接网关 */
+  async initialize(): Promise<void> {
+    if (this.gatewayClient) return;
+    if (!this.config.botToken) {
+      throw new Error("Discord botToken is required");
+    }
+
+    const user = await this.apiClient.getCurrentUser();
+    this.botUserId = user.id;
+    this.logger.info({ username: user.username }, "Discord bot authenticated");
+
+    this.gatewayClient = new DiscordGatewayClient(this.config, this.apiClient);
+    this.gatewayClient.setMessageHandler(async (message) => {
+      const context = this.parseMessage(message);
+      if (context) {
+        await this.handleInboundMessage(context);
+      }
+    });
+    await this.gatewayClient.start();
+  }
+
+  /** 关闭通道 */
+  async shutdown(): Promise<void> {
+    if (this.gatewayClient) {
+      await this.gatewayClient.stop();
+      this.gatewayClient = null;
+    }
+  }
+
+  /** 消息转换为入站上下文 (忽略机器人消息) */
+  parseMessage(message: DiscordMessage): InboundMessageContext | null {
+    if (message.author.bot || message.author.id === this.botUserId) return null;
+
+    const content = message.content.replace(new RegExp(`<@!?${this.botUserId}>`, "g"), "").trim();
+    const attachments: MediaAttachment[] = (message.attachments ?? []).map((attachment) => ({
+      type: attachment.content_type?.startsWith("image/")
+        ? "image"
+        : attachment.content_type?.startsWith("audio/")
+          ? "audio"
+          : attachment.content_type?.startsWith("video/")
+            ? "video"
+            : "file",
+      key: attachment.url,
+      fileName: attachment.filename,
+      mimeType: attachment.content_type,
+      size: attachment.size,
+    }));
+    if (!content && attachments.length === 0) return null;
+
+    const mentions = (message.mentions ?? []).map((user) => user.id);
+    return {
+      channelId: "discord",
+      messageId: message.id,
+      chatId: message.channel_id,
+      chatType: message.guild_id ? "group" : "direct",
+      senderId: message.author.id,
+      senderName: message.author.global_name ?? message.author.username,
+      content,
+      attachments: attachments.length > 0 ? attachments : undefined,
+      replyToId: message.message_reference?.message_id,
+      mentions: mentions.length > 0 ? mentions : undefined,
+      mentionedBot: !!this.botUserId && mentions.includes(this.botUserId),
+      timestamp: Date.parse(message.timestamp) || Date.now(),
+      raw: message,
+    };
+  }
+
+  /** 通过 CDN 地址下载附件 */
+  protected async downloadAttachment(
+    _context: InboundMessageContext,
+    attachment: MediaAttachment
+  ): Promise<DownloadedMedia> {
+    return this.apiClient.downloadFile(attachment.key);
+  }
+
+  /** 发送消息 */
+  async sendMessage(message: OutboundMessage): Promise<SendResult> {
+    try {
+      const reference = message.replyToId ? { message_id: message.replyToId, fail_if_not_exists: false } : undefined;
+      let messageId: string | undefined;
+
+      if (message.content) {
+        for (const chunk of splitText(message.content, MAX_MESSAGE_LENGTH)) {
+          const sent = await this.apiClient.createMessage(message.chatId, { content: chunk, message_reference: reference });
+          messageId = sent.id;
+        }
+      }
+      if (hasRichContent(message)) {
+        messageId = (await this.sendRichMessage(message)) ?? messageId;
+      }
+
+      return { success: true, messageId };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.logger.error({ error, chatId: message.chatId }, "Failed to send message");
+      return { success: false, error: errorMessage };
+    }
+  }
+
+  /** 发送富内容: 卡片渲染为 Embed，链接按钮渲染为组件；本地图片与文件以附件上传 */
+  private async sendRichMessage(message: OutboundMessage): Promise<string | undefined> {
+    let messageId: string | undefined;
+    for (const block of getOutboundBlocks(message)) {
+      let payload: DiscordMessagePayload | null = null;
+      if (block.type === "markdown") {
+        payload = { content: block.text.slice(0, MAX_MESSAGE_LENGTH) };
+      } else if (block.type === "card") {
+        const links = (block.buttons ?? []).filter((button) => button.url);
+        const commands = (block.buttons ?? []).filter((button) => !button.url && button.command);
+        const footer = commands.map((button) => `${button.text}: ${button.command}`).join("\n");
+        const components: Array<Record<string, unknown>> = [];
+        for (let i = 0; i < links.length; i += MAX_ROW_BUTTONS) {
+          components.push({
+            type: 1,
+            components: links
+              .slice(i, i + MAX_ROW_BUTTONS)
+              .map((button) => ({ type: 2, style: 5, label: button.text, url: button.url })),
+          });
+        }
+        payload = {
+          embeds: [{ title: block.title, description: block.text, footer: footer ? { text: footer } : undefined }],
+          components,
+        };
+      } else if (block.type === "image" && isRemoteSource(block.source)) {
+        payload = { embeds: [{ image: { url: block.source } }] };
+      } else {
+        const media = await loadMediaSource(block.source, block.type === "file" ? block.fileName : undefined);
+        messageId = (await this.apiClient.uploadFile(message.chatId, media.data, media.fileName)).id;
+      }
+      if (payload) {
+        messageId = (await this.apiClient.createMessage(message.chatId, payload)).id;
+      }
+    }
+    return messageId;
+  }
+
+  /** 发送文本消息 */
+  async sendText(chatId: string, text: string, replyToId?: string): Promise<SendResult> {
+    return this.sendMessage({ chatId, content: text, replyToId });
+  }
+
+  /** 创建流式回复 (编辑同一条消息) */
+  async createReplyStream(context: InboundMessageContext): Promise<ReplyStream | null> {
+    const reference = { message_id: context.messageId, fail_if_not_exists: false };
+    return new EditableReplyStream({
+      maxLength: MAX_MESSAGE_LENGTH,
+      send: async (text) => (await this.apiClient.createMessage(context.chatId, { content: text, message_reference: reference })).id,
+      edit: (messageId, text) => this.apiClient.editMessage(context.chatId, messageId, text),
+    });
+  }
+
+  /** 检查通道状态 */
+  async isHealthy(): Promise<boolean> {
+    return this.gatewayClient?.isConnected() ?? false;
+  }
+
+  /** 获取 API 客户端 */
+  getApiClient(): DiscordApiClient {
+    return this.apiClient;
+  }
+}
+
+/** 创建 Discord 通道 */
+export function createDiscordChannel(config: DiscordConfig): DiscordChannel {
+  return new DiscordChannel(config);
+}
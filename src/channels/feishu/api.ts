@@ -5,6 +5,7 @@
 import type { FeishuConfig } from "../../types/index.js";
 import { getChildLogger } from "../../utils/logger.js";
 import { retry } from "../../utils/index.js";
+import { readLimitedBody } from "../../media/cache.js";
 import NodeCache from "node-cache";
 
 const logger = getChildLogger("feishu-api");
@@ -33,7 +34,7 @@ interface SendMessageResponse {
 }
 
 /** 消息内容类型 */
-type MessageContentType = "text" | "post" | "image" | "interactive";
+type MessageContentType = "text" | "post" | "image" | "file" | "interactive";
 
 /** 飞书 API 客户端 */
 export class FeishuApiClient {
@@ -186,11 +187,107 @@ export class FeishuApiClient {
     return this.sendMessage(chatId, "chat_id", "interactive", content);
   }
 
+  /** 回复卡片消息 */
+  async replyCard(messageId: string, card: unknown): Promise<string> {
+    return this.replyMessage(messageId, "interactive", JSON.stringify(card));
+  }
+
+  /** 更新已发送的卡片消息 */
+  async updateCard(messageId: string, card: unknown): Promise<void> {
+    logger.debug({ messageId }, "Updating card");
+    await this.request("PATCH", `/im/v1/messages/${messageId}`, { content: JSON.stringify(card) });
+  }
+
+  /** 上传文件类接口 (multipart) */
+  private async upload<T>(path: string, form: FormData): Promise<T> {
+    const token = await this.getTenantAccessToken();
+    const res = await fetch(`${FEISHU_API_BASE}${path}`, {
+      method: "POST",
+      headers: { Authorization: `Bearer ${token}` },
+      body: form,
+    });
+    if (!res.ok) {
+      throw new Error(`HTTP ${res.status}: ${await res.text()}`);
+    }
+
+    const data = (await res.json()) as FeishuApiResponse<T>;
+    if (data.code !== 0) {
+      throw new Error(`Feishu API Error [${data.code}]: ${data.msg}`);
+    }
+    return data.data as T;
+  }
+
+  /** 上传图片，返回 image_key */
+  async uploadImage(data: Buffer, fileName = "image.png"): Promise<string> {
+    const form = new FormData();
+    form.append("image_type", "message");
+    form.append("image", new Blob([data]), fileName);
+    const result = await this.upload<{ image_key: string }>("/im/v1/images", form);
+    return result.image_key;
+  }
+
+  /** 上传文件，返回 file_key */
+  async uploadFile(data: Buffer, fileName: string): Promise<string> {
+    const form = new FormData();
+    form.append("file_type", "stream");
+    form.append("file_name", fileName);
+    form.append("file", new Blob([data]), fileName);
+    const result = await this.upload<{ file_key: string }>("/im/v1/files", form);
+    return result.file_key;
+  }
+
+  /** 下载消息中的资源 (图片使用 type=image，文件、语音、视频使用 type=file) */
+  async downloadMessageResource(
+    messageId: string,
+    fileKey: string,
+    type: "image" | "file"
+  ): Promise<{ data: Buffer; mimeType?: string }> {
+    logger.debug({ messageId, fileKey, type }, "Downloading message resource");
+    const token = await this.getTenantAccessToken();
+
+    const response = await retry(
+      async () => {
+        const res = await fetch(
+          `${FEISHU_API_BASE}/im/v1/messages/${messageId}/resources/${fileKey}?type=${type}`,
+          { headers: { Authorization: `Bearer ${token}` } }
+        );
+        if (!res.ok) {
+          throw new Error(`HTTP ${res.status}: ${await res.text()}`);
+        }
+        return res;
+      },
+      { maxRetries: 3, delayMs: 1000 }
+    );
+
+    return {
+      data: await readLimitedBody(response),
+      mimeType: response.headers.get("content-type") ?? undefined,
+    };
+  }
+
   /** 获取群信息 */
   async getChatInfo(chatId: string): Promise<unknown> {
     return this.request("GET", `/im/v1/chats/${chatId}`);
   }
 
+  /** 获取机器人信息 (open_id 用于识别 @机器人) */
+  async getBotInfo(): Promise<{ openId: string; name?: string }> {
+    const token = await this.getTenantAccessToken();
+    const response = await fetch(`${FEISHU_API_BASE}/bot/v3/info`, {
+      headers: { Authorization: `Bearer ${token}` },
+    });
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${await response.text()}`);
+    }
+
+    // 该接口的机器人信息在 bot 字段而不是 data 字段
+    const data = (await response.json()) as { code: number; msg: string; bot?: { open_id?: string; app_name?: string } };
+    if (data.code !== 0 || !data.bot?.open_id) {
+      throw new Error(`Feishu API Error [${data.code}]: ${data.msg}`);
+    }
+    return { openId: data.bot.open_id, name: data.bot.app_name };
+  }
+
   /** 获取用户信息 */
   async getUserInfo(userId: string, userIdType: "open_id" | "user_id" | "union_id" = "open_id"): Promise<unknown> {
     return this.request("GET", `/contact/v3/users/${userId}?user_id_type=${userIdType}`);
@@ -3,7 +3,7 @@
  */
 
 import crypto from "crypto";
-import type { FeishuConfig, InboundMessageContext, ChatType } from "../../types/index.js";
+import type { FeishuConfig, InboundMessageContext, ChatType, MediaAttachment } from "../../types/index.js";
 import { getChildLogger } from "../../utils/logger.js";
 import { aesDecrypt } from "../../utils/index.js";
 
@@ -71,6 +71,80 @@ export interface MessageReceiveEvent {
   };
 }
 
+/** 解析后的消息内容 */
+export interface ParsedFeishuMessage {
+  content: string;
+  attachments: MediaAttachment[];
+}
+
+/** 解析飞书消息内容 (文本与图片、文件、语音、视频附件) */
+export function parseFeishuMessageContent(messageType: string, rawContent: string): ParsedFeishuMessage {
+  let contentObj: Record<string, unknown>;
+  try {
+    contentObj = JSON.parse(rawContent) as Record<string, unknown>;
+  } catch {
+    return { content: rawContent, attachments: [] };
+  }
+
+  const str = (key: string): string => (typeof contentObj[key] === "string" ? (contentObj[key] as string) : "");
+
+  switch (messageType) {
+    case "text":
+      return { content: str("text"), attachments: [] };
+    case "post": {
+      // 富文本消息，提取纯文本与内嵌图片
+      const { text, imageKeys } = extractPostContent(contentObj);
+      return { content: text, attachments: imageKeys.map((key) => ({ type: "image", key })) };
+    }
+    case "image":
+      return { content: "[图片]", attachments: [{ type: "image", key: str("image_key") }] };
+    case "file":
+      return {
+        content: `[文件: ${str("file_name")}]`,
+        attachments: [{ type: "file", key: str("file_key"), fileName: str("file_name") || undefined }],
+      };
+    case "audio":
+      return { content: "[语音]", attachments: [{ type: "audio", key: str("file_key") }] };
+    case "media":
+      return {
+        content: `[视频: ${str("file_name")}]`,
+        attachments: [{ type: "video", key: str("file_key"), fileName: str("file_name") || undefined }],
+      };
+    default:
+      return { content: `[${messageType}]`, attachments: [] };
+  }
+}
+
+/** 从富文本消息中提取纯文本与图片 key */
+function extractPostContent(content: unknown): { text: string; imageKeys: string[] } {
+  const texts: string[] = [];
+  const imageKeys: string[] = [];
+
+  const extract = (obj: unknown) => {
+    if (Array.isArray(obj)) {
+      for (const item of obj) {
+        extract(item);
+      }
+    } else if (typeof obj === "object" && obj !== null) {
+      const record = obj as Record<string, unknown>;
+      if (record.tag === "text" && typeof record.text === "string") {
+        texts.push(record.text);
+      } else if (record.tag === "a" && typeof record.text === "string") {
+        texts.push(record.text);
+      } else if (record.tag === "img" && typeof record.image_key === "string") {
+        imageKeys.push(record.image_key);
+      } else if (record.content) {
+        extract(record.content);
+      } else if (record.zh_cn) {
+        extract(record.zh_cn);
+      }
+    }
+  };
+
+  extract(content);
+  return { text: texts.join(""), imageKeys };
+}
+
 /** 加密事件 */
 export interface EncryptedEvent {
   encrypt: string;
@@ -184,33 +258,8 @@ export class FeishuEventHandler {
     const { sender, message } = eventData;
 
     // 解析消息内容
-    let content = "";
-    let mediaUrls: string[] | undefined;
-
-    try {
-      const contentObj = JSON.parse(message.content);
-
-      switch (message.message_type) {
-        case "text":
-          content = contentObj.text || "";
-          break;
-        case "post":
-          // 富文本消息，提取纯文本
-          content = this.extractPostText(contentObj);
-          break;
-        case "image":
-          content = "[图片]";
-          mediaUrls = [contentObj.image_key];
-          break;
-        case "file":
-          content = `[文件: ${contentObj.file_name}]`;
-          break;
-        default:
-          content = `[${message.message_type}]`;
-      }
-    } catch {
-      content = message.content;
-    }
+    const parsed = parseFeishuMessageContent(message.message_type, message.content);
+    let content = parsed.content;
 
     // 移除 @机器人 的内容
     if (message.mentions) {
@@ -229,38 +278,11 @@ export class FeishuEventHandler {
       senderId: sender.sender_id.open_id,
       senderName: undefined, // 需要额外 API 调用获取
       content: content.trim(),
-      mediaUrls,
+      attachments: parsed.attachments.length > 0 ? parsed.attachments : undefined,
       replyToId: message.parent_id,
       mentions: message.mentions?.map((m) => m.id.open_id),
       timestamp: parseInt(message.create_time, 10),
       raw: event,
     };
   }
-
-  /** 从富文本消息中提取纯文本 */
-  private extractPostText(content: unknown): string {
-    const texts: string[] = [];
-
-    const extract = (obj: unknown) => {
-      if (Array.isArray(obj)) {
-        for (const item of obj) {
-          extract(item);
-        }
-      } else if (typeof obj === "object" && obj !== null) {
-        const record = obj as Record<string, unknown>;
-        if (record.tag === "text" && typeof record.text === "string") {
-          texts.push(record.text);
-        } else if (record.tag === "a" && typeof record.text === "string") {
-          texts.push(record.text);
-        } else if (record.content) {
-          extract(record.content);
-        } else if (record.zh_cn) {
-          extract(record.zh_cn);
-        }
-      }
-    };
-
-    extract(content);
-    return texts.join("");
-  }
 }
@@ -10,8 +10,12 @@ import type {
   ChannelMeta,
   OutboundMessage,
   SendResult,
+  InboundMessageContext,
+  MediaAttachment,
+  OutboundBlock,
 } from "../../types/index.js";
-import { BaseChannelAdapter } from "../common/base.js";
+import { BaseChannelAdapter, type ReplyStream, type DownloadedMedia } from "../common/base.js";
+import { getOutboundBlocks, hasRichContent, loadMediaSource } from "../common/rich.js";
 import { FeishuApiClient } from "./api.js";
 import {
   FeishuEventHandler,
@@ -20,6 +24,7 @@ import {
 } from "./events.js";
 import { FeishuWebSocketClient } from "./websocket.js";
 import { getChildLogger } from "../../utils/logger.js";
+import type { ApprovalRequest } from "../../tools/approval.js";
 
 /** 飞书通道元数据 */
 const FEISHU_META: ChannelMeta = {
@@ -33,11 +38,44 @@ const FEISHU_META: ChannelMeta = {
     supportsMention: true,
     supportsReaction: true,
     supportsThread: true,
-    supportsEdit: false,
+    supportsEdit: true,
     maxMessageLength: 4096,
   },
 };
 
+/** 构建流式回复卡片 (生成中显示工具进度) */
+function buildStreamingCard(text: string, progress: string[]): unknown {
+  const elements: unknown[] = [{ tag: "markdown", content: text || "思考中…" }];
+  if (progress.length > 0) {
+    elements.push({ tag: "note", elements: [{ tag: "plain_text", content: progress.join("\n") }] });
+  }
+  return {
+    config: { wide_screen_mode: true, update_multi: true },
+    elements,
+  };
+}
+
+/** 卡片块转换为卡片元素 (命令按钮点击后作为用户消息回传) */
+function buildCardBlockElements(block: Extract<OutboundBlock, { type: "card" }>): unknown[] {
+  const elements: unknown[] = [];
+  if (block.title) {
+    elements.push({ tag: "markdown", content: `**${block.title}**` });
+  }
+  elements.push({ tag: "markdown", content: block.text });
+  if (block.buttons?.length) {
+    elements.push({
+      tag: "action",
+      actions: block.buttons.map((button) => ({
+        tag: "button",
+        text: { tag: "plain_text", content: button.text },
+        type: "default",
+        ...(button.url ? { url: button.url } : { value: { command: button.command } }),
+      })),
+    });
+  }
+  return elements;
+}
+
 export class FeishuChannel extends BaseChannelAdapter {
   readonly id = "feishu" as const;
   readonly meta = FEISHU_META;
@@ -46,6 +84,7 @@ export class FeishuChannel extends BaseChannelAdapter {
   private apiClient: FeishuApiClient;
   private eventHandler: FeishuEventHandler;
   private wsClient: FeishuWebSocketClient | null = null;
+  private botOpenId: string | null = null;
   private initialized = false;
 
   constructor(config: FeishuConfig) {
@@ -76,6 +115,15 @@ export class FeishuChannel extends BaseChannelAdapter {
       throw error;
     }
 
+    // 获取机器人 open_id，用于判断群消息是否 @机器人
+    try {
+      const bot = await this.apiClient.getBotInfo();
+      this.botOpenId = bot.openId;
+      this.logger.info({ botOpenId: bot.openId, name: bot.name }, "Feishu bot info loaded");
+    } catch (error) {
+      this.logger.warn({ error }, "Failed to get Feishu bot info, group mentions rely on botIds");
+    }
+
     // 启动 WebSocket 连接
     await this.startWebSocket();
 
@@ -89,6 +137,9 @@ export class FeishuChannel extends BaseChannelAdapter {
 
     // 设置事件处理器
     this.wsClient.setEventHandler(async (context) => {
+      if (this.botOpenId && context.mentions?.includes(this.botOpenId)) {
+        context.mentionedBot = true;
+      }
       await this.handleInboundMessage(context);
     });
 
@@ -96,6 +147,15 @@ export class FeishuChannel extends BaseChannelAdapter {
     await this.wsClient.start();
   }
 
+  /** 下载消息中的图片、文件、语音或视频 */
+  protected async downloadAttachment(
+    context: InboundMessageContext,
+    attachment: MediaAttachment
+  ): Promise<DownloadedMedia> {
+    const type = attachment.type === "image" ? "image" : "file";
+    return this.apiClient.downloadMessageResource(context.messageId, attachment.key, type);
+  }
+
   /** 关闭通道 */
   async shutdown(): Promise<void> {
     this.logger.info("Shutting down Feishu channel");
@@ -111,6 +171,10 @@ export class FeishuChannel extends BaseChannelAdapter {
   /** 发送消息 */
   async sendMessage(message: OutboundMessage): Promise<SendResult> {
     try {
+      if (hasRichContent(message)) {
+        return await this.sendRichMessage(message);
+      }
+
       let messageId: string;
 
       if (message.replyToId) {
@@ -127,11 +191,113 @@ export class FeishuChannel extends BaseChannelAdapter {
     }
   }
 
+  /** 发送富内容: 文本、卡片与图片合并为一张交互卡片，文件逐个发送 */
+  private async sendRichMessage(message: OutboundMessage): Promise<SendResult> {
+    const send = (msgType: "interactive" | "file", content: string) =>
+      message.replyToId
+        ? this.apiClient.replyMessage(message.replyToId, msgType, content)
+        : this.apiClient.sendMessage(message.chatId, "chat_id", msgType, content);
+
+    const elements: unknown[] = [];
+    const files: Array<Extract<OutboundBlock, { type: "file" }>> = [];
+    for (const block of getOutboundBlocks(message)) {
+      if (block.type === "markdown") {
+        elements.push({ tag: "markdown", content: block.text });
+      } else if (block.type === "card") {
+        elements.push(...buildCardBlockElements(block));
+      } else if (block.type === "image") {
+        const media = await loadMediaSource(block.source);
+        const imageKey = await this.apiClient.uploadImage(media.data, media.fileName);
+        elements.push({ tag: "img", img_key: imageKey, alt: { tag: "plain_text", content: "" } });
+      } else {
+        files.push(block);
+      }
+    }
+
+    let messageId: string | undefined;
+    if (elements.length > 0) {
+      messageId = await send("interactive", JSON.stringify({ config: { wide_screen_mode: true }, elements }));
+    }
+    for (const file of files) {
+      const media = await loadMediaSource(file.source, file.fileName);
+      const fileKey = await this.apiClient.uploadFile(media.data, media.fileName);
+      const id = await send("file", JSON.stringify({ file_key: fileKey }));
+      messageId ??= id;
+    }
+
+    return { success: true, messageId };
+  }
+
   /** 发送文本消息 */
   async sendText(chatId: string, text: string, replyToId?: string): Promise<SendResult> {
     return this.sendMessage({ chatId, content: text, replyToId });
   }
 
+  /** 创建流式回复: 先回复一张卡片，之后原地更新卡片内容 */
+  async createReplyStream(context: InboundMessageContext): Promise<ReplyStream | null> {
+    const messageId = await this.apiClient.replyCard(context.messageId, buildStreamingCard("", []));
+    const api = this.apiClient;
+
+    return {
+      update: async (text, progress) => {
+        await api.updateCard(messageId, buildStreamingCard(text, progress));
+      },
+      finish: async (text) => {
+        try {
+          await api.updateCard(messageId, buildStreamingCard(text, []));
+          return { success: true, messageId };
+        } catch (error) {
+          // 卡片更新失败 (如内容超长) 时改为普通文本回复
+          this.logger.warn({ error, messageId }, "Failed to finalize streaming card, falling back to text");
+          return this.sendText(context.chatId, text, context.messageId);
+        }
+      },
+    };
+  }
+
+  /** 发送工具审批卡片 (按钮回传为 /approve、/reject 命令) */
+  async sendApprovalCard(request: ApprovalRequest): Promise<void> {
+    const { id, toolName, argsPreview, context, createdAt, expiresAt } = request;
+    const timeoutSeconds = Math.round((expiresAt - createdAt) / 1000);
+    const button = (text: string, type: string, command: string) => ({
+      tag: "button",
+      text: { tag: "plain_text", content: text },
+      type,
+      value: { command, chatType: context.chatType },
+    });
+
+    const card = {
+      config: { wide_screen_mode: true },
+      header: {
+        title: { tag: "plain_text", content: `⚠️ 工具执行确认: ${toolName}` },
+        template: "orange",
+      },
+      elements: [
+        { tag: "div", text: { tag: "lark_md", content: `**参数**\n${argsPreview}` } },
+        {
+          tag: "action",
+          actions: [
+            button("批准", "primary", `/approve ${id}`),
+            button("本会话始终允许", "default", `/approve ${id} always`),
+            button("拒绝", "danger", `/reject ${id}`),
+          ],
+        },
+        {
+          tag: "note",
+          elements: [{ tag: "plain_text", content: `审批 ID: ${id}，${timeoutSeconds} 秒内未答复将自动拒绝` }],
+        },
+      ],
+    };
+
+    await this.apiClient.sendCard(context.chatId, card);
+  }
+
+  /** 查询发送者所在部门 */
+  async getSenderDepartments(senderId: string): Promise<string[]> {
+    const data = (await this.apiClient.getUserInfo(senderId)) as { user?: { department_ids?: string[] } };
+    return data.user?.department_ids ?? [];
+  }
+
   /** 检查通道状态 */
   async isHealthy(): Promise<boolean> {
     try {
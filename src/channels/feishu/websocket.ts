@@ -11,6 +11,7 @@ import * as lark from "@larksuiteoapi/node-sdk";
 import type { FeishuConfig, InboundMessageContext } from "../../types/index.js";
 import { getChildLogger } from "../../utils/logger.js";
 import type { Logger } from "pino";
+import { parseFeishuMessageContent } from "./events.js";
 
 /** 事件处理器类型 */
 export type FeishuWebSocketEventHandler = (context: InboundMessageContext) => void | Promise<void>;
@@ -47,6 +48,23 @@ interface MessageEventData {
   };
 }
 
+/** 卡片回传交互事件数据类型 */
+interface CardActionEventData {
+  token?: string;
+  operator?: {
+    open_id?: string;
+    user_id?: string;
+  };
+  action?: {
+    tag?: string;
+    value?: Record<string, unknown>;
+  };
+  context?: {
+    open_message_id?: string;
+    open_chat_id?: string;
+  };
+}
+
 /** 飞书 WebSocket 客户端 */
 export class FeishuWebSocketClient {
   private config: FeishuConfig;
@@ -78,11 +96,14 @@ export class FeishuWebSocketClient {
     // 创建事件分发器
     this.eventDispatcher = new lark.EventDispatcher({});
 
-    // 注册消息事件处理
-    this.eventDispatcher.register({
+    // 注册消息事件与卡片回传交互处理
+    this.eventDispatcher.register<{ "card.action.trigger": (data: CardActionEventData) => Promise<unknown> }>({
       "im.message.receive_v1": async (data: MessageEventData) => {
         await this.handleMessageEvent(data);
       },
+      "card.action.trigger": async (data: CardActionEventData) => {
+        return this.handleCardActionEvent(data);
+      },
     });
 
     // 创建 WebSocket 客户端
@@ -118,17 +139,8 @@ export class FeishuWebSocketClient {
     );
 
     // 解析消息内容
-    let content = "";
-    try {
-      const contentObj = JSON.parse(message.content);
-      if (message.message_type === "text") {
-        content = contentObj.text || "";
-      } else {
-        content = `[${message.message_type}]`;
-      }
-    } catch {
-      content = message.content;
-    }
+    const parsed = parseFeishuMessageContent(message.message_type, message.content);
+    let content = parsed.content;
 
     // 移除 @机器人 的内容
     if (message.mentions) {
@@ -146,7 +158,9 @@ export class FeishuWebSocketClient {
       senderId: sender?.sender_id?.open_id || sender?.sender_id?.user_id || "",
       senderName: undefined,
       content,
+      attachments: parsed.attachments.length > 0 ? parsed.attachments : undefined,
       replyToId: message.parent_id,
+      mentions: message.mentions?.map((m) => m.id.open_id ?? m.id.user_id ?? m.key),
       timestamp: parseInt(message.create_time, 10),
       raw: data,
     };
@@ -161,6 +175,46 @@ export class FeishuWebSocketClient {
     }
   }
 
+  /**
+   * 处理卡片按钮回传
+   * 按钮 value 中的 command (如 "/approve abc123") 作为该用户发出的文本消息交给事件处理器
+   */
+  private async handleCardActionEvent(data: CardActionEventData): Promise<unknown> {
+    const command = data.action?.value?.command;
+    const chatId = data.context?.open_chat_id;
+    const senderId = data.operator?.open_id || data.operator?.user_id;
+
+    if (typeof command !== "string" || !chatId || !senderId) {
+      this.logger.debug({ action: data.action }, "Ignoring card action without command");
+      return undefined;
+    }
+
+    this.logger.debug({ chatId, senderId, command }, "Processing card action");
+
+    const context: InboundMessageContext = {
+      channelId: "feishu",
+      messageId: `card_${data.token ?? `${data.context?.open_message_id}_${Date.now()}`}`,
+      chatId,
+      chatType: data.action?.value?.chatType === "direct" ? "direct" : "group",
+      senderId,
+      senderName: undefined,
+      content: command,
+      // 点击机器人发出的卡片视为与机器人交互，不受群聊 @ 限制
+      mentionedBot: true,
+      timestamp: Date.now(),
+      raw: data,
+    };
+
+    // 不等待处理完成，卡片回传需在 3 秒内响应
+    if (this.eventHandler) {
+      Promise.resolve(this.eventHandler(context)).catch((error) => {
+        this.logger.error({ error }, "Card action handler error");
+      });
+    }
+
+    return { toast: { type: "info", content: "已收到" } };
+  }
+
   /** 停止客户端 */
   async stop(): Promise<void> {
     this.logger.info("Stopping Feishu WebSocket client");
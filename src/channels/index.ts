@@ -7,8 +7,16 @@ export * from "./feishu/index.js";
 export * from "./dingtalk/index.js";
 export * from "./qq/index.js";
 export * from "./wecom/index.js";
+export * from "./webhook/index.js";
+export * from "./telegram/index.js";
+export * from "./slack/index.js";
+export * from "./discord/index.js";
+export { registerBuiltinChannels } from "./builtin.js";
 
 export { FeishuApiClient } from "./feishu/api.js";
 export { DingtalkApiClient } from "./dingtalk/api.js";
 export { QQApiClient } from "./qq/api.js";
 export { WeComApiClient } from "./wecom/api.js";
+export { TelegramApiClient } from "./telegram/api.js";
+export { SlackApiClient } from "./slack/api.js";
+export { DiscordApiClient } from "./discord/api.js";
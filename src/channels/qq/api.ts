@@ -5,6 +5,7 @@
 
 import axios, { type AxiosInstance } from "axios";
 import { getChildLogger } from "../../utils/logger.js";
+import { getMediaCache } from "../../media/cache.js";
 import type { QQConfig } from "../../types/index.js";
 
 const logger = getChildLogger("qq-api");
@@ -28,6 +29,9 @@ interface SendMessageResponse {
   timestamp: number;
 }
 
+/** v2 消息目标: 私聊或群聊 */
+export type QQMessageTarget = "users" | "groups";
+
 export class QQApiClient {
   private config: QQConfig;
   private client: AxiosInstance;
@@ -100,7 +104,8 @@ export class QQApiClient {
   async sendDirectMessage(
     openId: string,
     content: string,
-    msgId?: string
+    msgId?: string,
+    msgSeq?: number
   ): Promise<SendMessageResponse> {
     const headers = await this.getAuthHeaders();
     const data: Record<string, unknown> = {
@@ -111,6 +116,10 @@ export class QQApiClient {
     if (msgId) {
       data.msg_id = msgId;
     }
+    // 同一条消息的多次被动回复需要递增的 msg_seq
+    if (msgSeq) {
+      data.msg_seq = msgSeq;
+    }
 
     const response = await this.client.post(`/v2/users/${openId}/messages`, data, {
       headers,
@@ -124,7 +133,8 @@ export class QQApiClient {
   async sendGroupMessage(
     groupOpenId: string,
     content: string,
-    msgId?: string
+    msgId?: string,
+    msgSeq?: number
   ): Promise<SendMessageResponse> {
     const headers = await this.getAuthHeaders();
     const data: Record<string, unknown> = {
@@ -135,6 +145,10 @@ export class QQApiClient {
     if (msgId) {
       data.msg_id = msgId;
     }
+    // 同一条消息的多次被动回复需要递增的 msg_seq
+    if (msgSeq) {
+      data.msg_seq = msgSeq;
+    }
 
     const response = await this.client.post(`/v2/groups/${groupOpenId}/messages`, data, {
       headers,
@@ -207,6 +221,72 @@ export class QQApiClient {
     return response.data;
   }
 
+  /**
+   * 发送群聊/私聊富消息 (msg_type 2 markdown、7 富媒体)
+   * target 为 users (私聊) 或 groups (群聊)
+   */
+  async sendV2Message(
+    target: QQMessageTarget,
+    openId: string,
+    payload: Record<string, unknown>,
+    msgId?: string,
+    msgSeq?: number
+  ): Promise<SendMessageResponse> {
+    const headers = await this.getAuthHeaders();
+    const data: Record<string, unknown> = { content: "", ...payload };
+    if (msgId) {
+      data.msg_id = msgId;
+    }
+    if (msgSeq) {
+      data.msg_seq = msgSeq;
+    }
+
+    const response = await this.client.post(`/v2/${target}/${openId}/messages`, data, { headers });
+    logger.debug({ target, openId, messageId: response.data.id, msgType: data.msg_type }, "Rich message sent");
+    return response.data;
+  }
+
+  /**
+   * 上传群聊/私聊富媒体，返回 file_info (用于 msg_type 7)
+   * fileType: 1 图片, 2 视频, 3 语音, 4 文件
+   */
+  async uploadMedia(
+    target: QQMessageTarget,
+    openId: string,
+    source: { url: string } | { data: Buffer },
+    fileType: number
+  ): Promise<string> {
+    const headers = await this.getAuthHeaders();
+    const body: Record<string, unknown> = { file_type: fileType, srv_send_msg: false };
+    if ("url" in source) {
+      body.url = source.url;
+    } else {
+      body.file_data = source.data.toString("base64");
+    }
+
+    const response = await this.client.post(`/v2/${target}/${openId}/files`, body, { headers, timeout: 120000 });
+    const fileInfo = response.data?.file_info;
+    if (!fileInfo) {
+      throw new Error(`Failed to upload media: ${JSON.stringify(response.data)}`);
+    }
+    return fileInfo;
+  }
+
+  /** 下载消息附件 (附件 URL 可能不带协议头) */
+  async downloadAttachment(url: string): Promise<{ data: Buffer; mimeType?: string }> {
+    const fullUrl = /^https?:\/\//.test(url) ? url : `https://${url}`;
+    const response = await axios.get<ArrayBuffer>(fullUrl, {
+      responseType: "arraybuffer",
+      timeout: 60000,
+      maxContentLength: getMediaCache().getMaxFileSize(),
+    });
+    const contentType = response.headers["content-type"];
+    return {
+      data: Buffer.from(response.data),
+      mimeType: typeof contentType === "string" ? contentType : undefined,
+    };
+  }
+
   /** 获取用户信息 */
   async getUserInfo(openId: string): Promise<{ id: string; username: string }> {
     const headers = await this.getAuthHeaders();
@@ -9,8 +9,16 @@ import type {
   ChannelMeta,
   OutboundMessage,
   SendResult,
+  InboundMessageContext,
+  MediaAttachment,
 } from "../../types/index.js";
-import { BaseChannelAdapter } from "../common/base.js";
+import {
+  BaseChannelAdapter,
+  ChunkedReplyStream,
+  type ReplyStream,
+  type DownloadedMedia,
+} from "../common/base.js";
+import { hasRichContent, getOutboundBlocks, blocksToMarkdown, isRemoteSource, loadMediaSource } from "../common/rich.js";
 import { QQApiClient } from "./api.js";
 import { QQWebSocketClient } from "./websocket.js";
 import { getChildLogger } from "../../utils/logger.js";
@@ -32,6 +40,12 @@ const QQ_META: ChannelMeta = {
   },
 };
 
+/** 最多跟踪的被动回复消息数 */
+const MAX_TRACKED_REPLIES = 1000;
+
+/** 富媒体文件类型: 图片 */
+const QQ_FILE_TYPE_IMAGE = 1;
+
 export class QQChannel extends BaseChannelAdapter {
   readonly id = "qq" as const;
   readonly meta = QQ_META;
@@ -40,6 +54,8 @@ export class QQChannel extends BaseChannelAdapter {
   private apiClient: QQApiClient;
   private wsClient: QQWebSocketClient | null = null;
   private initialized = false;
+  /** 各消息已使用的被动回复序号 (同一条消息的多次回复需要递增的 msg_seq) */
+  private replySeqs = new Map<string, number>();
 
   constructor(config: QQConfig) {
     super();
@@ -88,6 +104,14 @@ export class QQChannel extends BaseChannelAdapter {
     await this.wsClient.start();
   }
 
+  /** 下载消息附件 (key 为附件 URL) */
+  protected async downloadAttachment(
+    _context: InboundMessageContext,
+    attachment: MediaAttachment
+  ): Promise<DownloadedMedia> {
+    return this.apiClient.downloadAttachment(attachment.key);
+  }
+
   /** 关闭通道 */
   async shutdown(): Promise<void> {
     this.logger.info("Shutting down QQ channel");
@@ -102,20 +126,87 @@ export class QQChannel extends BaseChannelAdapter {
 
   /** 发送消息 */
   async sendMessage(message: OutboundMessage): Promise<SendResult> {
+    return this.deliver(message);
+  }
+
+  /**
+   * 发送富内容: 群聊/私聊中图片上传后以富媒体消息发送，
+   * 文本在开启 markdown 时使用 markdown 消息；频道消息与文件降级为文本
+   */
+  private async sendRichMessage(message: OutboundMessage, msgSeq?: number): Promise<void> {
+    const { chatId, replyToId } = message;
+    const blocks = getOutboundBlocks(message);
+    const target = chatId.startsWith("group:") ? "groups" : chatId.startsWith("c2c:") ? "users" : null;
+
+    if (!target) {
+      const content = blocksToMarkdown(blocks);
+      if (chatId.startsWith("dms:")) {
+        await this.apiClient.sendDMMessage(chatId.replace("dms:", ""), content, replyToId);
+      } else {
+        await this.apiClient.sendChannelMessage(chatId.replace(/^channel:/, ""), content, replyToId);
+      }
+      return;
+    }
+
+    const openId = chatId.slice(chatId.indexOf(":") + 1);
+    let seq = msgSeq;
+    const send = async (payload: Record<string, unknown>) => {
+      await this.apiClient.sendV2Message(target, openId, payload, replyToId, seq);
+      seq = replyToId ? this.nextMsgSeq(replyToId) : undefined;
+    };
+
+    const textBlocks = blocks.filter((block) => block.type !== "image");
+    if (textBlocks.length > 0) {
+      const content = blocksToMarkdown(textBlocks);
+      await send(this.config.markdown ? { msg_type: 2, markdown: { content } } : { msg_type: 0, content });
+    }
+
+    for (const block of blocks) {
+      if (block.type !== "image") continue;
+      const source = isRemoteSource(block.source)
+        ? { url: block.source }
+        : { data: (await loadMediaSource(block.source)).data };
+      const fileInfo = await this.apiClient.uploadMedia(target, openId, source, QQ_FILE_TYPE_IMAGE);
+      await send({ msg_type: 7, media: { file_info: fileInfo } });
+    }
+  }
+
+  /** 分配被动回复序号 */
+  private nextMsgSeq(replyToId: string): number {
+    const seq = (this.replySeqs.get(replyToId) ?? 0) + 1;
+    this.replySeqs.delete(replyToId);
+    this.replySeqs.set(replyToId, seq);
+    // 只保留最近的消息
+    if (this.replySeqs.size > MAX_TRACKED_REPLIES) {
+      const oldest = this.replySeqs.keys().next().value;
+      if (oldest !== undefined) this.replySeqs.delete(oldest);
+    }
+    return seq;
+  }
+
+  /** 发送消息 */
+  private async deliver(message: OutboundMessage): Promise<SendResult> {
     try {
-      const { chatId, content, replyToId } = message;
+      const { chatId, replyToId } = message;
+      const msgSeq = replyToId ? this.nextMsgSeq(replyToId) : undefined;
+
+      if (hasRichContent(message)) {
+        await this.sendRichMessage(message, msgSeq);
+        return { success: true };
+      }
+      const content = message.content;
 
       // 根据 chatId 前缀判断消息类型
       if (chatId.startsWith("group:")) {
         // QQ 群消息 (v2 API)
         const groupOpenId = chatId.replace("group:", "");
         this.logger.debug({ groupOpenId, hasReplyToId: !!replyToId }, "Sending group message");
-        await this.apiClient.sendGroupMessage(groupOpenId, content, replyToId);
+        await this.apiClient.sendGroupMessage(groupOpenId, content, replyToId, msgSeq);
       } else if (chatId.startsWith("c2c:")) {
         // QQ 私聊消息 (v2 API)
         const openId = chatId.replace("c2c:", "");
         this.logger.debug({ openId, hasReplyToId: !!replyToId }, "Sending direct message");
-        await this.apiClient.sendDirectMessage(openId, content, replyToId);
+        await this.apiClient.sendDirectMessage(openId, content, replyToId, msgSeq);
       } else if (chatId.startsWith("dms:")) {
         // 频道私信
         const guildId = chatId.replace("dms:", "");
@@ -159,6 +250,14 @@ export class QQChannel extends BaseChannelAdapter {
     return this.sendMessage({ chatId, content: text, replyToId });
   }
 
+  /** 创建流式回复: 按段落分多条被动回复发送 (每条消息最多 5 次被动回复) */
+  async createReplyStream(context: InboundMessageContext): Promise<ReplyStream | null> {
+    return new ChunkedReplyStream(
+      (text) => this.deliver({ chatId: context.chatId, content: text, replyToId: context.messageId }),
+      { maxLength: this.meta.capabilities.maxMessageLength, maxMessages: 5 }
+    );
+  }
+
   /** 检查通道状态 */
   async isHealthy(): Promise<boolean> {
     try {
@@ -5,7 +5,7 @@
 
 import WebSocket from "ws";
 import { getChildLogger } from "../../utils/logger.js";
-import type { QQConfig, InboundMessageContext } from "../../types/index.js";
+import type { QQConfig, InboundMessageContext, MediaAttachment } from "../../types/index.js";
 import { QQApiClient } from "./api.js";
 
 const logger = getChildLogger("qq-ws");
@@ -67,6 +67,43 @@ interface MessageEventData {
   channel_id?: string;
   guild_id?: string;
   group_openid?: string;
+  attachments?: Array<{
+    content_type: string;
+    filename?: string;
+    url: string;
+    size?: number;
+  }>;
+  /** 频道消息中被 @ 的用户 */
+  mentions?: Array<{ id: string; bot?: boolean }>;
+}
+
+/** 附件类型的占位文本 */
+const ATTACHMENT_PLACEHOLDERS: Record<MediaAttachment["type"], string> = {
+  image: "[图片]",
+  file: "[文件]",
+  audio: "[语音]",
+  video: "[视频]",
+};
+
+/** 解析消息附件 (content_type 为 MIME 类型或 voice、file 等) */
+function parseAttachments(data: MessageEventData): MediaAttachment[] {
+  return (data.attachments ?? []).map((attachment) => {
+    const contentType = attachment.content_type;
+    const type: MediaAttachment["type"] = contentType.startsWith("image")
+      ? "image"
+      : contentType.startsWith("video")
+        ? "video"
+        : contentType.startsWith("audio") || contentType === "voice"
+          ? "audio"
+          : "file";
+    return {
+      type,
+      key: attachment.url,
+      fileName: attachment.filename,
+      mimeType: contentType.includes("/") ? contentType : undefined,
+      size: attachment.size,
+    };
+  });
 }
 
 /** 事件处理器类型 */
@@ -317,7 +354,9 @@ export class QQWebSocketClient {
       chatType: "group",
       senderId: data.author.id,
       senderName: data.author.username,
-      content: this.cleanContent(data.content),
+      ...this.parseContent(data),
+      mentions: data.mentions?.map((user) => user.id),
+      mentionedBot: !!data.mentions?.some((user) => user.bot || user.id === this.botUserId),
       timestamp: new Date(data.timestamp).getTime(),
       raw: data,
     };
@@ -336,7 +375,7 @@ export class QQWebSocketClient {
       chatType: "direct",
       senderId: data.author.id,
       senderName: data.author.username,
-      content: this.cleanContent(data.content),
+      ...this.parseContent(data),
       timestamp: new Date(data.timestamp).getTime(),
       raw: data,
     };
@@ -355,7 +394,10 @@ export class QQWebSocketClient {
       chatType: "group",
       senderId: data.author.member_openid || data.author.id,
       senderName: data.author.username,
-      content: this.cleanContent(data.content),
+      ...this.parseContent(data),
+      // 群消息事件只推送 @机器人 的消息
+      mentions: this.botUserId ? [this.botUserId] : undefined,
+      mentionedBot: true,
       timestamp: new Date(data.timestamp).getTime(),
       raw: data,
     };
@@ -374,7 +416,7 @@ export class QQWebSocketClient {
       chatType: "direct",
       senderId: data.author.union_openid || data.author.id,
       senderName: data.author.username,
-      content: this.cleanContent(data.content),
+      ...this.parseContent(data),
       timestamp: new Date(data.timestamp).getTime(),
       raw: data,
     };
@@ -382,6 +424,14 @@ export class QQWebSocketClient {
     await this.eventHandler(context);
   }
 
+  /** 解析消息文本与附件 (纯附件消息使用占位文本) */
+  private parseContent(data: MessageEventData): Pick<InboundMessageContext, "content" | "attachments"> {
+    const attachments = parseAttachments(data);
+    const content =
+      this.cleanContent(data.content ?? "") || attachments.map((a) => ATTACHMENT_PLACEHOLDERS[a.type]).join(" ");
+    return { content, attachments: attachments.length > 0 ? attachments : undefined };
+  }
+
   /** 清理消息内容 (去除 @ 标记等) */
   private cleanContent(content: string): string {
     // 去除 @ 机器人的内容
@@ -0,0 +1,128 @@
+/**
+ * Slack Web API 客户端
+ */
+
+import type { SlackConfig } from "../../types/index.js";
+import type { DownloadedMedia } from "../common/base.js";
+import { readLimitedBody } from "../../media/cache.js";
+
+const SLACK_API_BASE = "https://slack.com/api";
+
+/** Web API 响应 */
+interface SlackApiResponse {
+  ok: boolean;
+  error?: string;
+  [key: string]: unknown;
+}
+
+/** Block Kit 块 */
+export type SlackBlock = Record<string, unknown>;
+
+/** 发送选项 */
+export interface SlackPostOptions {
+  /** 回复的消息串 (thread_ts) */
+  threadTs?: string;
+  blocks?: SlackBlock[];
+}
+
+/** Slack Web API 客户端 */
+export class SlackApiClient {
+  private apiBase: string;
+  private config: SlackConfig;
+
+  constructor(config: SlackConfig) {
+    this.apiBase = (config.apiBase ?? SLACK_API_BASE).replace(/\/$/, "");
+    this.config = config;
+  }
+
+  /**
+   * 调用 Web API 方法
+   * form 为 true 时以表单提交 (部分方法不接受 JSON)，useAppToken 时使用应用级 Token
+   */
+  async call<T extends SlackApiResponse>(
+    method: string,
+    params: Record<string, unknown> = {},
+    options: { form?: boolean; useAppToken?: boolean } = {}
+  ): Promise<T> {
+    const token = options.useAppToken ? this.config.appToken : this.config.botToken;
+    const body = options.form
+      ? new URLSearchParams(
+          Object.entries(params)
+            .filter(([, value]) => value !== undefined)
+            .map(([key, value]): [string, string] => [key, String(value)])
+        ).toString()
+      : JSON.stringify(params);
+    const response = await fetch(`${this.apiBase}/${method}`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${token}`,
+        "Content-Type": options.form ? "application/x-www-form-urlencoded" : "application/json; charset=utf-8",
+      },
+      body,
+    });
+    const data = (await response.json()) as T;
+    if (!data.ok) {
+      throw new Error(`Slack API Error [${method}]: ${data.error ?? response.status}`);
+    }
+    return data;
+  }
+
+  /** 验证 Token 并获取机器人用户 ID */
+  async authTest(): Promise<{ userId: string; team?: string }> {
+    const data = await this.call<SlackApiResponse & { user_id: string; team?: string }>("auth.test");
+    return { userId: data.user_id, team: data.team };
+  }
+
+  /** 获取 Socket Mode 连接地址 */
+  async openConnection(): Promise<string> {
+    const data = await this.call<SlackApiResponse & { url: string }>("apps.connections.open", {}, { useAppToken: true });
+    return data.url;
+  }
+
+  /** 发送消息，返回消息 ts */
+  async postMessage(channel: string, text: string, options: SlackPostOptions = {}): Promise<string> {
+    const data = await this.call<SlackApiResponse & { ts: string }>("chat.postMessage", {
+      channel,
+      text,
+      thread_ts: options.threadTs,
+      blocks: options.blocks,
+    });
+    return data.ts;
+  }
+
+  /** 更新消息 */
+  async updateMessage(channel: string, ts: string, text: string): Promise<void> {
+    await this.call("chat.update", { channel, ts, text });
+  }
+
+  /** 上传文件到会话 */
+  async uploadFile(channel: string, data: Buffer, fileName: string, threadTs?: string): Promise<string> {
+    const upload = await this.call<SlackApiResponse & { upload_url: string; file_id: string }>(
+      "files.getUploadURLExternal",
+      { filename: fileName, length: data.length },
+      { form: true }
+    );
+    const response = await fetch(upload.upload_url, { method: "POST", body: data });
+    if (!response.ok) {
+      throw new Error(`Failed to upload file: ${response.status}`);
+    }
+    await this.call("files.completeUploadExternal", {
+      files: [{ id: upload.file_id, title: fileName }],
+      channel_id: channel,
+      thread_ts: threadTs,
+    });
+    return upload.file_id;
+  }
+
+  /** 下载私有文件 (url_private 需要 Bot Token) */
+  async downloadFile(url: string): Promise<DownloadedMedia> {
+    const response = await fetch(url, { headers: { Authorization: `Bearer ${this.config.botToken}` } });
+    if (!response.ok) {
+      throw new Error(`Failed to download file: ${response.status}`);
+    }
+    return {
+      data: await readLimitedBody(response),
+      mimeType: response.headers.get("content-type")?.split(";")[0],
+    };
+  }
+}
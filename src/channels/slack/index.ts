@@ -0,0 +1,336 @@
+/**
+ * Slack 通道适配器
+ *
+ * 配置 appToken 时使用 Socket Mode 长连接 (无需公网地址)，
+ * 否则通过 Events API 回调 (/slack/events) 接收事件并以 signingSecret 验签
+ */
+
+import { Router, type Request, type Response } from "express";
+import { createHmac } from "crypto";
+import type {
+  SlackConfig,
+  ChannelMeta,
+  OutboundMessage,
+  OutboundBlock,
+  SendResult,
+  InboundMessageContext,
+  MediaAttachment,
+} from "../../types/index.js";
+import {
+  BaseChannelAdapter,
+  EditableReplyStream,
+  splitText,
+  type ReplyStream,
+  type DownloadedMedia,
+} from "../common/base.js";
+import { blocksToMarkdown, getOutboundBlocks, hasRichContent, isRemoteSource, loadMediaSource } from "../common/rich.js";
+import type { RawBodyRequest } from "../webhook/index.js";
+import { SlackApiClient, type SlackBlock } from "./api.js";
+import { SlackSocketClient } from "./socket.js";
+import { getChildLogger } from "../../utils/logger.js";
+import { safeEqual } from "../../utils/index.js";
+
+/** 单条消息最大长度 (Slack 建议值) */
+const MAX_MESSAGE_LENGTH = 4000;
+
+/** 请求时间戳允许的偏差 (秒) */
+const SIGNATURE_TOLERANCE_SEC = 300;
+
+/** Slack 通道元数据 */
+const SLACK_META: ChannelMeta = {
+  id: "slack",
+  name: "Slack",
+  description: "Slack App (Socket Mode / Events API)",
+  capabilities: {
+    chatTypes: ["direct", "group"],
+    supportsMedia: true,
+    supportsReply: true,
+    supportsMention: true,
+    supportsReaction: false,
+    supportsThread: true,
+    supportsEdit: true,
+    maxMessageLength: MAX_MESSAGE_LENGTH,
+  },
+};
+
+/** 消息事件 */
+interface SlackMessageEvent {
+  type: "message" | "app_mention";
+  subtype?: string;
+  channel: string;
+  channel_type?: "im" | "mpim" | "channel" | "group";
+  user?: string;
+  bot_id?: string;
+  text?: string;
+  ts: string;
+  thread_ts?: string;
+  files?: Array<{ id: string; name?: string; mimetype?: string; url_private_download?: string; url_private?: string }>;
+}
+
+/** 计算 Events API 请求签名 */
+export function signSlackRequest(signingSecret: string, timestamp: string, body: string): string {
+  return `v0=${createHmac("sha256", signingSecret).update(`v0:${timestamp}:${body}`).digest("hex")}`;
+}
+
+/** 内容块转换为 Block Kit (图片仅支持远程 URL，本地图片与文件另行上传) */
+function toSlackBlocks(blocks: OutboundBlock[]): SlackBlock[] {
+  const result: SlackBlock[] = [];
+  for (const block of blocks) {
+    if (block.type === "markdown") {
+      result.push({ type: "section", text: { type: "mrkdwn", text: block.text } });
+    } else if (block.type === "card") {
+      if (block.title) {
+        result.push({ type: "header", text: { type: "plain_text", text: block.title } });
+      }
+      result.push({ type: "section", text: { type: "mrkdwn", text: block.text } });
+      const links = (block.buttons ?? []).filter((button) => button.url);
+      if (links.length > 0) {
+        result.push({
+          type: "actions",
+          elements: links.map((button) => ({
+            type: "button",
+            text: { type: "plain_text", text: button.text },
+            url: button.url,
+          })),
+        });
+      }
+      const commands = (block.buttons ?? []).filter((button) => !button.url && button.command);
+      if (commands.length > 0) {
+        result.push({
+          type: "context",
+          elements: [{ type: "mrkdwn", text: commands.map((button) => `${button.text}: \`${button.command}\``).join("\n") }],
+        });
+      }
+    } else if (block.type === "image" && isRemoteSource(block.source)) {
+      result.push({ type: "image", image_url: block.source, alt_text: "image" });
+    }
+  }
+  return result;
+}
+
+export class SlackChannel extends BaseChannelAdapter {
+  readonly id = "slack" as const;
+  readonly meta = SLACK_META;
+
+  private config: SlackConfig;
+  private apiClient: SlackApiClient;
+  private socketClient: SlackSocketClient | null = null;
+  private botUserId: string | null = null;
+
+  constructor(config: SlackConfig) {
+    super();
+    this.config = config;
+    this.apiClient = new SlackApiClient(config);
+    this.logger = getChildLogger("slack");
+  }
+
+  /** 初始化通道 */
+  async initialize(): Promise<void> {
+    if (!this.config.botToken) {
+      throw new Error("Slack botToken is required");
+    }
+    if (!this.config.appToken && !this.config.signingSecret) {
+      throw new Error("Slack appToken (Socket Mode) or signingSecret (Events API) is required");
+    }
+
+    const auth = await this.apiClient.authTest();
+    this.botUserId = auth.userId;
+    this.logger.info({ botUserId: auth.userId, team: auth.team }, "Slack bot authenticated");
+
+    if (this.config.appToken) {
+      this.socketClient = new SlackSocketClient(this.apiClient);
+      this.socketClient.setEventHandler((event) => this.handleEvent(event));
+      await this.socketClient.start();
+    }
+  }
+
+  /** 关闭通道 */
+  async shutdown(): Promise<void> {
+    if (this.socketClient) {
+      await this.socketClient.stop();
+      this.socketClient = null;
+    }
+  }
+
+  /** 校验 Events API 请求签名 */
+  verifySignature(timestamp: string | undefined, signature: string | undefined, body: string, now = Date.now()): boolean {
+    if (!this.config.signingSecret || !timestamp || !signature) return false;
+    if (Math.abs(now / 1000 - Number(timestamp)) > SIGNATURE_TOLERANCE_SEC) return false;
+    return safeEqual(signature, signSlackRequest(this.config.signingSecret, timestamp, body));
+  }
+
+  /** 处理事件 (Socket Mode 与 Events API 共用) */
+  async handleEvent(event: Record<string, unknown>): Promise<void> {
+    const context = this.parseEvent(event as unknown as SlackMessageEvent);
+    if (context) {
+      await this.handleInboundMessage(context);
+    }
+  }
+
+  /**
+   * 事件转换为入站上下文
+   * 频道中的 @ 消息会同时触发 message 与 app_mention，两者 ts 相同，由 Gateway 按消息 ID 去重
+   */
+  parseEvent(event: SlackMessageEvent): InboundMessageContext | null {
+    if (event.type !== "message" && event.type !== "app_mention") return null;
+    // 忽略机器人消息与编辑、删除等子类型 (文件分享除外)
+    if (event.bot_id || !event.user || event.user === this.botUserId) return null;
+    if (event.subtype && event.subtype !== "file_share") return null;
+
+    const mentions: string[] = [];
+    let content = (event.text ?? "").replace(/<@([A-Z0-9]+)(?:\|[^>]*)?>/g, (match, userId: string) => {
+      mentions.push(userId);
+      return userId === this.botUserId ? "" : match;
+    });
+    content = content.trim();
+
+    const attachments: MediaAttachment[] = (event.files ?? [])
+      .filter((file) => file.url_private_download ?? file.url_private)
+      .map((file) => ({
+        type: file.mimetype?.startsWith("image/") ? "image" : "file",
+        key: (file.url_private_download ?? file.url_private)!,
+        fileName: file.name,
+        mimeType: file.mimetype,
+      }));
+    if (!content && attachments.length === 0) return null;
+
+    return {
+      channelId: "slack",
+      messageId: event.ts,
+      chatId: event.channel,
+      chatType: event.channel_type === "im" ? "direct" : "group",
+      senderId: event.user,
+      content,
+      attachments: attachments.length > 0 ? attachments : undefined,
+      replyToId: event.thread_ts,
+      mentions: mentions.length > 0 ? mentions : undefined,
+      mentionedBot: event.type === "app_mention" || (!!this.botUserId && mentions.includes(this.botUserId)),
+      timestamp: Math.floor(Number(event.ts) * 1000),
+      raw: event,
+    };
+  }
+
+  /** 下载私有文件 */
+  protected async downloadAttachment(
+    _context: InboundMessageContext,
+    attachment: MediaAttachment
+  ): Promise<DownloadedMedia> {
+    return this.apiClient.downloadFile(attachment.key);
+  }
+
+  /** 发送消息 (replyToId 为消息串 thread_ts) */
+  async sendMessage(message: OutboundMessage): Promise<SendResult> {
+    try {
+      const threadTs = message.replyToId;
+      let messageId: string | undefined;
+
+      if (message.content) {
+        for (const chunk of splitText(message.content, MAX_MESSAGE_LENGTH)) {
+          messageId = await this.apiClient.postMessage(message.chatId, chunk, { threadTs });
+        }
+      }
+      if (hasRichContent(message)) {
+        const blocks = getOutboundBlocks(message);
+        const slackBlocks = toSlackBlocks(blocks);
+        if (slackBlocks.length > 0) {
+          const fallback = blocksToMarkdown(blocks.filter((block) => block.type !== "file")).slice(0, MAX_MESSAGE_LENGTH);
+          messageId = await this.apiClient.postMessage(message.chatId, fallback, { threadTs, blocks: slackBlocks });
+        }
+        for (const block of blocks) {
+          if ((block.type === "image" && !isRemoteSource(block.source)) || block.type === "file") {
+            const media = await loadMediaSource(block.source, block.type === "file" ? block.fileName : undefined);
+            await this.apiClient.uploadFile(message.chatId, media.data, media.fileName, threadTs);
+          }
+        }
+      }
+
+      return { success: true, messageId };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.logger.error({ error, chatId: message.chatId }, "Failed to send message");
+      return { success: false, error: errorMessage };
+    }
+  }
+
+  /** 发送文本消息 */
+  async sendText(chatId: string, text: string, replyToId?: string): Promise<SendResult> {
+    return this.sendMessage({ chatId, content: text, replyToId });
+  }
+
+  /** 回复入站消息 (消息在消息串中时回复到同一消息串) */
+  override async replyToContext(context: InboundMessageContext, text: string): Promise<SendResult> {
+    return this.sendText(context.chatId, text, context.replyToId);
+  }
+
+  /** 创建流式回复 (更新同一条消息) */
+  async createReplyStream(context: InboundMessageContext): Promise<ReplyStream | null> {
+    const threadTs = context.replyToId;
+    return new EditableReplyStream({
+      maxLength: MAX_MESSAGE_LENGTH,
+      send: (text) => this.apiClient.postMessage(context.chatId, text, { threadTs }),
+      edit: (ts, text) => this.apiClient.updateMessage(context.chatId, ts, text),
+    });
+  }
+
+  /** 检查通道状态 */
+  async isHealthy(): Promise<boolean> {
+    try {
+      await this.apiClient.authTest();
+      return this.socketClient ? this.socketClient.isConnected() : true;
+    } catch {
+      return false;
+    }
+  }
+
+  /** 创建 Express 路由处理器 (Events API) */
+  createRouter(): Router {
+    const router = Router();
+
+    router.post("/events", (req: Request, res: Response) => {
+      this.handleEventsRequest(req as RawBodyRequest, res).catch((error) => {
+        this.logger.error({ error }, "Slack events handler error");
+        if (!res.headersSent) res.status(500).json({ error: "Internal server error" });
+      });
+    });
+
+    return router;
+  }
+
+  /** 处理 Events API 请求: 验签后立即响应，事件异步处理 */
+  private async handleEventsRequest(req: RawBodyRequest, res: Response): Promise<void> {
+    const rawBody = req.rawBody?.toString("utf-8") ?? "";
+    const timestamp = req.header("x-slack-request-timestamp");
+    const signature = req.header("x-slack-signature");
+    if (!this.verifySignature(timestamp, signature, rawBody)) {
+      this.logger.warn({ ip: req.ip }, "Invalid Slack signature");
+      res.status(401).json({ error: "Invalid signature" });
+      return;
+    }
+
+    const body = req.body as { type?: string; challenge?: string; event?: Record<string, unknown> };
+    if (body.type === "url_verification") {
+      res.json({ challenge: body.challenge });
+      return;
+    }
+
+    res.status(200).end();
+    if (body.type === "event_callback" && body.event) {
+      await this.handleEvent(body.event);
+    }
+  }
+
+  /** 获取 API 客户端 */
+  getApiClient(): SlackApiClient {
+    return this.apiClient;
+  }
+
+  /** 检查是否使用 Socket Mode */
+  isUsingSocketMode(): boolean {
+    return this.socketClient !== null;
+  }
+}
+
+/** 创建 Slack 通道 */
+export function createSlackChannel(config: SlackConfig): SlackChannel {
+  return new SlackChannel(config);
+}
@@ -0,0 +1,152 @@
+/**
+ * Slack Socket Mode 客户端
+ * 通过 apps.connections.open 获取地址后建立 WebSocket 长连接，收到的信封需立即确认
+ */
+
+import WebSocket from "ws";
+import { getChildLogger } from "../../utils/logger.js";
+import type { SlackApiClient } from "./api.js";
+
+const logger = getChildLogger("slack-socket");
+
+/** 等待 hello 的超时时间 */
+const CONNECT_TIMEOUT_MS = 30000;
+
+/** Socket Mode 信封 */
+export interface SlackEnvelope {
+  type: string;
+  envelope_id?: string;
+  payload?: { type?: string; event?: Record<string, unknown> };
+  reason?: string;
+}
+
+/** 事件处理器 (参数为 Events API 的 event 对象) */
+type EventHandler = (event: Record<string, unknown>) => Promise<void>;
+
+export class SlackSocketClient {
+  private apiClient: SlackApiClient;
+  private ws: WebSocket | null = null;
+  private eventHandler: EventHandler | null = null;
+  private reconnectAttempts = 0;
+  private maxReconnectAttempts = 10;
+  private stopped = false;
+  private connected = false;
+
+  constructor(apiClient: SlackApiClient) {
+    this.apiClient = apiClient;
+  }
+
+  /** 设置事件处理器 */
+  setEventHandler(handler: EventHandler): void {
+    this.eventHandler = handler;
+  }
+
+  /** 启动连接 (收到 hello 后返回) */
+  async start(): Promise<void> {
+    this.stopped = false;
+    const url = await this.apiClient.openConnection();
+    await this.connect(url);
+  }
+
+  /** 连接到 Socket Mode 地址 */
+  private connect(url: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const ws = new WebSocket(url);
+      this.ws = ws;
+      const timer = setTimeout(() => reject(new Error("Connection timeout")), CONNECT_TIMEOUT_MS);
+
+      ws.on("message", (data: WebSocket.Data) => {
+        let envelope: SlackEnvelope;
+        try {
+          envelope = JSON.parse(data.toString()) as SlackEnvelope;
+        } catch (error) {
+          logger.error({ error }, "Invalid Socket Mode payload");
+          return;
+        }
+        if (envelope.type === "hello") {
+          this.connected = true;
+          this.reconnectAttempts = 0;
+          logger.info("Slack Socket Mode connected");
+          clearTimeout(timer);
+          resolve();
+          return;
+        }
+        this.handleEnvelope(envelope);
+      });
+
+      ws.on("close", (code) => {
+        if (this.ws !== ws) return;
+        this.ws = null;
+        this.connected = false;
+        if (!this.stopped) {
+          logger.warn({ code }, "Slack Socket Mode closed");
+          this.scheduleReconnect();
+        }
+      });
+
+      ws.on("error", (error) => {
+        logger.error({ error }, "Slack Socket Mode error");
+        clearTimeout(timer);
+        reject(error);
+      });
+    });
+  }
+
+  /** 处理信封: 先确认，再分发 events_api 事件 */
+  private handleEnvelope(envelope: SlackEnvelope): void {
+    if (envelope.envelope_id && this.ws?.readyState === WebSocket.OPEN) {
+      this.ws.send(JSON.stringify({ envelope_id: envelope.envelope_id }));
+    }
+
+    if (envelope.type === "disconnect") {
+      // 服务端即将关闭连接 (刷新或维护)，提前建立新连接
+      logger.info({ reason: envelope.reason }, "Slack requested reconnect");
+      this.reconnect();
+      return;
+    }
+
+    const event = envelope.payload?.event;
+    if (envelope.type === "events_api" && event && this.eventHandler) {
+      this.eventHandler(event).catch((error) => {
+        logger.error({ error }, "Failed to handle Slack event");
+      });
+    }
+  }
+
+  /** 断线后按指数退避重连 */
+  private scheduleReconnect(): void {
+    if (this.reconnectAttempts >= this.maxReconnectAttempts) {
+      logger.error("Max reconnect attempts reached");
+      return;
+    }
+    this.reconnectAttempts++;
+    const delay = Math.min(1000 * Math.pow(2, this.reconnectAttempts), 60000);
+    setTimeout(() => this.reconnect(), delay);
+  }
+
+  /** 重新连接 */
+  private reconnect(): void {
+    if (this.stopped) return;
+    const previous = this.ws;
+    this.ws = null;
+    previous?.close();
+    this.start().catch((error) => {
+      logger.error({ error }, "Failed to reconnect");
+      this.scheduleReconnect();
+    });
+  }
+
+  /** 停止连接 */
+  async stop(): Promise<void> {
+    this.stopped = true;
+    const ws = this.ws;
+    this.ws = null;
+    ws?.close();
+    this.connected = false;
+  }
+
+  /** 检查是否已连接 */
+  isConnected(): boolean {
+    return this.connected;
+  }
+}
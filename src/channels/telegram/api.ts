@@ -0,0 +1,194 @@
+/**
+ * Telegram Bot API 客户端
+ */
+
+import type { TelegramConfig } from "../../types/index.js";
+import type { DownloadedMedia } from "../common/base.js";
+import { readLimitedBody } from "../../media/cache.js";
+
+const TELEGRAM_API_BASE = "https://api.telegram.org";
+
+/** Bot API 响应 */
+interface TelegramApiResponse<T> {
+  ok: boolean;
+  result?: T;
+  error_code?: number;
+  description?: string;
+}
+
+/** 用户 */
+export interface TelegramUser {
+  id: number;
+  is_bot: boolean;
+  first_name: string;
+  last_name?: string;
+  username?: string;
+}
+
+/** 聊天 */
+export interface TelegramChat {
+  id: number;
+  type: "private" | "group" | "supergroup" | "channel";
+  title?: string;
+}
+
+/** 消息实体 (@提及、命令等) */
+export interface TelegramEntity {
+  type: string;
+  offset: number;
+  length: number;
+  user?: TelegramUser;
+}
+
+/** 文件类消息字段 */
+export interface TelegramFile {
+  file_id: string;
+  file_name?: string;
+  mime_type?: string;
+  file_size?: number;
+}
+
+/** 消息 */
+export interface TelegramMessage {
+  message_id: number;
+  message_thread_id?: number;
+  from?: TelegramUser;
+  chat: TelegramChat;
+  date: number;
+  text?: string;
+  caption?: string;
+  entities?: TelegramEntity[];
+  caption_entities?: TelegramEntity[];
+  photo?: Array<TelegramFile & { width: number; height: number }>;
+  document?: TelegramFile;
+  voice?: TelegramFile;
+  audio?: TelegramFile;
+  video?: TelegramFile;
+  reply_to_message?: TelegramMessage;
+}
+
+/** 更新 */
+export interface TelegramUpdate {
+  update_id: number;
+  message?: TelegramMessage;
+}
+
+/** 内联键盘 */
+export interface TelegramReplyMarkup {
+  inline_keyboard: Array<Array<{ text: string; url?: string; callback_data?: string }>>;
+}
+
+/** 发送选项 */
+export interface TelegramSendOptions {
+  replyToMessageId?: number;
+  threadId?: number;
+  replyMarkup?: TelegramReplyMarkup;
+}
+
+/** 上传或引用的文件 (URL、file_id 或文件内容) */
+export type TelegramInputFile = string | { data: Buffer; fileName: string };
+
+/** Telegram Bot API 客户端 */
+export class TelegramApiClient {
+  private apiBase: string;
+  private token: string;
+
+  constructor(config: TelegramConfig) {
+    this.apiBase = (config.apiBase ?? TELEGRAM_API_BASE).replace(/\/$/, "");
+    this.token = config.botToken;
+  }
+
+  /** 调用 Bot API 方法 */
+  async call<T>(method: string, params: Record<string, unknown> | FormData = {}, signal?: AbortSignal): Promise<T> {
+    const isForm = params instanceof FormData;
+    const response = await fetch(`${this.apiBase}/bot${this.token}/${method}`, {
+      method: "POST",
+      headers: isForm ? undefined : { "Content-Type": "application/json" },
+      body: isForm ? params : JSON.stringify(params),
+      signal,
+    });
+    const data = (await response.json()) as TelegramApiResponse<T>;
+    if (!data.ok) {
+      throw new Error(`Telegram API Error [${data.error_code ?? response.status}]: ${data.description ?? method}`);
+    }
+    return data.result as T;
+  }
+
+  /** 获取机器人信息 */
+  async getMe(): Promise<TelegramUser> {
+    return this.call<TelegramUser>("getMe");
+  }
+
+  /** 长轮询获取更新 */
+  async getUpdates(offset: number, timeoutSec: number, signal?: AbortSignal): Promise<TelegramUpdate[]> {
+    return this.call<TelegramUpdate[]>(
+      "getUpdates",
+      { offset, timeout: timeoutSec, allowed_updates: ["message"] },
+      signal
+    );
+  }
+
+  /** 发送文本消息 */
+  async sendMessage(chatId: string, text: string, options: TelegramSendOptions = {}): Promise<TelegramMessage> {
+    return this.call<TelegramMessage>("sendMessage", {
+      chat_id: chatId,
+      text,
+      ...this.sendParams(options),
+    });
+  }
+
+  /** 编辑文本消息 */
+  async editMessageText(chatId: string, messageId: number, text: string): Promise<void> {
+    try {
+      await this.call("editMessageText", { chat_id: chatId, message_id: messageId, text });
+    } catch (error) {
+      // 内容未变化时 Telegram 返回错误，忽略
+      if (!(error instanceof Error && error.message.includes("message is not modified"))) throw error;
+    }
+  }
+
+  /** 发送图片或文件 */
+  async sendMedia(
+    chatId: string,
+    type: "photo" | "document",
+    file: TelegramInputFile,
+    options: TelegramSendOptions & { caption?: string } = {}
+  ): Promise<TelegramMessage> {
+    const method = type === "photo" ? "sendPhoto" : "sendDocument";
+    const params = { chat_id: chatId, caption: options.caption, ...this.sendParams(options) };
+    if (typeof file === "string") {
+      return this.call<TelegramMessage>(method, { ...params, [type]: file });
+    }
+
+    const form = new FormData();
+    for (const [key, value] of Object.entries(params)) {
+      if (value !== undefined) form.append(key, typeof value === "object" ? JSON.stringify(value) : String(value));
+    }
+    form.append(type, new Blob([file.data]), file.fileName);
+    return this.call<TelegramMessage>(method, form);
+  }
+
+  /** 下载文件 */
+  async downloadFile(fileId: string): Promise<DownloadedMedia> {
+    const file = await this.call<{ file_path?: string }>("getFile", { file_id: fileId });
+    if (!file.file_path) {
+      throw new Error(`No file path for file: ${fileId}`);
+    }
+    const response = await fetch(`${this.apiBase}/file/bot${this.token}/${file.file_path}`);
+    if (!response.ok) {
+      throw new Error(`Failed to download file: ${response.status}`);
+    }
+    return {
+      data: await readLimitedBody(response),
+      mimeType: response.headers.get("content-type") ?? undefined,
+    };
+  }
+
+  private sendParams(options: TelegramSendOptions): Record<string, unknown> {
+    return {
+      reply_to_message_id: options.replyToMessageId,
+      message_thread_id: options.threadId,
+      reply_markup: options.replyMarkup,
+    };
+  }
+}
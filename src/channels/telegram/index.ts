@@ -0,0 +1,278 @@
+/**
+ * Telegram 通道适配器
+ *
+ * 使用 getUpdates 长轮询接收消息，无需公网地址
+ */
+
+import type {
+  TelegramConfig,
+  ChannelMeta,
+  OutboundMessage,
+  SendResult,
+  InboundMessageContext,
+  MediaAttachment,
+} from "../../types/index.js";
+import {
+  BaseChannelAdapter,
+  EditableReplyStream,
+  splitText,
+  type ReplyStream,
+  type DownloadedMedia,
+} from "../common/base.js";
+import { blocksToMarkdown, getOutboundBlocks, hasRichContent, isRemoteSource, loadMediaSource } from "../common/rich.js";
+import {
+  TelegramApiClient,
+  type TelegramMessage,
+  type TelegramReplyMarkup,
+  type TelegramUser,
+} from "./api.js";
+import { getChildLogger } from "../../utils/logger.js";
+import { delay } from "../../utils/index.js";
+
+/** 单条消息最大长度 */
+const MAX_MESSAGE_LENGTH = 4096;
+
+/** 默认长轮询超时 (秒) */
+const DEFAULT_POLL_TIMEOUT_SEC = 30;
+
+/** 轮询失败后的重试间隔 */
+const POLL_RETRY_DELAY_MS = 5000;
+
+/** Telegram 通道元数据 */
+const TELEGRAM_META: ChannelMeta = {
+  id: "telegram",
+  name: "Telegram",
+  description: "Telegram Bot (长轮询)",
+  capabilities: {
+    chatTypes: ["direct", "group"],
+    supportsMedia: true,
+    supportsReply: true,
+    supportsMention: true,
+    supportsReaction: false,
+    supportsThread: false,
+    supportsEdit: true,
+    maxMessageLength: MAX_MESSAGE_LENGTH,
+  },
+};
+
+export class TelegramChannel extends BaseChannelAdapter {
+  readonly id = "telegram" as const;
+  readonly meta = TELEGRAM_META;
+
+  private config: TelegramConfig;
+  private apiClient: TelegramApiClient;
+  private bot: TelegramUser | null = null;
+  private offset = 0;
+  private polling: Promise<void> | null = null;
+  private abortController: AbortController | null = null;
+
+  constructor(config: TelegramConfig) {
+    super();
+    this.config = config;
+    this.apiClient = new TelegramApiClient(config);
+    this.logger = getChildLogger("telegram");
+  }
+
+  /** 初始化通道: 获取机器人信息并启动长轮询 */
+  async initialize(): Promise<void> {
+    if (this.polling) return;
+    if (!this.config.botToken) {
+      throw new Error("Telegram botToken is required");
+    }
+
+    this.bot = await this.apiClient.getMe();
+    this.logger.info({ username: this.bot.username }, "Telegram bot authenticated");
+
+    this.abortController = new AbortController();
+    this.polling = this.pollLoop(this.abortController.signal);
+  }
+
+  /** 关闭通道 */
+  async shutdown(): Promise<void> {
+    this.abortController?.abort();
+    await this.polling;
+    this.polling = null;
+    this.abortController = null;
+  }
+
+  /** 长轮询循环 (消息处理不阻塞轮询) */
+  private async pollLoop(signal: AbortSignal): Promise<void> {
+    const timeout = this.config.pollTimeoutSec ?? DEFAULT_POLL_TIMEOUT_SEC;
+    while (!signal.aborted) {
+      try {
+        const updates = await this.apiClient.getUpdates(this.offset, timeout, signal);
+        for (const update of updates) {
+          this.offset = Math.max(this.offset, update.update_id + 1);
+          const context = update.message ? this.parseMessage(update.message) : null;
+          if (!context) continue;
+          this.handleInboundMessage(context).catch((error) => {
+            this.logger.error({ error, messageId: context.messageId }, "Failed to handle Telegram message");
+          });
+        }
+      } catch (error) {
+        if (signal.aborted) break;
+        this.logger.warn({ error }, "Telegram polling failed, retrying");
+        await delay(POLL_RETRY_DELAY_MS);
+      }
+    }
+  }
+
+  /** 消息转换为入站上下文 (忽略机器人消息与不含文本或附件的消息) */
+  parseMessage(message: TelegramMessage): InboundMessageContext | null {
+    if (!message.from || message.from.is_bot) return null;
+
+    let content = message.text ?? message.caption ?? "";
+    const entities = message.entities ?? message.caption_entities ?? [];
+    const username = this.bot?.username;
+    let mentioned = message.reply_to_message?.from?.id !== undefined && message.reply_to_message.from.id === this.bot?.id;
+    for (const entity of entities) {
+      const value = content.slice(entity.offset, entity.offset + entity.length);
+      if (
+        (entity.type === "mention" && username && value.toLowerCase() === `@${username.toLowerCase()}`) ||
+        (entity.type === "text_mention" && entity.user?.id === this.bot?.id)
+      ) {
+        mentioned = true;
+      }
+    }
+    if (username) {
+      content = content.replace(new RegExp(`@${username}\\b`, "gi"), "").trim();
+    }
+
+    const attachments: MediaAttachment[] = [];
+    const photo = message.photo?.[message.photo.length - 1];
+    if (photo) {
+      attachments.push({ type: "image", key: photo.file_id });
+    }
+    const file = message.document ?? message.video;
+    if (file) {
+      attachments.push({
+        type: message.video ? "video" : "file",
+        key: file.file_id,
+        fileName: file.file_name,
+        mimeType: file.mime_type,
+      });
+    }
+    const voice = message.voice ?? message.audio;
+    if (voice) {
+      attachments.push({ type: "audio", key: voice.file_id, mimeType: voice.mime_type });
+    }
+    if (!content && attachments.length === 0) return null;
+
+    const name = [message.from.first_name, message.from.last_name].filter(Boolean).join(" ");
+    return {
+      channelId: "telegram",
+      messageId: String(message.message_id),
+      chatId: String(message.chat.id),
+      chatType: message.chat.type === "private" ? "direct" : "group",
+      senderId: String(message.from.id),
+      senderName: name || message.from.username,
+      content,
+      attachments: attachments.length > 0 ? attachments : undefined,
+      replyToId: message.reply_to_message ? String(message.reply_to_message.message_id) : undefined,
+      mentions: mentioned && this.bot ? [String(this.bot.id)] : undefined,
+      mentionedBot: mentioned,
+      timestamp: message.date * 1000,
+      raw: message,
+    };
+  }
+
+  /** 通过 file_id 下载附件 */
+  protected async downloadAttachment(
+    _context: InboundMessageContext,
+    attachment: MediaAttachment
+  ): Promise<DownloadedMedia> {
+    return this.apiClient.downloadFile(attachment.key);
+  }
+
+  /** 发送消息 */
+  async sendMessage(message: OutboundMessage): Promise<SendResult> {
+    try {
+      const replyToMessageId = message.replyToId ? Number(message.replyToId) : undefined;
+      let messageId: string | undefined;
+
+      if (message.content) {
+        for (const chunk of splitText(message.content, MAX_MESSAGE_LENGTH)) {
+          const sent = await this.apiClient.sendMessage(message.chatId, chunk, { replyToMessageId });
+          messageId = String(sent.message_id);
+        }
+      }
+      if (hasRichContent(message)) {
+        messageId = (await this.sendRichMessage(message)) ?? messageId;
+      }
+
+      return { success: true, messageId };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.logger.error({ error, chatId: message.chatId }, "Failed to send message");
+      return { success: false, error: errorMessage };
+    }
+  }
+
+  /** 发送富内容: 卡片的链接按钮渲染为内联键盘，图片与文件通过 sendPhoto/sendDocument 发送 */
+  private async sendRichMessage(message: OutboundMessage): Promise<string | undefined> {
+    let messageId: string | undefined;
+    for (const block of getOutboundBlocks(message)) {
+      let sent: TelegramMessage;
+      if (block.type === "markdown" || block.type === "card") {
+        const links = block.type === "card" ? (block.buttons ?? []).filter((button) => button.url) : [];
+        const text = blocksToMarkdown([
+          block.type === "card" ? { ...block, buttons: block.buttons?.filter((button) => !button.url) } : block,
+        ]);
+        const replyMarkup: TelegramReplyMarkup | undefined =
+          links.length > 0
+            ? { inline_keyboard: links.map((button) => [{ text: button.text, url: button.url }]) }
+            : undefined;
+        sent = await this.apiClient.sendMessage(message.chatId, text.slice(0, MAX_MESSAGE_LENGTH), { replyMarkup });
+      } else {
+        const type = block.type === "image" ? "photo" : "document";
+        const fileName = block.type === "file" ? block.fileName : undefined;
+        if (isRemoteSource(block.source) && !fileName) {
+          sent = await this.apiClient.sendMedia(message.chatId, type, block.source);
+        } else {
+          const media = await loadMediaSource(block.source, fileName);
+          sent = await this.apiClient.sendMedia(message.chatId, type, { data: media.data, fileName: media.fileName });
+        }
+      }
+      messageId = String(sent.message_id);
+    }
+    return messageId;
+  }
+
+  /** 发送文本消息 */
+  async sendText(chatId: string, text: string, replyToId?: string): Promise<SendResult> {
+    return this.sendMessage({ chatId, content: text, replyToId });
+  }
+
+  /** 创建流式回复 (编辑同一条消息) */
+  async createReplyStream(context: InboundMessageContext): Promise<ReplyStream | null> {
+    const replyToMessageId = Number(context.messageId);
+    return new EditableReplyStream({
+      maxLength: MAX_MESSAGE_LENGTH,
+      send: async (text) => {
+        const sent = await this.apiClient.sendMessage(context.chatId, text, { replyToMessageId });
+        return String(sent.message_id);
+      },
+      edit: (messageId, text) => this.apiClient.editMessageText(context.chatId, Number(messageId), text),
+    });
+  }
+
+  /** 检查通道状态 */
+  async isHealthy(): Promise<boolean> {
+    try {
+      await this.apiClient.getMe();
+      return this.polling !== null;
+    } catch {
+      return false;
+    }
+  }
+
+  /** 获取 API 客户端 */
+  getApiClient(): TelegramApiClient {
+    return this.apiClient;
+  }
+}
+
+/** 创建 Telegram 通道 */
+export function createTelegramChannel(config: TelegramConfig): TelegramChannel {
+  return new TelegramChannel(config);
+}
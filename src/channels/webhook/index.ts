@@ -0,0 +1,276 @@
+/**
+ * 通用 Webhook 通道适配器
+ *
+ * 接收签名的 JSON POST 作为入站消息 (供 Jenkins、Grafana 告警、内部系统调用)，
+ * 回复与主动投递以签名 JSON POST 发送到回调地址
+ */
+
+import { Router, type Request, type Response } from "express";
+import { randomUUID } from "crypto";
+import type {
+  WebhookConfig,
+  ChannelMeta,
+  OutboundMessage,
+  SendResult,
+  InboundMessageContext,
+  ChatType,
+} from "../../types/index.js";
+import { BaseChannelAdapter } from "../common/base.js";
+import { blocksToMarkdown, hasRichContent, getOutboundBlocks } from "../common/rich.js";
+import { computeHmacSha256, retry, safeEqual } from "../../utils/index.js";
+import { getChildLogger } from "../../utils/logger.js";
+
+/** 时间戳请求头 (毫秒) */
+export const WEBHOOK_TIMESTAMP_HEADER = "x-mozi-timestamp";
+
+/** 一次性随机值请求头 (同一值在允许的时间偏差内只接受一次，防止重放) */
+export const WEBHOOK_NONCE_HEADER = "x-mozi-nonce";
+
+/** 签名请求头: base64(HMAC-SHA256(secret, `${timestamp}\n${nonce}\n${body}`)) */
+export const WEBHOOK_SIGNATURE_HEADER = "x-mozi-signature";
+
+/** 默认允许的时间偏差 (秒) */
+const DEFAULT_TOLERANCE_SEC = 300;
+
+/** 记住的回调地址数量上限 */
+const MAX_CALLBACKS = 1000;
+
+/** nonce 最大长度 */
+const MAX_NONCE_LENGTH = 128;
+
+/** 保留原始请求体的请求 (由 Gateway 的 JSON 中间件写入，用于验签) */
+export type RawBodyRequest = Request & { rawBody?: Buffer };
+
+/** 入站请求体 */
+interface WebhookInboundBody {
+  text?: string;
+  content?: string;
+  chatId?: string;
+  chatType?: ChatType;
+  senderId?: string;
+  senderName?: string;
+  messageId?: string;
+  /** 本会话回复的回调地址 */
+  callbackUrl?: string;
+  [key: string]: unknown;
+}
+
+/** Webhook 通道元数据 */
+const WEBHOOK_META: ChannelMeta = {
+  id: "webhook",
+  name: "Webhook",
+  description: "通用 HTTP Webhook (签名 JSON 请求与回调)",
+  capabilities: {
+    chatTypes: ["direct", "group"],
+    supportsMedia: true,
+    supportsReply: true,
+    supportsMention: false,
+    supportsReaction: false,
+    supportsThread: false,
+    supportsEdit: false,
+    maxMessageLength: 65536,
+  },
+};
+
+/** 计算请求签名 */
+export function signWebhookPayload(secret: string, timestamp: string, nonce: string, body: string): string {
+  return computeHmacSha256(secret, `${timestamp}\n${nonce}\n${body}`);
+}
+
+export class WebhookChannel extends BaseChannelAdapter {
+  readonly id = "webhook" as const;
+  readonly meta = WEBHOOK_META;
+
+  private config: WebhookConfig;
+  /** 各聊天最近一次请求指定的回调地址 */
+  private callbacks = new Map<string, string>();
+  /** 已接受的 nonce 及其过期时间 */
+  private seenNonces = new Map<string, number>();
+
+  constructor(config: WebhookConfig) {
+    super();
+    this.config = config;
+    this.logger = getChildLogger("webhook");
+  }
+
+  /** 初始化通道 */
+  async initialize(): Promise<void> {
+    if (!this.config.secret) {
+      throw new Error("Webhook secret is required");
+    }
+    this.logger.info({ targets: Object.keys(this.config.targets ?? {}) }, "Webhook channel initialized");
+  }
+
+  /** 关闭通道 */
+  async shutdown(): Promise<void> {
+    this.callbacks.clear();
+    this.seenNonces.clear();
+  }
+
+  /** 校验请求签名、时间戳与 nonce (通过后记住 nonce，重放的请求被拒绝) */
+  verifySignature(
+    timestamp: string | undefined,
+    nonce: string | undefined,
+    signature: string | undefined,
+    body: string,
+    now = Date.now()
+  ): boolean {
+    if (!timestamp || !nonce || !signature || nonce.length > MAX_NONCE_LENGTH) return false;
+    const tolerance = (this.config.toleranceSec ?? DEFAULT_TOLERANCE_SEC) * 1000;
+    const time = Number(timestamp);
+    if (!Number.isFinite(time) || Math.abs(now - time) > tolerance) return false;
+    if (!safeEqual(signature, signWebhookPayload(this.config.secret, timestamp, nonce, body))) return false;
+
+    // 超出时间偏差的请求已被时间戳拒绝，nonce 只需记住到那时
+    for (const [seen, expiresAt] of this.seenNonces) {
+      if (expiresAt < now) this.seenNonces.delete(seen);
+    }
+    if (this.seenNonces.has(nonce)) return false;
+    this.seenNonces.set(nonce, time + tolerance);
+    return true;
+  }
+
+  /** 解析 chatId 对应的回调地址 (命名目标 > 请求指定 > URL 形式的 chatId > 默认地址) */
+  resolveCallbackUrl(chatId: string): string | undefined {
+    return (
+      this.config.targets?.[chatId] ??
+      this.callbacks.get(chatId) ??
+      (/^https?:\/\//.test(chatId) ? chatId : undefined) ??
+      this.config.callbackUrl
+    );
+  }
+
+  /** 发送消息 */
+  async sendMessage(message: OutboundMessage): Promise<SendResult> {
+    const url = this.resolveCallbackUrl(message.chatId);
+    if (!url) {
+      this.logger.warn({ chatId: message.chatId }, "No callback URL for webhook message");
+      return { success: false, error: `No callback URL for chat: ${message.chatId}` };
+    }
+
+    const messageId = randomUUID();
+    const blocks = hasRichContent(message) ? getOutboundBlocks(message) : undefined;
+    const body = JSON.stringify({
+      messageId,
+      chatId: message.chatId,
+      replyToId: message.replyToId,
+      text: message.content || (blocks ? blocksToMarkdown(blocks) : ""),
+      blocks,
+      timestamp: Date.now(),
+    });
+
+    try {
+      await retry(
+        async () => {
+          const timestamp = String(Date.now());
+          const response = await fetch(url, {
+            method: "POST",
+            headers: {
+              "Content-Type": "application/json",
+              [WEBHOOK_TIMESTAMP_HEADER]: timestamp,
+              // 重试沿用消息 ID 作为 nonce，接收方可据此去重
+              [WEBHOOK_NONCE_HEADER]: messageId,
+              [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(
+                this.config.callbackSecret ?? this.config.secret,
+                timestamp,
+                messageId,
+                body
+              ),
+            },
+            body,
+          });
+          if (!response.ok) {
+            throw new Error(`Callback failed: ${response.status} ${response.statusText}`);
+          }
+        },
+        { maxRetries: 3, delayMs: 1000 }
+      );
+      return { success: true, messageId };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.logger.error({ error, chatId: message.chatId }, "Failed to send webhook message");
+      return { success: false, error: errorMessage };
+    }
+  }
+
+  /** 发送文本消息 */
+  async sendText(chatId: string, text: string, replyToId?: string): Promise<SendResult> {
+    return this.sendMessage({ chatId, content: text, replyToId });
+  }
+
+  /** 检查通道状态 */
+  async isHealthy(): Promise<boolean> {
+    return true;
+  }
+
+  /** 创建 Express 路由处理器 */
+  createRouter(): Router {
+    const router = Router();
+
+    router.post("/", (req: Request, res: Response) => {
+      this.handleWebhook(req as RawBodyRequest, res).catch((error) => {
+        this.logger.error({ error }, "Webhook handler error");
+        if (!res.headersSent) res.status(500).json({ error: "Internal server error" });
+      });
+    });
+
+    return router;
+  }
+
+  /** 处理入站请求: 验签后立即返回 202，回复通过回调地址发送 */
+  private async handleWebhook(req: RawBodyRequest, res: Response): Promise<void> {
+    const rawBody = req.rawBody?.toString("utf-8") ?? "";
+    const timestamp = req.header(WEBHOOK_TIMESTAMP_HEADER);
+    const nonce = req.header(WEBHOOK_NONCE_HEADER);
+    const signature = req.header(WEBHOOK_SIGNATURE_HEADER);
+    if (!this.verifySignature(timestamp, nonce, signature, rawBody)) {
+      this.logger.warn({ ip: req.ip }, "Invalid webhook signature");
+      res.status(401).json({ error: "Invalid signature" });
+      return;
+    }
+
+    const context = this.parseInbound(req.body as WebhookInboundBody);
+    if (!context) {
+      res.status(400).json({ error: "Invalid payload" });
+      return;
+    }
+
+    res.status(202).json({ accepted: true, messageId: context.messageId, chatId: context.chatId });
+    await this.handleInboundMessage(context);
+  }
+
+  /** 请求体转换为入站消息 (没有 text/content 字段时将整个请求体作为消息内容) */
+  parseInbound(body: WebhookInboundBody): InboundMessageContext | null {
+    if (!body || typeof body !== "object" || Array.isArray(body)) return null;
+
+    const text = body.text ?? body.content;
+    const content = typeof text === "string" ? text : `\`\`\`json\n${JSON.stringify(body, null, 2)}\n\`\`\``;
+    const senderId = body.senderId ?? "webhook";
+    const chatId = body.chatId ?? senderId;
+
+    if (typeof body.callbackUrl === "string" && /^https?:\/\//.test(body.callbackUrl)) {
+      if (this.callbacks.size >= MAX_CALLBACKS && !this.callbacks.has(chatId)) {
+        const oldest = this.callbacks.keys().next().value;
+        if (oldest !== undefined) this.callbacks.delete(oldest);
+      }
+      this.callbacks.set(chatId, body.callbackUrl);
+    }
+
+    return {
+      channelId: "webhook",
+      messageId: body.messageId ?? randomUUID(),
+      chatId,
+      chatType: body.chatType === "group" ? "group" : "direct",
+      senderId,
+      senderName: body.senderName,
+      content,
+      timestamp: Date.now(),
+      raw: body,
+    };
+  }
+}
+
+/** 创建 Webhook 通道 */
+export function createWebhookChannel(config: WebhookConfig): WebhookChannel {
+  return new WebhookChannel(config);
+}
@@ -5,6 +5,7 @@
 
 import axios, { type AxiosInstance } from "axios";
 import { getChildLogger } from "../../utils/logger.js";
+import { getMediaCache } from "../../media/cache.js";
 import type { WeComConfig } from "../../types/index.js";
 
 const logger = getChildLogger("wecom-api");
@@ -80,15 +81,26 @@ export class WeComApiClient {
     userId: string,
     content: string
   ): Promise<SendMessageResponse> {
+    return this.sendAppMessage(userId, "text", { content });
+  }
+
+  /** 发送群聊消息 */
+  async sendGroupTextMessage(
+    chatId: string,
+    content: string
+  ): Promise<SendMessageResponse> {
+    return this.sendGroupMessage(chatId, "text", { content });
+  }
+
+  /** 发送应用消息 (text、markdown、image、file、textcard 等) */
+  async sendAppMessage(userId: string, msgtype: string, body: unknown): Promise<SendMessageResponse> {
     const token = await this.getAccessToken();
 
     const data = {
       touser: userId,
-      msgtype: "text",
+      msgtype,
       agentid: this.config.agentId,
-      text: {
-        content,
-      },
+      [msgtype]: body,
     };
 
     const response = await this.client.post(`/message/send?access_token=${token}`, data);
@@ -97,23 +109,18 @@ export class WeComApiClient {
       throw new Error(`WeCom send error: ${response.data.errcode} - ${response.data.errmsg}`);
     }
 
-    logger.debug({ userId, msgid: response.data.msgid }, "Text message sent");
+    logger.debug({ userId, msgtype, msgid: response.data.msgid }, "App message sent");
     return response.data;
   }
 
-  /** 发送群聊消息 */
-  async sendGroupTextMessage(
-    chatId: string,
-    content: string
-  ): Promise<SendMessageResponse> {
+  /** 发送群聊消息 (text、markdown、image、file、textcard 等) */
+  async sendGroupMessage(chatId: string, msgtype: string, body: unknown): Promise<SendMessageResponse> {
     const token = await this.getAccessToken();
 
     const data = {
       chatid: chatId,
-      msgtype: "text",
-      text: {
-        content,
-      },
+      msgtype,
+      [msgtype]: body,
     };
 
     const response = await this.client.post(`/appchat/send?access_token=${token}`, data);
@@ -122,12 +129,50 @@ export class WeComApiClient {
       throw new Error(`WeCom group send error: ${response.data.errcode} - ${response.data.errmsg}`);
     }
 
-    logger.debug({ chatId }, "Group text message sent");
+    logger.debug({ chatId, msgtype }, "Group message sent");
     return response.data;
   }
 
+  /** 上传临时素材，返回 media_id */
+  async uploadMedia(data: Buffer, fileName: string, type: "image" | "file"): Promise<string> {
+    const token = await this.getAccessToken();
+    const form = new FormData();
+    form.append("media", new Blob([data]), fileName);
+
+    const response = await this.client.post(`/media/upload?access_token=${token}&type=${type}`, form, {
+      headers: { "Content-Type": "multipart/form-data" },
+    });
+
+    if (response.data.errcode && response.data.errcode !== 0) {
+      throw new Error(`WeCom upload error: ${response.data.errcode} - ${response.data.errmsg}`);
+    }
+
+    return response.data.media_id;
+  }
+
+  /** 下载临时素材 (图片、语音、视频、文件消息的 MediaId) */
+  async getMedia(mediaId: string): Promise<{ data: Buffer; mimeType?: string }> {
+    const token = await this.getAccessToken();
+
+    const response = await this.client.get<ArrayBuffer>("/media/get", {
+      params: { access_token: token, media_id: mediaId },
+      responseType: "arraybuffer",
+      maxContentLength: getMediaCache().getMaxFileSize(),
+    });
+
+    // 出错时返回 JSON 而不是文件内容
+    const contentType = response.headers["content-type"];
+    const data = Buffer.from(response.data);
+    if (typeof contentType === "string" && contentType.includes("application/json")) {
+      const error = JSON.parse(data.toString("utf-8")) as { errcode?: number; errmsg?: string };
+      throw new Error(`WeCom get media error: ${error.errcode} - ${error.errmsg}`);
+    }
+
+    return { data, mimeType: typeof contentType === "string" ? contentType : undefined };
+  }
+
   /** 获取用户信息 */
-  async getUserInfo(userId: string): Promise<{ name: string; userid: string }> {
+  async getUserInfo(userId: string): Promise<{ name: string; userid: string; department?: number[] }> {
     const token = await this.getAccessToken();
 
     const response = await this.client.get(`/user/get?access_token=${token}&userid=${userId}`);
@@ -3,7 +3,7 @@
  * 处理回调消息和事件
  */
 
-import type { InboundMessageContext, WeComConfig } from "../../types/index.js";
+import type { InboundMessageContext, MediaAttachment, WeComConfig } from "../../types/index.js";
 import { WeComCrypto } from "./crypto.js";
 import { getChildLogger } from "../../utils/logger.js";
 
@@ -16,6 +16,11 @@ export interface WeComCallbackMessage {
   CreateTime: number;
   MsgType: string;
   Content?: string;
+  /** 图片、语音、视频、文件消息的媒体 ID */
+  MediaId?: string;
+  /** 语音识别结果 (开启语音识别时) */
+  Recognition?: string;
+  FileName?: string;
   MsgId?: string;
   AgentID?: number;
   Event?: string;
@@ -102,6 +107,9 @@ export class WeComEventHandler {
       CreateTime: parseInt(getValue("CreateTime") || "0", 10),
       MsgType: getValue("MsgType") || "",
       Content: getValue("Content"),
+      MediaId: getValue("MediaId"),
+      Recognition: getValue("Recognition"),
+      FileName: getValue("FileName"),
       MsgId: getValue("MsgId"),
       AgentID: getValue("AgentID") ? parseInt(getValue("AgentID")!, 10) : undefined,
       Event: getValue("Event"),
@@ -112,14 +120,9 @@ export class WeComEventHandler {
 
   /** 转换为统一消息上下文 */
   convertToMessageContext(message: WeComCallbackMessage): InboundMessageContext | null {
-    // 只处理文本消息
-    if (message.MsgType !== "text") {
-      logger.debug({ msgType: message.MsgType }, "Ignoring non-text message");
-      return null;
-    }
-
-    if (!message.Content) {
-      logger.debug("Empty content, ignoring");
+    const parsed = this.parseContent(message);
+    if (!parsed) {
+      logger.debug({ msgType: message.MsgType }, "Ignoring unsupported message");
       return null;
     }
 
@@ -134,12 +137,39 @@ export class WeComEventHandler {
       chatType,
       senderId: message.FromUserName,
       senderName: undefined, // 需要额外调用 API 获取用户名
-      content: message.Content,
+      content: parsed.content,
+      attachments: parsed.attachments,
+      // 群聊只推送 @应用 的消息
+      mentionedBot: chatType === "group",
       timestamp: message.CreateTime * 1000,
       raw: message,
     };
   }
 
+  /** 解析文本与媒体消息，不支持的消息返回 null */
+  private parseContent(
+    message: WeComCallbackMessage
+  ): { content: string; attachments?: MediaAttachment[] } | null {
+    const media = (type: MediaAttachment["type"], fileName?: string): MediaAttachment[] | undefined =>
+      message.MediaId ? [{ type, key: message.MediaId, fileName }] : undefined;
+
+    switch (message.MsgType) {
+      case "text":
+        return message.Content ? { content: message.Content } : null;
+      case "image":
+        return { content: "[图片]", attachments: media("image") };
+      case "voice":
+        // 开启语音识别时直接使用识别文本
+        return { content: message.Recognition || "[语音]", attachments: media("audio") };
+      case "video":
+        return { content: "[视频]", attachments: media("video") };
+      case "file":
+        return { content: `[文件: ${message.FileName ?? ""}]`, attachments: media("file", message.FileName) };
+      default:
+        return null;
+    }
+  }
+
   /** 生成回复消息 XML */
   generateReplyXml(
     toUser: string,
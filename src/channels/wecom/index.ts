@@ -10,8 +10,16 @@ import type {
   ChannelMeta,
   OutboundMessage,
   SendResult,
+  InboundMessageContext,
+  MediaAttachment,
 } from "../../types/index.js";
-import { BaseChannelAdapter } from "../common/base.js";
+import { blocksToMarkdown, getOutboundBlocks, hasRichContent, loadMediaSource } from "../common/rich.js";
+import {
+  BaseChannelAdapter,
+  ChunkedReplyStream,
+  type ReplyStream,
+  type DownloadedMedia,
+} from "../common/base.js";
 import { WeComApiClient } from "./api.js";
 import { WeComEventHandler } from "./events.js";
 import { getChildLogger } from "../../utils/logger.js";
@@ -77,6 +85,14 @@ export class WeComChannel extends BaseChannelAdapter {
     this.initialized = true;
   }
 
+  /** 通过 media_id 下载图片、语音、视频或文件 */
+  protected async downloadAttachment(
+    _context: InboundMessageContext,
+    attachment: MediaAttachment
+  ): Promise<DownloadedMedia> {
+    return this.apiClient.getMedia(attachment.key);
+  }
+
   /** 关闭通道 */
   async shutdown(): Promise<void> {
     this.logger.info("Shutting down WeCom channel");
@@ -88,6 +104,11 @@ export class WeComChannel extends BaseChannelAdapter {
     try {
       const { chatId, content } = message;
 
+      if (hasRichContent(message)) {
+        await this.sendRichMessage(message);
+        return { success: true };
+      }
+
       // 根据 chatId 前缀判断消息类型
       if (chatId.startsWith("direct:")) {
         // 私聊消息
@@ -106,11 +127,59 @@ export class WeComChannel extends BaseChannelAdapter {
     }
   }
 
+  /**
+   * 发送富内容: 带链接按钮的卡片渲染为 textcard，其余文本合并为 markdown；
+   * 图片与文件上传为临时素材后发送
+   */
+  private async sendRichMessage(message: OutboundMessage): Promise<void> {
+    const send = (msgtype: string, body: unknown) =>
+      message.chatId.startsWith("direct:")
+        ? this.apiClient.sendAppMessage(message.chatId.replace("direct:", ""), msgtype, body)
+        : this.apiClient.sendGroupMessage(message.chatId, msgtype, body);
+
+    const blocks = getOutboundBlocks(message);
+    const textBlocks = blocks.filter((block) => block.type === "markdown" || block.type === "card");
+    const linkCard = textBlocks.find((block) => block.type === "card" && block.buttons?.some((button) => button.url));
+
+    if (linkCard?.type === "card" && textBlocks.length === 1) {
+      const button = linkCard.buttons!.find((b) => b.url)!;
+      await send("textcard", {
+        title: linkCard.title ?? button.text,
+        description: linkCard.text,
+        url: button.url,
+        btntxt: button.text,
+      });
+    } else if (textBlocks.length > 0) {
+      await send("markdown", { content: blocksToMarkdown(textBlocks) });
+    }
+
+    for (const block of blocks) {
+      if (block.type === "image" || block.type === "file") {
+        const media = await loadMediaSource(block.source, block.type === "file" ? block.fileName : undefined);
+        const mediaId = await this.apiClient.uploadMedia(media.data, media.fileName, block.type);
+        await send(block.type, { media_id: mediaId });
+      }
+    }
+  }
+
   /** 发送文本消息 */
   async sendText(chatId: string, text: string, _replyToId?: string): Promise<SendResult> {
     return this.sendMessage({ chatId, content: text });
   }
 
+  /** 创建流式回复: 不支持编辑消息，按段落分多条发送 */
+  async createReplyStream(context: InboundMessageContext): Promise<ReplyStream | null> {
+    return new ChunkedReplyStream((text) => this.sendText(context.chatId, text), {
+      maxLength: this.meta.capabilities.maxMessageLength,
+    });
+  }
+
+  /** 查询发送者所在部门 */
+  async getSenderDepartments(senderId: string): Promise<string[]> {
+    const user = await this.apiClient.getUserInfo(senderId);
+    return (user.department ?? []).map(String);
+  }
+
   /** 检查通道状态 */
   async isHealthy(): Promise<boolean> {
     try {
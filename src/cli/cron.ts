@@ -0,0 +1,410 @@
+/**
+ * mozi cron - 定时任务管理命令
+ *
+ * 网关运行中时通过 WebSocket 调用网关 (避免与网关内存中的任务状态冲突)，否则直接读写任务存储
+ */
+
+import { randomBytes } from "crypto";
+import type { Command } from "commander";
+import { loadConfig } from "../config/index.js";
+import {
+  CronService,
+  DEFAULT_CRON_STORE_PATH,
+  formatSchedule,
+  getCronServiceDeps,
+  validateCronJobInput,
+  validateSchedule,
+  TIME_CONSTANTS,
+  type CronJob,
+  type CronJobCreate,
+  type CronJobUpdate,
+  type CronRunLogEntry,
+  type CronSchedule,
+  type PayloadAgentTurn,
+} from "../cron/index.js";
+import type { CronMisfirePolicy } from "../types/index.js";
+import { connectGateway, getGatewayUrl, GatewayUnavailableError } from "./gateway-client.js";
+
+/** 任务读写后端 */
+interface CronBackend {
+  /** 来源说明 */
+  label: string;
+  list(): Promise<CronJob[]>;
+  add(input: CronJobCreate): Promise<CronJob>;
+  update(id: string, patch: CronJobUpdate): Promise<CronJob | undefined>;
+  remove(id: string): Promise<boolean>;
+  run(id: string): Promise<{ status: string; error?: string; summary?: string }>;
+  runs(id: string, limit: number): Promise<CronRunLogEntry[]>;
+  close(): void;
+}
+
+/** 打开后端: 优先连接运行中的网关，网关未运行时使用本地存储 */
+async function openCronBackend(options: { local?: boolean; gateway?: string }): Promise<CronBackend> {
+  const config = loadConfig();
+
+  if (!options.local) {
+    const url = options.gateway ?? getGatewayUrl(config);
+    try {
+      const client = await connectGateway({ url, token: config.server.auth?.adminToken });
+      return {
+        label: `网关 ${url}`,
+        list: async () => (await client.request<{ jobs: CronJob[] }>("cron.list", { includeDisabled: true })).jobs,
+        add: async (input) => (await client.request<{ job: CronJob }>("cron.add", input)).job,
+        update: async (jobId, patch) => (await client.request<{ job?: CronJob }>("cron.update", { jobId, patch })).job,
+        remove: async (jobId) => (await client.request<{ removed: boolean }>("cron.remove", { jobId })).removed,
+        run: (jobId) => client.request("cron.run", { jobId }),
+        runs: async (jobId, limit) =>
+          (await client.request<{ runs: CronRunLogEntry[] }>("cron.runs", { jobId, limit })).runs,
+        close: () => client.close(),
+      };
+    } catch (error) {
+      // 显式指定网关或网关拒绝登录时不回退，避免绕过运行中的网关直接改写存储
+      if (options.gateway || !(error instanceof GatewayUnavailableError)) throw error;
+    }
+  }
+
+  const deps = getCronServiceDeps(config.cron);
+  const service = new CronService({ ...deps, enabled: false });
+  return {
+    label: `本地存储 ${deps.storePath ?? DEFAULT_CRON_STORE_PATH}`,
+    list: async () => service.list({ includeDisabled: true }),
+    add: async (input) => service.add(input),
+    update: async (id, patch) => service.update(id, patch),
+    remove: async (id) => service.remove(id),
+    run: async () => {
+      throw new Error("立即执行需要网关运行中 (mozi start)");
+    },
+    runs: async (id, limit) => service.runs(id, limit),
+    close: () => {},
+  };
+}
+
+/** 按 ID 或唯一前缀查找任务 */
+async function resolveJob(backend: CronBackend, id: string): Promise<CronJob> {
+  const matched = (await backend.list()).filter((job) => job.id.startsWith(id));
+  if (matched.length === 0) throw new Error(`未找到任务: ${id}`);
+  if (matched.length > 1) throw new Error(`ID ${id} 匹配到多个任务，请输入更长的 ID`);
+  return matched[0]!;
+}
+
+/** 解析时长: 数字为毫秒，或 30s / 10m / 2h / 1d */
+export function parseDuration(value: string): number | undefined {
+  const match = /^(\d+(?:\.\d+)?)(ms|s|m|h|d)?$/.exec(value.trim());
+  if (!match) return undefined;
+  const units: Record<string, number> = {
+    ms: 1,
+    s: TIME_CONSTANTS.SECOND,
+    m: TIME_CONSTANTS.MINUTE,
+    h: TIME_CONSTANTS.HOUR,
+    d: TIME_CONSTANTS.DAY,
+  };
+  return Math.round(parseFloat(match[1]!) * units[match[2] ?? "ms"]!);
+}
+
+/** 由 --cron/--every/--at 或事件触发选项构造调度 (未指定时返回 undefined) */
+export function parseScheduleOptions(options: {
+  cron?: string;
+  tz?: string;
+  every?: string;
+  at?: string;
+  webhook?: string | boolean;
+  watch?: string;
+  match?: string;
+  flags?: string;
+  chat?: string;
+}): CronSchedule | undefined {
+  const given = [options.cron, options.every, options.at, options.webhook, options.watch, options.match].filter(
+    (value) => value !== undefined
+  );
+  if (given.length > 1) throw new Error("--cron、--every、--at、--webhook、--watch、--match 只能指定一个");
+
+  let schedule: CronSchedule | undefined;
+  if (options.cron !== undefined) {
+    schedule = { kind: "cron", expr: options.cron, tz: options.tz };
+  } else if (options.every !== undefined) {
+    const everyMs = parseDuration(options.every);
+    if (!everyMs) throw new Error(`无效的间隔: ${options.every}`);
+    schedule = { kind: "every", everyMs };
+  } else if (options.at !== undefined) {
+    const atMs = new Date(options.at).getTime();
+    if (Number.isNaN(atMs)) throw new Error(`无效的时间: ${options.at}`);
+    schedule = { kind: "at", atMs };
+  } else if (options.webhook !== undefined) {
+    const secret = typeof options.webhook === "string" ? options.webhook : randomBytes(24).toString("hex");
+    schedule = { kind: "webhook", secret };
+  } else if (options.watch !== undefined) {
+    schedule = { kind: "fileWatch", path: options.watch };
+  } else if (options.match !== undefined) {
+    if (!options.chat) throw new Error("--match 需要同时指定 --chat");
+    const { channel, accountId, to } = parseDeliverOption(options.chat);
+    schedule = { kind: "messageMatch", pattern: options.match, flags: options.flags, channel: channel!, accountId, chatId: to! };
+  }
+
+  if (schedule) {
+    const validation = validateSchedule(schedule);
+    if (!validation.valid) throw new Error(`调度无效: ${validation.error}`);
+  }
+  return schedule;
+}
+
+/** 解析投递目标: <通道>:<聊天 ID> 或 <通道>:<账号>:<聊天 ID> */
+export function parseDeliverOption(value: string): Pick<PayloadAgentTurn, "channel" | "accountId" | "to"> {
+  const parts = value.split(":");
+  if (parts.length === 2 && parts[0] && parts[1]) return { channel: parts[0], to: parts[1] };
+  if (parts.length === 3 && parts[0] && parts[1] && parts[2]) {
+    return { channel: parts[0], accountId: parts[1], to: parts[2] };
+  }
+  throw new Error(`无效的投递目标: ${value} (格式: 通道:聊天ID 或 通道:账号:聊天ID)`);
+}
+
+/** 解析错过策略 */
+function parseMisfireOption(value: string | undefined): CronMisfirePolicy | undefined {
+  if (value === undefined) return undefined;
+  if (value !== "skip" && value !== "runOnce" && value !== "runAll") {
+    throw new Error(`无效的错过策略: ${value} (skip, runOnce, runAll)`);
+  }
+  return value;
+}
+
+/** 打印任务列表 */
+function printJobs(jobs: CronJob[]): void {
+  if (jobs.length === 0) {
+    console.log("暂无定时任务");
+    return;
+  }
+  for (const job of jobs) {
+    const next = job.enabled && job.state.nextRunAtMs ? new Date(job.state.nextRunAtMs).toLocaleString() : "-";
+    const last = job.state.lastStatus ? `${job.state.lastStatus} @ ${new Date(job.state.lastRunAtMs!).toLocaleString()}` : "-";
+    const owner = job.owner ? `  归属: ${[job.owner.channel, job.owner.accountId, job.owner.senderId].filter(Boolean).join(":")}` : "";
+    console.log(`${job.enabled ? "✅" : "⏸️ "} ${job.id.slice(0, 8)}  ${job.name}`);
+    console.log(`   ${formatSchedule(job.schedule)}  类型: ${job.payload.kind}${owner}`);
+    console.log(`   下次: ${next}  上次: ${last}`);
+  }
+}
+
+/** 打印 Webhook 任务的调用方式 */
+function printWebhookUsage(job: CronJob): void {
+  if (job.schedule.kind !== "webhook") return;
+  console.log(`   触发: POST /hooks/${job.id}`);
+  console.log(`   请求头: X-Mozi-Secret: ${job.schedule.secret}`);
+}
+
+/** 打印运行记录 */
+function printRuns(job: CronJob, runs: CronRunLogEntry[]): void {
+  console.log(`\n${job.name} (${job.id})\n`);
+  if (runs.length === 0) {
+    console.log("暂无运行记录");
+    return;
+  }
+
+  const statusIcons = { ok: "✅", error: "❌", skipped: "⏭️" } as const;
+  for (const run of runs) {
+    const attempt = run.attempt > 0 ? ` #${run.attempt}` : "";
+    console.log(
+      `${statusIcons[run.status]} ${new Date(run.startedAtMs).toLocaleString()}  ${run.trigger}${attempt}  ${run.durationMs}ms`
+    );
+    if (run.error) console.log(`   错误: ${run.error}`);
+    if (run.summary) console.log(`   输出: ${run.summary.replace(/\s+/g, " ").slice(0, 120)}`);
+    if (run.delivery) {
+      const target = [run.delivery.channel, run.delivery.accountId, run.delivery.to].filter(Boolean).join(":");
+      console.log(`   投递: ${run.delivery.status} ${target}${run.delivery.error ? ` (${run.delivery.error})` : ""}`);
+    }
+  }
+}
+
+/** 在后端上执行操作并统一处理错误 */
+function withBackend(action: (backend: CronBackend, ...args: any[]) => Promise<void>) {
+  return async (...args: any[]) => {
+    const command = args[args.length - 1] as Command;
+    let backend: CronBackend | undefined;
+    try {
+      backend = await openCronBackend(command.optsWithGlobals());
+      await action(backend, ...args);
+    } catch (error) {
+      console.error("错误:", error instanceof Error ? error.message : error);
+      process.exitCode = 1;
+    } finally {
+      backend?.close();
+    }
+  };
+}
+
+/** 注册 mozi cron 命令 */
+export function registerCronCommand(program: Command): void {
+  const cron = program
+    .command("cron")
+    .description("管理定时任务 (ID 可使用前缀)")
+    .option("--local", "直接读写本地任务存储 (不连接网关)")
+    .option("--gateway <url>", "网关 WebSocket 地址 (默认按配置连接本机网关)");
+
+  cron
+    .command("list")
+    .alias("ls")
+    .description("列出定时任务")
+    .option("--json", "以 JSON 格式输出")
+    .action(
+      withBackend(async (backend, options) => {
+        const jobs = await backend.list();
+        if (options.json) {
+          console.log(JSON.stringify(jobs, null, 2));
+          return;
+        }
+        console.log(`\n来源: ${backend.label}\n`);
+        printJobs(jobs);
+        console.log("");
+      })
+    );
+
+  cron
+    .command("add")
+    .description("添加定时任务")
+    .requiredOption("-n, --name <name>", "任务名称")
+    .requiredOption("-m, --message <text>", "任务消息 (agentTurn 为发给 Agent 的内容)")
+    .option("--cron <expr>", "Cron 表达式 (如 \"0 9 * * *\")")
+    .option("--tz <timezone>", "Cron 时区")
+    .option("--every <duration>", "固定间隔 (如 30m、2h、1d)")
+    .option("--at <time>", "一次性执行时间 (ISO 8601)")
+    .option("--webhook [secret]", "由 POST /hooks/<任务ID> 触发 (不指定密钥时自动生成)")
+    .option("--watch <path>", "工作目录内的文件变化时触发")
+    .option("--match <regex>", "聊天消息匹配正则时触发 (需指定 --chat)")
+    .option("--flags <flags>", "--match 的正则标志 (如 i)")
+    .option("--chat <target>", "--match 监听的聊天: 通道:聊天ID 或 通道:账号:聊天ID")
+    .option("--type <kind>", "任务类型 (systemEvent, agentTurn)，指定 --deliver 时默认 agentTurn")
+    .option("--deliver <target>", "投递结果到 通道:聊天ID 或 通道:账号:聊天ID")
+    .option("--model <model>", "指定模型")
+    .option("--misfire <policy>", "错过调度的处理策略 (skip, runOnce, runAll)")
+    .option("--retries <number>", "agentTurn 失败重试次数")
+    .option("--disabled", "创建后不启用")
+    .action(
+      withBackend(async (backend, options) => {
+        const schedule = parseScheduleOptions(options);
+        if (!schedule) throw new Error("需要指定 --cron、--every、--at、--webhook、--watch 或 --match");
+
+        const kind = options.type ?? (options.deliver ? "agentTurn" : "systemEvent");
+        const input: CronJobCreate = {
+          name: options.name,
+          enabled: !options.disabled,
+          schedule,
+          payload:
+            kind === "agentTurn"
+              ? {
+                  kind,
+                  message: options.message,
+                  model: options.model,
+                  ...(options.deliver ? { deliver: true, ...parseDeliverOption(options.deliver) } : {}),
+                }
+              : { kind, message: options.message },
+          misfirePolicy: parseMisfireOption(options.misfire),
+          retry: options.retries !== undefined ? { maxRetries: parseInt(options.retries, 10) || 0 } : undefined,
+        };
+        const validation = validateCronJobInput(input);
+        if (!validation.valid) throw new Error(validation.error);
+
+        const job = await backend.add(input);
+        console.log(`✅ 已创建定时任务 ${job.name} (${job.id})`);
+        console.log(`   ${formatSchedule(job.schedule)}  下次: ${job.state.nextRunAtMs ? new Date(job.state.nextRunAtMs).toLocaleString() : "-"}`);
+        printWebhookUsage(job);
+      })
+    );
+
+  cron
+    .command("edit <id>")
+    .description("修改定时任务")
+    .option("-n, --name <name>", "任务名称")
+    .option("-m, --message <text>", "任务消息")
+    .option("--cron <expr>", "Cron 表达式")
+    .option("--tz <timezone>", "Cron 时区")
+    .option("--every <duration>", "固定间隔")
+    .option("--at <time>", "一次性执行时间")
+    .option("--webhook [secret]", "改为 Webhook 触发 (不指定密钥时重新生成)")
+    .option("--watch <path>", "改为文件变化触发")
+    .option("--match <regex>", "改为聊天消息匹配触发 (需指定 --chat)")
+    .option("--flags <flags>", "--match 的正则标志")
+    .option("--chat <target>", "--match 监听的聊天")
+    .option("--deliver <target>", "投递目标 (仅 agentTurn)")
+    .option("--model <model>", "指定模型 (仅 agentTurn)")
+    .option("--misfire <policy>", "错过调度的处理策略")
+    .option("--retries <number>", "agentTurn 失败重试次数")
+    .action(
+      withBackend(async (backend, id: string, options) => {
+        const job = await resolveJob(backend, id);
+        const patch: CronJobUpdate = {};
+        if (options.name !== undefined) patch.name = options.name;
+        const schedule = parseScheduleOptions(options);
+        if (schedule) patch.schedule = schedule;
+        patch.misfirePolicy = parseMisfireOption(options.misfire);
+        if (options.retries !== undefined) patch.retry = { ...job.retry, maxRetries: parseInt(options.retries, 10) || 0 };
+
+        const payload: Partial<PayloadAgentTurn> = {};
+        if (options.message !== undefined) payload.message = options.message;
+        if (job.payload.kind === "agentTurn") {
+          if (options.model !== undefined) payload.model = options.model;
+          if (options.deliver !== undefined) Object.assign(payload, { deliver: true }, parseDeliverOption(options.deliver));
+        } else if (options.model !== undefined || options.deliver !== undefined) {
+          throw new Error("--model 与 --deliver 仅适用于 agentTurn 任务");
+        }
+        if (Object.keys(payload).length > 0) patch.payload = payload;
+
+        if (Object.values(patch).every((value) => value === undefined)) throw new Error("没有要修改的字段");
+        const updated = await backend.update(job.id, patch);
+        console.log(`✅ 已更新定时任务 ${updated?.name ?? job.name} (${job.id})`);
+        if (patch.schedule && updated) printWebhookUsage(updated);
+      })
+    );
+
+  cron
+    .command("rm <id>")
+    .alias("remove")
+    .description("删除定时任务")
+    .action(
+      withBackend(async (backend, id: string) => {
+        const job = await resolveJob(backend, id);
+        await backend.remove(job.id);
+        console.log(`🗑️  已删除定时任务 ${job.name} (${job.id})`);
+      })
+    );
+
+  cron
+    .command("run <id>")
+    .description("立即执行定时任务 (需要网关运行中)")
+    .action(
+      withBackend(async (backend, id: string) => {
+        const job = await resolveJob(backend, id);
+        console.log(`▶️  正在执行 ${job.name}...`);
+        const result = await backend.run(job.id);
+        console.log(result.status === "ok" ? "✅ 执行成功" : `❌ ${result.status}: ${result.error ?? ""}`);
+        if (result.summary) console.log(`   输出: ${result.summary}`);
+      })
+    );
+
+  for (const [name, enabled] of [["enable", true], ["disable", false]] as const) {
+    cron
+      .command(`${name} <id>`)
+      .description(enabled ? "启用定时任务" : "停用定时任务")
+      .action(
+        withBackend(async (backend, id: string) => {
+          const job = await resolveJob(backend, id);
+          await backend.update(job.id, { enabled });
+          console.log(`${enabled ? "▶️  已启用" : "⏸️  已停用"}定时任务 ${job.name} (${job.id})`);
+        })
+      );
+  }
+
+  cron
+    .command("runs <id>")
+    .description("查看任务的运行记录")
+    .option("-n, --limit <number>", "显示最近 N 次", "20")
+    .option("--json", "以 JSON 格式输出")
+    .action(
+      withBackend(async (backend, id: string, options) => {
+        const job = await resolveJob(backend, id);
+        const runs = await backend.runs(job.id, parseInt(options.limit, 10) || 20);
+        if (options.json) {
+          console.log(JSON.stringify({ job, runs }, null, 2));
+          return;
+        }
+        printRuns(job, runs);
+        console.log("");
+      })
+    );
+}
@@ -0,0 +1,92 @@
+/**
+ * 网关 RPC 客户端 - CLI 通过 WebSocket 调用运行中网关的方法
+ */
+
+import WebSocket from "ws";
+import type { MoziConfig } from "../types/index.js";
+import type { WsFrame } from "../web/types.js";
+import { WS_CLOSE_UNAUTHORIZED } from "../web/protocol.js";
+
+/** 网关未运行 (连接被拒绝或超时) */
+export class GatewayUnavailableError extends Error {
+  constructor(url: string, reason: string) {
+    super(`Gateway not reachable at ${url}: ${reason}`);
+    this.name = "GatewayUnavailableError";
+  }
+}
+
+/** 网关 RPC 客户端 */
+export interface GatewayClient {
+  request<T = unknown>(method: string, params?: unknown): Promise<T>;
+  close(): void;
+}
+
+/** 本机网关的 WebSocket 地址 */
+export function getGatewayUrl(config: MoziConfig): string {
+  const host = !config.server.host || config.server.host === "0.0.0.0" ? "127.0.0.1" : config.server.host;
+  return `ws://${host}:${config.server.port}/ws`;
+}
+
+/** 连接网关 (收到 connected 事件后可用) */
+export function connectGateway(options: { url: string; token?: string; timeoutMs?: number }): Promise<GatewayClient> {
+  const { url, token, timeoutMs = 3000 } = options;
+  const ws = new WebSocket(url, { headers: token ? { Authorization: `Bearer ${token}` } : {} });
+  const pending = new Map<string, { resolve: (value: any) => void; reject: (error: Error) => void }>();
+  let requestId = 0;
+
+  const client: GatewayClient = {
+    request: (method, params) =>
+      new Promise((resolve, reject) => {
+        if (ws.readyState !== WebSocket.OPEN) {
+          reject(new Error("Gateway connection closed"));
+          return;
+        }
+        const id = `cli-${++requestId}`;
+        pending.set(id, { resolve, reject });
+        ws.send(JSON.stringify({ type: "req", id, method, params }));
+      }),
+    close: () => ws.close(),
+  };
+
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      ws.terminate();
+      reject(new GatewayUnavailableError(url, "timeout"));
+    }, timeoutMs);
+
+    ws.on("message", (data) => {
+      let frame: WsFrame;
+      try {
+        frame = JSON.parse(data.toString()) as WsFrame;
+      } catch {
+        return;
+      }
+      if (frame.type === "event" && frame.event === "connected") {
+        clearTimeout(timer);
+        resolve(client);
+      } else if (frame.type === "res") {
+        const request = pending.get(frame.id);
+        if (!request) return;
+        pending.delete(frame.id);
+        if (frame.ok) request.resolve(frame.payload);
+        else request.reject(new Error(frame.error?.message ?? "Unknown error"));
+      }
+    });
+
+    ws.on("error", (error) => {
+      clearTimeout(timer);
+      reject(new GatewayUnavailableError(url, error.message));
+    });
+
+    ws.on("close", (code) => {
+      clearTimeout(timer);
+      if (code === WS_CLOSE_UNAUTHORIZED) {
+        reject(new Error("Gateway requires login: set server.auth.adminToken in the config"));
+      }
+      for (const request of pending.values()) {
+        request.reject(new Error("Gateway connection closed"));
+      }
+      pending.clear();
+    });
+  });
+}
@@ -10,6 +10,8 @@ import { loadConfig, validateRequiredConfig } from "../config/index.js";
 import { startGateway } from "../gateway/server.js";
 import { initializeProviders, getAllModels, resolveModel, getApiKeyForProvider } from "../providers/index.js";
 import { createLogger, setLogger, getLogDir, getLogFile } from "../utils/logger.js";
+import { UsageLedger, formatUsageSummary, type UsageGroupBy } from "../usage/index.js";
+import { registerCronCommand } from "./cron.js";
 import dotenv from "dotenv";
 import { spawn } from "child_process";
 import { existsSync, readdirSync, readFileSync, statSync } from "fs";
@@ -150,9 +152,13 @@ program
         { id: "feishu", name: "飞书", config: config.channels.feishu },
         { id: "dingtalk", name: "钉钉", config: config.channels.dingtalk },
         { id: "qq", name: "QQ", config: config.channels.qq },
+        { id: "telegram", name: "Telegram", config: config.channels.telegram },
+        { id: "slack", name: "Slack", config: config.channels.slack },
+        { id: "discord", name: "Discord", config: config.channels.discord },
       ];
       for (const channel of channels) {
-        const status = channel.config ? "✅ 已配置" : "⬜ 未配置";
+        const accounts = channel.config?.accounts?.length;
+        const status = channel.config ? `✅ 已配置${accounts ? ` (${accounts} 个账号)` : ""}` : "⬜ 未配置";
         console.log(`   ${channel.name}: ${status}`);
       }
 
@@ -924,6 +930,76 @@ program
     }
   });
 
+// 用量统计命令
+program
+  .command("usage")
+  .description("查看 token 用量与费用")
+  .option("-d, --days <number>", "统计最近 N 天", "7")
+  .option("--since <date>", "起始日期 (格式: YYYY-MM-DD，优先于 --days)")
+  .option("--by <dimension>", "分组维度 (session, sender, channel, model, day)", "model")
+  .option("--sender <id>", "只统计指定发送者")
+  .option("--channel <id>", "只统计指定通道")
+  .option("--session <key>", "只统计指定会话")
+  .option("--json", "以 JSON 格式输出")
+  .action(async (options) => {
+    try {
+      const groupBy = options.by as UsageGroupBy;
+      if (!["session", "sender", "channel", "model", "day"].includes(groupBy)) {
+        console.error(`不支持的分组维度: ${options.by}`);
+        process.exit(1);
+      }
+
+      let since: number;
+      if (options.since) {
+        since = new Date(`${options.since}T00:00:00`).getTime();
+        if (Number.isNaN(since)) {
+          console.error(`日期格式错误: ${options.since}`);
+          process.exit(1);
+        }
+      } else {
+        const start = new Date();
+        start.setHours(0, 0, 0, 0);
+        start.setDate(start.getDate() - (parseInt(options.days, 10) || 7) + 1);
+        since = start.getTime();
+      }
+
+      const ledger = new UsageLedger(loadConfig().usage);
+      const filter = {
+        since,
+        senderId: options.sender,
+        channelId: options.channel,
+        sessionKey: options.session,
+      };
+      const [total] = await ledger.summarize(filter);
+      const groups = await ledger.summarize(filter, groupBy);
+
+      if (options.json) {
+        console.log(JSON.stringify({ total: total ?? null, groups }, null, 2));
+        return;
+      }
+
+      console.log(`\n账本文件: ${ledger.getFilePath()}`);
+      console.log(`统计起始: ${new Date(since).toLocaleString()}\n`);
+      if (!total) {
+        console.log("暂无用量记录");
+        return;
+      }
+
+      console.log(`合计: ${formatUsageSummary(total)}\n`);
+      console.log(`按 ${groupBy} 分组:`);
+      for (const group of groups) {
+        console.log(`  ${group.key}: ${formatUsageSummary(group)}`);
+      }
+      console.log("");
+    } catch (error) {
+      console.error("错误:", error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+// 定时任务命令
+registerCronCommand(program);
+
 // 日志查看命令
 program
   .command("logs")
@@ -2,7 +2,15 @@
  * 命令系统 - 斜杠命令处理
  */
 
-import type { InboundMessageContext } from "../types/index.js";
+import type { InboundMessageContext, ProviderId } from "../types/index.js";
+import type { Agent } from "../agents/agent.js";
+import type { CompactionSummary } from "../agents/runtime.js";
+import { getAllModels } from "../providers/index.js";
+import { resolveApproval } from "../tools/approval.js";
+import { formatUsageSummary, getUsageLedger } from "../usage/ledger.js";
+import { getAccessController, type AccessListName } from "../access/control.js";
+import { getCronJobOwner, getCronService } from "../cron/service.js";
+import { formatSchedule } from "../cron/schedule.js";
 import { getChildLogger } from "../utils/logger.js";
 
 const logger = getChildLogger("commands");
@@ -19,6 +27,14 @@ export interface CommandContext {
   argsArray: string[];
   /** 命名参数 (--key=value 格式) */
   namedArgs: Record<string, string>;
+  /** 当前 Agent (由 Gateway 注入，未注入时会话类命令不可用) */
+  agent?: Agent;
+}
+
+/** 命令执行选项 */
+export interface ExecuteCommandOptions {
+  /** 处理消息的 Agent */
+  agent?: Agent;
 }
 
 /** 命令处理器 */
@@ -149,7 +165,8 @@ export function parseCommand(text: string): {
 
 /** 执行命令 */
 export async function executeCommand(
-  message: InboundMessageContext
+  message: InboundMessageContext,
+  options?: ExecuteCommandOptions
 ): Promise<string | null> {
   if (!isCommand(message.content)) {
     return null;
@@ -168,6 +185,7 @@ export async function executeCommand(
     args: parsed.args,
     argsArray: parsed.argsArray,
     namedArgs: parsed.namedArgs,
+    agent: options?.agent,
   };
 
   try {
@@ -213,12 +231,17 @@ const helpCommand: CommandDefinition = {
   },
 };
 
+/** Agent 未注入时的提示 */
+const NO_AGENT_MESSAGE = "当前环境不支持该命令";
+
 /** 清除会话命令 */
 const clearCommand: CommandDefinition = {
   name: "clear",
   aliases: ["reset", "新对话"],
   description: "清除当前会话历史",
-  handler: () => {
+  handler: async (ctx) => {
+    if (!ctx.agent) return NO_AGENT_MESSAGE;
+    await ctx.agent.clearSession(ctx.message);
     return "会话已清除。我们可以开始新的对话了！";
   },
 };
@@ -227,7 +250,7 @@ const clearCommand: CommandDefinition = {
 const statusCommand: CommandDefinition = {
   name: "status",
   description: "显示当前状态",
-  handler: (ctx) => {
+  handler: async (ctx) => {
     const lines = [
       "📊 当前状态",
       "",
@@ -235,11 +258,371 @@ const statusCommand: CommandDefinition = {
       `会话类型: ${ctx.message.chatType === "group" ? "群聊" : "私聊"}`,
       `发送者: ${ctx.message.senderName ?? ctx.message.senderId}`,
     ];
+
+    if (ctx.agent) {
+      const info = ctx.agent.getSessionInfo(ctx.message);
+      if (info) {
+        lines.push(
+          `模型: ${info.provider}/${info.model}`,
+          `消息数: ${info.messageCount}`,
+          `Token: 输入 ${info.usage.promptTokens} / 输出 ${info.usage.completionTokens} / 合计 ${info.usage.totalTokens}`
+        );
+      } else {
+        const { provider, model } = await ctx.agent.getSessionModel(ctx.message);
+        lines.push(`模型: ${provider}/${model}`, "会话: 尚未开始");
+      }
+    }
+
+    return lines.join("\n");
+  },
+};
+
+/** 模型命令 */
+const modelCommand: CommandDefinition = {
+  name: "model",
+  aliases: ["models"],
+  description: "查看或切换当前会话的模型",
+  usage: "/model [provider/model]",
+  handler: async (ctx) => {
+    const models = getAllModels();
+
+    // 切换模型
+    if (ctx.args) {
+      if (!ctx.agent) return NO_AGENT_MESSAGE;
+      const selection = parseModelArg(ctx.args.trim(), models);
+      if (!selection) {
+        return `未找到模型: ${ctx.args.trim()}\n发送 /model 查看可用模型`;
+      }
+      try {
+        await ctx.agent.setSessionModel(ctx.agent.getSessionKey(ctx.message), selection);
+      } catch (error) {
+        return `❌ 切换模型失败: ${error instanceof Error ? error.message : String(error)}`;
+      }
+      return `🤖 已切换到 ${selection.provider}/${selection.model}，会话历史已保留`;
+    }
+
+    const lines: string[] = [];
+    if (ctx.agent) {
+      const current = await ctx.agent.getSessionModel(ctx.message);
+      lines.push(`🤖 当前模型: ${current.provider}/${current.model}`, "");
+    }
+
+    if (models.length === 0) {
+      lines.push("没有可用的模型");
+      return lines.join("\n");
+    }
+
+    lines.push("可用模型:");
+    for (const { provider, model } of models) {
+      lines.push(`  ${provider}/${model.id} - ${model.name}`);
+    }
+    lines.push("", `切换模型: ${modelCommand.usage}`);
     return lines.join("\n");
   },
 };
 
+/**
+ * 解析模型参数
+ * 支持 "provider/model" 与仅模型 ID 两种形式 (模型 ID 本身可能包含 "/")
+ */
+function parseModelArg(
+  arg: string,
+  models: ReturnType<typeof getAllModels>
+): { provider: ProviderId; model: string } | null {
+  const separator = arg.indexOf("/");
+  if (separator > 0) {
+    const provider = arg.slice(0, separator);
+    const model = arg.slice(separator + 1);
+    if (models.some((m) => m.provider === provider)) {
+      return { provider: provider as ProviderId, model };
+    }
+  }
+
+  const match = models.find((m) => m.model.id === arg);
+  return match ? { provider: match.provider, model: match.model.id } : null;
+}
+
+/** 压缩命令 */
+const compactCommand: CommandDefinition = {
+  name: "compact",
+  description: "压缩当前会话上下文 (总结历史消息以节省 token)",
+  usage: "/compact [总结要求]",
+  handler: async (ctx) => {
+    if (!ctx.agent) return NO_AGENT_MESSAGE;
+    let result: CompactionSummary | null;
+    try {
+      result = await ctx.agent.compactSession(ctx.message, ctx.args || undefined);
+    } catch (error) {
+      return `❌ 压缩失败: ${error instanceof Error ? error.message : String(error)}`;
+    }
+    if (!result) {
+      return "当前没有可压缩的会话";
+    }
+    return `🗜️ 会话已压缩 (压缩前约 ${result.tokensBefore} tokens)\n\n摘要:\n${result.summary}`;
+  },
+};
+
+/** 用量命令 */
+const usageCommand: CommandDefinition = {
+  name: "usage",
+  aliases: ["用量"],
+  description: "查看 token 用量与费用",
+  handler: async (ctx) => {
+    const ledger = getUsageLedger();
+    const { channelId, senderId } = ctx.message;
+    const lines = ["📈 用量统计", ""];
+
+    if (ctx.agent) {
+      const [session] = await ledger.summarize({ sessionKey: ctx.agent.getSessionKey(ctx.message) });
+      lines.push(`本会话: ${session ? formatUsageSummary(session) : "暂无记录"}`);
+    }
+
+    const startOfDay = new Date();
+    startOfDay.setHours(0, 0, 0, 0);
+    const [today] = await ledger.summarize({ channelId, senderId, since: startOfDay.getTime() });
+    lines.push(`今日: ${today ? formatUsageSummary(today) : "暂无记录"}`);
+
+    const budget = ledger.getDailyBudget(channelId, senderId);
+    if (budget !== undefined) {
+      const used = await ledger.getTodayTokens(channelId, senderId);
+      lines.push(`今日额度: ${used} / ${budget} tokens (剩余 ${Math.max(0, budget - used)})`);
+    }
+
+    return lines.join("\n");
+  },
+};
+
+/** 搜索时为过滤其他聊天的记忆多取的候选数量 */
+const MEMORY_SEARCH_CANDIDATES = 50;
+
+/** 记忆命令 (只能查看当前聊天保存的记忆，查看全部与删除需要管理员) */
+const memoryCommand: CommandDefinition = {
+  name: "memory",
+  aliases: ["mem"],
+  description: "管理长期记忆",
+  usage: "/memory list [all] | /memory search <关键词> | /memory add <内容> | /memory forget <ID>",
+  handler: async (ctx) => {
+    const manager = ctx.agent?.getMemoryManager();
+    if (!manager) return "记忆系统未启用";
+
+    const [action = "list", ...rest] = ctx.argsArray;
+    const text = rest.join(" ").trim();
+    const { channelId, chatId, senderId } = ctx.message;
+    const chat = `${channelId}:${chatId}`;
+    const isAdmin = getAccessController().isAdmin(channelId, senderId);
+
+    switch (action.toLowerCase()) {
+      case "list": {
+        const all = text === "all";
+        if (all && !isAdmin) return "🔒 仅管理员可以查看所有聊天的记忆";
+        const entries = (await manager.list()).filter((entry) => all || entry.metadata.chat === chat);
+        if (entries.length === 0) return "暂无记忆";
+        const recent = entries.slice(-10).reverse();
+        const lines = [`🧠 记忆 (共 ${entries.length} 条，显示最近 ${recent.length} 条):`, ""];
+        for (const entry of recent) {
+          lines.push(`- [${entry.id}] ${entry.content.slice(0, 80)}`);
+        }
+        return lines.join("\n");
+      }
+      case "search": {
+        if (!text) return "用法: /memory search <关键词>";
+        const entries = (await manager.recall(text, MEMORY_SEARCH_CANDIDATES))
+          .filter((entry) => entry.metadata.chat === chat)
+          .slice(0, 5);
+        if (entries.length === 0) return `没有找到与 "${text}" 相关的记忆`;
+        const lines = [`🔍 搜索结果 (${entries.length} 条):`, ""];
+        for (const entry of entries) {
+          lines.push(`- [${entry.id}] ${entry.content.slice(0, 80)}`);
+        }
+        return lines.join("\n");
+      }
+      case "add": {
+        if (!text) return "用法: /memory add <内容>";
+        const id = await manager.remember(text, {
+          type: "note",
+          source: `${channelId}:${senderId}`,
+          chat,
+        });
+        return id ? `已记住 (ID: ${id})` : "记忆保存失败";
+      }
+      case "forget": {
+        if (!text) return "用法: /memory forget <ID>";
+        if (!isAdmin) return "🔒 仅管理员可以删除记忆";
+        const deleted = await manager.forget(text);
+        return deleted ? `已删除记忆 ${text}` : `未找到记忆 ${text}`;
+      }
+      default:
+        return `未知操作: ${action}\n用法: ${memoryCommand.usage}`;
+    }
+  },
+};
+
+/** 批准工具调用命令 */
+const approveCommand: CommandDefinition = {
+  name: "approve",
+  aliases: ["批准"],
+  description: "批准待确认的工具调用",
+  usage: "/approve <ID> [always]",
+  handler: (ctx) => {
+    const [id, mode] = ctx.argsArray;
+    if (!id) return `用法: ${approveCommand.usage}`;
+
+    const always = mode?.toLowerCase() === "always";
+    const result = resolveApproval(id, always ? "always" : "approved", ctx.message);
+    if (!result.success) return result.error;
+    return always
+      ? `✅ 已批准，本会话内 ${result.request.toolName} 将不再询问`
+      : `✅ 已批准执行 ${result.request.toolName}`;
+  },
+};
+
+/** 拒绝工具调用命令 */
+const rejectCommand: CommandDefinition = {
+  name: "reject",
+  aliases: ["deny", "拒绝"],
+  description: "拒绝待确认的工具调用",
+  usage: "/reject <ID>",
+  handler: (ctx) => {
+    const [id] = ctx.argsArray;
+    if (!id) return `用法: ${rejectCommand.usage}`;
+
+    const result = resolveApproval(id, "rejected", ctx.message);
+    if (!result.success) return result.error;
+    return `🚫 已拒绝执行 ${result.request.toolName}`;
+  },
+};
+
+/** /access 操作对应的名单 */
+const ACCESS_ACTIONS: Record<string, { list: "allow" | "block"; add: boolean }> = {
+  allow: { list: "allow", add: true },
+  disallow: { list: "allow", add: false },
+  block: { list: "block", add: true },
+  unblock: { list: "block", add: false },
+};
+
+/** 格式化名单 */
+function formatAccessList(ids: string[] | undefined): string {
+  return ids?.length ? ids.join(", ") : "(不限)";
+}
+
+/** 访问控制命令 */
+const accessCommand: CommandDefinition = {
+  name: "access",
+  aliases: ["acl"],
+  description: "管理当前通道的访问名单 (仅管理员)",
+  usage:
+    "/access | /access <allow|disallow|block|unblock> <user|group> [ID] | /access admin <add|remove> <ID>",
+  handler: (ctx) => {
+    const access = getAccessController();
+    const { channelId, senderId, chatId } = ctx.message;
+    if (!access.isAdmin(channelId, senderId)) {
+      return "🔒 仅管理员可以管理访问名单";
+    }
+
+    const [action, target, id] = ctx.argsArray;
+    if (!action) {
+      const policy = access.getPolicy(channelId);
+      return [
+        `🛡️ 访问控制 (${channelId})`,
+        "",
+        `允许用户: ${formatAccessList(policy.allowUsers)}`,
+        `禁止用户: ${formatAccessList(policy.blockUsers)}`,
+        `允许部门: ${formatAccessList(policy.allowDepartments)}`,
+        `允许群聊: ${formatAccessList(policy.allowGroups)}`,
+        `禁止群聊: ${formatAccessList(policy.blockGroups)}`,
+        `群聊需 @: ${policy.requireMention ? "是" : "否"}`,
+        `仅管理员: ${policy.adminOnly ? "是" : "否"}`,
+        "",
+        `名单文件: ${access.getFilePath()}`,
+      ].join("\n");
+    }
+
+    if (action.toLowerCase() === "admin") {
+      const op = target?.toLowerCase();
+      if ((op !== "add" && op !== "remove") || !id) return `用法: ${accessCommand.usage}`;
+      // 未指定通道时归属当前通道
+      const adminId = id.includes(":") ? id : `${channelId}:${id}`;
+      if (op === "add") {
+        return access.addAdmin(adminId) ? `✅ 已添加管理员 ${adminId}` : `${adminId} 已是管理员`;
+      }
+      return access.removeAdmin(adminId)
+        ? `✅ 已移除管理员 ${adminId}`
+        : `未找到通过命令添加的管理员 ${adminId} (配置文件中的管理员需修改配置)`;
+    }
+
+    const spec = ACCESS_ACTIONS[action.toLowerCase()];
+    const kind = target?.toLowerCase();
+    if (!spec || (kind !== "user" && kind !== "group")) return `用法: ${accessCommand.usage}`;
+
+    // 群聊名单默认使用当前群
+    const entry = id ?? (kind === "group" && ctx.message.chatType === "group" ? chatId : undefined);
+    if (!entry) return `请指定${kind === "user" ? "用户" : "群聊"} ID`;
+
+    const list = `${spec.list}${kind === "user" ? "Users" : "Groups"}` as AccessListName;
+    const label = `${spec.list === "allow" ? "允许" : "禁止"}${kind === "user" ? "用户" : "群聊"}名单`;
+    if (spec.add) {
+      return access.addToList(channelId, list, entry) ? `✅ 已将 ${entry} 加入${label}` : `${entry} 已在${label}中`;
+    }
+    return access.removeFromList(channelId, list, entry)
+      ? `✅ 已将 ${entry} 移出${label}`
+      : `${label}中没有通过命令添加的 ${entry} (配置文件中的条目需修改配置)`;
+  },
+};
+
+/** 定时任务命令 */
+const cronCommand: CommandDefinition = {
+  name: "cron",
+  aliases: ["定时"],
+  description: "管理自己创建的定时任务",
+  usage: "/cron list | /cron pause <ID> | /cron resume <ID> | /cron delete <ID>",
+  handler: (ctx) => {
+    const service = getCronService();
+    // 只能管理自己在当前通道 (账号) 下创建的任务
+    const jobs = service.list({ includeDisabled: true, owner: getCronJobOwner(ctx.message) });
+    const [action = "list", id] = ctx.argsArray;
+    const op = action.toLowerCase();
+
+    if (op === "list") {
+      if (jobs.length === 0) return "暂无定时任务，可以直接告诉我需要定时做什么";
+      const lines = [`⏰ 定时任务 (${jobs.length} 个):`, ""];
+      for (const job of jobs) {
+        const next = job.enabled && job.state.nextRunAtMs ? new Date(job.state.nextRunAtMs).toLocaleString("zh-CN") : "-";
+        lines.push(`${job.enabled ? "✅" : "⏸️"} [${job.id.slice(0, 8)}] ${job.name}`);
+        lines.push(`   ${formatSchedule(job.schedule)} | 下次: ${next}`);
+      }
+      return lines.join("\n");
+    }
+
+    if (!["pause", "resume", "delete"].includes(op) || !id) return `用法: ${cronCommand.usage}`;
+
+    // 支持列表中显示的 ID 前缀
+    const matched = jobs.filter((job) => job.id.startsWith(id));
+    if (matched.length === 0) return `未找到任务 ${id}`;
+    if (matched.length > 1) return `ID ${id} 匹配到多个任务，请输入更长的 ID`;
+    const job = matched[0]!;
+
+    if (op === "delete") {
+      service.remove(job.id);
+      return `🗑️ 已删除定时任务: ${job.name}`;
+    }
+    service.update(job.id, { enabled: op === "resume" });
+    return op === "resume" ? `▶️ 已恢复定时任务: ${job.name}` : `⏸️ 已暂停定时任务: ${job.name}`;
+  },
+};
+
 /** 注册内置命令 */
 export function registerBuiltinCommands(): void {
-  registerCommands([helpCommand, clearCommand, statusCommand]);
+  registerCommands([
+    helpCommand,
+    clearCommand,
+    statusCommand,
+    modelCommand,
+    compactCommand,
+    usageCommand,
+    memoryCommand,
+    approveCommand,
+    rejectCommand,
+    accessCommand,
+    cronCommand,
+  ]);
 }
@@ -8,7 +8,7 @@ import { join } from "path";
 import { homedir } from "os";
 import json5 from "json5";
 import yaml from "yaml";
-import type { MoziConfig, ProviderId } from "../types/index.js";
+import type { ChannelAccountOptions, MoziConfig, ProviderId } from "../types/index.js";
 import { getEnvVar } from "../utils/index.js";
 
 // ============== Zod Schema ==============
@@ -31,6 +31,7 @@ const DingtalkConfigSchema = z.object({
   appKey: z.string(),
   appSecret: z.string(),
   robotCode: z.string().optional(),
+  cardTemplateId: z.string().optional(),
   enabled: z.boolean().optional().default(true),
 });
 
@@ -39,6 +40,7 @@ const QQConfigSchema = z.object({
   clientSecret: z.string(),
   enabled: z.boolean().optional().default(true),
   sandbox: z.boolean().optional().default(false),
+  markdown: z.boolean().optional(),
 });
 
 const WeComConfigSchema = z.object({
@@ -50,6 +52,93 @@ const WeComConfigSchema = z.object({
   enabled: z.boolean().optional().default(true),
 });
 
+const WebhookConfigSchema = z.object({
+  secret: z.string().min(1),
+  callbackUrl: z.string().url().optional(),
+  callbackSecret: z.string().optional(),
+  targets: z.record(z.string().url()).optional(),
+  toleranceSec: z.number().int().positive().optional(),
+  enabled: z.boolean().optional().default(true),
+});
+
+const TelegramConfigSchema = z.object({
+  botToken: z.string(),
+  apiBase: z.string().url().optional(),
+  pollTimeoutSec: z.number().int().min(0).max(50).optional(),
+  enabled: z.boolean().optional().default(true),
+});
+
+const SlackConfigSchema = z.object({
+  botToken: z.string(),
+  appToken: z.string().optional(),
+  signingSecret: z.string().optional(),
+  apiBase: z.string().url().optional(),
+  enabled: z.boolean().optional().default(true),
+});
+
+const DiscordConfigSchema = z.object({
+  botToken: z.string(),
+  apiBase: z.string().url().optional(),
+  gatewayUrl: z.string().url().optional(),
+  enabled: z.boolean().optional().default(true),
+});
+
+const ChannelAccountSchema = z.object({
+  id: z.string().regex(/^[A-Za-z0-9_-]+$/, "账号 ID 只能包含字母、数字、- 与 _"),
+  name: z.string().optional(),
+  systemPrompt: z.string().optional(),
+  sessionNamespace: z.string().optional(),
+  enabled: z.boolean().optional(),
+});
+
+/** 通道配置支持 accounts 数组 (配置 accounts 时通道级凭据可省略，由各账号填写) */
+function withAccounts<T extends z.AnyZodObject>(schema: T) {
+  const accounts = z
+    .array(schema.partial().merge(ChannelAccountSchema))
+    .min(1)
+    .refine((list) => new Set(list.map((account) => account.id)).size === list.length, "账号 ID 不能重复");
+  return z.union([
+    schema.extend({ accounts: accounts.optional() }),
+    schema.partial().extend({ accounts }),
+  ]);
+}
+
+const ToolPolicyRuleSchema = z.object({
+  allow: z.array(z.string()).optional(),
+  deny: z.array(z.string()).optional(),
+});
+
+const ToolPolicyConfigSchema = ToolPolicyRuleSchema.extend({
+  channels: z.record(ToolPolicyRuleSchema).optional(),
+  chats: z.record(ToolPolicyRuleSchema).optional(),
+});
+
+const ToolApprovalConfigSchema = z.object({
+  enabled: z.boolean().optional(),
+  tools: z.array(z.string()).optional(),
+  timeoutSeconds: z.number().positive().optional(),
+  auditFile: z.string().optional(),
+});
+
+const ModelRoutingRuleSchema = z.object({
+  channel: z.string().optional(),
+  chatId: z.string().optional(),
+  senderId: z.string().optional(),
+  chatType: z.enum(["direct", "group"]).optional(),
+  provider: z.string(),
+  model: z.string(),
+});
+
+const ModelFailoverConfigSchema = z.object({
+  fallbacks: z.array(z.object({ provider: z.string(), model: z.string() })).optional(),
+  maxRetries: z.number().int().min(0).optional(),
+  baseDelayMs: z.number().min(0).optional(),
+  maxDelayMs: z.number().min(0).optional(),
+  cooldownMs: z.number().min(0).optional(),
+  failureThreshold: z.number().int().positive().optional(),
+  circuitOpenMs: z.number().min(0).optional(),
+});
+
 const AgentConfigSchema = z.object({
   defaultModel: z.string().default("deepseek-chat"),
   defaultProvider: z.enum([
@@ -62,11 +151,93 @@ const AgentConfigSchema = z.object({
   maxTokens: z.number().optional().default(4096),
   workingDirectory: z.string().optional(),
   enableFunctionCalling: z.boolean().optional(),
+  modelRouting: z.array(ModelRoutingRuleSchema).optional(),
+  failover: ModelFailoverConfigSchema.optional(),
+  enableCompaction: z.boolean().optional(),
+  compactionThreshold: z.number().gt(0).lt(1).optional(),
+  tools: z.object({
+    policy: ToolPolicyConfigSchema.optional(),
+    approval: ToolApprovalConfigSchema.optional(),
+  }).optional(),
+});
+
+const NamedAgentConfigSchema = z.object({
+  id: z.string().regex(/^[A-Za-z0-9_-]+$/, "Agent ID 只能包含字母、数字、- 与 _"),
+  name: z.string().optional(),
+  description: z.string().optional(),
+  systemPrompt: z.string().optional(),
+  provider: z.string().optional(),
+  model: z.string().optional(),
+  temperature: z.number().min(0).max(2).optional(),
+  maxTokens: z.number().optional(),
+  workingDirectory: z.string().optional(),
+  tools: z.object({
+    policy: ToolPolicyConfigSchema.optional(),
+  }).optional(),
+  skills: z.object({
+    only: z.array(z.string()).optional(),
+    disabled: z.array(z.string()).optional(),
+  }).optional(),
+  memoryNamespace: z.string().regex(/^[A-Za-z0-9_-]+$/).optional(),
+});
+
+const AgentRoutingRuleSchema = z.object({
+  agent: z.string(),
+  channel: z.string().optional(),
+  accountId: z.string().optional(),
+  chatId: z.string().optional(),
+  chatType: z.enum(["direct", "group"]).optional(),
+  keywords: z.array(z.string().min(1)).optional(),
+  command: z.string().regex(/^\/\S+$/, "命令需以 / 开头且不含空格").optional(),
+});
+
+const AccessPolicySchema = z.object({
+  allowUsers: z.array(z.string()).optional(),
+  blockUsers: z.array(z.string()).optional(),
+  allowDepartments: z.array(z.string()).optional(),
+  allowGroups: z.array(z.string()).optional(),
+  blockGroups: z.array(z.string()).optional(),
+  requireMention: z.boolean().optional(),
+  botIds: z.array(z.string()).optional(),
+  adminOnly: z.boolean().optional(),
+});
+
+const AccessConfigSchema = AccessPolicySchema.extend({
+  admins: z.array(z.string()).optional(),
+  channels: z.record(AccessPolicySchema).optional(),
+  denyMessage: z.string().optional(),
+  file: z.string().optional(),
+});
+
+const RateLimitRuleSchema = z.object({
+  burst: z.number().int().positive(),
+  perMinute: z.number().positive(),
+});
+
+const QueueConfigSchema = z.object({
+  coalesceMs: z.number().int().min(0).optional(),
+  maxConcurrent: z.number().int().positive().optional(),
+  perSender: RateLimitRuleSchema.optional(),
+  perChat: RateLimitRuleSchema.optional(),
+  rateLimitMessage: z.string().optional(),
+});
+
+const WebAuthConfigSchema = z.object({
+  adminToken: z.string().optional(),
+  chatToken: z.string().optional(),
+  secret: z.string().optional(),
+  sessionTtlHours: z.number().positive().optional(),
+});
+
+const OpenAIApiConfigSchema = z.object({
+  apiKeys: z.array(z.string().min(1)).optional(),
 });
 
 const ServerConfigSchema = z.object({
   port: z.number().default(3000),
   host: z.string().optional().default("0.0.0.0"),
+  auth: WebAuthConfigSchema.optional(),
+  openai: OpenAIApiConfigSchema.optional(),
 });
 
 const LoggingConfigSchema = z.object({
@@ -84,6 +255,8 @@ const MemoryConfigSchema = z.object({
   directory: z.string().optional(),
   embeddingModel: z.string().optional(),
   embeddingProvider: z.string().optional(),
+  embeddingBatchSize: z.number().int().positive().optional(),
+  embeddingDimensions: z.number().int().positive().optional(),
 });
 
 const SkillsConfigSchema = z.object({
@@ -94,24 +267,115 @@ const SkillsConfigSchema = z.object({
   only: z.array(z.string()).optional(),
 });
 
+const UsageConfigSchema = z.object({
+  enabled: z.boolean().optional(),
+  file: z.string().optional(),
+  dailyTokenBudget: z.number().int().positive().optional(),
+  userBudgets: z.record(z.number().int().positive()).optional(),
+});
+
+const CronConfigSchema = z.object({
+  enabled: z.boolean().optional(),
+  storePath: z.string().optional(),
+  misfirePolicy: z.enum(["skip", "runOnce", "runAll"]).optional(),
+  retry: z
+    .object({
+      maxRetries: z.number().int().min(0).optional(),
+      backoffMs: z.number().int().positive().optional(),
+      maxBackoffMs: z.number().int().positive().optional(),
+    })
+    .optional(),
+  runLog: z
+    .object({
+      maxEntries: z.number().int().positive().optional(),
+      maxAgeDays: z.number().positive().optional(),
+    })
+    .optional(),
+});
+
+const StreamingConfigSchema = z.object({
+  enabled: z.boolean().optional(),
+  throttleMs: z.number().int().min(100).optional(),
+});
+
+const MediaConfigSchema = z.object({
+  cacheDir: z.string().optional(),
+  maxFileSize: z.number().int().positive().optional(),
+  retentionHours: z.number().positive().optional(),
+});
+
+const PluginsConfigSchema = z.object({
+  enabled: z.boolean().optional(),
+  allow: z.array(z.string()).optional(),
+  deny: z.array(z.string()).optional(),
+  paths: z.array(z.string()).optional(),
+  entries: z.record(z.object({
+    enabled: z.boolean().optional(),
+    config: z.record(z.unknown()).optional(),
+  })).optional(),
+});
+
 const MoziConfigSchema = z.object({
   providers: z.record(ProviderConfigSchema).optional().default({}),
   channels: z.object({
-    feishu: FeishuConfigSchema.optional(),
-    dingtalk: DingtalkConfigSchema.optional(),
-    qq: QQConfigSchema.optional(),
-    wecom: WeComConfigSchema.optional(),
-  }).optional().default({}),
+    feishu: withAccounts(FeishuConfigSchema).optional(),
+    dingtalk: withAccounts(DingtalkConfigSchema).optional(),
+    qq: withAccounts(QQConfigSchema).optional(),
+    wecom: withAccounts(WeComConfigSchema).optional(),
+    webhook: withAccounts(WebhookConfigSchema).optional(),
+    telegram: withAccounts(TelegramConfigSchema).optional(),
+    slack: withAccounts(SlackConfigSchema).optional(),
+    discord: withAccounts(DiscordConfigSchema).optional(),
+  }).passthrough().optional().default({}),
   agent: AgentConfigSchema.optional().default({}),
+  agents: z
+    .array(NamedAgentConfigSchema)
+    .refine((list) => new Set(list.map((agent) => agent.id)).size === list.length, "Agent ID 不能重复")
+    .optional(),
+  agentRouting: z.array(AgentRoutingRuleSchema).optional(),
   server: ServerConfigSchema.optional().default({}),
   logging: LoggingConfigSchema.optional().default({}),
   sessions: SessionStoreConfigSchema.optional(),
   memory: MemoryConfigSchema.optional(),
+  usage: UsageConfigSchema.optional(),
+  cron: CronConfigSchema.optional(),
+  access: AccessConfigSchema.optional(),
+  queue: QueueConfigSchema.optional(),
+  streaming: StreamingConfigSchema.optional(),
+  media: MediaConfigSchema.optional(),
+  plugins: PluginsConfigSchema.optional(),
   skills: SkillsConfigSchema.optional(),
 });
 
 // ============== 配置加载 ==============
 
+/** 通道账号实例 */
+export interface ResolvedChannelAccount {
+  /** 账号 ID (未配置 accounts 时为空) */
+  accountId?: string;
+  options?: ChannelAccountOptions;
+  /** 合并通道级字段后的配置 */
+  config: Record<string, unknown>;
+}
+
+/** 展开通道配置块中的账号 (未配置 accounts 时整个配置块即为一个实例，已禁用的返回空) */
+export function resolveChannelAccounts(channelConfig: unknown): ResolvedChannelAccount[] {
+  if (!channelConfig || typeof channelConfig !== "object") return [];
+  const { accounts, ...base } = channelConfig as Record<string, unknown> & {
+    accounts?: Array<Record<string, unknown> & ChannelAccountOptions>;
+  };
+  if (base.enabled === false) return [];
+  if (!accounts?.length) return [{ config: base }];
+
+  return accounts
+    .filter((account) => account.enabled !== false)
+    .map(({ id, name, systemPrompt, sessionNamespace, enabled: _enabled, ...fields }) => ({
+      accountId: id,
+      options: { id, name, systemPrompt, sessionNamespace },
+      config: { ...base, ...fields },
+    }));
+}
+
 /** 从文件加载配置 */
 function loadConfigFromFile(configPath: string): Partial<MoziConfig> {
   if (!existsSync(configPath)) {
@@ -241,6 +505,7 @@ function loadConfigFromEnv(): Partial<MoziConfig> {
         appKey: dingtalkAppKey,
         appSecret: dingtalkAppSecret,
         robotCode: getEnvVar("DINGTALK_ROBOT_CODE"),
+        cardTemplateId: getEnvVar("DINGTALK_CARD_TEMPLATE_ID"),
       },
     };
   }
@@ -303,19 +568,26 @@ function mergeConfigs(...configs: Partial<MoziConfig>[]): Partial<MoziConfig> {
     }
 
     if (config.channels) {
-      const c = config.channels;
-      const r = result.channels;
-      result.channels = {
-        feishu: c.feishu != null ? { ...r?.feishu, ...c.feishu } : r?.feishu,
-        dingtalk: c.dingtalk != null ? { ...r?.dingtalk, ...c.dingtalk } : r?.dingtalk,
-        qq: c.qq != null ? { ...r?.qq, ...c.qq } : r?.qq,
-        wecom: c.wecom != null ? { ...r?.wecom, ...c.wecom } : r?.wecom,
-      };
+      // 各通道配置浅合并 (含插件注册的通道)
+      const channels: Record<string, unknown> = { ...result.channels };
+      for (const [id, value] of Object.entries(config.channels)) {
+        const previous = channels[id];
+        channels[id] = value != null && typeof value === "object" && typeof previous === "object"
+          ? { ...previous, ...value }
+          : value ?? previous;
+      }
+      result.channels = channels as MoziConfig["channels"];
     }
 
     if (config.agent) {
       result.agent = { ...result.agent, ...config.agent };
     }
+    if (config.agents) {
+      result.agents = config.agents;
+    }
+    if (config.agentRouting) {
+      result.agentRouting = config.agentRouting;
+    }
     if (config.server) {
       result.server = { ...result.server, ...config.server };
     }
@@ -331,6 +603,27 @@ function mergeConfigs(...configs: Partial<MoziConfig>[]): Partial<MoziConfig> {
     if (config.skills) {
       result.skills = { ...result.skills, ...config.skills };
     }
+    if (config.usage) {
+      result.usage = { ...result.usage, ...config.usage };
+    }
+    if (config.cron) {
+      result.cron = { ...result.cron, ...config.cron };
+    }
+    if (config.streaming) {
+      result.streaming = { ...result.streaming, ...config.streaming };
+    }
+    if (config.media) {
+      result.media = { ...result.media, ...config.media };
+    }
+    if (config.access) {
+      result.access = { ...result.access, ...config.access };
+    }
+    if (config.queue) {
+      result.queue = { ...result.queue, ...config.queue };
+    }
+    if (config.plugins) {
+      result.plugins = { ...result.plugins, ...config.plugins };
+    }
   }
 
   return result;
@@ -395,9 +688,17 @@ export function validateRequiredConfig(config: MoziConfig, options?: { webOnly?:
 
   // 检查是否至少配置了一个通道 (webOnly 模式下可以只使用 WebChat)
   if (!options?.webOnly) {
-    const hasChannel = config.channels.feishu || config.channels.dingtalk || config.channels.qq || config.channels.wecom;
+    const hasChannel = Object.values(config.channels).some(Boolean);
     if (!hasChannel) {
-      errors.push("At least one channel (feishu, dingtalk, qq, or wecom) must be configured. Use --web-only to run with WebChat only.");
+      errors.push("At least one channel (feishu, dingtalk, qq, wecom, webhook, telegram, slack, or discord) must be configured. Use --web-only to run with WebChat only.");
+    }
+  }
+
+  // 路由规则只能指向已定义的 Agent
+  const agentIds = new Set(config.agents?.map((agent) => agent.id));
+  for (const rule of config.agentRouting ?? []) {
+    if (!agentIds.has(rule.agent)) {
+      errors.push(`Agent routing rule refers to unknown agent: ${rule.agent}`);
     }
   }
 
@@ -4,9 +4,10 @@
  * 处理定时任务的执行，包括 Agent 调用和消息投递
  */
 
-import type { CronJob, PayloadAgentTurn } from "./types.js";
+import type { CronDeliveryResult, CronJob, CronJobOwner, CronTriggerEvent, PayloadAgentTurn } from "./types.js";
 import type { ChannelId } from "../types/index.js";
 import { deliverOutboundPayloads, isChannelAvailable } from "../outbound/index.js";
+import { getKnownChannelIds } from "../channels/common/index.js";
 import { getChildLogger } from "../utils/logger.js";
 
 const logger = getChildLogger("cron-executor");
@@ -18,12 +19,16 @@ export interface CronExecutionResult {
   summary?: string;
   /** Agent 输出的文本 */
   outputText?: string;
+  /** 结果投递情况 */
+  delivery?: CronDeliveryResult;
 }
 
 /** Agent 执行函数类型 */
 export type AgentExecutor = (params: {
   message: string;
   sessionKey?: string;
+  /** 任务归属 (在该会话的通道与 Agent 下执行) */
+  owner?: CronJobOwner;
   model?: string;
   timeoutSeconds?: number;
 }) => Promise<{
@@ -32,6 +37,21 @@ export type AgentExecutor = (params: {
   error?: string;
 }>;
 
+/** 触发事件内容的最大长度 */
+const MAX_EVENT_DETAIL_CHARS = 4000;
+
+/**
+ * 将触发事件附加到任务消息后
+ */
+export function formatTriggeredMessage(message: string, event?: CronTriggerEvent): string {
+  if (!event) return message;
+  const detail =
+    event.detail.length > MAX_EVENT_DETAIL_CHARS
+      ? `${event.detail.slice(0, MAX_EVENT_DETAIL_CHARS)}\n...(truncated)`
+      : event.detail;
+  return `${message}\n\n[Triggered by ${event.kind}]\n${detail}`;
+}
+
 /** Cron 执行器选项 */
 export interface CronExecutorOptions {
   /** Agent 执行函数 (可选，用于 agentTurn 任务) */
@@ -49,18 +69,21 @@ export function createCronExecutor(options?: CronExecutorOptions) {
   /**
    * 执行单个任务
    */
-  async function executeJob(job: CronJob): Promise<CronExecutionResult> {
+  async function executeJob(job: CronJob, event?: CronTriggerEvent): Promise<CronExecutionResult> {
     const { payload } = job;
 
-    logger.info({ jobId: job.id, jobName: job.name, payloadKind: payload.kind }, "Executing cron job");
+    logger.info(
+      { jobId: job.id, jobName: job.name, payloadKind: payload.kind, trigger: event?.kind },
+      "Executing cron job"
+    );
 
     try {
       switch (payload.kind) {
         case "systemEvent":
-          return executeSystemEvent(job);
+          return executeSystemEvent(job, event);
 
         case "agentTurn":
-          return executeAgentTurn(job, payload);
+          return executeAgentTurn(job, payload, event);
 
         default:
           return {
@@ -78,10 +101,15 @@ export function createCronExecutor(options?: CronExecutorOptions) {
   /**
    * 执行系统事件任务
    */
-  async function executeSystemEvent(job: CronJob): Promise<CronExecutionResult> {
+  async function executeSystemEvent(job: CronJob, event?: CronTriggerEvent): Promise<CronExecutionResult> {
     // systemEvent 只是记录日志，不需要执行任何操作
     logger.info(
-      { jobId: job.id, message: job.payload.kind === "systemEvent" ? job.payload.message : "" },
+      {
+        jobId: job.id,
+        message: job.payload.kind === "systemEvent" ? job.payload.message : "",
+        trigger: event?.kind,
+        detail: event?.detail.slice(0, 200),
+      },
       "System event triggered"
     );
     return { status: "ok", summary: "System event executed" };
@@ -92,9 +120,11 @@ export function createCronExecutor(options?: CronExecutorOptions) {
    */
   async function executeAgentTurn(
     job: CronJob,
-    payload: PayloadAgentTurn
+    payload: PayloadAgentTurn,
+    event?: CronTriggerEvent
   ): Promise<CronExecutionResult> {
-    const { message, model, timeoutSeconds, deliver, channel, to } = payload;
+    const { model, timeoutSeconds, deliver } = payload;
+    const message = formatTriggeredMessage(payload.message, event);
 
     // 如果没有 agentExecutor，只记录日志
     if (!agentExecutor) {
@@ -113,6 +143,7 @@ export function createCronExecutor(options?: CronExecutorOptions) {
       agentResult = await agentExecutor({
         message,
         sessionKey: `cron:${job.id}`,
+        owner: job.owner,
         model,
         timeoutSeconds,
       });
@@ -136,14 +167,13 @@ export function createCronExecutor(options?: CronExecutorOptions) {
     const outputText = agentResult.output;
 
     // 如果需要投递
-    if (deliver && to) {
-      await deliverAgentOutput(job, payload, outputText);
-    }
+    const delivery = deliver ? await deliverAgentOutput(job, payload, outputText) : undefined;
 
     return {
       status: "ok",
       summary: outputText.slice(0, 200),
       outputText,
+      delivery,
     };
   }
 
@@ -154,34 +184,37 @@ export function createCronExecutor(options?: CronExecutorOptions) {
     job: CronJob,
     payload: PayloadAgentTurn,
     outputText: string
-  ): Promise<void> {
-    const { channel: targetChannel, to } = payload;
+  ): Promise<CronDeliveryResult> {
+    const { channel: targetChannel, to, accountId } = payload;
 
     if (!to) {
       logger.warn({ jobId: job.id }, "No delivery target specified");
-      return;
+      return { status: "skipped", channel: targetChannel, error: "No delivery target" };
     }
 
     // 解析通道
     const channelId = resolveChannel(targetChannel);
     if (!channelId) {
       logger.warn({ jobId: job.id, targetChannel }, "Invalid or unavailable channel");
-      return;
+      return { status: "skipped", channel: targetChannel, to, error: "Invalid channel" };
     }
 
+    const target = { channel: channelId, accountId, to };
+
     // 检查通道是否可用
-    if (!isChannelAvailable(channelId)) {
-      logger.warn({ jobId: job.id, channelId }, "Channel not available");
-      return;
+    if (!isChannelAvailable(channelId, accountId)) {
+      logger.warn({ jobId: job.id, channelId, accountId }, "Channel not available");
+      return { status: "skipped", ...target, error: "Channel not available" };
     }
 
     // 投递消息
-    logger.info({ jobId: job.id, channelId, to }, "Delivering agent output");
+    logger.info({ jobId: job.id, channelId, accountId, to }, "Delivering agent output");
 
     try {
       const results = await deliverOutboundPayloads({
         channel: channelId,
         to,
+        accountId,
         payloads: [{ text: outputText }],
         bestEffort: true,
       });
@@ -191,8 +224,11 @@ export function createCronExecutor(options?: CronExecutorOptions) {
         { jobId: job.id, channelId, to, successCount, totalCount: results.length },
         "Delivery completed"
       );
+      const failed = results.find((r) => !r.success);
+      return failed ? { status: "error", ...target, error: failed.error } : { status: "ok", ...target };
     } catch (err) {
       logger.error({ jobId: job.id, error: err }, "Delivery failed");
+      return { status: "error", ...target, error: err instanceof Error ? err.message : String(err) };
     }
   }
 
@@ -206,9 +242,8 @@ export function createCronExecutor(options?: CronExecutorOptions) {
     }
 
     // 验证通道 ID
-    const validChannels: ChannelId[] = ["dingtalk", "feishu", "qq", "wecom", "webchat"];
-    if (validChannels.includes(channel as ChannelId)) {
-      return channel as ChannelId;
+    if (getKnownChannelIds().includes(channel)) {
+      return channel;
     }
 
     return null;
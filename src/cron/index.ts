@@ -7,6 +7,8 @@
 
 export * from "./types.js";
 export * from "./store.js";
+export * from "./run-log.js";
 export * from "./schedule.js";
+export * from "./triggers.js";
 export * from "./service.js";
 export * from "./executor.js";
@@ -0,0 +1,76 @@
+/**
+ * 定时任务运行记录
+ *
+ * 每个任务一个 JSONL 文件，写入时按条数与时长上限清理旧记录
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync, renameSync, rmSync } from "fs";
+import { join } from "path";
+import type { CronRunLogEntry, CronRunLogOptions } from "./types.js";
+import { TIME_CONSTANTS } from "./types.js";
+
+/** 每个任务默认保留的记录条数 */
+export const DEFAULT_RUN_LOG_MAX_ENTRIES = 200;
+
+/** 默认保留时长 (30 天) */
+export const DEFAULT_RUN_LOG_MAX_AGE_MS = 30 * TIME_CONSTANTS.DAY;
+
+/**
+ * 运行记录存储
+ */
+export class CronRunLog {
+  private dir: string;
+  private maxEntries: number;
+  private maxAgeMs: number;
+
+  constructor(dir: string, options?: CronRunLogOptions) {
+    this.dir = dir;
+    this.maxEntries = options?.maxEntries ?? DEFAULT_RUN_LOG_MAX_ENTRIES;
+    this.maxAgeMs = options?.maxAgeMs ?? DEFAULT_RUN_LOG_MAX_AGE_MS;
+  }
+
+  /** 记录文件路径 */
+  getFilePath(jobId: string): string {
+    return join(this.dir, `${jobId}.jsonl`);
+  }
+
+  /** 读取任务的全部记录 (从旧到新，跳过损坏的行) */
+  read(jobId: string): CronRunLogEntry[] {
+    const file = this.getFilePath(jobId);
+    if (!existsSync(file)) return [];
+
+    const entries: CronRunLogEntry[] = [];
+    for (const line of readFileSync(file, "utf-8").split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        entries.push(JSON.parse(line) as CronRunLogEntry);
+      } catch {
+        // 忽略损坏的行
+      }
+    }
+    return entries;
+  }
+
+  /** 最近的记录 (从新到旧) */
+  list(jobId: string, limit: number = 20): CronRunLogEntry[] {
+    return this.read(jobId).slice(-limit).reverse();
+  }
+
+  /** 追加一条记录，并清理超出上限的旧记录 */
+  append(entry: CronRunLogEntry, nowMs: number = Date.now()): void {
+    const entries = [...this.read(entry.jobId), entry]
+      .filter((item) => nowMs - item.startedAtMs <= this.maxAgeMs)
+      .slice(-this.maxEntries);
+
+    mkdirSync(this.dir, { recursive: true });
+    const file = this.getFilePath(entry.jobId);
+    const tmpPath = `${file}.${process.pid}.tmp`;
+    writeFileSync(tmpPath, entries.map((item) => JSON.stringify(item)).join("\n") + "\n", "utf-8");
+    renameSync(tmpPath, file);
+  }
+
+  /** 删除任务的记录 */
+  remove(jobId: string): void {
+    rmSync(this.getFilePath(jobId), { force: true });
+  }
+}
@@ -2,10 +2,11 @@
  * 定时任务调度计算
  *
  * 参考 moltbot 的 schedule.ts 实现
- * 支持三种调度模式的下次运行时间计算
+ * 支持三种调度模式的下次运行时间计算 (事件触发的任务没有下次运行时间)
  */
 
-import type { CronSchedule, CronJob } from "./types.js";
+import { isAbsolute, normalize } from "path";
+import type { CronSchedule, CronEventSchedule, CronJob } from "./types.js";
 
 /**
  * 简单的 Cron 表达式解析器
@@ -182,6 +183,13 @@ export function computeNextRunAtMs(schedule: CronSchedule, nowMs: number): numbe
   }
 }
 
+/**
+ * 是否为事件触发 (webhook、fileWatch、messageMatch)
+ */
+export function isEventSchedule(schedule: CronSchedule): schedule is CronEventSchedule {
+  return schedule.kind === "webhook" || schedule.kind === "fileWatch" || schedule.kind === "messageMatch";
+}
+
 /**
  * 计算任务的下次运行时间
  */
@@ -190,6 +198,120 @@ export function computeJobNextRunAtMs(job: CronJob, nowMs: number): number | und
   return computeNextRunAtMs(job.schedule, nowMs);
 }
 
+/**
+ * 计算之后的多次运行时间 (用于调度预览)
+ */
+export function computeNextRuns(schedule: CronSchedule, nowMs: number, count: number = 5): number[] {
+  const runs: number[] = [];
+  let next = computeNextRunAtMs(schedule, nowMs);
+  while (next !== undefined && runs.length < count) {
+    runs.push(next);
+    next = computeNextRunAtMs(schedule, next);
+  }
+  return runs;
+}
+
+/** messageMatch 正则的最大长度 */
+export const MAX_MESSAGE_PATTERN_LENGTH = 200;
+
+/**
+ * 正则是否可能发生灾难性回溯: 带量词的分组内还有量词或分支 (如 (a+)+、(a|aa)+)，
+ * 多个 .* / .+ 通配，或使用反向引用
+ */
+function hasBacktrackingRisk(pattern: string): boolean {
+  // 每层分组内是否出现过量词或分支
+  const groups: Array<{ quantifier: boolean; alternation: boolean }> = [];
+  let wildcards = 0;
+  let inClass = false;
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === "\\") {
+      if (!inClass && /[1-9k]/.test(pattern[i + 1] ?? "")) return true;
+      i++;
+    } else if (inClass) {
+      if (char === "]") inClass = false;
+    } else if (char === "[") {
+      inClass = true;
+    } else if (char === "(") {
+      groups.push({ quantifier: false, alternation: false });
+    } else if (char === ")") {
+      const group = groups.pop();
+      const next = pattern[i + 1];
+      const repeated = next === "*" || next === "+" || next === "{";
+      if (group && repeated && (group.quantifier || group.alternation)) return true;
+      const parent = groups[groups.length - 1];
+      if (group && parent) {
+        parent.quantifier ||= group.quantifier;
+        parent.alternation ||= group.alternation;
+      }
+    } else if (char === "|" && groups.length > 0) {
+      groups[groups.length - 1]!.alternation = true;
+    } else if (char === "*" || char === "+" || char === "{") {
+      // 未转义的 . 后接 * 或 +
+      const wildcard = pattern[i - 1] === "." && pattern[i - 2] !== "\\" && char !== "{";
+      if (wildcard && ++wildcards > 1) return true;
+      if (groups.length > 0) groups[groups.length - 1]!.quantifier = true;
+    }
+  }
+  return false;
+}
+
+/**
+ * 编译 messageMatch 正则 (限制长度，拒绝可能灾难性回溯的写法)，无效时抛出错误
+ */
+export function compileMessagePattern(pattern: string, flags?: string): RegExp {
+  if (pattern.length > MAX_MESSAGE_PATTERN_LENGTH) {
+    throw new Error(`Pattern must be at most ${MAX_MESSAGE_PATTERN_LENGTH} characters`);
+  }
+  if (hasBacktrackingRisk(pattern)) {
+    throw new Error("Nested quantifiers, repeated alternations, multiple wildcards and backreferences are not allowed");
+  }
+  return new RegExp(pattern, flags);
+}
+
+/**
+ * 验证调度配置
+ */
+export function validateSchedule(schedule: CronSchedule, nowMs: number = Date.now()): { valid: boolean; error?: string } {
+  switch (schedule?.kind) {
+    case "at":
+      if (!Number.isFinite(schedule.atMs)) return { valid: false, error: "Invalid time" };
+      if (schedule.atMs <= nowMs) return { valid: false, error: "Time is in the past" };
+      return { valid: true };
+    case "every":
+      if (!Number.isFinite(schedule.everyMs) || schedule.everyMs <= 0) {
+        return { valid: false, error: "Interval must be positive" };
+      }
+      return { valid: true };
+    case "cron":
+      return validateCronExpr(schedule.expr ?? "");
+    case "webhook":
+      if (!schedule.secret || schedule.secret.length < 16) {
+        return { valid: false, error: "Webhook secret must be at least 16 characters" };
+      }
+      return { valid: true };
+    case "fileWatch": {
+      if (!schedule.path?.trim()) return { valid: false, error: "Watch path is required" };
+      const path = normalize(schedule.path);
+      if (isAbsolute(path) || path === ".." || path.startsWith("../") || path.startsWith("..\\")) {
+        return { valid: false, error: "Watch path must be inside the working directory" };
+      }
+      return { valid: true };
+    }
+    case "messageMatch":
+      if (!schedule.channel || !schedule.chatId) return { valid: false, error: "Channel and chatId are required" };
+      if (!schedule.pattern) return { valid: false, error: "Pattern is required" };
+      try {
+        compileMessagePattern(schedule.pattern, schedule.flags);
+      } catch (error) {
+        return { valid: false, error: `Invalid pattern: ${error instanceof Error ? error.message : String(error)}` };
+      }
+      return { valid: true };
+    default:
+      return { valid: false, error: "Unknown schedule kind" };
+  }
+}
+
 /**
  * 验证 Cron 表达式
  */
@@ -224,6 +346,14 @@ export function formatSchedule(schedule: CronSchedule): string {
     }
     case "cron":
       return `Cron: ${schedule.expr}${schedule.tz ? ` (${schedule.tz})` : ""}`;
+    case "webhook":
+      return "On webhook";
+    case "fileWatch":
+      return `On change: ${schedule.path}`;
+    case "messageMatch": {
+      const chat = [schedule.channel, schedule.accountId, schedule.chatId].filter(Boolean).join(":");
+      return `On message /${schedule.pattern}/${schedule.flags ?? ""} in ${chat}`;
+    }
     default:
       return "Unknown schedule";
   }
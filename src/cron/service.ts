@@ -6,27 +6,55 @@
  */
 
 import { randomUUID } from "crypto";
+import { dirname, join } from "path";
 import type {
   CronJob,
   CronJobCreate,
   CronJobUpdate,
+  CronJobFilter,
+  CronJobOwner,
   CronServiceDeps,
   CronEvent,
   CronEventAction,
+  CronJobExecution,
+  CronRunLogEntry,
+  CronRunTrigger,
+  CronTriggerEvent,
 } from "./types.js";
-import { STUCK_RUN_MS } from "./types.js";
+import type { CronConfig, CronRetryConfig, InboundMessageContext } from "../types/index.js";
+import { STUCK_RUN_MS, TIME_CONSTANTS } from "./types.js";
 import { CronStore, DEFAULT_CRON_STORE_PATH } from "./store.js";
-import { computeJobNextRunAtMs, formatSchedule } from "./schedule.js";
+import { CronRunLog } from "./run-log.js";
+import { CronTriggers } from "./triggers.js";
+import { computeJobNextRunAtMs, computeNextRunAtMs, formatSchedule, validateSchedule } from "./schedule.js";
 
 /** setTimeout 的最大安全值 (~24.8 天) */
 const MAX_TIMEOUT_MS = 2 ** 31 - 1;
 
+/** runAll 策略单个任务最多补跑的次数 */
+const MAX_CATCH_UP_RUNS = 100;
+
+/** 默认重试设置 */
+const DEFAULT_RETRY: Required<CronRetryConfig> = {
+  maxRetries: 0,
+  backoffMs: TIME_CONSTANTS.MINUTE,
+  maxBackoffMs: TIME_CONSTANTS.HOUR,
+};
+
+/** 第 attempt 次重试前的等待时间 (指数退避) */
+export function computeRetryDelayMs(retry: CronRetryConfig | undefined, attempt: number): number {
+  const { backoffMs, maxBackoffMs } = { ...DEFAULT_RETRY, ...retry };
+  return Math.min(backoffMs * 2 ** (attempt - 1), maxBackoffMs);
+}
+
 /**
  * 定时任务服务
  */
 export class CronService {
   private deps: Required<CronServiceDeps>;
   private store: CronStore;
+  private runLog: CronRunLog;
+  private triggers: CronTriggers;
   private timer: NodeJS.Timeout | null = null;
   private running: boolean = false;
   private started: boolean = false;
@@ -38,8 +66,17 @@ export class CronService {
       enabled: deps?.enabled ?? true,
       executeJob: deps?.executeJob ?? (async () => ({ status: "ok" as const })),
       onEvent: deps?.onEvent ?? (() => {}),
+      misfirePolicy: deps?.misfirePolicy ?? "skip",
+      retry: deps?.retry ?? {},
+      runLog: deps?.runLog ?? {},
+      workingDirectory: deps?.workingDirectory ?? process.cwd(),
     };
     this.store = new CronStore(this.deps.storePath);
+    this.runLog = new CronRunLog(join(dirname(this.deps.storePath), "runs"), this.deps.runLog);
+    this.triggers = new CronTriggers({
+      workingDirectory: this.deps.workingDirectory,
+      onTrigger: (jobId, event) => void this.trigger(jobId, event),
+    });
   }
 
   /** 启动服务 */
@@ -47,12 +84,14 @@ export class CronService {
     if (this.started) return;
     this.started = true;
 
-    // 重新计算所有任务的下次运行时间
-    this.recomputeAllNextRuns();
+    // 按错过策略处理停机期间错过的调度，再重新计算其余任务的下次运行时间
+    this.recomputeAllNextRuns({ detectMisfires: true });
 
-    // 设置定时器
+    // 设置定时器并开始接收触发事件
     if (this.deps.enabled) {
       this.armTimer();
+      this.triggers.start();
+      this.armTriggers();
     }
   }
 
@@ -65,14 +104,16 @@ export class CronService {
       clearTimeout(this.timer);
       this.timer = null;
     }
+    this.triggers.stop();
   }
 
-  /** 列出所有任务 */
-  list(options?: { includeDisabled?: boolean }): CronJob[] {
-    const { includeDisabled = false } = options || {};
+  /** 列出任务 (可按归属过滤) */
+  list(options?: CronJobFilter): CronJob[] {
+    const { includeDisabled = false, owner } = options || {};
     const jobs = this.store.getJobs();
 
-    return (includeDisabled ? jobs : jobs.filter(j => j.enabled))
+    return jobs
+      .filter(j => (includeDisabled || j.enabled) && (!owner || isOwnedBy(j, owner)))
       .sort((a, b) => (a.state.nextRunAtMs ?? Infinity) - (b.state.nextRunAtMs ?? Infinity));
   }
 
@@ -99,6 +140,9 @@ export class CronService {
       schedule: input.schedule,
       payload: input.payload,
       deleteAfterRun: input.deleteAfterRun,
+      owner: input.owner,
+      misfirePolicy: input.misfirePolicy,
+      retry: input.retry,
       createdAtMs: now,
       updatedAtMs: now,
       state: {},
@@ -112,6 +156,7 @@ export class CronService {
 
     this.emit(job.id, "added", { nextRunAtMs: job.state.nextRunAtMs });
     this.armTimer();
+    this.armTriggers();
 
     return job;
   }
@@ -129,6 +174,8 @@ export class CronService {
     if (patch.enabled !== undefined) job.enabled = patch.enabled;
     if (patch.schedule !== undefined) job.schedule = patch.schedule;
     if (patch.deleteAfterRun !== undefined) job.deleteAfterRun = patch.deleteAfterRun;
+    if (patch.misfirePolicy !== undefined) job.misfirePolicy = patch.misfirePolicy;
+    if (patch.retry !== undefined) job.retry = patch.retry;
 
     // 合并 payload
     if (patch.payload) {
@@ -149,6 +196,7 @@ export class CronService {
 
     this.emit(job.id, "updated", { nextRunAtMs: job.state.nextRunAtMs });
     this.armTimer();
+    this.armTriggers();
 
     return job;
   }
@@ -158,18 +206,27 @@ export class CronService {
     const removed = this.store.removeJob(id);
     if (removed) {
       this.store.persist();
+      try {
+        this.runLog.remove(id);
+      } catch {
+        // 忽略运行记录删除失败
+      }
       this.emit(id, "removed");
       this.armTimer();
+      this.armTriggers();
     }
     return removed;
   }
 
+  /** 获取任务最近的运行记录 (从新到旧) */
+  runs(id: string, limit?: number): CronRunLogEntry[] {
+    return this.runLog.list(id, limit);
+  }
+
   /** 立即运行任务 */
-  async run(id: string, options?: { forced?: boolean }): Promise<{
-    status: "ok" | "error" | "skipped" | "not_found";
-    error?: string;
-    summary?: string;
-  }> {
+  async run(id: string, options?: { forced?: boolean }): Promise<
+    Omit<CronJobExecution, "status"> & { status: CronJobExecution["status"] | "not_found" }
+  > {
     const job = this.store.getJob(id);
     if (!job) {
       return { status: "not_found", error: "Job not found" };
@@ -178,11 +235,30 @@ export class CronService {
     return this.executeJob(job, { forced: options?.forced ?? true });
   }
 
+  /** 由事件触发任务 (需为已启用的同类事件任务，上一次仍在运行时跳过) */
+  async trigger(id: string, event: CronTriggerEvent): Promise<
+    Omit<CronJobExecution, "status"> & { status: CronJobExecution["status"] | "not_found" }
+  > {
+    const job = this.store.getJob(id);
+    if (!job || job.schedule.kind !== event.kind) {
+      return { status: "not_found", error: "Job not found" };
+    }
+    if (!job.enabled) {
+      return { status: "skipped", error: "Job is disabled" };
+    }
+    if (typeof job.state.runningAtMs === "number") {
+      return { status: "skipped", error: "Job is already running" };
+    }
+
+    return this.executeJob(job, { forced: false, event });
+  }
+
   /** 重新加载存储 */
   reload(): void {
     this.store.reload();
-    this.recomputeAllNextRuns();
+    this.recomputeAllNextRuns({ detectMisfires: false });
     this.armTimer();
+    this.armTriggers();
   }
 
   // ============== 私有方法 ==============
@@ -198,8 +274,8 @@ export class CronService {
     this.deps.onEvent(event);
   }
 
-  /** 重新计算所有任务的下次运行时间 */
-  private recomputeAllNextRuns(): void {
+  /** 重新计算所有任务的下次运行时间 (已安排重试或补跑的任务保留原时间) */
+  private recomputeAllNextRuns(options: { detectMisfires: boolean }): void {
     const now = this.deps.nowMs();
     let changed = false;
 
@@ -213,6 +289,14 @@ export class CronService {
         changed = true;
       }
 
+      if (options.detectMisfires && this.applyMisfirePolicy(job, now)) {
+        changed = true;
+        continue;
+      }
+      if (job.enabled && (job.state.retryAttempt || job.state.missedRuns) && job.state.nextRunAtMs !== undefined) {
+        continue;
+      }
+
       // 重新计算下次运行时间
       const next = computeJobNextRunAtMs(job, now);
       if (next !== job.state.nextRunAtMs) {
@@ -226,6 +310,34 @@ export class CronService {
     }
   }
 
+  /** 处理错过的调度: 需要补跑时记录补跑次数并安排立即运行，返回是否已安排 */
+  private applyMisfirePolicy(job: CronJob, now: number): boolean {
+    const missedAtMs = job.state.nextRunAtMs;
+    if (!job.enabled || missedAtMs === undefined || missedAtMs > now) return false;
+
+    // 上次停机前未完成的补跑继续进行
+    if (job.state.missedRuns) {
+      job.state.nextRunAtMs = now;
+      return true;
+    }
+
+    job.state.retryAttempt = undefined;
+    const policy = job.misfirePolicy ?? this.deps.misfirePolicy;
+    if (policy === "skip") return false;
+
+    let missed = 1;
+    if (policy === "runAll") {
+      let next = computeNextRunAtMs(job.schedule, missedAtMs);
+      while (next !== undefined && next <= now && missed < MAX_CATCH_UP_RUNS) {
+        missed++;
+        next = computeNextRunAtMs(job.schedule, next);
+      }
+    }
+    job.state.missedRuns = missed;
+    job.state.nextRunAtMs = now;
+    return true;
+  }
+
   /** 设置定时器 */
   private armTimer(): void {
     if (this.timer) {
@@ -258,6 +370,12 @@ export class CronService {
     this.timer.unref?.();
   }
 
+  /** 同步事件触发任务的文件监听与消息匹配 */
+  private armTriggers(): void {
+    if (!this.started || !this.deps.enabled) return;
+    this.triggers.sync(this.store.getJobs());
+  }
+
   /** 定时器触发 */
   private async onTimer(): Promise<void> {
     if (this.running) return;
@@ -288,35 +406,36 @@ export class CronService {
   /** 执行单个任务 */
   private async executeJob(
     job: CronJob,
-    options: { forced: boolean }
-  ): Promise<{
-    status: "ok" | "error" | "skipped";
-    error?: string;
-    summary?: string;
-  }> {
+    options: { forced: boolean; event?: CronTriggerEvent }
+  ): Promise<CronJobExecution> {
     const startMs = this.deps.nowMs();
+    const attempt = options.forced || options.event ? 0 : job.state.retryAttempt ?? 0;
+    const trigger: CronRunTrigger = options.forced
+      ? "manual"
+      : options.event
+        ? "event"
+        : attempt > 0
+        ? "retry"
+        : job.state.missedRuns
+          ? "catchUp"
+          : "schedule";
 
     // 标记为运行中
     job.state.runningAtMs = startMs;
     this.store.updateJob(job.id, job);
     this.store.persist();
 
-    this.emit(job.id, "started", { runAtMs: startMs });
+    this.emit(job.id, "started", { runAtMs: startMs, trigger });
 
-    let status: "ok" | "error" | "skipped" = "ok";
-    let error: string | undefined;
-    let summary: string | undefined;
+    let result: CronJobExecution;
     let deleted = false;
 
     try {
-      const result = await this.deps.executeJob(job);
-      status = result.status;
-      error = result.error;
-      summary = result.summary;
+      result = await this.deps.executeJob(job, options.event);
     } catch (err) {
-      status = "error";
-      error = err instanceof Error ? err.message : String(err);
+      result = { status: "error", error: err instanceof Error ? err.message : String(err) };
     }
+    const { status, error, summary, delivery } = result;
 
     const endMs = this.deps.nowMs();
     const durationMs = endMs - startMs;
@@ -339,9 +458,23 @@ export class CronService {
       }
     }
 
-    // 重新计算下次运行时间
-    if (!options.forced && job.enabled && !deleted) {
-      job.state.nextRunAtMs = computeJobNextRunAtMs(job, endMs);
+    // 重新计算下次运行时间 (失败的 agentTurn 按退避重试，补跑未完成时立即继续；事件触发的运行不重试)
+    if (!options.forced && !options.event && !deleted) {
+      const retryAtMs = this.scheduleRetry(job, status, endMs);
+      if (retryAtMs === undefined && job.state.missedRuns) {
+        job.state.missedRuns = job.state.missedRuns > 1 ? job.state.missedRuns - 1 : undefined;
+      }
+
+      if (!job.enabled) {
+        job.state.nextRunAtMs = undefined;
+      } else if (retryAtMs !== undefined) {
+        const regular = job.state.missedRuns ? undefined : computeJobNextRunAtMs(job, endMs);
+        job.state.nextRunAtMs = regular === undefined ? retryAtMs : Math.min(retryAtMs, regular);
+      } else if (job.state.missedRuns) {
+        job.state.nextRunAtMs = endMs;
+      } else {
+        job.state.nextRunAtMs = computeJobNextRunAtMs(job, endMs);
+      }
     }
 
     // 将更新后的 job 保存到 store（确保 dirty 标志被设置）
@@ -350,17 +483,100 @@ export class CronService {
     }
     this.store.persist();
 
+    this.appendRunLog({
+      jobId: job.id,
+      trigger,
+      attempt,
+      startedAtMs: startMs,
+      endedAtMs: endMs,
+      durationMs,
+      status,
+      error,
+      summary,
+      delivery,
+    });
+
     this.emit(job.id, "finished", {
       runAtMs: startMs,
       durationMs,
       status,
       error,
       summary,
+      trigger,
+      delivery,
       nextRunAtMs: job.state.nextRunAtMs,
     });
 
-    return { status, error, summary };
+    return { status, error, summary, delivery };
   }
+
+  /** 失败的 agentTurn 任务安排重试，返回重试时间 (不重试时清除重试计数) */
+  private scheduleRetry(job: CronJob, status: CronJobExecution["status"], endMs: number): number | undefined {
+    const retry = { ...this.deps.retry, ...job.retry };
+    const attempt = (job.state.retryAttempt ?? 0) + 1;
+    if (status !== "error" || job.payload.kind !== "agentTurn" || attempt > (retry.maxRetries ?? 0)) {
+      job.state.retryAttempt = undefined;
+      return undefined;
+    }
+    job.state.retryAttempt = attempt;
+    return endMs + computeRetryDelayMs(retry, attempt);
+  }
+
+  /** 写入运行记录 (失败不影响任务执行) */
+  private appendRunLog(entry: CronRunLogEntry): void {
+    try {
+      this.runLog.append(entry, entry.endedAtMs);
+    } catch {
+      // 忽略运行记录写入失败
+    }
+  }
+}
+
+/** 验证新建任务的输入 */
+export function validateCronJobInput(input: CronJobCreate, nowMs: number = Date.now()): { valid: boolean; error?: string } {
+  if (!input?.name?.trim()) return { valid: false, error: "Job name is required" };
+  const schedule = validateSchedule(input.schedule, nowMs);
+  if (!schedule.valid) return schedule;
+  if (input.payload?.kind !== "systemEvent" && input.payload?.kind !== "agentTurn") {
+    return { valid: false, error: "Unknown payload kind" };
+  }
+  if (!input.payload.message?.trim()) return { valid: false, error: "Job message is required" };
+  return { valid: true };
+}
+
+/** 任务是否属于该用户 */
+export function isOwnedBy(job: CronJob, owner: Pick<CronJobOwner, "channel" | "accountId" | "senderId">): boolean {
+  return (
+    job.owner?.channel === owner.channel &&
+    job.owner.accountId === owner.accountId &&
+    job.owner.senderId === owner.senderId
+  );
+}
+
+/** 由入站消息构造任务归属 */
+export function getCronJobOwner(context: InboundMessageContext): CronJobOwner {
+  return {
+    channel: context.channelId,
+    accountId: context.accountId,
+    chatId: context.chatId,
+    chatType: context.chatType,
+    senderId: context.senderId,
+    agentId: context.agentId,
+  };
+}
+
+/** 由 cron 配置生成服务依赖 */
+export function getCronServiceDeps(config?: CronConfig): CronServiceDeps {
+  return {
+    enabled: config?.enabled ?? true,
+    storePath: config?.storePath,
+    misfirePolicy: config?.misfirePolicy,
+    retry: config?.retry,
+    runLog: {
+      maxEntries: config?.runLog?.maxEntries,
+      maxAgeMs: config?.runLog?.maxAgeDays !== undefined ? config.runLog.maxAgeDays * TIME_CONSTANTS.DAY : undefined,
+    },
+  };
 }
 
 /** 默认服务实例 */
@@ -0,0 +1,192 @@
+/**
+ * 事件触发 - 文件变化与聊天消息匹配
+ *
+ * Webhook 触发由网关的 /hooks/:jobId 路由调用 CronService.trigger
+ */
+
+import { statSync, watch, type FSWatcher } from "fs";
+import { relative, resolve, isAbsolute, sep } from "path";
+import type { CronJob, CronTriggerEvent, ScheduleFileWatch, ScheduleMessageMatch } from "./types.js";
+import { compileMessagePattern } from "./schedule.js";
+import type { InboundMessageContext } from "../types/index.js";
+import { registerHook } from "../hooks/index.js";
+import { getChildLogger } from "../utils/logger.js";
+
+const logger = getChildLogger("cron-triggers");
+
+/** 默认合并连续文件变化的等待时间 */
+const DEFAULT_DEBOUNCE_MS = 1000;
+
+/** 单次触发最多列出的变化文件数 */
+const MAX_CHANGED_FILES = 50;
+
+/** 参与正则匹配的消息长度上限 */
+const MAX_MATCH_INPUT_LENGTH = 4000;
+
+/** 不触发任务的目录 */
+const IGNORED_SEGMENTS = new Set([".git", "node_modules"]);
+
+/** 文件监听 */
+interface FileWatcher {
+  /** 监听配置 (变化时重建) */
+  key: string;
+  close: () => void;
+}
+
+/** 消息匹配规则 */
+interface MessageMatcher {
+  jobId: string;
+  schedule: ScheduleMessageMatch;
+  regex: RegExp;
+}
+
+/** 事件触发选项 */
+export interface CronTriggersOptions {
+  /** fileWatch 路径的根目录 */
+  workingDirectory: string;
+  /** 事件发生时运行任务 */
+  onTrigger: (jobId: string, event: CronTriggerEvent) => void;
+}
+
+/**
+ * 事件触发管理: 按已启用任务的调度维护文件监听与消息匹配规则
+ */
+export class CronTriggers {
+  private watchers = new Map<string, FileWatcher>();
+  private matchers: MessageMatcher[] = [];
+  private offMessageHook?: () => void;
+
+  constructor(private options: CronTriggersOptions) {}
+
+  /** 开始接收事件 */
+  start(): void {
+    this.offMessageHook ??= registerHook("message_received", (event) => {
+      if (event.type === "message_received") this.handleMessage(event.context);
+    });
+  }
+
+  /** 停止接收事件并关闭所有文件监听 */
+  stop(): void {
+    this.offMessageHook?.();
+    this.offMessageHook = undefined;
+    for (const jobId of [...this.watchers.keys()]) {
+      this.closeWatcher(jobId);
+    }
+    this.matchers = [];
+  }
+
+  /** 按任务列表同步监听 (只处理已启用的事件触发任务) */
+  sync(jobs: CronJob[]): void {
+    const watched = new Set<string>();
+    const matchers: MessageMatcher[] = [];
+
+    for (const job of jobs) {
+      if (!job.enabled) continue;
+      const { schedule } = job;
+      if (schedule.kind === "fileWatch") {
+        watched.add(job.id);
+        this.ensureWatcher(job.id, schedule);
+      } else if (schedule.kind === "messageMatch") {
+        try {
+          matchers.push({ jobId: job.id, schedule, regex: compileMessagePattern(schedule.pattern, schedule.flags) });
+        } catch (error) {
+          logger.warn({ jobId: job.id, error }, "Invalid messageMatch pattern, job ignored");
+        }
+      }
+    }
+
+    for (const jobId of [...this.watchers.keys()]) {
+      if (!watched.has(jobId)) this.closeWatcher(jobId);
+    }
+    this.matchers = matchers;
+  }
+
+  /** 入站消息匹配时触发任务 */
+  handleMessage(context: InboundMessageContext): void {
+    for (const { jobId, schedule, regex } of this.matchers) {
+      if (
+        schedule.channel !== context.channelId ||
+        schedule.chatId !== context.chatId ||
+        (schedule.accountId !== undefined && schedule.accountId !== context.accountId)
+      ) {
+        continue;
+      }
+      regex.lastIndex = 0;
+      if (!regex.test(context.content.slice(0, MAX_MATCH_INPUT_LENGTH))) continue;
+
+      logger.info({ jobId, channel: context.channelId, chatId: context.chatId }, "Message matched cron trigger");
+      this.options.onTrigger(jobId, {
+        kind: "messageMatch",
+        detail: `${context.senderName ?? context.senderId}: ${context.content}`,
+      });
+    }
+  }
+
+  /** 创建或保留文件监听 */
+  private ensureWatcher(jobId: string, schedule: ScheduleFileWatch): void {
+    const key = `${schedule.path}|${schedule.debounceMs ?? DEFAULT_DEBOUNCE_MS}`;
+    if (this.watchers.get(jobId)?.key === key) return;
+    this.closeWatcher(jobId);
+
+    const root = resolve(this.options.workingDirectory);
+    const target = resolve(root, schedule.path);
+    const rel = relative(root, target);
+    if (rel === ".." || rel.startsWith(`..${sep}`) || isAbsolute(rel)) {
+      logger.warn({ jobId, path: schedule.path }, "fileWatch path is outside the working directory, job ignored");
+      return;
+    }
+
+    const changed = new Set<string>();
+    let isDirectory = false;
+    let timer: NodeJS.Timeout | undefined;
+    const onChange = (_eventType: string, filename: string | Buffer | null) => {
+      const name = isDirectory && filename ? relative(root, resolve(target, filename.toString())) : rel || ".";
+      if (name.split(/[\\/]/).some((segment) => IGNORED_SEGMENTS.has(segment))) return;
+      if (changed.size < MAX_CHANGED_FILES) changed.add(name);
+
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(() => {
+        timer = undefined;
+        const files = [...changed];
+        changed.clear();
+        logger.info({ jobId, files: files.length }, "File change triggered cron job");
+        this.options.onTrigger(jobId, { kind: "fileWatch", detail: `Changed files:\n${files.join("\n")}` });
+      }, schedule.debounceMs ?? DEFAULT_DEBOUNCE_MS);
+      timer.unref?.();
+    };
+
+    let watcher: FSWatcher;
+    try {
+      isDirectory = statSync(target).isDirectory();
+      try {
+        watcher = watch(target, { recursive: true, persistent: false }, onChange);
+      } catch (error) {
+        // 部分平台 (Node 18 的 Linux) 不支持递归监听，退化为只监听该目录
+        if ((error as NodeJS.ErrnoException).code !== "ERR_FEATURE_UNAVAILABLE_ON_PLATFORM") throw error;
+        watcher = watch(target, { persistent: false }, onChange);
+      }
+    } catch (error) {
+      logger.warn({ jobId, path: target, error }, "Failed to watch path");
+      return;
+    }
+
+    watcher.on("error", (error) => {
+      logger.warn({ jobId, path: target, error }, "File watcher error");
+      this.closeWatcher(jobId);
+    });
+    this.watchers.set(jobId, {
+      key,
+      close: () => {
+        if (timer) clearTimeout(timer);
+        watcher.close();
+      },
+    });
+    logger.debug({ jobId, path: target }, "Watching path for cron job");
+  }
+
+  /** 关闭文件监听 */
+  private closeWatcher(jobId: string): void {
+    this.watchers.get(jobId)?.close();
+    this.watchers.delete(jobId);
+  }
+}
@@ -2,6 +2,8 @@
  * 定时任务类型定义
  */
 
+import type { CronMisfirePolicy, CronRetryConfig } from "../types/index.js";
+
 /** 调度类型：一次性 */
 export interface ScheduleAt {
   kind: "at";
@@ -27,8 +29,52 @@ export interface ScheduleCron {
   tz?: string;
 }
 
+/** 事件触发：Webhook (POST /hooks/:jobId，需携带密钥) */
+export interface ScheduleWebhook {
+  kind: "webhook";
+  /** 调用密钥 (X-Mozi-Secret 或 Authorization: Bearer) */
+  secret: string;
+}
+
+/** 事件触发：文件变化 */
+export interface ScheduleFileWatch {
+  kind: "fileWatch";
+  /** 监听路径 (相对工作目录，不能超出工作目录) */
+  path: string;
+  /** 合并连续变化的等待时间 (毫秒，默认 1000) */
+  debounceMs?: number;
+}
+
+/** 事件触发：聊天消息匹配 */
+export interface ScheduleMessageMatch {
+  kind: "messageMatch";
+  /** 正则表达式 */
+  pattern: string;
+  /** 正则标志 (如 "i") */
+  flags?: string;
+  /** 通道 ID */
+  channel: string;
+  /** 通道账号 ID */
+  accountId?: string;
+  /** 聊天 ID */
+  chatId: string;
+}
+
+/** 按时间调度 */
+export type CronTimedSchedule = ScheduleAt | ScheduleEvery | ScheduleCron;
+
+/** 由事件触发 */
+export type CronEventSchedule = ScheduleWebhook | ScheduleFileWatch | ScheduleMessageMatch;
+
 /** 调度配置 */
-export type CronSchedule = ScheduleAt | ScheduleEvery | ScheduleCron;
+export type CronSchedule = CronTimedSchedule | CronEventSchedule;
+
+/** 触发事件 (事件触发的任务运行时附加到任务消息后) */
+export interface CronTriggerEvent {
+  kind: CronEventSchedule["kind"];
+  /** 事件内容 (请求体、变化的文件或匹配的消息) */
+  detail: string;
+}
 
 /** 任务 Payload：系统事件 */
 export interface PayloadSystemEvent {
@@ -52,6 +98,8 @@ export interface PayloadAgentTurn {
   channel?: string;
   /** 投递目标 */
   to?: string;
+  /** 投递账号 (多账号通道) */
+  accountId?: string;
 }
 
 /** 任务 Payload */
@@ -73,6 +121,26 @@ export interface CronJobState {
   runningAtMs?: number;
   /** 运行次数 */
   runCount?: number;
+  /** 连续失败后已安排的重试次数 */
+  retryAttempt?: number;
+  /** 待补跑的错过次数 (含当前这次) */
+  missedRuns?: number;
+}
+
+/** 任务归属 (在聊天中创建的任务记录创建者与所在会话) */
+export interface CronJobOwner {
+  /** 通道 ID */
+  channel: string;
+  /** 通道账号 ID */
+  accountId?: string;
+  /** 聊天 ID */
+  chatId: string;
+  /** 聊天类型 */
+  chatType?: "direct" | "group";
+  /** 创建者 ID */
+  senderId: string;
+  /** 处理该会话的命名 Agent */
+  agentId?: string;
 }
 
 /** 定时任务 */
@@ -95,6 +163,12 @@ export interface CronJob {
   updatedAtMs: number;
   /** 运行后是否删除 (仅一次性任务) */
   deleteAfterRun?: boolean;
+  /** 任务归属 */
+  owner?: CronJobOwner;
+  /** 错过调度时间的处理策略 (覆盖全局配置) */
+  misfirePolicy?: CronMisfirePolicy;
+  /** 失败重试 (覆盖全局配置) */
+  retry?: CronRetryConfig;
   /** 运行状态 */
   state: CronJobState;
 }
@@ -107,6 +181,17 @@ export interface CronJobCreate {
   schedule: CronSchedule;
   payload: CronPayload;
   deleteAfterRun?: boolean;
+  owner?: CronJobOwner;
+  misfirePolicy?: CronMisfirePolicy;
+  retry?: CronRetryConfig;
+}
+
+/** 任务列表过滤条件 */
+export interface CronJobFilter {
+  /** 包含已禁用任务 */
+  includeDisabled?: boolean;
+  /** 只返回该用户在该通道 (账号) 下创建的任务 */
+  owner?: Pick<CronJobOwner, "channel" | "accountId" | "senderId">;
 }
 
 /** 更新任务的输入 */
@@ -117,6 +202,44 @@ export interface CronJobUpdate {
   schedule?: CronSchedule;
   payload?: Partial<CronPayload>;
   deleteAfterRun?: boolean;
+  misfirePolicy?: CronMisfirePolicy;
+  retry?: CronRetryConfig;
+}
+
+/** 运行触发方式: 按调度、手动、失败重试、补跑错过的调度、事件 */
+export type CronRunTrigger = "schedule" | "manual" | "retry" | "catchUp" | "event";
+
+/** 结果投递情况 */
+export interface CronDeliveryResult {
+  status: "ok" | "error" | "skipped";
+  channel?: string;
+  accountId?: string;
+  to?: string;
+  error?: string;
+}
+
+/** 任务运行记录 */
+export interface CronRunLogEntry {
+  jobId: string;
+  trigger: CronRunTrigger;
+  /** 重试序号 (首次运行为 0) */
+  attempt: number;
+  startedAtMs: number;
+  endedAtMs: number;
+  durationMs: number;
+  status: "ok" | "error" | "skipped";
+  error?: string;
+  /** 输出摘要 */
+  summary?: string;
+  delivery?: CronDeliveryResult;
+}
+
+/** 运行记录保留上限 */
+export interface CronRunLogOptions {
+  /** 每个任务保留的条数 */
+  maxEntries?: number;
+  /** 保留时长 (毫秒) */
+  maxAgeMs?: number;
 }
 
 /** Cron 事件类型 */
@@ -133,6 +256,16 @@ export interface CronEvent {
   error?: string;
   summary?: string;
   nextRunAtMs?: number;
+  trigger?: CronRunTrigger;
+  delivery?: CronDeliveryResult;
+}
+
+/** 任务执行回调的返回值 */
+export interface CronJobExecution {
+  status: "ok" | "error" | "skipped";
+  error?: string;
+  summary?: string;
+  delivery?: CronDeliveryResult;
 }
 
 /** Cron 服务依赖 */
@@ -143,10 +276,18 @@ export interface CronServiceDeps {
   storePath?: string;
   /** 是否启用调度 */
   enabled?: boolean;
-  /** 执行任务的回调 */
-  executeJob?: (job: CronJob) => Promise<{ status: "ok" | "error" | "skipped"; error?: string; summary?: string }>;
+  /** 执行任务的回调 (事件触发时带上触发事件) */
+  executeJob?: (job: CronJob, event?: CronTriggerEvent) => Promise<CronJobExecution>;
   /** 事件回调 */
   onEvent?: (event: CronEvent) => void;
+  /** 错过调度时间的处理策略 (默认 skip) */
+  misfirePolicy?: CronMisfirePolicy;
+  /** 失败重试 (默认不重试) */
+  retry?: CronRetryConfig;
+  /** 运行记录保留上限 */
+  runLog?: CronRunLogOptions;
+  /** 工作目录 (fileWatch 路径的根目录，默认当前目录) */
+  workingDirectory?: string;
 }
 
 /** 存储文件格式 */
@@ -0,0 +1,65 @@
+/**
+ * 定时任务 Webhook 触发 - POST /hooks/:jobId
+ *
+ * 请求需携带任务密钥 (X-Mozi-Secret 请求头或 Authorization: Bearer)，请求体作为触发事件内容交给任务
+ */
+
+import { Router, type Request } from "express";
+import type { RawBodyRequest } from "../channels/webhook/index.js";
+import { getCronService, type CronService } from "../cron/service.js";
+import { safeEqual } from "../utils/index.js";
+import { getChildLogger } from "../utils/logger.js";
+
+const logger = getChildLogger("cron-hooks");
+
+/** 携带任务密钥的请求头 */
+export const CRON_SECRET_HEADER = "x-mozi-secret";
+
+export interface CronHookRouterOptions {
+  /** 定时任务服务 (默认使用全局实例) */
+  getService?: () => CronService;
+}
+
+/** 读取请求中的密钥 */
+function getProvidedSecret(req: Request): string {
+  const header = req.headers[CRON_SECRET_HEADER];
+  if (typeof header === "string" && header) return header;
+  const authorization = req.headers.authorization;
+  return authorization?.startsWith("Bearer ") ? authorization.slice(7).trim() : "";
+}
+
+/** 创建 Webhook 触发路由 */
+export function createCronHookRouter(options: CronHookRouterOptions = {}): Router {
+  const router = Router();
+  const getService = options.getService ?? (() => getCronService());
+
+  router.post("/hooks/:jobId", (req, res) => {
+    const service = getService();
+    const job = service.get(req.params.jobId ?? "");
+    const secret = getProvidedSecret(req);
+
+    // 任务不存在与密钥错误返回相同结果，避免探测任务 ID
+    if (!job || job.schedule.kind !== "webhook" || !secret || !safeEqual(secret, job.schedule.secret)) {
+      res.status(401).json({ error: "Unauthorized" });
+      return;
+    }
+    if (!job.enabled) {
+      res.status(409).json({ error: "Job is disabled" });
+      return;
+    }
+    if (typeof job.state.runningAtMs === "number") {
+      res.status(409).json({ error: "Job is already running" });
+      return;
+    }
+
+    const rawBody = (req as RawBodyRequest).rawBody;
+    const detail = rawBody?.length ? rawBody.toString("utf-8") : JSON.stringify(req.body ?? {});
+    logger.info({ jobId: job.id }, "Webhook triggered cron job");
+
+    // 任务在后台运行，立即返回
+    void service.trigger(job.id, { kind: "webhook", detail });
+    res.status(202).json({ ok: true, jobId: job.id });
+  });
+
+  return router;
+}
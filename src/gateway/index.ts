@@ -3,3 +3,7 @@
  */
 
 export * from "./server.js";
+export * from "./streaming.js";
+export * from "./queue.js";
+export * from "./openai.js";
+export * from "./cron-hooks.js";
@@ -0,0 +1,316 @@
+/**
+ * OpenAI 兼容 API - /v1/chat/completions 与 /v1/models
+ *
+ * 请求交给 Mozi Agent 处理 (含工具、记忆与会话)。会话由 X-Mozi-Session 请求头或 user 字段指定，
+ * 此时只发送最后一条用户消息；未指定时为一次性会话，使用请求中的历史消息并在结束后清除。
+ * 会话按 API Key 隔离，发送者为 API Key 的标识 (每日预算按 Key 计算)
+ */
+
+import { Router, type Request, type Response } from "express";
+import { createHash, randomUUID } from "crypto";
+import type { Agent, AgentResponse } from "../agents/agent.js";
+import type { ModelSelection } from "../agents/runtime.js";
+import type { InboundMessageContext, MediaAttachment, OpenAIApiConfig } from "../types/index.js";
+import { UsageBudgetError } from "../types/index.js";
+import type { TranscriptMessage } from "../sessions/types.js";
+import { getAllModels } from "../providers/index.js";
+import { getMediaCache } from "../media/cache.js";
+import { safeEqual } from "../utils/index.js";
+import { getChildLogger } from "../utils/logger.js";
+
+const logger = getChildLogger("openai-api");
+
+/** 使用会话默认模型的模型 ID */
+export const MOZI_MODEL_ID = "mozi";
+
+/** 指定会话的请求头 */
+export const SESSION_HEADER = "x-mozi-session";
+
+/** 消息内容片段 */
+type ContentPart = { type: "text"; text: string } | { type: "image_url"; image_url: { url: string } | string };
+
+/** 请求中的消息 */
+interface ChatCompletionMessage {
+  role: string;
+  content?: string | ContentPart[] | null;
+}
+
+/** /v1/chat/completions 请求体 */
+interface ChatCompletionRequest {
+  model?: string;
+  messages?: ChatCompletionMessage[];
+  stream?: boolean;
+  stream_options?: { include_usage?: boolean };
+  user?: string;
+}
+
+export interface OpenAIRouterOptions {
+  /** Agent 在 Gateway 启动时异步创建 */
+  getAgent: () => Agent;
+  config?: OpenAIApiConfig;
+  /** 在会话队列与全局并发上限内执行一轮对话 (默认直接执行) */
+  runTurn?: <T>(sessionKey: string, task: () => Promise<T>) => Promise<T>;
+}
+
+/** 在当前请求中执行对话的函数 */
+type TurnRunner = NonNullable<OpenAIRouterOptions["runTurn"]>;
+
+/** API Key 的标识 (作为发送者 ID，用于预算与会话隔离，不暴露 Key 本身) */
+export function getApiKeyId(key: string): string {
+  return `key-${createHash("sha256").update(key).digest("hex").slice(0, 12)}`;
+}
+
+/** OpenAI 格式的错误响应 */
+function sendError(res: Response, status: number, message: string, type: string, code?: string): void {
+  res.status(status).json({ error: { message, type, code: code ?? null } });
+}
+
+/** 提取文本内容 */
+function extractText(content: ChatCompletionMessage["content"]): string {
+  if (typeof content === "string") return content;
+  return (content ?? [])
+    .map((part) => (part.type === "text" ? part.text : ""))
+    .filter(Boolean)
+    .join("\n");
+}
+
+/** 提取 data URL 图片并保存到媒体缓存 (不下载远程图片) */
+function extractImages(content: ChatCompletionMessage["content"]): MediaAttachment[] {
+  if (!Array.isArray(content)) return [];
+  const attachments: MediaAttachment[] = [];
+  for (const part of content) {
+    if (part.type !== "image_url") continue;
+    const url = typeof part.image_url === "string" ? part.image_url : part.image_url.url;
+    const match = /^data:([^;,]+);base64,(.+)$/.exec(url);
+    if (!match) continue;
+    const saved = getMediaCache().save(Buffer.from(match[2]!, "base64"), {
+      channelId: "api",
+      type: "image",
+      mimeType: match[1],
+    });
+    attachments.push({ type: "image", key: saved.path, path: saved.path, mimeType: saved.mimeType, size: saved.size });
+  }
+  return attachments;
+}
+
+/** 历史消息转换为转录记录 (system 消息被忽略，使用 Mozi 自身的系统提示) */
+function toTranscript(messages: ChatCompletionMessage[]): TranscriptMessage[] {
+  const now = Date.now();
+  return messages
+    .filter((message) => message.role === "user" || message.role === "assistant")
+    .map((message) => ({
+      role: message.role as "user" | "assistant",
+      content: extractText(message.content),
+      timestamp: now,
+    }))
+    .filter((message) => message.content);
+}
+
+/** 解析请求的模型 ("mozi" 或未指定时返回 undefined，未知模型返回 null) */
+export function resolveModel(model: string | undefined): ModelSelection | null | undefined {
+  if (!model || model === MOZI_MODEL_ID) return undefined;
+  const slash = model.indexOf("/");
+  const models = getAllModels();
+  const match =
+    slash > 0
+      ? models.find((item) => item.provider === model.slice(0, slash) && item.model.id === model.slice(slash + 1))
+      : models.find((item) => item.model.id === model);
+  return match ? { provider: match.provider, model: match.model.id } : null;
+}
+
+/** 转换用量字段 */
+function toUsage(usage: AgentResponse["usage"]) {
+  return {
+    prompt_tokens: usage?.promptTokens ?? 0,
+    completion_tokens: usage?.completionTokens ?? 0,
+    total_tokens: usage?.totalTokens ?? 0,
+  };
+}
+
+/** 错误对应的 HTTP 状态与类型 */
+function describeError(error: unknown): { status: number; message: string; type: string } {
+  if (error instanceof UsageBudgetError) {
+    return { status: 429, message: error.message, type: "insufficient_quota" };
+  }
+  return { status: 500, message: error instanceof Error ? error.message : String(error), type: "server_error" };
+}
+
+/** 创建 OpenAI 兼容路由 (挂载到 /v1) */
+export function createOpenAIRouter(options: OpenAIRouterOptions): Router {
+  const router = Router();
+  const apiKeys = options.config?.apiKeys ?? [];
+  const runTurn: TurnRunner = options.runTurn ?? ((_sessionKey, task) => task());
+
+  // API Key 校验
+  router.use((req, res, next) => {
+    const authorization = req.headers.authorization;
+    const key = authorization?.startsWith("Bearer ") ? authorization.slice(7).trim() : "";
+    if (!key || !apiKeys.some((allowed) => safeEqual(key, allowed))) {
+      sendError(res, 401, "Invalid API key", "invalid_request_error", "invalid_api_key");
+      return;
+    }
+    res.locals.apiKeyId = getApiKeyId(key);
+    next();
+  });
+
+  router.get("/models", (_req, res) => {
+    const created = Math.floor(Date.now() / 1000);
+    res.json({
+      object: "list",
+      data: [
+        { id: MOZI_MODEL_ID, object: "model", created, owned_by: "mozi" },
+        ...getAllModels().map((item) => ({
+          id: `${item.provider}/${item.model.id}`,
+          object: "model",
+          created,
+          owned_by: item.provider,
+        })),
+      ],
+    });
+  });
+
+  router.post("/chat/completions", (req, res) => {
+    handleChatCompletion(options.getAgent(), runTurn, req, res).catch((error) => {
+      logger.error({ error }, "Chat completion failed");
+      if (!res.headersSent) {
+        const { status, message, type } = describeError(error);
+        sendError(res, status, message, type);
+      } else {
+        res.end();
+      }
+    });
+  });
+
+  return router;
+}
+
+/** 处理 /v1/chat/completions */
+async function handleChatCompletion(agent: Agent, runTurn: TurnRunner, req: Request, res: Response): Promise<void> {
+  const body = (req.body ?? {}) as ChatCompletionRequest;
+  const messages = Array.isArray(body.messages) ? body.messages : [];
+  const last = messages[messages.length - 1];
+  if (!last || last.role !== "user") {
+    sendError(res, 400, "The last message must be a user message", "invalid_request_error");
+    return;
+  }
+  const selection = resolveModel(body.model);
+  if (selection === null) {
+    sendError(res, 404, `The model '${body.model}' does not exist`, "invalid_request_error", "model_not_found");
+    return;
+  }
+
+  const apiKeyId = res.locals.apiKeyId as string;
+  const requestedSession = req.header(SESSION_HEADER) || body.user;
+  const sessionId = requestedSession || `ephemeral-${randomUUID()}`;
+  // 调用方与 Agent 一对一对话，发送者为 API Key
+  // 会话按请求的会话 ID 区分 (加上 Key 标识，不同 Key 不能进入彼此的会话)
+  const chatId = `${apiKeyId}:${sessionId}`;
+  const context: InboundMessageContext = {
+    channelId: "api",
+    messageId: randomUUID(),
+    chatId,
+    chatType: "direct",
+    sessionKey: `api:${chatId}`,
+    senderId: apiKeyId,
+    senderName: body.user,
+    content: extractText(last.content),
+    attachments: extractImages(last.content),
+    timestamp: Date.now(),
+  };
+  if (!context.attachments?.length) delete context.attachments;
+  if (!context.content.trim() && !context.attachments) {
+    sendError(res, 400, "The last message is empty", "invalid_request_error");
+    return;
+  }
+
+  // 与 IM 消息一样按会话串行、受全局并发上限约束
+  const sessionKey = agent.getSessionKey(context);
+  await runTurn(sessionKey, async () => {
+    if (!requestedSession) {
+      // 一次性会话只保存在内存中，结束后不留会话文件与会话存储记录
+      agent.useEphemeralSession(sessionKey);
+      await agent.restoreSessionFromTranscript(sessionKey, toTranscript(messages.slice(0, -1)));
+    }
+
+    try {
+      if (selection) {
+        await agent.setSessionModel(sessionKey, selection);
+      }
+      if (body.stream) {
+        await streamCompletion(agent, context, body, res);
+      } else {
+        const response = await agent.processMessage(context);
+        res.json({
+          id: `chatcmpl-${randomUUID()}`,
+          object: "chat.completion",
+          created: Math.floor(Date.now() / 1000),
+          model: `${response.provider}/${response.model}`,
+          choices: [{ index: 0, message: { role: "assistant", content: response.content }, finish_reason: "stop" }],
+          usage: toUsage(response.usage),
+          mozi: { session_key: requestedSession ? sessionKey : undefined, media: response.media },
+        });
+      }
+    } finally {
+      if (!requestedSession) {
+        await agent.clearSession(context);
+      }
+    }
+  });
+}
+
+/** SSE 流式输出 (工具进度通过 mozi 扩展字段输出) */
+async function streamCompletion(
+  agent: Agent,
+  context: InboundMessageContext,
+  body: ChatCompletionRequest,
+  res: Response
+): Promise<void> {
+  const id = `chatcmpl-${randomUUID()}`;
+  const created = Math.floor(Date.now() / 1000);
+  const model = body.model ?? MOZI_MODEL_ID;
+  const write = (data: unknown) => res.write(`data: ${JSON.stringify(data)}\n\n`);
+  const chunk = (delta: Record<string, unknown>, finishReason: string | null = null, extra?: Record<string, unknown>) =>
+    write({ id, object: "chat.completion.chunk", created, model, choices: [{ index: 0, delta, finish_reason: finishReason }], ...extra });
+
+  // 客户端断开时取消生成
+  const controller = new AbortController();
+  res.on("close", () => {
+    if (!res.writableEnded) controller.abort();
+  });
+
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream; charset=utf-8",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+  });
+  chunk({ role: "assistant", content: "" });
+
+  try {
+    const stream = agent.processMessageEvents(context, { signal: controller.signal });
+    let next = await stream.next();
+    while (!next.done) {
+      const event = next.value;
+      if (event.type === "text_delta") {
+        chunk({ content: event.delta });
+      } else if (event.type === "tool_start") {
+        chunk({}, null, { mozi: { type: "tool_start", name: event.name, args_preview: event.argsPreview } });
+      } else {
+        chunk({}, null, { mozi: { type: "tool_end", is_error: event.isError } });
+      }
+      next = await stream.next();
+    }
+
+    const response = next.value;
+    chunk({}, "stop", response.media ? { mozi: { type: "media", media: response.media } } : undefined);
+    if (body.stream_options?.include_usage) {
+      write({ id, object: "chat.completion.chunk", created, model, choices: [], usage: toUsage(response.usage) });
+    }
+  } catch (error) {
+    if (controller.signal.aborted) return;
+    logger.error({ error }, "Chat completion stream failed");
+    const { message, type } = describeError(error);
+    write({ error: { message, type, code: null } });
+  }
+  res.write("data: [DONE]\n\n");
+  res.end();
+}
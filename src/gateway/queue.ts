@@ -0,0 +1,215 @@
+/**
+ * 消息排队与限流 - 会话串行队列、令牌桶限流、全局并发上限
+ */
+
+import type { InboundMessageContext, RateLimitRule } from "../types/index.js";
+import { getChildLogger } from "../utils/logger.js";
+
+const logger = getChildLogger("queue");
+
+/** 限流桶最大数量 (超过时清理已补满的桶) */
+const MAX_BUCKETS = 10000;
+
+/** 限流结果 (first 表示本轮限流中首次被拒，用于只提示一次) */
+export type RateLimitResult = { allowed: true } | { allowed: false; retryAfterMs: number; first: boolean };
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+  /** 本轮限流是否已提示 */
+  notified: boolean;
+}
+
+/** 令牌桶限流器 (按 key 独立计数) */
+export class RateLimiter {
+  private rule: RateLimitRule;
+  private buckets = new Map<string, Bucket>();
+
+  constructor(rule: RateLimitRule) {
+    this.rule = rule;
+  }
+
+  /** 消耗一个令牌 */
+  take(key: string, now = Date.now()): RateLimitResult {
+    const bucket = this.refill(key, now);
+    if (bucket.tokens >= 1) {
+      bucket.tokens -= 1;
+      bucket.notified = false;
+      return { allowed: true };
+    }
+
+    const first = !bucket.notified;
+    bucket.notified = true;
+    const retryAfterMs = Math.ceil(((1 - bucket.tokens) * 60_000) / this.rule.perMinute);
+    return { allowed: false, retryAfterMs, first };
+  }
+
+  /** 按经过的时间补充令牌 */
+  private refill(key: string, now: number): Bucket {
+    let bucket = this.buckets.get(key);
+    if (!bucket) {
+      if (this.buckets.size >= MAX_BUCKETS) this.prune(now);
+      bucket = { tokens: this.rule.burst, updatedAt: now, notified: false };
+      this.buckets.set(key, bucket);
+      return bucket;
+    }
+    const elapsed = Math.max(0, now - bucket.updatedAt);
+    bucket.tokens = Math.min(this.rule.burst, bucket.tokens + (elapsed * this.rule.perMinute) / 60_000);
+    bucket.updatedAt = now;
+    return bucket;
+  }
+
+  /** 移除已补满的桶 (与新建桶等价) */
+  private prune(now: number): void {
+    for (const [key, bucket] of this.buckets) {
+      const tokens = bucket.tokens + ((now - bucket.updatedAt) * this.rule.perMinute) / 60_000;
+      if (tokens >= this.rule.burst) this.buckets.delete(key);
+    }
+  }
+}
+
+/** 全局并发上限 (先到先得) */
+export class ConcurrencyLimiter {
+  private max: number;
+  private active = 0;
+  private waiters: Array<() => void> = [];
+
+  constructor(max = Infinity) {
+    this.max = max;
+  }
+
+  /** 获取执行名额，需要排队时通过 onQueued 告知排队位置 */
+  async acquire(onQueued?: (position: number) => void): Promise<void> {
+    if (this.active < this.max) {
+      this.active++;
+      return;
+    }
+    const wait = new Promise<void>((resolve) => this.waiters.push(resolve));
+    onQueued?.(this.waiters.length);
+    await wait;
+  }
+
+  /** 释放名额 (直接转交给下一个等待者) */
+  release(): void {
+    const next = this.waiters.shift();
+    if (next) {
+      next();
+    } else {
+      this.active = Math.max(0, this.active - 1);
+    }
+  }
+
+  /** 当前执行与排队数量 */
+  getStats(): { active: number; queued: number } {
+    return { active: this.active, queued: this.waiters.length };
+  }
+}
+
+/** 合并同一发送者的连续消息 */
+export function mergeMessages(first: InboundMessageContext, next: InboundMessageContext): InboundMessageContext {
+  const attachments = [...(first.attachments ?? []), ...(next.attachments ?? [])];
+  return {
+    ...next,
+    content: [first.content, next.content].filter((text) => text.trim()).join("\n"),
+    attachments: attachments.length > 0 ? attachments : undefined,
+  };
+}
+
+/** 队列项: 交给 handler 的消息或自定义任务 */
+interface QueuedMessage {
+  context?: InboundMessageContext;
+  /** 自定义任务 (代替 handler 执行，不参与合并) */
+  task?: () => Promise<unknown>;
+  updatedAt: number;
+  waiters: Array<{ resolve: (value?: unknown) => void; reject: (error: unknown) => void }>;
+}
+
+interface Lane {
+  items: QueuedMessage[];
+  running: boolean;
+}
+
+/** 会话串行队列 (同一会话的消息按顺序处理，可合并短时间内的连续消息) */
+export class SessionQueue {
+  private handler: (context: InboundMessageContext) => Promise<void>;
+  private coalesceMs: number;
+  private lanes = new Map<string, Lane>();
+
+  constructor(handler: (context: InboundMessageContext) => Promise<void>, options: { coalesceMs?: number } = {}) {
+    this.handler = handler;
+    this.coalesceMs = options.coalesceMs ?? 0;
+  }
+
+  /** 加入队列，消息 (或合并后的消息) 处理完成时返回 */
+  enqueue(key: string, context: InboundMessageContext): Promise<void> {
+    return new Promise<void>((done, reject) => {
+      const resolve = () => done();
+      const lane = this.getLane(key);
+
+      // 尚未开始处理的同一发送者消息合并为一轮
+      const last = lane.items[lane.items.length - 1];
+      if (this.coalesceMs > 0 && last?.context && last.context.senderId === context.senderId) {
+        last.context = mergeMessages(last.context, context);
+        last.updatedAt = Date.now();
+        last.waiters.push({ resolve, reject });
+        logger.debug({ sessionKey: key, messageId: context.messageId }, "Message coalesced");
+      } else {
+        lane.items.push({ context, updatedAt: Date.now(), waiters: [{ resolve, reject }] });
+      }
+
+      if (!lane.running) {
+        void this.drain(key, lane);
+      }
+    });
+  }
+
+  /** 在会话队列中执行任务 (与该会话的消息串行，不参与合并)，返回任务结果 */
+  run<T>(key: string, task: () => Promise<T>): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      const lane = this.getLane(key);
+      lane.items.push({
+        task,
+        updatedAt: Date.now(),
+        waiters: [{ resolve: (value) => resolve(value as T), reject }],
+      });
+      if (!lane.running) {
+        void this.drain(key, lane);
+      }
+    });
+  }
+
+  private getLane(key: string): Lane {
+    let lane = this.lanes.get(key);
+    if (!lane) {
+      lane = { items: [], running: false };
+      this.lanes.set(key, lane);
+    }
+    return lane;
+  }
+
+  /** 依次处理会话中的消息 */
+  private async drain(key: string, lane: Lane): Promise<void> {
+    lane.running = true;
+    while (lane.items.length > 0) {
+      const item = lane.items[0]!;
+      // 等待连续消息结束 (每次合并都会顺延)
+      if (this.coalesceMs > 0 && !item.task) {
+        let delay: number;
+        while ((delay = item.updatedAt + this.coalesceMs - Date.now()) > 0) {
+          await new Promise((resolve) => setTimeout(resolve, delay));
+        }
+      }
+      lane.items.shift();
+
+      try {
+        const result = item.task ? await item.task() : await this.handler(item.context!);
+        for (const waiter of item.waiters) waiter.resolve(result);
+      } catch (error) {
+        logger.error({ error, sessionKey: key }, "Queued message failed");
+        for (const waiter of item.waiters) waiter.reject(error);
+      }
+    }
+    lane.running = false;
+    this.lanes.delete(key);
+  }
+}
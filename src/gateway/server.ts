@@ -2,20 +2,51 @@
  * Gateway 服务器 - HTTP Webhook 处理 + WebChat
  */
 
-import express, { type Express, type Request, type Response, type NextFunction } from "express";
+import express, { Router, type Express, type Request, type Response, type NextFunction } from "express";
 import { createServer, type Server as HttpServer } from "http";
 import NodeCache from "node-cache";
-import type { MoziConfig, InboundMessageContext } from "../types/index.js";
-import { createFeishuChannel, type FeishuChannel } from "../channels/feishu/index.js";
-import { createDingtalkChannel, type DingtalkChannel } from "../channels/dingtalk/index.js";
-import { createQQChannel, type QQChannel } from "../channels/qq/index.js";
-import { createWeComChannel, type WeComChannel } from "../channels/wecom/index.js";
-import { registerChannel, getChannel } from "../channels/common/index.js";
-import { createAgent, type Agent } from "../agents/agent.js";
+import type { MoziConfig, InboundMessageContext, SendResult, OutboundBlock } from "../types/index.js";
+import { UsageBudgetError } from "../types/index.js";
+import { FeishuChannel } from "../channels/feishu/index.js";
+import type { RawBodyRequest } from "../channels/webhook/index.js";
+import {
+  registerChannel,
+  getChannel,
+  getAllChannels,
+  getChannelFactory,
+  type ConfigurableChannel,
+  type ReplyStream,
+} from "../channels/common/index.js";
+import { registerBuiltinChannels } from "../channels/builtin.js";
+import { resolveChannelAccounts } from "../config/index.js";
+import { getPluginService } from "../plugins/service.js";
+import type { Agent } from "../agents/agent.js";
+import { createAgentRouter, type AgentRouter } from "../agents/router.js";
 import { initializeProviders } from "../providers/index.js";
+import { isCommand, executeCommand, registerBuiltinCommands } from "../commands/index.js";
+import {
+  registerApprovalPrompter,
+  unregisterApprovalPrompter,
+  onApprovalResolved,
+  formatApprovalPrompt,
+} from "../tools/approval.js";
+import {
+  emitMessageReceived,
+  emitMessageSending,
+  emitMessageSent,
+  emitError,
+  getHookCount,
+} from "../hooks/index.js";
 import { getChildLogger, setLogger, createLogger } from "../utils/logger.js";
 import { WsServer } from "../web/websocket.js";
+import { StreamingReply } from "./streaming.js";
+import { SessionQueue, RateLimiter, ConcurrencyLimiter } from "./queue.js";
+import { createOpenAIRouter } from "./openai.js";
+import { createCronHookRouter } from "./cron-hooks.js";
+import { initMediaCache } from "../media/cache.js";
+import { getAccessController, initAccessController } from "../access/index.js";
 import { handleStaticRequest } from "../web/static.js";
+import { WebAuth } from "../web/auth.js";
 
 const logger = getChildLogger("gateway");
 
@@ -24,11 +55,27 @@ export class Gateway {
   private httpServer: HttpServer;
   private config: MoziConfig;
   private agent!: Agent;
-  private feishuChannel?: FeishuChannel;
-  private dingtalkChannel?: DingtalkChannel;
-  private qqChannel?: QQChannel;
-  private wecomChannel?: WeComChannel;
+  /** 按路由规则选择处理消息的 Agent */
+  private agents!: AgentRouter;
+  /** 已启用的通道 */
+  private channels: ConfigurableChannel[] = [];
+  /** 各通道实例的配置与 HTTP 路由路径 */
+  private channelRoutes = new Map<ConfigurableChannel, { config: unknown; routePath: string }>();
+  /** 通道回调路由 (通道在初始化时创建，插件通道需要先加载插件) */
+  private channelRouter = Router();
   private wsServer?: WsServer;
+  /** WebChat 登录管理 */
+  private webAuth: WebAuth;
+  /** 取消审批结果监听 */
+  private offApprovalResolved?: () => void;
+  /** 会话串行队列 */
+  private messageQueue: SessionQueue;
+  /** 全局并发上限 */
+  private concurrency: ConcurrencyLimiter;
+  /** 按发送者限流 */
+  private senderLimiter?: RateLimiter;
+  /** 按聊天限流 */
+  private chatLimiter?: RateLimiter;
   /** 已处理的消息 ID 缓存（用于去重，带 TTL 与最大条数） */
   private processedMessages: NodeCache;
   /** 消息缓存过期时间 (秒，5 分钟) */
@@ -46,18 +93,37 @@ export class Gateway {
       useClones: false,
     });
 
+    registerBuiltinCommands();
+    initMediaCache(this.config.media);
+    initAccessController(this.config.access);
+    this.webAuth = new WebAuth(this.config.server.auth);
+    const queue = this.config.queue ?? {};
+    this.messageQueue = new SessionQueue((context) => this.processQueued(context), { coalesceMs: queue.coalesceMs });
+    this.concurrency = new ConcurrencyLimiter(queue.maxConcurrent);
+    this.senderLimiter = queue.perSender ? new RateLimiter(queue.perSender) : undefined;
+    this.chatLimiter = queue.perChat ? new RateLimiter(queue.perChat) : undefined;
     this.setupMiddleware();
     this.setupRoutes();
   }
 
-  /** 初始化 Agent（异步） */
+  /** 初始化 Agent（异步，含 agents 中的命名 Agent） */
   async initAgent(): Promise<void> {
-    this.agent = await createAgent(this.config);
+    this.agents = await createAgentRouter(this.config);
+    this.agent = this.agents.getDefault();
   }
 
   /** 设置中间件 */
   private setupMiddleware(): void {
-    this.app.use(express.json());
+    // OpenAI 兼容 API 的请求可能包含 base64 图片，仅 /v1 放宽请求体大小
+    this.app.use("/v1", express.json({ limit: "20mb" }));
+    // 保留原始请求体供 Webhook 验签
+    this.app.use(
+      express.json({
+        verify: (req, _res, buf) => {
+          (req as RawBodyRequest).rawBody = buf;
+        },
+      })
+    );
     this.app.use(express.urlencoded({ extended: true }));
 
     // 请求日志
@@ -74,44 +140,28 @@ export class Gateway {
       res.json({ status: "ok", timestamp: new Date().toISOString() });
     });
 
-    // 飞书 (WebSocket 长连接)
-    if (this.config.channels.feishu) {
-      this.feishuChannel = createFeishuChannel(this.config.channels.feishu);
-      this.feishuChannel.setMessageHandler(this.handleMessage.bind(this));
-      this.app.use("/feishu", this.feishuChannel.createRouter());
-      registerChannel(this.feishuChannel);
-      logger.info("Feishu channel enabled (WebSocket mode)");
-    }
-
-    // 钉钉 (Stream 长连接)
-    if (this.config.channels.dingtalk) {
-      this.dingtalkChannel = createDingtalkChannel(this.config.channels.dingtalk);
-      this.dingtalkChannel.setMessageHandler(this.handleMessage.bind(this));
-      this.app.use("/dingtalk", this.dingtalkChannel.createRouter());
-      registerChannel(this.dingtalkChannel);
-      logger.info("DingTalk channel enabled (Stream mode)");
-    }
-
-    // QQ 机器人
-    if (this.config.channels.qq) {
-      this.qqChannel = createQQChannel(this.config.channels.qq);
-      this.qqChannel.setMessageHandler(this.handleMessage.bind(this));
-      registerChannel(this.qqChannel);
-      logger.info("QQ bot enabled (WebSocket mode)");
-    }
-
-    // 企业微信
-    if (this.config.channels.wecom) {
-      this.wecomChannel = createWeComChannel(this.config.channels.wecom);
-      this.wecomChannel.setMessageHandler(this.handleMessage.bind(this));
-      this.app.use("/wecom", this.wecomChannel.createRouter());
-      registerChannel(this.wecomChannel);
-      logger.info("WeCom webhook enabled at /wecom/webhook");
+    // 通道回调 (通道在初始化时按配置挂载)
+    this.app.use(this.channelRouter);
+
+    // 定时任务 Webhook 触发
+    this.app.use(createCronHookRouter());
+
+    // OpenAI 兼容 API (配置 API Key 后启用)
+    if (this.config.server.openai?.apiKeys?.length) {
+      this.app.use(
+        "/v1",
+        createOpenAIRouter({
+          getAgent: () => this.agent,
+          config: this.config.server.openai,
+          runTurn: (sessionKey, task) => this.messageQueue.run(sessionKey, () => this.withConcurrency(task)),
+        })
+      );
+      logger.info("OpenAI-compatible API enabled at /v1");
     }
 
     // WebChat 静态文件服务 (放在其他路由之后，作为默认处理)
     this.app.use((req, res, next) => {
-      const handled = handleStaticRequest(req, res, { config: this.config });
+      const handled = handleStaticRequest(req, res, { config: this.config, auth: this.webAuth });
       if (!handled) {
         next();
       }
@@ -147,17 +197,70 @@ export class Gateway {
       "Received message"
     );
 
-    // 忽略空消息
-    if (!context.content.trim()) {
+    // 忽略空消息 (纯附件消息除外)
+    if (!context.content.trim() && !context.attachments?.length) {
+      return;
+    }
+
+    // 访问控制 (名单、@提及、管理员限制)
+    if (!(await this.checkAccess(context))) {
       return;
     }
 
+    // 限流 (管理员不受限制)
+    if (!(await this.checkRateLimit(context))) {
+      return;
+    }
+
+    // 按路由规则选择 Agent (命中斜杠命令规则时去掉命令)
+    const agent = this.agents.route(context);
+    const sessionKey = agent.getSessionKey(context);
+    emitMessageReceived(context, sessionKey);
+
+    // 斜杠命令不排队 (如 /approve 需要在会话等待审批时立即处理)
+    if (isCommand(context.content)) {
+      try {
+        const commandReply = await executeCommand(context, { agent });
+        if (commandReply !== null) {
+          await this.sendReply(context, commandReply);
+          logger.info({ channel: context.channelId, chatId: context.chatId }, "Command handled");
+          return;
+        }
+      } catch (error) {
+        logger.error({ error, context }, "Failed to process message");
+        emitError(error instanceof Error ? error : new Error(String(error)), "gateway.handleMessage", sessionKey);
+        await this.sendReply(context, this.getErrorReply(error));
+        return;
+      }
+    }
+
+    // 通过访问控制与限流后才下载附件
+    await getChannel(context.channelId, context.accountId)?.resolveAttachments?.(context);
+
+    // 同一会话的消息串行处理
+    await this.messageQueue.enqueue(sessionKey, context);
+  }
+
+  /** 处理排队后的消息 (受全局并发上限约束) */
+  private async processQueued(context: InboundMessageContext): Promise<void> {
+    await this.concurrency.acquire((position) => {
+      void this.sendReply(context, `⏳ 当前繁忙，已排队 (#${position})`);
+    });
+
     try {
+      // 通道支持时流式回复
+      const stream = await this.openReplyStream(context);
+      if (stream) {
+        await this.streamReply(context, stream);
+        return;
+      }
+
       // 处理消息
-      const response = await this.agent.processMessage(context);
+      const response = await this.agents.get(context.agentId).processMessage(context);
 
       // 发送回复
       await this.sendReply(context, response.content);
+      await this.sendMedia(context, response.media);
 
       logger.info(
         {
@@ -169,23 +272,242 @@ export class Gateway {
       );
     } catch (error) {
       logger.error({ error, context }, "Failed to process message");
+      const sessionKey = this.agents.get(context.agentId).getSessionKey(context);
+      emitError(error instanceof Error ? error : new Error(String(error)), "gateway.handleMessage", sessionKey);
 
-      // 发送错误提示
-      await this.sendReply(context, "抱歉，处理您的消息时出现了错误。请稍后重试。");
+      await this.sendReply(context, this.getErrorReply(error));
+    } finally {
+      this.concurrency.release();
+    }
+  }
+
+  /** 在全局并发上限内执行任务 */
+  private async withConcurrency<T>(task: () => Promise<T>): Promise<T> {
+    await this.concurrency.acquire();
+    try {
+      return await task();
+    } finally {
+      this.concurrency.release();
+    }
+  }
+
+  /** 按发送者与聊天限流，超限时每轮只提示一次 */
+  private async checkRateLimit(context: InboundMessageContext): Promise<boolean> {
+    if (!this.senderLimiter && !this.chatLimiter) return true;
+    if (getAccessController().isAdmin(context.channelId, context.senderId)) return true;
+
+    const results = [
+      this.senderLimiter?.take(`${context.channelId}:${context.senderId}`),
+      this.chatLimiter?.take(`${context.channelId}:${context.chatId}`),
+    ];
+    const limited = results.find((result) => result && !result.allowed);
+    if (!limited || limited.allowed) return true;
+
+    logger.info(
+      { channel: context.channelId, chatId: context.chatId, senderId: context.senderId },
+      "Message rejected by rate limit"
+    );
+    if (limited.first) {
+      const seconds = Math.ceil(limited.retryAfterMs / 1000);
+      const template = this.config.queue?.rateLimitMessage ?? "⚠️ 消息过于频繁，请 {seconds} 秒后再试";
+      await this.sendReply(context, template.replace("{seconds}", String(seconds)));
+    }
+    return false;
+  }
+
+  /** 检查访问策略，拒绝时按配置回复提示 */
+  private async checkAccess(context: InboundMessageContext): Promise<boolean> {
+    const access = getAccessController();
+    const channel = getChannel(context.channelId, context.accountId);
+    const resolveDepartments = channel?.getSenderDepartments
+      ? (ctx: InboundMessageContext) => channel.getSenderDepartments!(ctx.senderId)
+      : undefined;
+
+    const decision = await access.check(context, resolveDepartments, { skipMention: isCommand(context.content) });
+    if (decision.allowed) return true;
+
+    logger.info(
+      { channel: context.channelId, chatId: context.chatId, senderId: context.senderId, reason: decision.reason },
+      "Message rejected by access policy"
+    );
+    const denyMessage = access.getDenyMessage();
+    if (denyMessage && decision.reason !== "mention_required") {
+      await this.sendReply(context, denyMessage);
+    }
+    return false;
+  }
+
+  /** 错误提示 (预算用尽时直接告知用户) */
+  private getErrorReply(error: unknown): string {
+    return error instanceof UsageBudgetError ? error.message : "抱歉，处理您的消息时出现了错误。请稍后重试。";
+  }
+
+  /** 打开流式回复 (未启用或通道不支持时返回 null) */
+  private async openReplyStream(context: InboundMessageContext): Promise<ReplyStream | null> {
+    if (this.config.streaming?.enabled === false) return null;
+    // message_sending Hook 需要在发送前拿到完整回复，此时不使用流式回复
+    if (getHookCount("message_sending") > 0) return null;
+
+    const channel = getChannel(context.channelId, context.accountId);
+    if (!channel?.createReplyStream) return null;
+    try {
+      return await channel.createReplyStream(context);
+    } catch (error) {
+      logger.warn({ error, channelId: context.channelId }, "Failed to open reply stream, falling back");
+      return null;
+    }
+  }
+
+  /** 流式处理消息并边生成边更新回复 */
+  private async streamReply(context: InboundMessageContext, stream: ReplyStream): Promise<void> {
+    const agent = this.agents.get(context.agentId);
+    const sessionKey = agent.getSessionKey(context);
+    const reply = new StreamingReply(stream, { throttleMs: this.config.streaming?.throttleMs });
+
+    let result: SendResult;
+    let media: OutboundBlock[] | undefined;
+    try {
+      ({ media } = await reply.consume(agent.processMessageEvents(context)));
+      result = await reply.finish();
+      logger.info(
+        { channel: context.channelId, chatId: context.chatId, responseLength: reply.getText().length },
+        "Reply streamed"
+      );
+    } catch (error) {
+      logger.error({ error, context }, "Failed to process message");
+      emitError(error instanceof Error ? error : new Error(String(error)), "gateway.handleMessage", sessionKey);
+      try {
+        result = await reply.fail(this.getErrorReply(error));
+      } catch (sendError) {
+        logger.error({ error: sendError, channelId: context.channelId, chatId: context.chatId }, "Failed to send reply");
+        result = { success: false, error: String(sendError) };
+      }
+    }
+
+    emitMessageSent({
+      channelId: context.channelId,
+      chatId: context.chatId,
+      messageId: result.messageId,
+      success: result.success,
+      sessionKey,
+    });
+    await this.sendMedia(context, media);
+  }
+
+  /** 发送工具产生的附件 (如截图、生成的文件) */
+  private async sendMedia(context: InboundMessageContext, media?: OutboundBlock[]): Promise<void> {
+    if (!media?.length) return;
+    const channel = getChannel(context.channelId, context.accountId);
+    if (!channel) return;
+
+    const result = await channel.sendMessage({
+      chatId: context.chatId,
+      content: "",
+      blocks: media,
+      replyToId: context.messageId,
+    });
+    if (!result.success) {
+      logger.warn({ channelId: context.channelId, chatId: context.chatId, error: result.error }, "Failed to send media");
     }
   }
 
   /** 发送回复（通过通道注册表，由各通道自行实现 replyToContext） */
   private async sendReply(context: InboundMessageContext, text: string): Promise<void> {
-    const channel = getChannel(context.channelId);
+    const channel = getChannel(context.channelId, context.accountId);
     if (!channel) {
       logger.warn({ channelId: context.channelId }, "No channel registered for reply");
       return;
     }
+    const sessionKey = this.agents.get(context.agentId).getSessionKey(context);
+
+    // message_sending Hook 可改写或取消回复
+    const outgoing = await emitMessageSending({
+      channelId: context.channelId,
+      chatId: context.chatId,
+      content: text,
+      replyToId: context.messageId,
+      sessionKey,
+    });
+    if (outgoing.cancelled) {
+      logger.info({ channelId: context.channelId, chatId: context.chatId }, "Reply cancelled by hook");
+      return;
+    }
+
     try {
-      await channel.replyToContext(context, text);
+      const result = await channel.replyToContext(context, outgoing.content);
+      emitMessageSent({
+        channelId: context.channelId,
+        chatId: context.chatId,
+        messageId: result.messageId,
+        success: result.success,
+        sessionKey,
+      });
     } catch (error) {
       logger.error({ error, channelId: context.channelId, chatId: context.chatId }, "Failed to send reply");
+      emitMessageSent({ channelId: context.channelId, chatId: context.chatId, success: false, sessionKey });
+    }
+  }
+
+  /** 为各 IM 通道注册工具审批提示 (飞书使用交互卡片，其他通道使用文本 /approve 提示，多账号时由收到消息的账号发送) */
+  private setupApprovals(): void {
+    for (const channelId of new Set(getAllChannels().map((channel) => channel.id))) {
+      registerApprovalPrompter(channelId, async (request) => {
+        const channel = getChannel(request.context.channelId, request.context.accountId);
+        if (!channel) {
+          throw new Error(`Channel not found: ${request.context.channelId}`);
+        }
+        if (channel instanceof FeishuChannel) {
+          await channel.sendApprovalCard(request);
+          return;
+        }
+        const result = await channel.replyToContext(request.context, formatApprovalPrompt(request));
+        if (!result.success) {
+          throw new Error(result.error ?? "Failed to send approval prompt");
+        }
+      });
+    }
+
+    // 超时未答复时通知来源会话
+    this.offApprovalResolved = onApprovalResolved((request, decision) => {
+      if (decision !== "timeout" || request.context.channelId === "webchat") return;
+      const channel = getChannel(request.context.channelId, request.context.accountId);
+      channel
+        ?.replyToContext(request.context, `⏱️ 审批 ${request.id} 已超时，${request.toolName} 未执行`)
+        .catch((error) => logger.warn({ error, id: request.id }, "Failed to send approval timeout notice"));
+    });
+  }
+
+  /**
+   * 按 channels 配置创建并初始化通道 (内置通道与插件注册的通道)
+   * 配置 accounts 时每个账号一个实例，HTTP 回调路径为 /<id>/<accountId>
+   */
+  private async setupChannels(): Promise<void> {
+    registerBuiltinChannels();
+
+    for (const [id, channelConfig] of Object.entries(this.config.channels)) {
+      const accounts = resolveChannelAccounts(channelConfig);
+      if (accounts.length === 0) continue;
+      const factory = getChannelFactory(id);
+      if (!factory) {
+        logger.warn({ channel: id }, "Unknown channel in config, skipped");
+        continue;
+      }
+
+      for (const { accountId, config } of accounts) {
+        const channel = factory.create(config);
+        channel.accountId = accountId;
+        channel.setMessageHandler(this.handleMessage.bind(this));
+        const basePath = factory.routePath ?? `/${id}`;
+        const routePath = accountId ? `${basePath}/${accountId}` : basePath;
+        if (channel.createRouter) {
+          this.channelRouter.use(routePath, channel.createRouter());
+        }
+        registerChannel(channel);
+        await channel.initialize();
+        this.channels.push(channel);
+        this.channelRoutes.set(channel, { config, routePath });
+        logger.info({ channel: id, accountId }, "Channel enabled");
+      }
     }
   }
 
@@ -210,22 +532,23 @@ export class Gateway {
       server: this.httpServer,
       agent: this.agent,
       config: this.config,
+      auth: this.webAuth,
     });
-
-    // 初始化通道
-    if (this.feishuChannel) {
-      await this.feishuChannel.initialize();
+    if (!this.webAuth.isEnabled()) {
+      logger.warn("WebChat login is disabled; set server.auth.adminToken to protect the Control UI");
     }
-    if (this.dingtalkChannel) {
-      await this.dingtalkChannel.initialize();
-    }
-    if (this.qqChannel) {
-      await this.qqChannel.initialize();
-    }
-    if (this.wecomChannel) {
-      await this.wecomChannel.initialize();
+
+    // 加载插件 (插件可注册通道)
+    if (this.config.plugins && this.config.plugins.enabled !== false) {
+      const result = await getPluginService(this.config, this.config.plugins).initialize();
+      logger.info({ loaded: result.loaded, failed: result.failed }, "Plugins loaded");
     }
 
+    // 初始化通道
+    await this.setupChannels();
+
+    this.setupApprovals();
+
     logger.info("Gateway initialized");
   }
 
@@ -242,17 +565,12 @@ export class Gateway {
       console.log(`   WebChat: http://${host || "localhost"}:${port}/`);
       console.log(`   控制台: http://${host || "localhost"}:${port}/control`);
       console.log(`   健康检查: http://${host || "localhost"}:${port}/health`);
-      if (this.feishuChannel) {
-        console.log(`   飞书: WebSocket 长连接已启动`);
-      }
-      if (this.dingtalkChannel) {
-        console.log(`   钉钉: Stream 长连接已启动`);
-      }
-      if (this.qqChannel) {
-        console.log(`   QQ 机器人: WebSocket 长连接已启动`);
-      }
-      if (this.wecomChannel) {
-        console.log(`   企业微信 Webhook: http://${host || "localhost"}:${port}/wecom/webhook`);
+      const baseUrl = `http://${host || "localhost"}:${port}`;
+      for (const channel of this.channels) {
+        const { config: channelConfig, routePath } = this.channelRoutes.get(channel)!;
+        const description = getChannelFactory(channel.id)?.describe?.(channelConfig, `${baseUrl}${routePath}`);
+        const name = channel.accountId ? `${channel.meta.name} (${channel.accountId})` : channel.meta.name;
+        console.log(`   ${name}: ${description ?? "已启动"}`);
       }
       console.log("");
     });
@@ -266,17 +584,17 @@ export class Gateway {
       this.wsServer.close();
     }
 
-    if (this.feishuChannel) {
-      await this.feishuChannel.shutdown();
+    this.offApprovalResolved?.();
+    for (const channelId of new Set(getAllChannels().map((channel) => channel.id))) {
+      unregisterApprovalPrompter(channelId);
     }
-    if (this.dingtalkChannel) {
-      await this.dingtalkChannel.shutdown();
-    }
-    if (this.qqChannel) {
-      await this.qqChannel.shutdown();
+
+    for (const channel of this.channels) {
+      await channel.shutdown();
     }
-    if (this.wecomChannel) {
-      await this.wecomChannel.shutdown();
+
+    if (this.config.plugins && this.config.plugins.enabled !== false) {
+      await getPluginService().shutdown();
     }
 
     this.httpServer.close();
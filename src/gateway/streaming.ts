@@ -0,0 +1,123 @@
+/**
+ * IM 流式回复 - 将 Agent 事件节流后写入通道的流式回复
+ */
+
+import type { ReplyStream } from "../channels/common/base.js";
+import type { AgentResponse } from "../agents/agent.js";
+import type { StreamEvent } from "../agents/runtime.js";
+import type { SendResult } from "../types/index.js";
+import { getChildLogger } from "../utils/logger.js";
+
+const logger = getChildLogger("streaming");
+
+/** 默认更新间隔 (毫秒) */
+export const DEFAULT_STREAM_THROTTLE_MS = 1000;
+
+/** 最多显示的工具进度行数 */
+const MAX_PROGRESS_LINES = 5;
+
+/** 工具执行进度 */
+interface ToolProgress {
+  name: string;
+  argsPreview: string;
+  status: "running" | "done" | "error";
+}
+
+/** 流式回复 (节流更新，串行写入) */
+export class StreamingReply {
+  private stream: ReplyStream;
+  private throttleMs: number;
+  private text = "";
+  private tools: ToolProgress[] = [];
+  /** 是否有尚未写入的变化 */
+  private dirty = false;
+  private lastUpdateAt = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  /** 正在进行的更新 */
+  private inFlight: Promise<void> | null = null;
+  private finished = false;
+
+  constructor(stream: ReplyStream, options: { throttleMs?: number } = {}) {
+    this.stream = stream;
+    this.throttleMs = options.throttleMs ?? DEFAULT_STREAM_THROTTLE_MS;
+  }
+
+  /** 当前已生成的文本 */
+  getText(): string {
+    return this.text;
+  }
+
+  /** 消费 Agent 事件直到结束，返回最终响应 */
+  async consume(events: AsyncGenerator<StreamEvent, AgentResponse, unknown>): Promise<AgentResponse> {
+    let next = await events.next();
+    while (!next.done) {
+      this.apply(next.value);
+      next = await events.next();
+    }
+    return next.value;
+  }
+
+  /** 应用一个事件 */
+  apply(event: StreamEvent): void {
+    if (event.type === "text_delta") {
+      this.text += event.delta;
+    } else if (event.type === "tool_start") {
+      this.tools.push({ name: event.name, argsPreview: event.argsPreview, status: "running" });
+    } else if (event.type === "tool_end") {
+      const running = this.tools.find((tool) => tool.status === "running");
+      if (running) running.status = event.isError ? "error" : "done";
+    }
+    this.dirty = true;
+    this.schedule();
+  }
+
+  /** 写入最终文本 (默认为已生成的文本) 并结束 */
+  async finish(text = this.text): Promise<SendResult> {
+    this.finished = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    await this.inFlight;
+    return this.stream.finish(text);
+  }
+
+  /** 以错误提示结束 (保留已生成的内容) */
+  async fail(message: string): Promise<SendResult> {
+    return this.finish(this.text.trim() ? `${this.text}\n\n${message}` : message);
+  }
+
+  /** 工具进度行 */
+  private renderProgress(): string[] {
+    return this.tools.slice(-MAX_PROGRESS_LINES).map((tool) => {
+      const mark = tool.status === "running" ? "…" : tool.status === "error" ? "✗" : "✓";
+      return `⏺ ${tool.name}(${tool.argsPreview}) ${mark}`;
+    });
+  }
+
+  /** 按节流间隔安排下一次更新 */
+  private schedule(): void {
+    if (this.timer || this.inFlight || this.finished) return;
+    const wait = Math.max(0, this.lastUpdateAt + this.throttleMs - Date.now());
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.flush();
+    }, wait);
+  }
+
+  /** 写入当前内容 (上一次更新完成前不会发起新的更新) */
+  private flush(): void {
+    if (!this.dirty || this.finished) return;
+    this.dirty = false;
+    this.lastUpdateAt = Date.now();
+    this.inFlight = this.stream
+      .update(this.text, this.renderProgress())
+      .catch((error) => {
+        logger.warn({ error }, "Failed to update streaming reply");
+      })
+      .finally(() => {
+        this.inFlight = null;
+        if (this.dirty) this.schedule();
+      });
+  }
+}
@@ -44,6 +44,8 @@ export interface MessageSendingEvent extends HookEventBase {
   chatId: string;
   content: string;
   replyToId?: string;
+  /** 设为 true 时取消发送 (由 Hook 处理器返回) */
+  cancel?: boolean;
 }
 
 /** 消息已发送事件 */
@@ -160,14 +162,14 @@ export type HookTransformer<T extends HookEvent = HookEvent> = (
 ) => T | Promise<T>;
 
 /** Hook 注册表 */
-const hookRegistry = new Map<HookEventType, Array<HookHandler>>();
+const hookRegistry = new Map<HookEventType, Array<HookHandler | HookTransformer>>();
 
 // ============== Hook 管理 ==============
 
 /** 注册 Hook */
 export function registerHook<T extends HookEventType>(
   eventType: T,
-  handler: HookHandler
+  handler: HookHandler | HookTransformer
 ): () => void {
   const handlers = hookRegistry.get(eventType) ?? [];
   handlers.push(handler);
@@ -220,6 +222,28 @@ export async function triggerHook(event: HookEvent): Promise<void> {
   }
 }
 
+/**
+ * 触发可修改事件的 Hook
+ * 处理器按注册顺序串行执行，返回同类型事件对象时作为下一个处理器的输入
+ */
+export async function triggerTransformHook<T extends HookEvent>(event: T): Promise<T> {
+  const handlers = hookRegistry.get(event.type);
+  if (!handlers || handlers.length === 0) return event;
+
+  let current = event;
+  for (const handler of handlers) {
+    try {
+      const result = await handler(current);
+      if (result && typeof result === "object" && result.type === event.type) {
+        current = result as T;
+      }
+    } catch (error) {
+      logger.error({ error, eventType: event.type }, "Hook transformer error");
+    }
+  }
+  return current;
+}
+
 /** 同步触发 Hook (不等待) */
 export function triggerHookSync(event: HookEvent): void {
   triggerHook(event).catch((error) => {
@@ -259,28 +283,49 @@ function createEventBase<T extends HookEventType>(
 }
 
 /** 触发消息接收事件 */
-export function emitMessageReceived(context: InboundMessageContext): void {
+export function emitMessageReceived(context: InboundMessageContext, sessionKey?: string): void {
   triggerHookSync({
-    ...createEventBase("message_received"),
+    ...createEventBase("message_received", sessionKey),
     context,
   });
 }
 
-/** 触发消息发送事件 */
-export function emitMessageSending(params: {
+/**
+ * 触发消息发送事件
+ * 处理器可返回修改后的事件以改写内容，或设置 cancel 以取消发送
+ */
+export async function emitMessageSending(params: {
   channelId: string;
   chatId: string;
   content: string;
   replyToId?: string;
   sessionKey?: string;
-}): void {
-  triggerHookSync({
+}): Promise<{ content: string; cancelled: boolean }> {
+  const event = await triggerTransformHook<MessageSendingEvent>({
     ...createEventBase("message_sending", params.sessionKey),
     channelId: params.channelId,
     chatId: params.chatId,
     content: params.content,
     replyToId: params.replyToId,
   });
+  return { content: event.content, cancelled: event.cancel === true };
+}
+
+/** 触发消息已发送事件 */
+export function emitMessageSent(params: {
+  channelId: string;
+  chatId: string;
+  messageId?: string;
+  success: boolean;
+  sessionKey?: string;
+}): void {
+  triggerHookSync({
+    ...createEventBase("message_sent", params.sessionKey),
+    channelId: params.channelId,
+    chatId: params.chatId,
+    messageId: params.messageId,
+    success: params.success,
+  });
 }
 
 /** 触发 Agent 开始事件 */
@@ -350,10 +395,65 @@ export function emitToolEnd(params: {
   });
 }
 
+/** 触发会话开始事件 */
+export function emitSessionStart(params: {
+  channelId: string;
+  chatId: string;
+  senderId: string;
+  sessionKey?: string;
+}): void {
+  triggerHookSync({
+    ...createEventBase("session_start", params.sessionKey),
+    channelId: params.channelId,
+    chatId: params.chatId,
+    senderId: params.senderId,
+  });
+}
+
+/** 触发会话结束事件 */
+export function emitSessionEnd(params: {
+  messageCount: number;
+  totalTokens: number;
+  sessionKey?: string;
+}): void {
+  triggerHookSync({
+    ...createEventBase("session_end", params.sessionKey),
+    messageCount: params.messageCount,
+    totalTokens: params.totalTokens,
+  });
+}
+
+/** 触发压缩事件 */
+export function emitCompactionStart(params: {
+  messageCount: number;
+  estimatedTokens: number;
+  sessionKey?: string;
+}): void {
+  triggerHookSync({
+    ...createEventBase("compaction_start", params.sessionKey),
+    messageCount: params.messageCount,
+    estimatedTokens: params.estimatedTokens,
+  });
+}
+
+export function emitCompactionEnd(params: {
+  compactedMessages: number;
+  summaryLength: number;
+  durationMs: number;
+  sessionKey?: string;
+}): void {
+  triggerHookSync({
+    ...createEventBase("compaction_end", params.sessionKey),
+    compactedMessages: params.compactedMessages,
+    summaryLength: params.summaryLength,
+    durationMs: params.durationMs,
+  });
+}
+
 /** 触发错误事件 */
-export function emitError(error: Error, context?: string): void {
+export function emitError(error: Error, context?: string, sessionKey?: string): void {
   triggerHookSync({
-    ...createEventBase("error"),
+    ...createEventBase("error", sessionKey),
     error,
     context,
   });
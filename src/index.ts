@@ -8,7 +8,7 @@
 export * from "./types/index.js";
 
 // 配置
-export { loadConfig, validateRequiredConfig } from "./config/index.js";
+export { loadConfig, validateRequiredConfig, resolveChannelAccounts } from "./config/index.js";
 
 // 模型提供商
 export {
@@ -18,11 +18,16 @@ export {
   resolveModel,
   getApiKeyForProvider,
   isProviderAvailable,
+  getProviderHealth,
+  type ProviderHealth,
 } from "./providers/index.js";
 
 // 通道
 export {
   BaseChannelAdapter,
+  ChunkedReplyStream,
+  EditableReplyStream,
+  type ReplyStream,
   FeishuChannel,
   DingtalkChannel,
   createFeishuChannel,
@@ -33,12 +38,21 @@ export {
   getChannel,
   getAllChannels,
   setGlobalMessageHandler,
+  TelegramChannel,
+  SlackChannel,
+  DiscordChannel,
+  registerChannelFactory,
+  type ChannelFactory,
+  type ConfigurableChannel,
 } from "./channels/index.js";
 
 // Agent
 export {
   Agent,
   createAgent,
+  AgentRouter,
+  createAgentRouter,
+  matchAgentRoute,
 } from "./agents/index.js";
 
 // Tools
@@ -57,6 +71,14 @@ export {
   jsonResult,
   errorResult,
   textResult,
+  type ApprovalRequest,
+  type ApprovalDecision,
+  type ApprovalAuditEntry,
+  type ApprovalPrompter,
+  registerApprovalPrompter,
+  resolveApproval,
+  getPendingApprovals,
+  getApprovalAuditLog,
 } from "./tools/index.js";
 
 // Hooks
@@ -64,18 +86,25 @@ export {
   type HookEventType,
   type HookEvent,
   type HookHandler,
+  type HookTransformer,
   registerHook,
   registerHooks,
   triggerHook,
   triggerHookSync,
+  triggerTransformHook,
   clearHooks,
   getHookCount,
   emitMessageReceived,
   emitMessageSending,
+  emitMessageSent,
   emitAgentStart,
   emitAgentEnd,
   emitToolStart,
   emitToolEnd,
+  emitSessionStart,
+  emitSessionEnd,
+  emitCompactionStart,
+  emitCompactionEnd,
   emitError,
 } from "./hooks/index.js";
 
@@ -109,7 +138,7 @@ export {
 } from "./commands/index.js";
 
 // Gateway
-export { Gateway, createGateway, startGateway } from "./gateway/index.js";
+export { Gateway, createGateway, startGateway, StreamingReply } from "./gateway/index.js";
 
 // Utils
 export { getLogger, createLogger, setLogger, getChildLogger } from "./utils/logger.js";
@@ -132,11 +161,46 @@ export {
   createMemoryManager,
   JsonMemoryStore,
   SimpleEmbedding,
+  OpenAIEmbedding,
+  LocalEmbedding,
+  createEmbeddingProvider,
   type MemoryEntry,
   type MemoryStore,
   type EmbeddingProvider,
 } from "./memory/index.js";
 
+// Usage (用量统计)
+export {
+  UsageLedger,
+  getUsageLedger,
+  initUsageLedger,
+  calculateCost,
+  formatUsageSummary,
+  type UsageRecord,
+  type UsageQuery,
+  type UsageGroupBy,
+  type UsageSummary,
+} from "./usage/index.js";
+
+// Access (IM 访问控制)
+export {
+  AccessController,
+  getAccessController,
+  initAccessController,
+  type AccessDecision,
+  type AccessDenyReason,
+  type AccessListName,
+} from "./access/index.js";
+
+// Media (入站媒体)
+export {
+  MediaCache,
+  getMediaCache,
+  initMediaCache,
+  buildMediaPrompt,
+  type MediaPrompt,
+} from "./media/index.js";
+
 // Outbound (主动发消息)
 export {
   deliverMessage,
@@ -157,20 +221,24 @@ export {
   CronService,
   getCronService,
   CronStore,
+  CronRunLog,
   createCronExecutor,
   createDefaultCronExecuteJob,
   computeNextRunAtMs,
   computeJobNextRunAtMs,
   validateCronExpr,
   formatSchedule,
+  isEventSchedule,
   type CronJob,
   type CronJobCreate,
   type CronJobUpdate,
   type CronSchedule,
+  type CronTriggerEvent,
   type CronPayload,
   type PayloadSystemEvent,
   type PayloadAgentTurn,
   type CronEvent,
+  type CronRunLogEntry,
   type CronExecutionResult,
   type AgentExecutor,
 } from "./cron/index.js";
@@ -0,0 +1,204 @@
+/**
+ * 媒体缓存
+ *
+ * 通道下载的图片、文件、语音等保存在本地目录，按通道分子目录，
+ * 过期文件在写入时顺带清理
+ */
+
+import * as fs from "fs";
+import { join, extname } from "path";
+import { homedir } from "os";
+import { randomUUID } from "crypto";
+import type { MediaConfig, MediaKind } from "../types/index.js";
+import { getChildLogger } from "../utils/logger.js";
+
+const logger = getChildLogger("media");
+
+/** 默认缓存目录 */
+export const DEFAULT_MEDIA_DIR = join(homedir(), ".mozi", "media");
+
+/** 默认单个文件大小上限 */
+export const DEFAULT_MAX_MEDIA_SIZE = 20 * 1024 * 1024;
+
+/** 默认保留时间 (小时) */
+const DEFAULT_RETENTION_HOURS = 72;
+
+/** 两次清理的最小间隔 */
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+/** MIME 类型与扩展名 */
+const MIME_EXTENSIONS: Record<string, string> = {
+  "image/jpeg": ".jpg",
+  "image/png": ".png",
+  "image/gif": ".gif",
+  "image/webp": ".webp",
+  "image/bmp": ".bmp",
+  "audio/amr": ".amr",
+  "audio/mpeg": ".mp3",
+  "audio/ogg": ".ogg",
+  "audio/silk": ".silk",
+  "video/mp4": ".mp4",
+  "application/pdf": ".pdf",
+};
+
+/** 根据文件头识别常见图片格式 */
+export function detectImageMimeType(data: Buffer): string | undefined {
+  if (data.length < 12) return undefined;
+  if (data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) return "image/jpeg";
+  if (data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) return "image/png";
+  if (data.subarray(0, 4).toString("ascii") === "GIF8") return "image/gif";
+  if (data.subarray(0, 4).toString("ascii") === "RIFF" && data.subarray(8, 12).toString("ascii") === "WEBP") {
+    return "image/webp";
+  }
+  if (data[0] === 0x42 && data[1] === 0x4d) return "image/bmp";
+  return undefined;
+}
+
+/** 保存媒体的参数 */
+export interface SaveMediaOptions {
+  channelId: string;
+  type: MediaKind;
+  fileName?: string;
+  mimeType?: string;
+}
+
+/** 已保存的媒体 */
+export interface SavedMedia {
+  path: string;
+  size: number;
+  mimeType?: string;
+}
+
+/** 媒体缓存 */
+export class MediaCache {
+  private dir: string;
+  private maxFileSize: number;
+  private retentionMs: number;
+  private lastPruneAt = 0;
+
+  constructor(config: MediaConfig = {}) {
+    this.dir = config.cacheDir ?? DEFAULT_MEDIA_DIR;
+    this.maxFileSize = config.maxFileSize ?? DEFAULT_MAX_MEDIA_SIZE;
+    this.retentionMs = (config.retentionHours ?? DEFAULT_RETENTION_HOURS) * 3600_000;
+  }
+
+  /** 缓存目录 */
+  getDir(): string {
+    return this.dir;
+  }
+
+  /** 单个文件大小上限 */
+  getMaxFileSize(): number {
+    return this.maxFileSize;
+  }
+
+  /** 保存媒体数据，超过大小上限时抛出错误 */
+  save(data: Buffer, options: SaveMediaOptions): SavedMedia {
+    if (data.length > this.maxFileSize) {
+      throw new Error(`Media too large: ${data.length} bytes (limit ${this.maxFileSize})`);
+    }
+
+    // 通道返回的类型可能不准确，图片以文件头为准
+    const mimeType =
+      (options.type === "image" ? detectImageMimeType(data) : undefined) ??
+      normalizeMimeType(options.mimeType);
+    const ext =
+      (options.fileName ? extname(options.fileName) : "") || (mimeType ? MIME_EXTENSIONS[mimeType] ?? "" : "");
+
+    const channelDir = join(this.dir, options.channelId);
+    fs.mkdirSync(channelDir, { recursive: true });
+    const filePath = join(channelDir, `${Date.now()}-${randomUUID().slice(0, 8)}${ext}`);
+    fs.writeFileSync(filePath, data);
+
+    logger.debug({ path: filePath, size: data.length, type: options.type }, "Media saved");
+    this.maybePrune();
+    return { path: filePath, size: data.length, mimeType };
+  }
+
+  /** 删除超过保留时间的文件，返回删除数量 */
+  prune(now = Date.now()): number {
+    if (!fs.existsSync(this.dir)) return 0;
+
+    let removed = 0;
+    for (const channel of fs.readdirSync(this.dir, { withFileTypes: true })) {
+      if (!channel.isDirectory()) continue;
+      const channelDir = join(this.dir, channel.name);
+      for (const file of fs.readdirSync(channelDir)) {
+        const filePath = join(channelDir, file);
+        try {
+          if (now - fs.statSync(filePath).mtimeMs > this.retentionMs) {
+            fs.unlinkSync(filePath);
+            removed++;
+          }
+        } catch {
+          // 文件可能已被删除
+        }
+      }
+    }
+    return removed;
+  }
+
+  /** 按间隔清理过期文件 */
+  private maybePrune(): void {
+    const now = Date.now();
+    if (now - this.lastPruneAt < PRUNE_INTERVAL_MS) return;
+    this.lastPruneAt = now;
+    try {
+      const removed = this.prune(now);
+      if (removed > 0) logger.info({ removed }, "Expired media pruned");
+    } catch (error) {
+      logger.warn({ error }, "Failed to prune media cache");
+    }
+  }
+}
+
+/** 去掉 MIME 类型中的参数 (如 charset) */
+function normalizeMimeType(mimeType: string | undefined): string | undefined {
+  const value = mimeType?.split(";")[0]?.trim().toLowerCase();
+  return value && value !== "application/octet-stream" ? value : undefined;
+}
+
+/** 读取 fetch 响应体，超过大小上限时中止下载并抛出错误 */
+export async function readLimitedBody(
+  response: Response,
+  maxBytes = getMediaCache().getMaxFileSize()
+): Promise<Buffer> {
+  const declared = Number(response.headers.get("content-length"));
+  if (declared > maxBytes) {
+    await response.body?.cancel();
+    throw new Error(`Media too large: ${declared} bytes (limit ${maxBytes})`);
+  }
+  if (!response.body) return Buffer.alloc(0);
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  const reader = response.body.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel();
+      throw new Error(`Media too large: over ${maxBytes} bytes`);
+    }
+    chunks.push(Buffer.from(value));
+  }
+  return Buffer.concat(chunks);
+}
+
+/** 全局缓存实例 */
+let globalCache: MediaCache | null = null;
+
+/** 获取全局媒体缓存 */
+export function getMediaCache(): MediaCache {
+  if (!globalCache) {
+    globalCache = new MediaCache();
+  }
+  return globalCache;
+}
+
+/** 初始化媒体缓存 */
+export function initMediaCache(config?: MediaConfig): MediaCache {
+  globalCache = new MediaCache(config);
+  return globalCache;
+}
@@ -0,0 +1,6 @@
+/**
+ * 入站媒体模块
+ */
+
+export * from "./cache.js";
+export * from "./prompt.js";
@@ -0,0 +1,78 @@
+/**
+ * 媒体附件转换为模型输入
+ *
+ * 模型支持图片输入时图片作为图片内容发送；否则自动调用 image_analyze 识别，
+ * 将识别结果作为文本附在消息后。文件、语音、视频以本地路径提示，供工具读取
+ */
+
+import { readFileSync } from "fs";
+import { basename } from "path";
+import type { ImageContent } from "@mariozechner/pi-ai";
+import type { MediaAttachment, MediaKind } from "../types/index.js";
+import { getChildLogger } from "../utils/logger.js";
+
+const logger = getChildLogger("media");
+
+/** 附件类型名称 */
+const KIND_LABELS: Record<MediaKind, string> = {
+  image: "图片",
+  file: "文件",
+  audio: "语音",
+  video: "视频",
+};
+
+/** 模型输入 */
+export interface MediaPrompt {
+  text: string;
+  images: ImageContent[];
+}
+
+/** 转换选项 */
+export interface MediaPromptOptions {
+  /** 当前模型是否支持图片输入 */
+  supportsVision: boolean;
+  /** 识别图片 (返回描述文本)，模型不支持图片输入时使用 */
+  analyzeImage?: (path: string) => Promise<string>;
+}
+
+/** 将消息文本与附件转换为模型输入 (未下载成功的附件忽略) */
+export async function buildMediaPrompt(
+  content: string,
+  attachments: MediaAttachment[] | undefined,
+  options: MediaPromptOptions
+): Promise<MediaPrompt> {
+  const images: ImageContent[] = [];
+  const notes: string[] = [];
+
+  for (const attachment of attachments ?? []) {
+    if (!attachment.path) continue;
+    const label = KIND_LABELS[attachment.type];
+    const name = attachment.fileName ?? basename(attachment.path);
+
+    if (attachment.type === "image" && options.supportsVision) {
+      try {
+        const data = readFileSync(attachment.path).toString("base64");
+        images.push({ type: "image", data, mimeType: attachment.mimeType ?? "image/jpeg" });
+        notes.push(`[${label}: ${attachment.path}]`);
+        continue;
+      } catch (error) {
+        logger.warn({ error, path: attachment.path }, "Failed to read cached image");
+      }
+    } else if (attachment.type === "image" && options.analyzeImage) {
+      try {
+        const description = await options.analyzeImage(attachment.path);
+        notes.push(`[${label}: ${attachment.path}]\n图片内容 (image_analyze 识别): ${description}`);
+        continue;
+      } catch (error) {
+        logger.warn({ error, path: attachment.path }, "Failed to analyze image");
+      }
+    }
+
+    notes.push(`[${label} ${name}: ${attachment.path}]`);
+  }
+
+  return {
+    text: notes.length > 0 ? `${content}\n\n${notes.join("\n")}`.trim() : content,
+    images,
+  };
+}
@@ -1,6 +1,6 @@
 /**
  * Memory System - Mozi Memory Module
- * Simplified memory system with JSON storage and TF-IDF embedding
+ * Simplified memory system with JSON storage and pluggable embedding providers
  */
 
 // Core types
@@ -20,3 +20,4 @@ export { JsonMemoryStore, cosineSimilarity } from "./store.js";
 
 // Embedding
 export { SimpleEmbedding } from "./embedding.js";
+export { OpenAIEmbedding, LocalEmbedding, createEmbeddingProvider } from "./providers.js";
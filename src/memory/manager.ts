@@ -10,6 +10,12 @@ import { SimpleEmbedding } from "./embedding.js";
 
 const logger = getChildLogger("memory-manager");
 
+/** Model key of SimpleEmbedding, assumed for indexes written before model tracking */
+const SIMPLE_EMBEDDING_MODEL = "simple";
+
+/** Entries embedded per step when re-embedding the store */
+const REEMBED_BATCH_SIZE = 64;
+
 /**
  * Memory Manager - manages memory storage and retrieval
  */
@@ -17,14 +23,96 @@ export class MemoryManager {
   private store: JsonMemoryStore;
   private embedding: EmbeddingProvider;
   private _enabled: boolean;
+  private ready?: Promise<void>;
 
   constructor(options?: {
     enabled?: boolean;
     directory?: string;
+    /** Namespace subdirectory (isolates memories of named agents) */
+    namespace?: string;
+    /** Embedding provider (defaults to SimpleEmbedding) */
+    embedding?: EmbeddingProvider;
   }) {
     this._enabled = options?.enabled ?? true;
-    this.store = new JsonMemoryStore({ directory: options?.directory });
-    this.embedding = new SimpleEmbedding();
+    this.store = new JsonMemoryStore({ directory: options?.directory, namespace: options?.namespace });
+    this.embedding = options?.embedding ?? new SimpleEmbedding();
+  }
+
+  /** Model key of the current embedding provider */
+  private get embeddingModel(): string {
+    return this.embedding.id ?? SIMPLE_EMBEDDING_MODEL;
+  }
+
+  /** Re-embed stored entries embedded with another model and backfill entries without embeddings */
+  private ensureReady(): Promise<void> {
+    this.ready ??= this.reembedIfModelChanged().catch((error) => {
+      // Retry on the next operation; mismatched vectors only score 0 meanwhile
+      this.ready = undefined;
+      logger.warn({ error, model: this.embeddingModel }, "Failed to re-embed memories");
+    });
+    return this.ready;
+  }
+
+  private async reembedIfModelChanged(): Promise<void> {
+    const model = this.embeddingModel;
+    const previous = this.store.embeddingModel ?? SIMPLE_EMBEDDING_MODEL;
+    const entries = await this.store.list();
+    const embeddings = new Map<string, number[]>();
+
+    // Same model: keep existing vectors and only embed entries that have none
+    // (e.g. saved while the embedding provider was failing)
+    let pending = entries;
+    if (previous === model) {
+      pending = entries.filter((entry) => !entry.embedding?.length);
+      if (pending.length === 0) return;
+      for (const entry of entries) {
+        if (entry.embedding?.length) embeddings.set(entry.id, entry.embedding);
+      }
+    }
+
+    for (let i = 0; i < pending.length; i += REEMBED_BATCH_SIZE) {
+      const batch = pending.slice(i, i + REEMBED_BATCH_SIZE);
+      const vectors = await this.embedTexts(batch.map((entry) => entry.content));
+      batch.forEach((entry, index) => {
+        const vector = vectors[index];
+        if (vector?.length) embeddings.set(entry.id, vector);
+      });
+    }
+
+    this.store.replaceEmbeddings(model, embeddings);
+    if (previous === model) {
+      logger.info({ model, count: pending.length }, "Missing memory embeddings backfilled");
+    } else {
+      logger.info({ from: previous, to: model, count: entries.length }, "Memories re-embedded with new model");
+    }
+  }
+
+  /**
+   * Embed texts, reusing cached vectors for providers with a stable model key
+   * (SimpleEmbedding vectors depend on its in-memory vocabulary and are not cached)
+   */
+  private async embedTexts(texts: string[]): Promise<number[][]> {
+    const model = this.embedding.id;
+    if (!model) {
+      return this.embedding.embed(texts);
+    }
+
+    const results = texts.map((text) => this.store.getCachedEmbedding(model, text));
+    const missing = [...new Set(texts.filter((_, index) => !results[index]))];
+    if (missing.length > 0) {
+      const vectors = await this.embedding.embed(missing);
+      const fresh = new Map<string, number[]>();
+      missing.forEach((text, index) => {
+        const vector = vectors[index];
+        if (!vector) return;
+        fresh.set(text, vector);
+        this.store.cacheEmbedding(model, text, vector);
+      });
+      texts.forEach((text, index) => {
+        results[index] ??= fresh.get(text);
+      });
+    }
+    return results.map((vector) => vector ?? []);
   }
 
   /** Store a memory */
@@ -34,12 +122,15 @@ export class MemoryManager {
   ): Promise<string | null> {
     if (!this._enabled) return null;
 
+    await this.ensureReady();
     let embedding: number[] | undefined;
 
     try {
-      const [emb] = await this.embedding.embed([content]);
+      const [emb] = await this.embedTexts([content]);
       embedding = emb;
     } catch (error) {
+      // Backfilled by the next ensureReady
+      this.ready = undefined;
       logger.warn({ error }, "Failed to generate embedding");
     }
 
@@ -49,6 +140,7 @@ export class MemoryManager {
       metadata: {
         type: metadata?.type ?? "note",
         source: metadata?.source,
+        chat: metadata?.chat,
         timestamp: metadata?.timestamp ?? Date.now(),
         tags: metadata?.tags,
       },
@@ -62,8 +154,15 @@ export class MemoryManager {
     }
 
     try {
-      // Get query embedding
-      const [queryEmbedding] = await this.embedding.embed([query]);
+      await this.ensureReady();
+
+      // Get query embedding (fall back to text-only scoring when it fails)
+      let queryEmbedding: number[] | undefined;
+      try {
+        [queryEmbedding] = await this.embedTexts([query]);
+      } catch (error) {
+        logger.warn({ error }, "Failed to embed query, using text scores only");
+      }
 
       // Search store
       const entries = await this.store.search(query, limit * 3);
@@ -76,7 +175,7 @@ export class MemoryManager {
       const results: Array<MemoryEntry & { vectorScore: number; textScore: number }> = [];
 
       for (const entry of entries) {
-        const vectorScore = entry.embedding && queryEmbedding
+        const vectorScore = entry.embedding?.length && queryEmbedding?.length
           ? cosineSimilarity(queryEmbedding, entry.embedding)
           : 0;
         const textScore = this.computeTextScore(query, entry.content);
@@ -189,6 +288,8 @@ export class MemoryManager {
 export function createMemoryManager(options?: {
   enabled?: boolean;
   directory?: string;
+  namespace?: string;
+  embedding?: EmbeddingProvider;
 }): MemoryManager {
   return new MemoryManager(options);
 }
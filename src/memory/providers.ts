@@ -0,0 +1,228 @@
+/**
+ * Embedding Providers
+ * OpenAI-compatible /embeddings API and local transformers models, selected from memory config
+ */
+
+import type { MemoryConfig, MoziConfig, SimpleProviderConfig } from "../types/index.js";
+import { getDefaultBaseUrl } from "../providers/model-resolver.js";
+import { getChildLogger } from "../utils/logger.js";
+import type { EmbeddingProvider } from "./types.js";
+import { SimpleEmbedding } from "./embedding.js";
+
+const logger = getChildLogger("memory-embedding");
+
+/** Default embedding model per provider */
+const DEFAULT_EMBEDDING_MODELS: Record<string, { model: string; dimension: number; batchSize?: number }> = {
+  openai: { model: "text-embedding-3-small", dimension: 1536 },
+  dashscope: { model: "text-embedding-v3", dimension: 1024, batchSize: 10 },
+  zhipu: { model: "embedding-3", dimension: 2048 },
+  ollama: { model: "nomic-embed-text", dimension: 768 },
+  local: { model: "Xenova/all-MiniLM-L6-v2", dimension: 384 },
+};
+
+const OPENAI_BASE_URL = "https://api.openai.com/v1";
+const DEFAULT_BATCH_SIZE = 16;
+const DEFAULT_TIMEOUT_MS = 30_000;
+
+/** Split texts into batches */
+function chunk<T>(items: T[], size: number): T[][] {
+  const batches: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    batches.push(items.slice(i, i + size));
+  }
+  return batches;
+}
+
+/**
+ * OpenAI-compatible embedding provider (OpenAI, DashScope, Zhipu, Ollama, vLLM, ...)
+ */
+export class OpenAIEmbedding implements EmbeddingProvider {
+  readonly id: string;
+  dimension: number;
+
+  private readonly baseUrl: string;
+  private readonly apiKey?: string;
+  private readonly model: string;
+  private readonly batchSize: number;
+  private readonly dimensions?: number;
+  private readonly headers?: Record<string, string>;
+  private readonly timeoutMs: number;
+
+  constructor(options: {
+    /** Provider id, used in the model key */
+    provider: string;
+    baseUrl: string;
+    model: string;
+    apiKey?: string;
+    headers?: Record<string, string>;
+    /** Max texts per request */
+    batchSize?: number;
+    /** Requested vector dimensions (only sent when set) */
+    dimensions?: number;
+    /** Expected dimension before the first response */
+    dimension?: number;
+    timeoutMs?: number;
+  }) {
+    this.baseUrl = options.baseUrl.replace(/\/+$/, "");
+    this.model = options.model;
+    this.apiKey = options.apiKey;
+    this.headers = options.headers;
+    this.batchSize = Math.max(1, options.batchSize ?? DEFAULT_BATCH_SIZE);
+    this.dimensions = options.dimensions;
+    this.dimension = options.dimensions ?? options.dimension ?? 0;
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.id = `${options.provider}:${options.model}${options.dimensions ? `@${options.dimensions}` : ""}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const results: number[][] = [];
+    for (const batch of chunk(texts, this.batchSize)) {
+      results.push(...(await this.request(batch)));
+    }
+    return results;
+  }
+
+  async embedQuery(text: string): Promise<number[]> {
+    const [embedding] = await this.embed([text]);
+    return embedding ?? [];
+  }
+
+  private async request(input: string[]): Promise<number[][]> {
+    const response = await fetch(`${this.baseUrl}/embeddings`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+        ...this.headers,
+      },
+      body: JSON.stringify({
+        model: this.model,
+        input,
+        ...(this.dimensions ? { dimensions: this.dimensions } : {}),
+      }),
+      signal: AbortSignal.timeout(this.timeoutMs),
+    });
+
+    if (!response.ok) {
+      const body = await response.text().catch(() => "");
+      throw new Error(`Embedding request failed (${response.status}): ${body.slice(0, 200)}`);
+    }
+
+    const data = (await response.json()) as { data?: Array<{ embedding: number[]; index?: number }> };
+    const items = data.data ?? [];
+    if (items.length !== input.length) {
+      throw new Error(`Embedding response size mismatch: expected ${input.length}, got ${items.length}`);
+    }
+
+    const embeddings = [...items]
+      .sort((a, b) => (a.index ?? 0) - (b.index ?? 0))
+      .map((item) => item.embedding);
+    this.dimension = embeddings[0]?.length ?? this.dimension;
+    return embeddings;
+  }
+}
+
+/** Minimal shape of the transformers.js feature-extraction pipeline */
+type FeatureExtractor = (
+  texts: string[],
+  options: { pooling: "mean"; normalize: boolean },
+) => Promise<{ tolist(): number[][] }>;
+
+/**
+ * Local embedding provider using transformers.js (ONNX runtime), for offline deployments
+ * Requires the optional dependency @huggingface/transformers
+ */
+export class LocalEmbedding implements EmbeddingProvider {
+  readonly id: string;
+  dimension: number;
+
+  private readonly model: string;
+  private readonly batchSize: number;
+  private extractor?: Promise<FeatureExtractor>;
+
+  constructor(options: { model: string; batchSize?: number; dimension?: number }) {
+    this.model = options.model;
+    this.batchSize = Math.max(1, options.batchSize ?? DEFAULT_BATCH_SIZE);
+    this.dimension = options.dimension ?? 0;
+    this.id = `local:${options.model}`;
+  }
+
+  private loadExtractor(): Promise<FeatureExtractor> {
+    this.extractor ??= (async () => {
+      let transformers: { pipeline: (task: string, model: string) => Promise<FeatureExtractor> };
+      try {
+        // @ts-ignore - optional dependency
+        transformers = await import("@huggingface/transformers");
+      } catch {
+        throw new Error("Local embedding requires @huggingface/transformers: npm install @huggingface/transformers");
+      }
+      logger.info({ model: this.model }, "Loading local embedding model");
+      return transformers.pipeline("feature-extraction", this.model);
+    })();
+    // Allow retrying after a failed load
+    this.extractor.catch(() => {
+      this.extractor = undefined;
+    });
+    return this.extractor;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const extractor = await this.loadExtractor();
+    const results: number[][] = [];
+    for (const batch of chunk(texts, this.batchSize)) {
+      const output = await extractor(batch, { pooling: "mean", normalize: true });
+      results.push(...output.tolist());
+    }
+    this.dimension = results[0]?.length ?? this.dimension;
+    return results;
+  }
+
+  async embedQuery(text: string): Promise<number[]> {
+    const [embedding] = await this.embed([text]);
+    return embedding ?? [];
+  }
+}
+
+/**
+ * Create the embedding provider from memory config
+ * Falls back to SimpleEmbedding when no provider is configured
+ */
+export function createEmbeddingProvider(
+  memory: MemoryConfig | undefined,
+  providers: MoziConfig["providers"] = {},
+): EmbeddingProvider {
+  const providerId = memory?.embeddingProvider;
+  if (!providerId) {
+    return new SimpleEmbedding();
+  }
+
+  const defaults = DEFAULT_EMBEDDING_MODELS[providerId];
+  const model = memory.embeddingModel ?? defaults?.model;
+  if (!model) {
+    throw new Error(`memory.embeddingModel is required for embedding provider: ${providerId}`);
+  }
+  const batchSize = memory.embeddingBatchSize ?? defaults?.batchSize;
+  const dimension = model === defaults?.model ? defaults.dimension : undefined;
+
+  if (providerId === "local") {
+    return new LocalEmbedding({ model, batchSize, dimension });
+  }
+
+  const providerConfig = providers[providerId] as SimpleProviderConfig | undefined;
+  const baseUrl =
+    providerConfig?.baseUrl ?? getDefaultBaseUrl(providerId) ?? (providerId === "openai" ? OPENAI_BASE_URL : undefined);
+  if (!baseUrl) {
+    throw new Error(`No base URL configured for embedding provider: ${providerId}`);
+  }
+
+  return new OpenAIEmbedding({
+    provider: providerId,
+    baseUrl,
+    model,
+    apiKey: providerConfig?.apiKey,
+    headers: providerConfig?.headers,
+    batchSize,
+    dimensions: memory.embeddingDimensions,
+    dimension,
+  });
+}
@@ -45,13 +45,18 @@ export class JsonMemoryStore implements MemoryStore {
   private entries: Map<string, MemoryEntry>;
   private embeddingCache: Map<string, number[]>;
   private maxCacheEntries: number;
+  /** Model key the stored entry embeddings were generated with */
+  private _embeddingModel?: string;
   private dirty = false;
 
   constructor(options: {
     directory?: string;
+    /** Namespace subdirectory under the memory directory */
+    namespace?: string;
     maxCacheEntries?: number;
   } = {}) {
-    this.directory = options.directory ?? path.join(os.homedir(), ".mozi", "memory");
+    const baseDirectory = options.directory ?? path.join(os.homedir(), ".mozi", "memory");
+    this.directory = options.namespace ? path.join(baseDirectory, options.namespace) : baseDirectory;
     this.indexFile = path.join(this.directory, "index.json");
     this.maxCacheEntries = options.maxCacheEntries ?? 1000;
     this.entries = new Map();
@@ -69,6 +74,7 @@ export class JsonMemoryStore implements MemoryStore {
   private loadIndex(): void {
     this.entries.clear();
     this.embeddingCache.clear();
+    this._embeddingModel = undefined;
 
     if (!fs.existsSync(this.indexFile)) {
       logger.debug({ path: this.indexFile }, "Memory index file not found, starting fresh");
@@ -83,6 +89,10 @@ export class JsonMemoryStore implements MemoryStore {
         this.entries.set(entry.id, entry);
       }
 
+      if (typeof data.embeddingModel === "string") {
+        this._embeddingModel = data.embeddingModel;
+      }
+
       if (data.embeddings && Array.isArray(data.embeddings)) {
         for (const item of data.embeddings) {
           if (item.hash && Array.isArray(item.embedding)) {
@@ -109,6 +119,7 @@ export class JsonMemoryStore implements MemoryStore {
 
       const data = {
         version: 2,
+        embeddingModel: this._embeddingModel,
         entries: Array.from(this.entries.values()),
         embeddings,
       };
@@ -132,6 +143,44 @@ export class JsonMemoryStore implements MemoryStore {
     logger.debug({ removed: toRemove.length }, "Pruned embedding cache");
   }
 
+  /** Cache key for an embedding of content under a model */
+  private embeddingHash(model: string, content: string): string {
+    return crypto.createHash("sha256").update(`${model}\n${content}`).digest("hex");
+  }
+
+  /** Get a cached embedding */
+  getCachedEmbedding(model: string, content: string): number[] | undefined {
+    return this.embeddingCache.get(this.embeddingHash(model, content));
+  }
+
+  /** Cache an embedding (persisted with the next index write) */
+  cacheEmbedding(model: string, content: string, embedding: number[]): void {
+    const hash = this.embeddingHash(model, content);
+    this.embeddingCache.delete(hash);
+    this.embeddingCache.set(hash, embedding);
+    this.pruneCache();
+    this.dirty = true;
+  }
+
+  /** Model key of the stored embeddings (undefined for legacy indexes) */
+  get embeddingModel(): string | undefined {
+    return this._embeddingModel;
+  }
+
+  /**
+   * Replace entry embeddings after re-embedding with a new model
+   * Entries missing from the map keep no embedding
+   */
+  replaceEmbeddings(model: string, embeddings: Map<string, number[]>): void {
+    for (const entry of this.entries.values()) {
+      entry.embedding = embeddings.get(entry.id);
+    }
+    this._embeddingModel = model;
+    this.dirty = true;
+    this.saveIndex();
+    logger.info({ model, count: embeddings.size }, "Memory embeddings replaced");
+  }
+
   async add(entry: Omit<MemoryEntry, "id">): Promise<string> {
     const id = generateMemoryId();
     const fullEntry: MemoryEntry = {
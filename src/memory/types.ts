@@ -10,6 +10,8 @@ export interface MemoryEntry {
   metadata: {
     type: "conversation" | "fact" | "note" | "code";
     source?: string;
+    /** Chat the memory was saved from (channel:chatId) */
+    chat?: string;
     timestamp: number;
     tags?: string[];
   };
@@ -48,6 +50,8 @@ export interface MemoryStore {
 
 /** Embedding provider interface */
 export interface EmbeddingProvider {
+  /** Stable model key (provider:model); enables caching and re-embedding on change */
+  id?: string;
   embed(texts: string[]): Promise<number[][]>;
   embedQuery(text: string): Promise<number[]>;
   dimension: number;
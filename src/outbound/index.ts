@@ -5,8 +5,8 @@
  * 参考 moltbot 的 outbound 模块实现
  */
 
-import type { ChannelId, SendResult, OutboundMessage } from "../types/index.js";
-import { getChannel, getAllChannels } from "../channels/common/index.js";
+import type { ChannelId, SendResult, OutboundMessage, OutboundBlock } from "../types/index.js";
+import { getChannel, getAllChannels, getChannelAccountIds } from "../channels/common/index.js";
 import { getChildLogger } from "../utils/logger.js";
 
 const logger = getChildLogger("outbound");
@@ -27,6 +27,8 @@ export interface DeliveryPayload {
   text: string;
   /** 媒体 URL 列表 */
   mediaUrls?: string[];
+  /** 富内容块 (图片、文件、卡片等) */
+  blocks?: OutboundBlock[];
   /** 回复消息 ID */
   replyToId?: string;
 }
@@ -57,7 +59,7 @@ export interface DeliveryResult {
 
 /**
  * 解析投递目标
- * 支持 "channel:chatId" 格式和 "last" 特殊值
+ * 支持 "channel:chatId"、"channel:accountId:chatId" (accountId 为已注册的通道账号) 格式和 "last" 特殊值
  */
 export function parseDeliveryTarget(
   target: string,
@@ -73,6 +75,13 @@ export function parseDeliveryTarget(
   if (colonIndex > 0) {
     const channel = target.slice(0, colonIndex) as ChannelId;
     const to = target.slice(colonIndex + 1);
+    const accountIndex = to.indexOf(":");
+    if (accountIndex > 0) {
+      const accountId = to.slice(0, accountIndex);
+      if (getChannelAccountIds(channel).includes(accountId)) {
+        return { channel, accountId, to: to.slice(accountIndex + 1) };
+      }
+    }
     if (channel && to) {
       return { channel, to };
     }
@@ -94,17 +103,17 @@ export async function deliverMessage(
   payload: DeliveryPayload,
   options?: DeliveryOptions
 ): Promise<DeliveryResult> {
-  const { channel: channelId, to } = target;
+  const { channel: channelId, to, accountId } = target;
   const { bestEffort = false } = options ?? {};
 
-  logger.debug({ channelId, to, text: payload.text.slice(0, 100) }, "Delivering message");
+  logger.debug({ channelId, accountId, to, text: payload.text.slice(0, 100) }, "Delivering message");
 
   try {
-    // 获取通道
-    const channel = getChannel(channelId);
+    // 获取通道 (指定账号时投递到该账号)
+    const channel = getChannel(channelId, accountId);
     if (!channel) {
-      const error = `Channel not found: ${channelId}`;
-      logger.warn({ channelId }, error);
+      const error = `Channel not found: ${accountId ? `${channelId}:${accountId}` : channelId}`;
+      logger.warn({ channelId, accountId }, error);
       if (!bestEffort) {
         throw new Error(error);
       }
@@ -117,13 +126,14 @@ export async function deliverMessage(
       content: payload.text,
       replyToId: payload.replyToId,
       mediaUrls: payload.mediaUrls,
+      blocks: payload.blocks,
     };
 
     // 发送消息
     const result = await channel.sendMessage(message);
 
     if (result.success) {
-      logger.info({ channelId, to, messageId: result.messageId }, "Message delivered");
+      logger.info({ channelId, accountId, to, messageId: result.messageId }, "Message delivered");
       return {
         success: true,
         channel: channelId,
@@ -254,12 +264,12 @@ export async function sendText(
  * 获取所有可用的通道 ID
  */
 export function getAvailableChannels(): ChannelId[] {
-  return getAllChannels().map((ch) => ch.id);
+  return Array.from(new Set(getAllChannels().map((ch) => ch.id)));
 }
 
 /**
  * 检查通道是否可用
  */
-export function isChannelAvailable(channelId: ChannelId): boolean {
-  return getChannel(channelId) !== undefined;
+export function isChannelAvailable(channelId: ChannelId, accountId?: string): boolean {
+  return getChannel(channelId, accountId) !== undefined;
 }
@@ -9,6 +9,7 @@ import type { Tool } from "../tools/types.js";
 import type { MoziConfig, ProviderId } from "../types/index.js";
 import { registerTool, registerTools } from "../tools/registry.js";
 import { registerHook, type HookEventType, type HookHandler } from "../hooks/index.js";
+import { registerChannelFactory, type ChannelFactory } from "../channels/common/index.js";
 import { getChildLogger } from "../utils/logger.js";
 
 const logger = getChildLogger("plugins");
@@ -74,6 +75,8 @@ export interface PluginApi {
   registerTools: (tools: Tool[]) => void;
   /** 注册 Hook */
   registerHook: <T extends HookEventType>(eventType: T, handler: HookHandler) => () => void;
+  /** 注册通道 (在 channels.<id> 中配置后由 Gateway 创建) */
+  registerChannel: (factory: ChannelFactory) => void;
   /** 注册 HTTP 路由 (扩展用) */
   registerHttpRoute?: (route: HttpRoute) => void;
   /** 注册服务 (后台任务) */
@@ -231,6 +234,10 @@ export async function registerPlugin(
       logger.debug({ pluginId: meta.id, eventType }, "Plugin registered hook");
       return unsubscribe;
     },
+    registerChannel: (factory) => {
+      registerChannelFactory(factory);
+      logger.debug({ pluginId: meta.id, channelId: factory.id }, "Plugin registered channel");
+    },
     registerService: (service) => {
       services.push(service);
       logger.debug({ pluginId: meta.id, serviceId: service.id }, "Plugin registered service");
@@ -295,6 +302,7 @@ export async function activatePlugin(pluginId: string): Promise<void> {
       plugin.hookUnsubscribers.push(unsubscribe);
       return unsubscribe;
     },
+    registerChannel: (factory) => registerChannelFactory(factory),
     getLogger: (name) => getChildLogger(name ?? `plugin:${plugin.id}`),
     getStateDir: () => {
       const { homedir } = require("os");
@@ -12,7 +12,14 @@ import {
 } from "./model-resolver.js";
 import { getChildLogger } from "../utils/logger.js";
 
-export { resolveModel, getApiKeyForProvider, isProviderAvailable } from "./model-resolver.js";
+export {
+  resolveModel,
+  getApiKeyForProvider,
+  isProviderAvailable,
+  getProviderHealth,
+  type ProviderHealth,
+  type CircuitState,
+} from "./model-resolver.js";
 
 const logger = getChildLogger("providers");
 
@@ -4,7 +4,14 @@
 
 import type { Model, Api, Provider } from "@mariozechner/pi-ai";
 import { getModel } from "@mariozechner/pi-ai";
-import type { ProviderId, SimpleProviderConfig, MoziConfig, ModelDefinition } from "../types/index.js";
+import type {
+  ProviderId,
+  SimpleProviderConfig,
+  MoziConfig,
+  ModelDefinition,
+  ModelFailoverConfig,
+  ModelCost,
+} from "../types/index.js";
 import { getChildLogger } from "../utils/logger.js";
 
 const logger = getChildLogger("model-resolver");
@@ -101,6 +108,11 @@ const PI_AI_KNOWN_PROVIDERS: Record<string, string> = {
   openrouter: "openrouter",
 };
 
+/** 获取 provider 的默认 baseUrl (预设或国产 provider) */
+export function getDefaultBaseUrl(providerId: string): string | undefined {
+  return PRESET_PROVIDER_CONFIGS[providerId]?.baseUrl ?? CHINA_PROVIDER_BASE_URLS[providerId];
+}
+
 /** 获取 provider 的 API key */
 export function getApiKeyForProvider(providerId: string): string | undefined {
   const config = providerConfigs[providerId];
@@ -123,7 +135,12 @@ function buildOpenAIModel(
     baseUrl,
     reasoning: modelDef.supportsReasoning,
     input: modelDef.supportsVision ? ["text", "image"] : ["text"],
-    cost: { input: 0, output: 0, cacheRead: 0, cacheWrite: 0 },
+    cost: {
+      input: modelDef.cost?.input ?? 0,
+      output: modelDef.cost?.output ?? 0,
+      cacheRead: modelDef.cost?.cacheRead ?? 0,
+      cacheWrite: modelDef.cost?.cacheWrite ?? 0,
+    },
     contextWindow: modelDef.contextWindow,
     maxTokens: modelDef.maxTokens,
     headers,
@@ -147,7 +164,12 @@ function buildAnthropicModel(
     baseUrl,
     reasoning: modelDef.supportsReasoning,
     input: modelDef.supportsVision ? ["text", "image"] : ["text"],
-    cost: { input: 0, output: 0, cacheRead: 0, cacheWrite: 0 },
+    cost: {
+      input: modelDef.cost?.input ?? 0,
+      output: modelDef.cost?.output ?? 0,
+      cacheRead: modelDef.cost?.cacheRead ?? 0,
+      cacheWrite: modelDef.cost?.cacheWrite ?? 0,
+    },
     contextWindow: modelDef.contextWindow,
     maxTokens: modelDef.maxTokens,
     headers: {
@@ -209,6 +231,7 @@ function registerCustomOpenAI(config: Record<string, unknown>): void {
     maxTokens?: number;
     supportsVision?: boolean;
     supportsReasoning?: boolean;
+    cost?: ModelCost;
   }>;
   const headers = config.headers as Record<string, string> | undefined;
 
@@ -224,6 +247,7 @@ function registerCustomOpenAI(config: Record<string, unknown>): void {
       maxTokens: m.maxTokens ?? 4096,
       supportsVision: m.supportsVision ?? false,
       supportsReasoning: m.supportsReasoning ?? false,
+      cost: m.cost,
     };
     const model = buildOpenAIModel(m.id, modelDef, baseUrl, "custom-openai", headers);
     modelRegistry.set(`custom-openai:${m.id}`, { model, providerId: "custom-openai" });
@@ -239,6 +263,7 @@ function registerCustomAnthropic(config: Record<string, unknown>): void {
     contextWindow?: number;
     maxTokens?: number;
     supportsVision?: boolean;
+    cost?: ModelCost;
   }>;
   const apiVersion = config.apiVersion as string | undefined;
   const headers = config.headers as Record<string, string> | undefined;
@@ -255,6 +280,7 @@ function registerCustomAnthropic(config: Record<string, unknown>): void {
       maxTokens: m.maxTokens ?? 8192,
       supportsVision: m.supportsVision ?? false,
       supportsReasoning: false,
+      cost: m.cost,
     };
     const model = buildAnthropicModel(m.id, modelDef, baseUrl, "custom-anthropic", apiVersion, headers);
     modelRegistry.set(`custom-anthropic:${m.id}`, { model, providerId: "custom-anthropic" });
@@ -265,6 +291,7 @@ function registerCustomAnthropic(config: Record<string, unknown>): void {
 export function initModelResolver(config: MoziConfig): void {
   modelRegistry.clear();
   providerConfigs = config.providers as Record<string, SimpleProviderConfig>;
+  configureFailover(config.agent?.failover);
 
   const chinaProviders = ["deepseek", "doubao", "kimi", "stepfun", "minimax", "modelscope", "dashscope", "zhipu"];
 
@@ -378,3 +405,153 @@ export function isProviderAvailable(providerId: ProviderId): boolean {
   if (providerId === "ollama" || providerId === "vllm") return true;
   return !!config.apiKey;
 }
+
+// ============== 故障转移 ==============
+
+/** 故障转移候选模型 */
+export interface ModelCandidate {
+  provider: ProviderId;
+  model: string;
+}
+
+/** 熔断状态: closed 正常 / open 熔断中 / half-open 放行试探请求 */
+export type CircuitState = "closed" | "open" | "half-open";
+
+/** 提供商健康状态 */
+export interface ProviderHealth {
+  provider: string;
+  state: CircuitState;
+  /** 连续失败次数 */
+  consecutiveFailures: number;
+  /** 冷却或熔断结束时间 (0 表示可用) */
+  unavailableUntil: number;
+  lastError?: string;
+}
+
+/** 故障转移默认参数 */
+const FAILOVER_DEFAULTS = {
+  maxRetries: 2,
+  baseDelayMs: 1000,
+  maxDelayMs: 30_000,
+  cooldownMs: 60_000,
+  failureThreshold: 5,
+  circuitOpenMs: 300_000,
+};
+
+/**
+ * 可重试错误 (限流、过载、服务端错误、网络错误)
+ * 状态码只按状态码的写法匹配 (消息开头、"status 500"、"(503)")，避免 "max 500 tokens" 之类的误判
+ */
+const RETRYABLE_ERROR_PATTERN =
+  /^\s*(?:error:?\s*)?(429|500|502|503|504)\b|\b(?:status(?:\s*code)?|http)[\s:=]*(429|500|502|503|504)\b|\((429|500|502|503|504)\)|rate.?limit|too many requests|overloaded|service.?unavailable|server.?error|internal.?error|network.?error|connection.?(error|refused|reset)|fetch failed|socket hang up|timed? out|timeout|ECONNRESET|ECONNREFUSED/i;
+
+let failoverConfig: ModelFailoverConfig = {};
+const providerHealth = new Map<string, ProviderHealth>();
+
+/** 设置故障转移配置 */
+export function configureFailover(config: ModelFailoverConfig | undefined): void {
+  failoverConfig = config ?? {};
+}
+
+/** 获取生效的故障转移参数 */
+export function getFailoverSettings(): Required<Omit<ModelFailoverConfig, "fallbacks">> {
+  return {
+    maxRetries: failoverConfig.maxRetries ?? FAILOVER_DEFAULTS.maxRetries,
+    baseDelayMs: failoverConfig.baseDelayMs ?? FAILOVER_DEFAULTS.baseDelayMs,
+    maxDelayMs: failoverConfig.maxDelayMs ?? FAILOVER_DEFAULTS.maxDelayMs,
+    cooldownMs: failoverConfig.cooldownMs ?? FAILOVER_DEFAULTS.cooldownMs,
+    failureThreshold: failoverConfig.failureThreshold ?? FAILOVER_DEFAULTS.failureThreshold,
+    circuitOpenMs: failoverConfig.circuitOpenMs ?? FAILOVER_DEFAULTS.circuitOpenMs,
+  };
+}
+
+/** 判断错误是否可重试 */
+export function isRetryableProviderError(message: string): boolean {
+  return RETRYABLE_ERROR_PATTERN.test(message);
+}
+
+/** 计算第 attempt 次重试前的退避延迟 (从 0 开始) */
+export function getRetryDelay(attempt: number): number {
+  const { baseDelayMs, maxDelayMs } = getFailoverSettings();
+  return Math.min(baseDelayMs * 2 ** attempt, maxDelayMs);
+}
+
+/** 获取或创建提供商健康状态 */
+function getHealth(provider: string): ProviderHealth {
+  let health = providerHealth.get(provider);
+  if (!health) {
+    health = { provider, state: "closed", consecutiveFailures: 0, unavailableUntil: 0 };
+    providerHealth.set(provider, health);
+  }
+  return health;
+}
+
+/** 提供商当前是否可用 (熔断到期后转为 half-open 放行试探请求) */
+export function isProviderHealthy(provider: string): boolean {
+  const health = providerHealth.get(provider);
+  if (!health || Date.now() >= health.unavailableUntil) {
+    if (health?.state === "open") {
+      health.state = "half-open";
+      logger.info({ provider }, "Circuit half-open, allowing trial request");
+    }
+    return true;
+  }
+  return false;
+}
+
+/** 记录请求成功 (关闭熔断) */
+export function reportProviderSuccess(provider: string): void {
+  const health = providerHealth.get(provider);
+  if (!health || (health.state === "closed" && health.consecutiveFailures === 0)) return;
+
+  if (health.state !== "closed") {
+    logger.info({ provider }, "Circuit closed");
+  }
+  providerHealth.set(provider, { provider, state: "closed", consecutiveFailures: 0, unavailableUntil: 0 });
+}
+
+/** 记录请求失败，连续失败达到阈值或试探请求失败时熔断 */
+export function reportProviderFailure(provider: string, error: string): void {
+  const { failureThreshold, circuitOpenMs } = getFailoverSettings();
+  const health = getHealth(provider);
+  health.consecutiveFailures++;
+  health.lastError = error;
+
+  if (health.state === "half-open" || health.consecutiveFailures >= failureThreshold) {
+    health.state = "open";
+    health.unavailableUntil = Date.now() + circuitOpenMs;
+    logger.warn({ provider, failures: health.consecutiveFailures, error }, "Circuit opened");
+  }
+}
+
+/** 重试耗尽后让提供商进入冷却 */
+export function markProviderCooldown(provider: string): void {
+  const { cooldownMs } = getFailoverSettings();
+  const health = getHealth(provider);
+  health.unavailableUntil = Math.max(health.unavailableUntil, Date.now() + cooldownMs);
+  logger.warn({ provider, cooldownMs }, "Provider cooling down");
+}
+
+/**
+ * 获取故障转移链: 主模型 + 备用模型，跳过冷却或熔断中的提供商
+ * 全部不可用时仍返回主模型
+ */
+export function getFailoverChain(primary: ModelCandidate): ModelCandidate[] {
+  const candidates = [primary, ...(failoverConfig.fallbacks ?? [])].filter(
+    (candidate, index, all) =>
+      all.findIndex((c) => c.provider === candidate.provider && c.model === candidate.model) === index
+  );
+  const available = candidates.filter((c) => isProviderHealthy(c.provider));
+  return available.length > 0 ? available : [primary];
+}
+
+/** 获取所有提供商的健康状态 */
+export function getProviderHealth(): ProviderHealth[] {
+  return Array.from(providerHealth.values(), (health) => ({ ...health }));
+}
+
+/** 重置故障转移状态 (测试用) */
+export function resetFailover(): void {
+  failoverConfig = {};
+  providerHealth.clear();
+}
@@ -60,6 +60,8 @@ export interface TranscriptMessage {
   tool_calls?: ChatMessage["tool_calls"];
   /** 工具调用 ID */
   tool_call_id?: string;
+  /** 工具名称 (tool 消息) */
+  name?: string;
   /** Token 使用量 */
   usage?: {
     promptTokens?: number;
@@ -70,6 +72,13 @@ export interface TranscriptMessage {
   model?: string;
   /** 提供商 */
   provider?: string;
+  /** 上下文压缩记录 (role 为 system，content 为摘要) */
+  compaction?: {
+    /** 压缩前的 token 数 */
+    tokensBefore: number;
+    /** 压缩后保留的最近消息数 */
+    keptMessages: number;
+  };
 }
 
 /** 转录文件头 */
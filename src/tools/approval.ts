@@ -0,0 +1,377 @@
+/**
+ * 工具审批 (Human-in-the-loop)
+ *
+ * 对配置的危险工具在执行前暂停，向来源通道发送确认请求，
+ * 根据回复继续执行或拒绝；支持超时、会话内始终允许与审计日志
+ */
+
+import crypto from "crypto";
+import { join, dirname } from "path";
+import * as os from "os";
+import * as fs from "fs";
+import type { AgentTool } from "@mariozechner/pi-agent-core";
+import type { InboundMessageContext, ToolApprovalConfig } from "../types/index.js";
+import { matchToolPatterns } from "./registry.js";
+import { getAccessController } from "../access/control.js";
+import { errorResult } from "./common.js";
+import { getChildLogger } from "../utils/logger.js";
+
+const logger = getChildLogger("approval");
+
+/** 默认需要审批的工具 */
+export const DEFAULT_APPROVAL_TOOLS = ["bash", "write_file", "edit_file", "apply_patch", "browser:evaluate"];
+
+/** 默认超时时间 (秒) */
+const DEFAULT_TIMEOUT_SECONDS = 120;
+
+/** 审计日志内存保留条数 */
+const AUDIT_LOG_MAX_SIZE = 500;
+
+/** 审批请求 */
+export interface ApprovalRequest {
+  id: string;
+  toolName: string;
+  toolCallId: string;
+  args: Record<string, unknown>;
+  /** 参数摘要 (用于提示展示) */
+  argsPreview: string;
+  sessionKey: string;
+  /** 触发工具调用的原始消息 */
+  context: InboundMessageContext;
+  createdAt: number;
+  expiresAt: number;
+}
+
+/** 审批结果 */
+export type ApprovalDecision = "approved" | "always" | "rejected" | "timeout" | "cancelled" | "unavailable";
+
+/** 审计记录 */
+export interface ApprovalAuditEntry {
+  id: string;
+  toolName: string;
+  argsPreview: string;
+  sessionKey: string;
+  channelId: string;
+  chatId: string;
+  requestedBy: string;
+  decision: ApprovalDecision;
+  /** 做出决定的用户 (超时/取消时为空) */
+  decidedBy?: string;
+  createdAt: number;
+  decidedAt: number;
+}
+
+/** 确认提示发送器 (由各通道注册) */
+export type ApprovalPrompter = (request: ApprovalRequest) => Promise<void>;
+
+/** 审批结果监听器 (用于通道更新提示状态) */
+export type ApprovalListener = (request: ApprovalRequest, decision: ApprovalDecision) => void;
+
+/** 审批答复者 */
+export interface ApprovalResponder {
+  channelId: string;
+  chatId: string;
+  senderId: string;
+}
+
+/** 待处理的审批 */
+interface PendingApproval {
+  request: ApprovalRequest;
+  resolve: (decision: ApprovalDecision, decidedBy?: string) => void;
+}
+
+let approvalConfig: ToolApprovalConfig | undefined;
+const prompters = new Map<string, ApprovalPrompter>();
+const listeners: ApprovalListener[] = [];
+const pendingApprovals = new Map<string, PendingApproval>();
+/** 会话内已始终允许的工具: sessionKey -> toolNames */
+const sessionAllowances = new Map<string, Set<string>>();
+const auditLog: ApprovalAuditEntry[] = [];
+
+/** 设置审批配置 */
+export function configureApprovals(config: ToolApprovalConfig | undefined): void {
+  approvalConfig = config;
+}
+
+/** 审批是否启用 */
+export function isApprovalEnabled(): boolean {
+  return !!approvalConfig && approvalConfig.enabled !== false;
+}
+
+/** 注册通道的确认提示发送器 */
+export function registerApprovalPrompter(channelId: string, prompter: ApprovalPrompter): void {
+  prompters.set(channelId, prompter);
+}
+
+/** 注销通道的确认提示发送器 */
+export function unregisterApprovalPrompter(channelId: string): void {
+  prompters.delete(channelId);
+}
+
+/** 监听审批结果，返回取消监听函数 */
+export function onApprovalResolved(listener: ApprovalListener): () => void {
+  listeners.push(listener);
+  return () => {
+    const index = listeners.indexOf(listener);
+    if (index !== -1) listeners.splice(index, 1);
+  };
+}
+
+/**
+ * 检查工具调用是否需要审批
+ * 模式 "工具:action" 仅匹配 args.action 相同的调用 (如 browser:evaluate)
+ */
+export function requiresApproval(toolName: string, args: Record<string, unknown> = {}): boolean {
+  if (!isApprovalEnabled()) return false;
+
+  const patterns = approvalConfig?.tools ?? DEFAULT_APPROVAL_TOOLS;
+  return patterns.some((pattern) => {
+    const separator = pattern.indexOf(":");
+    if (separator === -1 || pattern.startsWith("group:")) {
+      return matchToolPatterns(toolName, [pattern]);
+    }
+    const action = pattern.slice(separator + 1);
+    return matchToolPatterns(toolName, [pattern.slice(0, separator)]) && args.action === action;
+  });
+}
+
+/** 生成参数摘要 */
+function buildArgsPreview(args: Record<string, unknown>): string {
+  const text = JSON.stringify(args ?? {});
+  return text.length > 300 ? text.slice(0, 300) + "…" : text;
+}
+
+/** 格式化文本确认提示 (用于不支持卡片的通道) */
+export function formatApprovalPrompt(request: ApprovalRequest): string {
+  const timeoutSeconds = Math.round((request.expiresAt - request.createdAt) / 1000);
+  return [
+    `⚠️ 需要确认: 工具 ${request.toolName} 请求执行`,
+    `参数: ${request.argsPreview}`,
+    "",
+    `回复 /approve ${request.id} 批准`,
+    `回复 /approve ${request.id} always 本会话内始终允许`,
+    `回复 /reject ${request.id} 拒绝`,
+    `(${timeoutSeconds} 秒内未答复将自动拒绝)`,
+  ].join("\n");
+}
+
+/** 生成短审批 ID (便于在聊天中输入) */
+function generateApprovalId(): string {
+  let id: string;
+  do {
+    id = crypto.randomBytes(3).toString("hex");
+  } while (pendingApprovals.has(id));
+  return id;
+}
+
+/** 写入审计记录 */
+function recordAudit(entry: ApprovalAuditEntry): void {
+  auditLog.push(entry);
+  if (auditLog.length > AUDIT_LOG_MAX_SIZE) {
+    auditLog.shift();
+  }
+
+  logger.info(
+    { id: entry.id, toolName: entry.toolName, decision: entry.decision, decidedBy: entry.decidedBy },
+    "Tool approval decided"
+  );
+
+  const auditFile = approvalConfig?.auditFile ?? join(os.homedir(), ".mozi", "approvals.jsonl");
+  try {
+    fs.mkdirSync(dirname(auditFile), { recursive: true });
+    fs.appendFileSync(auditFile, JSON.stringify(entry) + "\n");
+  } catch (error) {
+    logger.error({ error, auditFile }, "Failed to write approval audit");
+  }
+}
+
+/**
+ * 请求审批，等待用户答复、超时或取消
+ * 已在会话内始终允许的工具直接通过
+ */
+export async function requestApproval(params: {
+  toolName: string;
+  toolCallId: string;
+  args: Record<string, unknown>;
+  sessionKey: string;
+  context?: InboundMessageContext;
+  signal?: AbortSignal;
+}): Promise<ApprovalDecision> {
+  const { toolName, toolCallId, args, sessionKey, context, signal } = params;
+
+  if (sessionAllowances.get(sessionKey)?.has(toolName)) {
+    return "approved";
+  }
+  if (!context) {
+    logger.warn({ toolName, sessionKey }, "No message context for approval");
+    return "unavailable";
+  }
+
+  const now = Date.now();
+  const timeoutMs = (approvalConfig?.timeoutSeconds ?? DEFAULT_TIMEOUT_SECONDS) * 1000;
+  const request: ApprovalRequest = {
+    id: generateApprovalId(),
+    toolName,
+    toolCallId,
+    args,
+    argsPreview: buildArgsPreview(args),
+    sessionKey,
+    context,
+    createdAt: now,
+    expiresAt: now + timeoutMs,
+  };
+
+  const finish = (decision: ApprovalDecision, decidedBy?: string): ApprovalDecision => {
+    if (decision === "always") {
+      const allowed = sessionAllowances.get(sessionKey) ?? new Set<string>();
+      allowed.add(toolName);
+      sessionAllowances.set(sessionKey, allowed);
+    }
+    recordAudit({
+      id: request.id,
+      toolName,
+      argsPreview: request.argsPreview,
+      sessionKey,
+      channelId: request.context.channelId,
+      chatId: request.context.chatId,
+      requestedBy: request.context.senderId,
+      decision,
+      decidedBy,
+      createdAt: request.createdAt,
+      decidedAt: Date.now(),
+    });
+    for (const listener of listeners) {
+      try {
+        listener(request, decision);
+      } catch (error) {
+        logger.error({ error, id: request.id }, "Approval listener error");
+      }
+    }
+    return decision;
+  };
+
+  const prompter = prompters.get(context.channelId);
+  if (!prompter) {
+    logger.warn({ toolName, sessionKey, channelId: context.channelId }, "No approval prompter available");
+    return finish("unavailable");
+  }
+
+  const decision = new Promise<{ decision: ApprovalDecision; decidedBy?: string }>((resolve) => {
+    const timer = setTimeout(() => settle("timeout"), timeoutMs);
+    const onAbort = () => settle("cancelled");
+
+    function settle(result: ApprovalDecision, decidedBy?: string): void {
+      if (!pendingApprovals.delete(request.id)) return;
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+      resolve({ decision: result, decidedBy });
+    }
+
+    pendingApprovals.set(request.id, { request, resolve: settle });
+    if (signal?.aborted) {
+      settle("cancelled");
+    } else {
+      signal?.addEventListener("abort", onAbort, { once: true });
+    }
+  });
+
+  try {
+    await prompter(request);
+  } catch (error) {
+    logger.error({ error, id: request.id, channelId: request.context.channelId }, "Failed to send approval prompt");
+    pendingApprovals.get(request.id)?.resolve("unavailable");
+  }
+
+  const result = await decision;
+  return finish(result.decision, result.decidedBy);
+}
+
+/**
+ * 答复审批请求
+ * 只接受发起请求的用户或访问控制管理员在同一通道、同一聊天中的答复
+ */
+export function resolveApproval(
+  id: string,
+  decision: "approved" | "always" | "rejected",
+  responder: ApprovalResponder
+): { success: true; request: ApprovalRequest } | { success: false; error: string } {
+  const pending = pendingApprovals.get(id.trim().toLowerCase());
+  if (!pending) {
+    return { success: false, error: `审批请求不存在或已过期: ${id}` };
+  }
+
+  const { context } = pending.request;
+  if (context.channelId !== responder.channelId || context.chatId !== responder.chatId) {
+    return { success: false, error: "只能在发起请求的会话中答复审批" };
+  }
+  if (responder.senderId !== context.senderId && !getAccessController().isAdmin(context.channelId, responder.senderId)) {
+    return { success: false, error: "只有发起请求的用户或管理员可以答复审批" };
+  }
+
+  pending.resolve(decision, responder.senderId);
+  return { success: true, request: pending.request };
+}
+
+/** 获取待处理的审批请求 */
+export function getPendingApprovals(sessionKey?: string): ApprovalRequest[] {
+  const requests = Array.from(pendingApprovals.values()).map((p) => p.request);
+  return sessionKey ? requests.filter((r) => r.sessionKey === sessionKey) : requests;
+}
+
+/** 获取最近的审计记录 */
+export function getApprovalAuditLog(limit = 50): ApprovalAuditEntry[] {
+  return auditLog.slice(-limit);
+}
+
+/** 清除会话内的始终允许记录 */
+export function clearSessionApprovals(sessionKey: string): void {
+  sessionAllowances.delete(sessionKey);
+}
+
+/** 包装工具: 需要审批的调用在执行前等待确认 */
+export function wrapToolWithApproval(
+  tool: AgentTool,
+  getScope: () => { sessionKey: string; context?: InboundMessageContext }
+): AgentTool {
+  return {
+    ...tool,
+    execute: async (toolCallId, params, signal, onUpdate) => {
+      const args = (params ?? {}) as Record<string, unknown>;
+      if (!requiresApproval(tool.name, args)) {
+        return tool.execute(toolCallId, params, signal, onUpdate);
+      }
+
+      const decision = await requestApproval({
+        toolName: tool.name,
+        toolCallId,
+        args,
+        signal,
+        ...getScope(),
+      });
+
+      if (decision === "approved" || decision === "always") {
+        return tool.execute(toolCallId, params, signal, onUpdate);
+      }
+
+      const reasons: Record<string, string> = {
+        rejected: "用户拒绝执行该工具",
+        timeout: "等待用户确认超时，未执行该工具",
+        cancelled: "请求已取消，未执行该工具",
+        unavailable: "当前通道无法请求用户确认，未执行该工具",
+      };
+      return errorResult(reasons[decision] ?? "未执行该工具");
+    },
+  };
+}
+
+/** 重置审批状态 (测试用) */
+export function resetApprovals(): void {
+  for (const pending of pendingApprovals.values()) {
+    pending.resolve("cancelled");
+  }
+  approvalConfig = undefined;
+  prompters.clear();
+  listeners.length = 0;
+  sessionAllowances.clear();
+  auditLog.length = 0;
+}
@@ -8,6 +8,7 @@
 import { Type } from "@sinclair/typebox";
 import type { AgentTool, AgentToolResult } from "@mariozechner/pi-agent-core";
 import { jsonResult, errorResult, readStringParam, readNumberParam, readBooleanParam } from "../common.js";
+import { getMediaCache } from "../../media/cache.js";
 
 // 浏览器会话状态
 interface BrowserSession {
@@ -123,7 +124,8 @@ export function createBrowserTool(): AgentTool {
     label: "Browser Control",
     description: `Control a browser for web automation tasks.
 Actions: start, stop, navigate, screenshot, snapshot, click, type, hover, drag, press, select, scroll, evaluate, wait, fill
-Element Reference: After 'snapshot', use refs like 'e1', 'e2' for interactions.`,
+Element Reference: After 'snapshot', use refs like 'e1', 'e2' for interactions.
+Screenshots are saved to a local file; use 'send_file' with the returned path to show them to the user.`,
     parameters: Type.Object({
       action: Type.String({ description: "Action: start, stop, navigate, screenshot, snapshot, click, type, hover, drag, press, select, scroll, evaluate, wait, fill" }),
       url: Type.Optional(Type.String({ description: "URL for navigate action" })),
@@ -231,7 +233,9 @@ async function takeScreenshot(params: Record<string, unknown>, timeout: number):
   } else {
     buffer = await page.screenshot({ fullPage, type: "png" });
   }
-  return jsonResult({ status: "screenshot_taken", fullPage, size: buffer.length, dataUrl: `data:image/png;base64,${buffer.toString("base64")}` });
+  // 保存到媒体缓存，可通过 send_file 发送给用户
+  const saved = getMediaCache().save(buffer, { channelId: "browser", type: "image", mimeType: "image/png" });
+  return jsonResult({ status: "screenshot_taken", fullPage, size: buffer.length, path: saved.path });
 }
 
 async function getSnapshot(params: Record<string, unknown>, timeout: number): Promise<AgentToolResult<unknown>> {
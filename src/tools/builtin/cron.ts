@@ -2,15 +2,40 @@
  * 定时任务工具
  */
 
+import { randomBytes } from "crypto";
 import { Type } from "@sinclair/typebox";
 import type { AgentTool, AgentToolResult } from "@mariozechner/pi-agent-core";
-import type { CronService } from "../../cron/service.js";
-import type { CronSchedule, CronJobCreate, CronPayload } from "../../cron/types.js";
+import { getCronJobOwner, isOwnedBy, type CronService } from "../../cron/service.js";
+import type { CronSchedule, CronJob, CronJobCreate, CronJobOwner, CronPayload } from "../../cron/types.js";
 import { TIME_CONSTANTS } from "../../cron/types.js";
-import { formatSchedule, validateCronExpr } from "../../cron/schedule.js";
+import { formatSchedule, isEventSchedule, validateCronExpr, validateSchedule } from "../../cron/schedule.js";
+import { getKnownChannelIds, hasChannel } from "../../channels/common/index.js";
+import { getAccessController } from "../../access/control.js";
+import { getToolContext } from "../context.js";
 
 export interface CronToolsOptions { service: CronService; }
 
+/** 不在会话中调用时的结果 (没有归属不能访问任务) */
+const NO_OWNER_RESULT: AgentToolResult<unknown> = { content: [{ type: "text", text: "错误: 定时任务只能在会话中管理" }], details: { error: "no_owner" } };
+
+/** 当前会话对应的任务归属 (WebChat 按会话 ID 区分，不在会话中时没有归属) */
+function getCurrentOwner(): CronJobOwner | undefined {
+  const context = getToolContext()?.context;
+  return context ? getCronJobOwner(context) : undefined;
+}
+
+/** 当前聊天是否为已注册的通道 (可以投递结果与监听消息，WebChat 等会话不可以) */
+function isChannelChat(owner: CronJobOwner): boolean {
+  return hasChannel(owner.channel, owner.accountId);
+}
+
+/** 获取当前用户可见的任务 */
+function findJob(service: CronService, jobId: string): CronJob | undefined {
+  const job = service.get(jobId);
+  const owner = getCurrentOwner();
+  return job && owner && isOwnedBy(job, owner) ? job : undefined;
+}
+
 export function createCronTools(options: CronToolsOptions): AgentTool[] {
   const { service } = options;
   return [createCronListTool(service), createCronAddTool(service), createCronRemoveTool(service), createCronRunTool(service), createCronUpdateTool(service)];
@@ -20,11 +45,13 @@ function createCronListTool(service: CronService): AgentTool {
   return {
     name: "cron_list",
     label: "列出定时任务",
-    description: "列出所有定时任务",
+    description: "列出定时任务 (在聊天中只列出当前用户创建的任务)",
     parameters: Type.Object({ includeDisabled: Type.Optional(Type.Boolean({ description: "包含已禁用任务" })) }),
     execute: async (_toolCallId, args): Promise<AgentToolResult<unknown>> => {
       const { includeDisabled = false } = args as { includeDisabled?: boolean };
-      const jobs = includeDisabled ? service.list({ includeDisabled: true }) : service.list();
+      const owner = getCurrentOwner();
+      if (!owner) return NO_OWNER_RESULT;
+      const jobs = service.list({ includeDisabled, owner });
       if (jobs.length === 0) return { content: [{ type: "text", text: "没有定时任务" }], details: {} };
       const lines = jobs.map(job => `${job.enabled ? "✅" : "❌"} **${job.name}** (ID: ${job.id})\n   调度: ${formatSchedule(job.schedule)}\n   下次执行: ${job.state.nextRunAtMs ? new Date(job.state.nextRunAtMs).toLocaleString("zh-CN") : "无"}`);
       return { content: [{ type: "text", text: `定时任务列表 (共 ${jobs.length} 个):\n\n${lines.join("\n\n")}` }], details: { count: jobs.length } };
@@ -36,16 +63,19 @@ function createCronAddTool(service: CronService): AgentTool {
   return {
     name: "cron_add",
     label: "添加定时任务",
-    description: "添加一个定时任务。支持 at/every/cron 调度类型。",
+    description: "添加一个定时任务。支持 at/every/cron 调度，以及事件触发: webhook (POST /hooks/<任务ID>)、fileWatch (工作目录内文件变化)、messageMatch (当前聊天中的消息匹配正则)。在聊天中创建时默认为 agentTurn，执行结果发回当前聊天。",
     parameters: Type.Object({
       name: Type.String({ description: "任务名称" }),
-      scheduleType: Type.Union([Type.Literal("at"), Type.Literal("every"), Type.Literal("cron")], { description: "调度类型" }),
+      scheduleType: Type.Union([Type.Literal("at"), Type.Literal("every"), Type.Literal("cron"), Type.Literal("webhook"), Type.Literal("fileWatch"), Type.Literal("messageMatch")], { description: "调度类型" }),
       atTime: Type.Optional(Type.String({ description: "一次性任务执行时间 (ISO 8601)" })),
       everyMs: Type.Optional(Type.Number({ description: "周期任务间隔(毫秒)" })),
       everyUnit: Type.Optional(Type.Union([Type.Literal("seconds"), Type.Literal("minutes"), Type.Literal("hours"), Type.Literal("days")], { description: "时间单位" })),
       everyValue: Type.Optional(Type.Number({ description: "时间值" })),
       cronExpr: Type.Optional(Type.String({ description: "Cron 表达式" })),
       cronTz: Type.Optional(Type.String({ description: "时区" })),
+      watchPath: Type.Optional(Type.String({ description: "fileWatch 监听路径 (相对工作目录)" })),
+      pattern: Type.Optional(Type.String({ description: "messageMatch 正则表达式" })),
+      patternFlags: Type.Optional(Type.String({ description: "messageMatch 正则标志 (如 i)" })),
       message: Type.String({ description: "任务消息内容" }),
       payloadType: Type.Optional(Type.Union([Type.Literal("systemEvent"), Type.Literal("agentTurn")], { description: "任务类型" })),
       deliver: Type.Optional(Type.Boolean({ description: "投递结果到通道" })),
@@ -55,12 +85,22 @@ function createCronAddTool(service: CronService): AgentTool {
       timeoutSeconds: Type.Optional(Type.Number({ description: "超时时间(秒)" })),
     }),
     execute: async (_toolCallId, args): Promise<AgentToolResult<unknown>> => {
-      const { name, scheduleType, atTime, everyMs, everyUnit, everyValue, cronExpr, cronTz, message, payloadType = "systemEvent", deliver, channel, to, model, timeoutSeconds } = args as any;
+      const owner = getCurrentOwner();
+      if (!owner) return NO_OWNER_RESULT;
+      const inChat = isChannelChat(owner);
+      const { name, scheduleType, atTime, everyMs, everyUnit, everyValue, cronExpr, cronTz, watchPath, pattern, patternFlags, message, payloadType = inChat ? "agentTurn" : "systemEvent", model, timeoutSeconds } = args as any;
+      // 在聊天中创建的 agentTurn 任务默认投递回当前聊天
+      const { deliver = inChat ? true : undefined, channel = inChat ? owner.channel : undefined, to = inChat ? owner.chatId : undefined } = args as any;
+      const accountId = channel === owner.channel ? owner.accountId : undefined;
 
       // Validate agentTurn parameters
       if (payloadType === "agentTurn") {
+        // 只有管理员可以投递到其他聊天
+        if (deliver && (channel !== owner.channel || to !== owner.chatId) && !getAccessController().isAdmin(owner.channel, owner.senderId)) {
+          return { content: [{ type: "text", text: "错误: 只能投递到当前聊天，投递到其他聊天需要管理员权限" }], details: { error: "delivery_not_allowed" } };
+        }
         if (deliver && channel) {
-          const validChannels = ["dingtalk", "feishu", "qq", "wecom", "webchat"];
+          const validChannels = getKnownChannelIds();
           if (!validChannels.includes(channel)) {
             return { content: [{ type: "text", text: `错误: 无效的通道 "${channel}"，有效通道: ${validChannels.join(", ")}` }], details: { error: "invalid_channel" } };
           }
@@ -84,28 +124,41 @@ function createCronAddTool(service: CronService): AgentTool {
         }
         if (!intervalMs || intervalMs <= 0) return { content: [{ type: "text", text: "错误: 需要有效的间隔时间" }], details: { error: "invalid_interval" } };
         schedule = { kind: "every", everyMs: intervalMs };
+      } else if (scheduleType === "webhook") {
+        schedule = { kind: "webhook", secret: randomBytes(24).toString("hex") };
+      } else if (scheduleType === "fileWatch") {
+        if (!watchPath) return { content: [{ type: "text", text: "错误: 需要 watchPath 参数" }], details: { error: "missing_watchPath" } };
+        schedule = { kind: "fileWatch", path: watchPath };
+      } else if (scheduleType === "messageMatch") {
+        // 只能监听当前聊天
+        if (!inChat) return { content: [{ type: "text", text: "错误: messageMatch 只能在聊天中创建" }], details: { error: "no_chat" } };
+        if (!pattern) return { content: [{ type: "text", text: "错误: 需要 pattern 参数" }], details: { error: "missing_pattern" } };
+        schedule = { kind: "messageMatch", pattern, flags: patternFlags, channel: owner.channel, accountId: owner.accountId, chatId: owner.chatId };
       } else {
         if (!cronExpr) return { content: [{ type: "text", text: "错误: 需要 cronExpr 参数" }], details: { error: "missing_cronExpr" } };
         const validation = validateCronExpr(cronExpr);
         if (!validation.valid) return { content: [{ type: "text", text: `错误: Cron 表达式无效 - ${validation.error}` }], details: { error: "invalid_cron" } };
         schedule = { kind: "cron", expr: cronExpr, tz: cronTz };
       }
+      const scheduleValidation = isEventSchedule(schedule) ? validateSchedule(schedule) : { valid: true };
+      if (!scheduleValidation.valid) return { content: [{ type: "text", text: `错误: 调度无效 - ${scheduleValidation.error}` }], details: { error: "invalid_schedule" } };
 
       let payload: CronPayload;
       let typeDesc: string;
       if (payloadType === "agentTurn") {
-        payload = { kind: "agentTurn", message, model, timeoutSeconds, deliver, channel, to };
+        payload = { kind: "agentTurn", message, model, timeoutSeconds, deliver, channel, to, accountId };
         typeDesc = "Agent 执行";
         if (deliver && channel) {
-          typeDesc += ` → 投递到 ${channel}:${to}`;
+          typeDesc += ` → 投递到 ${accountId ? `${channel}:${accountId}` : channel}:${to}`;
         }
       } else {
         payload = { kind: "systemEvent", message };
         typeDesc = "系统事件";
       }
 
-      const job = service.add({ name, schedule, payload } as CronJobCreate);
-      return { content: [{ type: "text", text: `定时任务已创建:\n- ID: ${job.id}\n- 名称: ${job.name}\n- 类型: ${typeDesc}\n- 调度: ${formatSchedule(job.schedule)}` }], details: { jobId: job.id } };
+      const job = service.add({ name, schedule, payload, owner } as CronJobCreate);
+      const webhookDesc = schedule.kind === "webhook" ? `\n- 触发: POST /hooks/${job.id}，请求头 X-Mozi-Secret: ${schedule.secret}` : "";
+      return { content: [{ type: "text", text: `定时任务已创建:\n- ID: ${job.id}\n- 名称: ${job.name}\n- 类型: ${typeDesc}\n- 调度: ${formatSchedule(job.schedule)}${webhookDesc}` }], details: { jobId: job.id } };
     },
   };
 }
@@ -118,7 +171,7 @@ function createCronRemoveTool(service: CronService): AgentTool {
     parameters: Type.Object({ jobId: Type.String({ description: "任务 ID" }) }),
     execute: async (_toolCallId, args): Promise<AgentToolResult<unknown>> => {
       const { jobId } = args as { jobId: string };
-      const job = service.get(jobId);
+      const job = findJob(service, jobId);
       if (!job) return { content: [{ type: "text", text: `错误: 找不到任务 ${jobId}` }], details: { error: "not_found" } };
       const removed = service.remove(jobId);
       if (!removed) return { content: [{ type: "text", text: "错误: 删除失败" }], details: { error: "remove_failed" } };
@@ -135,6 +188,7 @@ function createCronRunTool(service: CronService): AgentTool {
     parameters: Type.Object({ jobId: Type.String({ description: "任务 ID" }) }),
     execute: async (_toolCallId, args): Promise<AgentToolResult<unknown>> => {
       const { jobId } = args as { jobId: string };
+      if (!findJob(service, jobId)) return { content: [{ type: "text", text: `错误: 找不到任务 ${jobId}` }], details: { error: "not_found" } };
       const result = await service.run(jobId);
       if (result.status === "ok") return { content: [{ type: "text", text: "任务执行成功" }], details: {} };
       if (result.status === "not_found") return { content: [{ type: "text", text: `错误: 找不到任务 ${jobId}` }], details: { error: "not_found" } };
@@ -159,7 +213,7 @@ function createCronUpdateTool(service: CronService): AgentTool {
       if (name !== undefined) updates.name = name;
       if (enabled !== undefined) updates.enabled = enabled;
       if (Object.keys(updates).length === 0) return { content: [{ type: "text", text: "错误: 没有要更新的字段" }], details: { error: "no_updates" } };
-      const job = service.update(jobId, updates);
+      const job = findJob(service, jobId) && service.update(jobId, updates);
       if (!job) return { content: [{ type: "text", text: `错误: 找不到任务 ${jobId}` }], details: { error: "not_found" } };
       return { content: [{ type: "text", text: `定时任务已更新:\n- ID: ${job.id}\n- 名称: ${job.name}\n- 状态: ${job.enabled ? "已启用" : "已禁用"}` }], details: {} };
     },
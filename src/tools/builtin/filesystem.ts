@@ -23,7 +23,8 @@ const DEFAULT_OPTIONS: Required<FilesystemToolsOptions> = {
   maxLines: 2000,
 };
 
-function isPathAllowed(filePath: string, allowedPaths: string[]): boolean {
+/** 路径是否位于允许的目录内 */
+export function isPathAllowed(filePath: string, allowedPaths: string[]): boolean {
   const resolved = resolve(filePath);
   return allowedPaths.some((allowed) => {
     const resolvedAllowed = resolve(allowed);
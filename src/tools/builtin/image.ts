@@ -31,6 +31,103 @@ function getMimeType(filePath: string): string {
   return mimeTypes[ext] ?? "image/jpeg";
 }
 
+/** 图片分析结果 */
+export interface ImageAnalysis {
+  provider: ProviderId;
+  model: string;
+  analysis: string;
+}
+
+/** 解析图片来源 (URL、data URL、文件路径或 base64) 为 base64 数据 */
+async function loadImage(image: string): Promise<{ data: string; mimeType: string }> {
+  if (image.startsWith("http://") || image.startsWith("https://")) {
+    const response = await fetch(image);
+    if (!response.ok) {
+      throw new Error(`Failed to download image: ${response.status}`);
+    }
+    const mimeType = response.headers.get("content-type")?.split(";")[0] || "image/jpeg";
+    return { data: Buffer.from(await response.arrayBuffer()).toString("base64"), mimeType };
+  }
+  if (image.startsWith("data:")) {
+    const match = image.match(/^data:([^;]+);base64,(.+)$/);
+    if (!match) {
+      throw new Error("Invalid data URL format");
+    }
+    return { data: match[2]!, mimeType: match[1]! };
+  }
+  if (existsSync(image)) {
+    return { data: readFileSync(image).toString("base64"), mimeType: getMimeType(image) };
+  }
+  if (/^[A-Za-z0-9+/=]+$/.test(image) && image.length > 100) {
+    return { data: image, mimeType: "image/jpeg" };
+  }
+  throw new Error("Invalid image source. Provide a URL, file path, or base64 data.");
+}
+
+/** 使用支持视觉的模型分析图片 */
+export async function analyzeImage(
+  image: string,
+  options: ImageAnalyzeToolOptions & { prompt?: string; provider?: ProviderId; model?: string } = {}
+): Promise<ImageAnalysis> {
+  const prompt = options.prompt ?? "请详细描述这张图片的内容。";
+  const imageData = await loadImage(image);
+
+  // 查找支持视觉的模型
+  const visionCandidates: Array<{ provider: ProviderId; model: string }> = [
+    { provider: "kimi", model: "kimi-latest" },
+    { provider: "minimax", model: "MiniMax-VL-01" },
+    { provider: "stepfun", model: "step-1v-8k" },
+  ];
+
+  let selectedProvider = options.provider ?? options.defaultProvider;
+  let selectedModel = options.model ?? options.defaultModel;
+
+  if (!selectedProvider || !selectedModel) {
+    for (const vm of visionCandidates) {
+      if (isProviderAvailable(vm.provider)) {
+        selectedProvider = vm.provider;
+        selectedModel = vm.model;
+        break;
+      }
+    }
+  }
+
+  if (!selectedProvider || !selectedModel) {
+    throw new Error("No vision-capable model provider available");
+  }
+
+  const piModel = resolveModel(selectedProvider, selectedModel);
+  if (!piModel) {
+    throw new Error(`Cannot resolve model ${selectedProvider}/${selectedModel}`);
+  }
+
+  const apiKey = getApiKeyForProvider(selectedProvider);
+
+  const response = await completeSimple(piModel, {
+    messages: [
+      {
+        role: "user" as const,
+        content: [
+          { type: "text" as const, text: prompt },
+          { type: "image" as const, data: imageData.data, mimeType: imageData.mimeType },
+        ],
+        timestamp: Date.now(),
+      },
+    ],
+    tools: [],
+  }, {
+    apiKey,
+    maxTokens: 2048,
+  });
+
+  const analysis = response.content
+    ?.filter((c): c is { type: "text"; text: string } => c.type === "text")
+    .map((c) => c.text)
+    .join("") ?? "";
+
+  return { provider: selectedProvider, model: selectedModel, analysis };
+}
+
 /** 图片分析工具 */
 export function createImageAnalyzeTool(options?: ImageAnalyzeToolOptions): AgentTool {
   return {
@@ -47,92 +144,25 @@ export function createImageAnalyzeTool(options?: ImageAnalyzeToolOptions): Agent
       const params = args as Record<string, unknown>;
       const image = readStringParam(params, "image", { required: true })!;
       const prompt = readStringParam(params, "prompt") ?? "请详细描述这张图片的内容。";
-      const providerParam = readStringParam(params, "provider") as ProviderId | undefined;
-      const modelParam = readStringParam(params, "model");
 
       try {
-        // 解析图片数据
-        let imageData: { url?: string; base64?: string; mediaType?: string };
-
-        if (image.startsWith("http://") || image.startsWith("https://")) {
-          imageData = { url: image };
-        } else if (image.startsWith("data:")) {
-          const match = image.match(/^data:([^;]+);base64,(.+)$/);
-          if (!match) {
-            return errorResult("Invalid data URL format");
-          }
-          imageData = { base64: match[2], mediaType: match[1] };
-        } else if (existsSync(image)) {
-          const buffer = readFileSync(image);
-          imageData = {
-            base64: buffer.toString("base64"),
-            mediaType: getMimeType(image),
-          };
-        } else if (/^[A-Za-z0-9+/=]+$/.test(image) && image.length > 100) {
-          imageData = { base64: image, mediaType: "image/jpeg" };
-        } else {
-          return errorResult("Invalid image source. Provide a URL, file path, or base64 data.");
-        }
-
-        // 查找支持视觉的模型
-        const visionCandidates: Array<{ provider: ProviderId; model: string }> = [
-          { provider: "kimi", model: "kimi-latest" },
-          { provider: "minimax", model: "MiniMax-VL-01" },
-          { provider: "stepfun", model: "step-1v-8k" },
-        ];
-
-        let selectedProvider = providerParam ?? options?.defaultProvider;
-        let selectedModel = modelParam ?? options?.defaultModel;
-
-        if (!selectedProvider || !selectedModel) {
-          for (const vm of visionCandidates) {
-            if (isProviderAvailable(vm.provider)) {
-              selectedProvider = vm.provider;
-              selectedModel = vm.model;
-              break;
-            }
-          }
-        }
-
-        if (!selectedProvider || !selectedModel) {
-          return errorResult("No vision-capable model provider available");
-        }
-
-        const piModel = resolveModel(selectedProvider, selectedModel);
-        if (!piModel) {
-          return errorResult(`Cannot resolve model ${selectedProvider}/${selectedModel}`);
-        }
-
-        const apiKey = getApiKeyForProvider(selectedProvider);
-
-        // 构建用户消息（包含图片信息）
-        const userContent = imageData.url
-          ? `${prompt}\n\n![image](${imageData.url})`
-          : `${prompt}\n\n[Attached image: ${imageData.mediaType}, base64 length=${imageData.base64?.length}]`;
-
-        const response = await completeSimple(piModel, {
-          messages: [{ role: "user" as const, content: userContent, timestamp: Date.now() }],
-          tools: [],
-        }, {
-          apiKey,
-          maxTokens: 2048,
+        const result = await analyzeImage(image, {
+          ...options,
+          prompt,
+          provider: readStringParam(params, "provider") as ProviderId | undefined,
+          model: readStringParam(params, "model"),
         });
 
-        const assistantText = response.content
-          ?.filter((c): c is { type: "text"; text: string } => c.type === "text")
-          .map((c) => c.text)
-          .join("") ?? "";
-
         return jsonResult({
           status: "success",
-          provider: selectedProvider,
-          model: selectedModel,
+          provider: result.provider,
+          model: result.model,
           prompt,
-          analysis: assistantText,
+          analysis: result.analysis,
         });
       } catch (error) {
         return errorResult(error instanceof Error ? error.message : String(error));
       }
     },
   };
-}
\ No newline at end of file
+}
@@ -14,6 +14,7 @@ export * from "./apply-patch.js";
 export * from "./subagent.js";
 export * from "./memory.js";
 export * from "./cron.js";
+export * from "./send.js";
 
 import type { AgentTool } from "@mariozechner/pi-agent-core";
 import { createWebSearchTool, createWebFetchTool } from "./web.js";
@@ -26,6 +27,8 @@ import { createProcessTool } from "./process-tool.js";
 import { createApplyPatchTool } from "./apply-patch.js";
 import { createMemoryTools, type MemoryToolsOptions } from "./memory.js";
 import { createCronTools, type CronToolsOptions } from "./cron.js";
+import { createSendFileTool } from "./send.js";
+import { createSubAgentTool } from "./subagent.js";
 import type { MemoryManager } from "../../memory/index.js";
 import type { CronService } from "../../cron/service.js";
 
@@ -41,6 +44,8 @@ export interface BuiltinToolsOptions {
   enableProcess?: boolean;
   enableMemory?: boolean;
   enableCron?: boolean;
+  /** 启用 subagent 工具 (需设置子 Agent 执行器) */
+  enableSubagents?: boolean;
   /** MemoryManager 实例 */
   memoryManager?: MemoryManager;
   /** CronService 实例 */
@@ -56,6 +61,7 @@ export function createBuiltinTools(options?: BuiltinToolsOptions): AgentTool[] {
     createWebFetchTool(),
     createImageAnalyzeTool(options?.image),
     createDelayTool(),
+    createSendFileTool({ allowedPaths: options?.filesystem?.allowedPaths }),
   ];
 
   // 文件系统工具 (默认启用)
@@ -94,5 +100,10 @@ export function createBuiltinTools(options?: BuiltinToolsOptions): AgentTool[] {
     tools.push(...createCronTools({ service: options.cronService }));
   }
 
+  // 子 Agent 委派工具
+  if (options?.enableSubagents) {
+    tools.push(createSubAgentTool());
+  }
+
   return tools;
 }
\ No newline at end of file
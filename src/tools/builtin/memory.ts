@@ -6,6 +6,7 @@ import { Type } from "@sinclair/typebox";
 import type { AgentTool } from "@mariozechner/pi-agent-core";
 import { jsonResult, errorResult, readStringParam, readNumberParam, readStringArrayParam } from "../common.js";
 import { MemoryManager } from "../../memory/index.js";
+import { getToolContext } from "../context.js";
 import { getChildLogger } from "../../utils/logger.js";
 
 const logger = getChildLogger("memory-tools");
@@ -68,8 +69,10 @@ export function createMemoryStoreTool(): AgentTool {
       const type = (readStringParam(params, "type") ?? "note") as "fact" | "note" | "code" | "conversation";
       const tags = readStringArrayParam(params, "tags");
       const source = readStringParam(params, "source");
+      const context = getToolContext()?.context;
+      const chat = context ? `${context.channelId}:${context.chatId}` : undefined;
       try {
-        const id = await manager.remember(content, { type, tags: tags ?? undefined, source: source ?? undefined });
+        const id = await manager.remember(content, { type, tags: tags ?? undefined, source: source ?? undefined, chat });
         return jsonResult({ status: "success", id, type, tags, message: "Memory stored" });
       } catch (error) { return errorResult(`Memory store failed: ${error instanceof Error ? error.message : String(error)}`); }
     },
@@ -0,0 +1,69 @@
+/**
+ * 内置工具 - 发送文件
+ *
+ * 将本地文件或网络图片作为附件发送给当前对话的用户，
+ * 附件在回复文本之后由网关通过通道发送
+ */
+
+import { Type } from "@sinclair/typebox";
+import { existsSync, statSync } from "fs";
+import { resolve } from "path";
+import type { AgentTool } from "@mariozechner/pi-agent-core";
+import type { OutboundBlock } from "../../types/index.js";
+import { getMediaCache } from "../../media/cache.js";
+import { isImageSource, isRemoteSource } from "../../channels/common/rich.js";
+import { jsonResult, readStringParam } from "../common.js";
+import { isPathAllowed } from "./filesystem.js";
+
+/** 发送文件工具选项 */
+export interface SendFileToolOptions {
+  /** 允许发送的本地目录 (媒体缓存目录始终允许) */
+  allowedPaths?: string[];
+}
+
+/** 从工具结果中提取待发送的附件 */
+export function getOutboundMedia(details: unknown): OutboundBlock[] {
+  if (!details || typeof details !== "object") return [];
+  const media = (details as { outboundMedia?: unknown }).outboundMedia;
+  return Array.isArray(media) ? (media as OutboundBlock[]) : [];
+}
+
+/** 发送文件工具 */
+export function createSendFileTool(options?: SendFileToolOptions): AgentTool {
+  const allowedPaths = options?.allowedPaths ?? [process.cwd()];
+  return {
+    name: "send_file",
+    label: "Send File",
+    description:
+      "Send a local file or an image URL to the user as an attachment (e.g. browser screenshots, generated reports). " +
+      "Images are shown inline; other files are sent as documents.",
+    parameters: Type.Object({
+      path: Type.String({ description: "Local file path or http(s) URL" }),
+      fileName: Type.Optional(Type.String({ description: "File name shown to the user" })),
+      type: Type.Optional(Type.String({ description: "'image' or 'file' (default: detect by extension)" })),
+    }),
+    execute: async (_toolCallId, args) => {
+      const params = args as Record<string, unknown>;
+      const source = readStringParam(params, "path", { required: true })!;
+      const fileName = readStringParam(params, "fileName");
+      const type = readStringParam(params, "type");
+
+      let target = source;
+      if (!isRemoteSource(source)) {
+        target = resolve(source);
+        if (!isPathAllowed(target, [...allowedPaths, getMediaCache().getDir()])) {
+          return jsonResult({ status: "error", error: `Access denied: ${source}` }, true);
+        }
+        if (!existsSync(target) || !statSync(target).isFile()) {
+          return jsonResult({ status: "error", error: `File not found: ${source}` }, true);
+        }
+      }
+
+      const block: OutboundBlock =
+        (type ?? (isImageSource(target) ? "image" : "file")) === "image"
+          ? { type: "image", source: target }
+          : { type: "file", source: target, fileName };
+      return jsonResult({ status: "queued", type: block.type, source: target, outboundMedia: [block] });
+    },
+  };
+}
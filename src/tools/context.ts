@@ -0,0 +1,35 @@
+/**
+ * 工具调用上下文 - 让工具在执行时获知当前会话与入站消息
+ */
+
+import { AsyncLocalStorage } from "async_hooks";
+import type { AgentTool } from "@mariozechner/pi-agent-core";
+import type { InboundMessageContext } from "../types/index.js";
+
+/** 工具调用上下文 */
+export interface ToolContext {
+  sessionKey: string;
+  /** 触发本轮对话的入站消息 */
+  context?: InboundMessageContext;
+}
+
+const storage = new AsyncLocalStorage<ToolContext>();
+
+/** 获取当前工具调用上下文 (不在会话内执行时返回 undefined) */
+export function getToolContext(): ToolContext | undefined {
+  return storage.getStore();
+}
+
+/** 在指定上下文中运行函数 */
+export function runWithToolContext<T>(scope: ToolContext, fn: () => T): T {
+  return storage.run(scope, fn);
+}
+
+/** 包装工具: 执行时绑定当前会话上下文 */
+export function withToolContext(tool: AgentTool, getScope: () => ToolContext): AgentTool {
+  return {
+    ...tool,
+    execute: (toolCallId, params, signal, onUpdate) =>
+      storage.run(getScope(), () => tool.execute(toolCallId, params, signal, onUpdate)),
+  };
+}
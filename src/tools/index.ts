@@ -5,4 +5,6 @@
 export * from "./types.js";
 export * from "./common.js";
 export * from "./registry.js";
+export * from "./approval.js";
+export * from "./context.js";
 export * from "./builtin/index.js";
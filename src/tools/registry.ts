@@ -4,6 +4,7 @@
  */
 
 import type { AgentTool } from "@mariozechner/pi-agent-core";
+import type { ToolPolicyConfig } from "../types/index.js";
 import type { Tool, ToolPolicy } from "./types.js";
 import { TOOL_GROUPS } from "./types.js";
 
@@ -75,6 +76,11 @@ function matchPattern(toolName: string, pattern: string): boolean {
   return normalizedTool === normalizedPattern;
 }
 
+/** 检查工具名是否匹配任一模式 (支持工具组与通配符) */
+export function matchToolPatterns(toolName: string, patterns: string[]): boolean {
+  return expandToolGroups(patterns).some((pattern) => matchPattern(toolName, pattern));
+}
+
 /**
  * 根据策略过滤工具
  */
@@ -104,6 +110,36 @@ export function filterToolsByPolicy(tools: AgentTool[], policy: ToolPolicy = {})
   });
 }
 
+/**
+ * 解析作用域内生效的工具策略
+ * deny 在全局、通道、聊天三层累加；allow 取最具体一层的设置
+ */
+export function resolveToolPolicy(
+  config: ToolPolicyConfig | undefined,
+  scope: { channelId: string; chatId?: string }
+): ToolPolicy {
+  if (!config) return {};
+
+  const layers = [
+    config,
+    config.channels?.[scope.channelId],
+    scope.chatId ? config.chats?.[scope.chatId] : undefined,
+  ];
+
+  let allow: string[] | undefined;
+  const deny: string[] = [];
+  for (const layer of layers) {
+    if (!layer) continue;
+    if (layer.allow) allow = layer.allow;
+    if (layer.deny) deny.push(...layer.deny);
+  }
+
+  return {
+    ...(allow && { allow }),
+    ...(deny.length > 0 && { deny }),
+  };
+}
+
 /**
  * 执行工具调用 (占位实现，实际执行由 pi-coding-agent 处理)
  */
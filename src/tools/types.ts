@@ -52,6 +52,9 @@ export const TOOL_GROUPS: Record<string, string[]> = {
   "group:memory": ["memory_search", "memory_store"],
   "group:media": ["image_analyze"],
   "group:system": ["current_time", "calculator"],
+  "group:fs": ["read_file", "write_file", "edit_file", "list_directory", "glob", "grep", "apply_patch"],
+  "group:runtime": ["bash", "process"],
+  "group:cron": ["cron_list", "cron_add", "cron_remove", "cron_run", "cron_update"],
 };
 
 /** 创建 AgentTool 结果 */
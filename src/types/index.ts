@@ -31,11 +31,15 @@ export interface ModelDefinition {
   supportsReasoning: boolean;
   /** 是否支持工具调用 (默认 true) */
   supportsToolCalls?: boolean;
-  cost?: {
-    input: number;   // 每百万 token 成本
-    output: number;
-    cacheRead?: number;
-  };
+  cost?: ModelCost;
+}
+
+/** 模型价格 (每百万 token) */
+export interface ModelCost {
+  input: number;
+  output: number;
+  cacheRead?: number;
+  cacheWrite?: number;
 }
 
 /** 简化的提供商配置 (用于用户配置) */
@@ -95,8 +99,21 @@ export interface ChatMessage {
 
 // ============== 通道相关类型 ==============
 
-/** 通道 ID */
-export type ChannelId = "feishu" | "dingtalk" | "qq" | "wecom" | "webchat";
+/** 内置通道 ID */
+export type BuiltinChannelId =
+  | "feishu"
+  | "dingtalk"
+  | "qq"
+  | "wecom"
+  | "webchat"
+  | "api"
+  | "webhook"
+  | "telegram"
+  | "slack"
+  | "discord";
+
+/** 通道 ID (插件可注册内置以外的通道) */
+export type ChannelId = BuiltinChannelId | (string & {});
 
 /** 聊天类型 */
 export type ChatType = "direct" | "group";
@@ -121,6 +138,21 @@ export interface ChannelMeta {
   capabilities: ChannelCapabilities;
 }
 
+/** 媒体类型 */
+export type MediaKind = "image" | "file" | "audio" | "video";
+
+/** 入站消息附件 */
+export interface MediaAttachment {
+  type: MediaKind;
+  /** 通道内的资源标识 (飞书 file_key、钉钉 downloadCode、企业微信 media_id、QQ 附件 URL) */
+  key: string;
+  fileName?: string;
+  mimeType?: string;
+  /** 下载到本地媒体缓存后的路径 */
+  path?: string;
+  size?: number;
+}
+
 /** 入站消息上下文 */
 export interface InboundMessageContext {
   channelId: ChannelId;
@@ -131,18 +163,49 @@ export interface InboundMessageContext {
   senderName?: string;
   content: string;
   mediaUrls?: string[];
+  /** 图片、文件、语音等附件 */
+  attachments?: MediaAttachment[];
   replyToId?: string;
   mentions?: string[];
+  /** 是否 @ 了机器人 (通道能识别机器人自身 ID 时设置) */
+  mentionedBot?: boolean;
   timestamp: number;
+  /** 接收消息的通道账号 ID (同一通道配置多个账号时) */
+  accountId?: string;
+  /** 处理消息的命名 Agent ID (由 Agent 路由规则选择，未命中时使用默认 Agent) */
+  agentId?: string;
+  /** 显式指定的会话 key (不按聊天类型推导，如 OpenAI 兼容 API 按请求区分会话) */
+  sessionKey?: string;
   raw?: unknown;
 }
 
+/** 出站按钮 */
+export interface OutboundButton {
+  text: string;
+  /** 跳转链接 */
+  url?: string;
+  /** 点击后以用户身份发送的命令 (如 "/approve abc123") */
+  command?: string;
+}
+
+/**
+ * 出站富内容块
+ * 图片、文件的 source 可以是本地路径、http(s) URL 或 data URL
+ */
+export type OutboundBlock =
+  | { type: "markdown"; text: string }
+  | { type: "image"; source: string }
+  | { type: "file"; source: string; fileName?: string }
+  | { type: "card"; title?: string; text: string; buttons?: OutboundButton[] };
+
 /** 出站消息 */
 export interface OutboundMessage {
   chatId: string;
   content: string;
   replyToId?: string;
   mediaUrls?: string[];
+  /** 富内容块 (在 content 之后发送，各通道按能力渲染) */
+  blocks?: OutboundBlock[];
   mentions?: string[];
 }
 
@@ -155,6 +218,27 @@ export interface SendResult {
 
 // ============== 配置相关类型 ==============
 
+/** 通道账号选项 (同一通道类型接入多个机器人/应用时区分账号) */
+export interface ChannelAccountOptions {
+  /** 账号 ID (字母、数字、- 与 _，用于路由路径、投递目标与会话键) */
+  id: string;
+  /** 显示名称 */
+  name?: string;
+  /** 该账号的系统提示词 (覆盖 agent.systemPrompt) */
+  systemPrompt?: string;
+  /** 会话命名空间 (默认为账号 ID) */
+  sessionNamespace?: string;
+  enabled?: boolean;
+}
+
+/**
+ * 带多账号的通道配置
+ * 配置 accounts 时每个账号创建一个通道实例，账号未填写的字段沿用通道级配置
+ */
+export type ChannelConfig<T> =
+  | (T & { accounts?: Array<Partial<T> & ChannelAccountOptions> })
+  | (Partial<T> & { accounts: Array<Partial<T> & ChannelAccountOptions> });
+
 /** 飞书配置 */
 export interface FeishuConfig {
   appId: string;
@@ -169,6 +253,8 @@ export interface DingtalkConfig {
   appKey: string;
   appSecret: string;
   robotCode?: string;
+  /** AI 卡片模板 ID (配置后流式回复，模板需包含 content 变量) */
+  cardTemplateId?: string;
   enabled?: boolean;
 }
 
@@ -179,6 +265,8 @@ export interface QQConfig {
   enabled?: boolean;
   /** 是否使用沙箱环境 */
   sandbox?: boolean;
+  /** 富内容文本是否使用 markdown 消息 (需机器人已开通 markdown 权限) */
+  markdown?: boolean;
 }
 
 /** 企业微信配置 */
@@ -191,6 +279,114 @@ export interface WeComConfig {
   enabled?: boolean;
 }
 
+/** 通用 Webhook 通道配置 */
+export interface WebhookConfig {
+  /** 入站请求签名密钥 (HMAC-SHA256) */
+  secret: string;
+  /** 默认回调地址 (请求未指定 callbackUrl 时使用) */
+  callbackUrl?: string;
+  /** 回调请求签名密钥 (默认同 secret) */
+  callbackSecret?: string;
+  /** 命名投递目标 (chatId → URL)，供定时任务等主动推送 */
+  targets?: Record<string, string>;
+  /** 请求时间戳允许的偏差 (秒，默认 300) */
+  toleranceSec?: number;
+  enabled?: boolean;
+}
+
+/** Telegram 机器人配置 (长轮询) */
+export interface TelegramConfig {
+  botToken: string;
+  /** Bot API 地址 (默认 https://api.telegram.org，可指向代理或自建服务) */
+  apiBase?: string;
+  /** 长轮询超时 (秒，默认 30) */
+  pollTimeoutSec?: number;
+  enabled?: boolean;
+}
+
+/** Slack 应用配置 (配置 appToken 时使用 Socket Mode，否则通过 /slack/events 接收 Events API 回调) */
+export interface SlackConfig {
+  /** Bot Token (xoxb-) */
+  botToken: string;
+  /** App-Level Token (xapp-)，Socket Mode 使用 */
+  appToken?: string;
+  /** Events API 请求签名密钥 */
+  signingSecret?: string;
+  /** Web API 地址 (默认 https://slack.com/api) */
+  apiBase?: string;
+  enabled?: boolean;
+}
+
+/** Discord 机器人配置 (Gateway 长连接) */
+export interface DiscordConfig {
+  botToken: string;
+  /** REST API 地址 (默认 https://discord.com/api/v10) */
+  apiBase?: string;
+  /** Gateway 地址 (默认通过 /gateway/bot 获取) */
+  gatewayUrl?: string;
+  enabled?: boolean;
+}
+
+/** 工具允许/拒绝列表 (支持通配符和 group:xxx 工具组) */
+export interface ToolPolicyRule {
+  allow?: string[];
+  deny?: string[];
+}
+
+/**
+ * 工具策略配置
+ * deny 在全局、通道、聊天三层累加；allow 取最具体一层的设置
+ */
+export interface ToolPolicyConfig extends ToolPolicyRule {
+  /** 按通道覆盖 (key 为通道 ID) */
+  channels?: Record<string, ToolPolicyRule>;
+  /** 按聊天覆盖 (key 为群聊 chatId 或私聊 senderId) */
+  chats?: Record<string, ToolPolicyRule>;
+}
+
+/** 工具审批配置 (危险工具执行前需人工确认) */
+export interface ToolApprovalConfig {
+  enabled?: boolean;
+  /** 需要审批的工具 (支持 group:xxx、通配符，以及 "工具:action" 形式如 browser:evaluate) */
+  tools?: string[];
+  /** 等待确认的超时时间 (秒)，超时视为拒绝 */
+  timeoutSeconds?: number;
+  /** 审计日志文件 (JSONL) */
+  auditFile?: string;
+}
+
+/** 模型路由规则 (按顺序匹配，第一条命中的规则生效；未指定的条件视为任意) */
+export interface ModelRoutingRule {
+  /** 通道 ID */
+  channel?: string;
+  /** 聊天 ID */
+  chatId?: string;
+  /** 发送者 ID */
+  senderId?: string;
+  /** 聊天类型 (如 group 匹配所有群聊) */
+  chatType?: ChatType;
+  provider: ProviderId;
+  model: string;
+}
+
+/** 模型故障转移配置 */
+export interface ModelFailoverConfig {
+  /** 备用模型 (主模型失败后按顺序尝试) */
+  fallbacks?: Array<{ provider: ProviderId; model: string }>;
+  /** 同一模型的最大重试次数 */
+  maxRetries?: number;
+  /** 指数退避的基础延迟 (毫秒) */
+  baseDelayMs?: number;
+  /** 指数退避的最大延迟 (毫秒) */
+  maxDelayMs?: number;
+  /** 提供商重试耗尽后的冷却时间 (毫秒)，期间优先使用备用模型 */
+  cooldownMs?: number;
+  /** 连续失败多少次后熔断 */
+  failureThreshold?: number;
+  /** 熔断持续时间 (毫秒)，之后放行一次试探请求 */
+  circuitOpenMs?: number;
+}
+
 /** Agent 配置 */
 export interface AgentConfig {
   defaultModel: string;
@@ -202,6 +398,65 @@ export interface AgentConfig {
   workingDirectory?: string;
   /** 是否启用 function calling */
   enableFunctionCalling?: boolean;
+  /** 模型路由 (按通道/聊天/发送者选择模型) */
+  modelRouting?: ModelRoutingRule[];
+  /** 故障转移 (限流/服务端错误时重试并切换备用模型) */
+  failover?: ModelFailoverConfig;
+  /** 是否在上下文过长时自动压缩 (默认 true) */
+  enableCompaction?: boolean;
+  /** 自动压缩阈值 (占模型上下文窗口的比例，默认 0.8) */
+  compactionThreshold?: number;
+  /** 工具配置 */
+  tools?: {
+    policy?: ToolPolicyConfig;
+    approval?: ToolApprovalConfig;
+  };
+}
+
+/** 命名 Agent 配置 (未填写的字段沿用 agent 配置) */
+export interface NamedAgentConfig {
+  /** Agent ID (字母、数字、- 与 _) */
+  id: string;
+  /** 显示名称 */
+  name?: string;
+  /** 用途说明 (作为子 Agent 被委派任务时展示) */
+  description?: string;
+  systemPrompt?: string;
+  provider?: ProviderId;
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  /** 工作目录 (文件与 Bash 工具的可访问范围) */
+  workingDirectory?: string;
+  /** 工具策略 */
+  tools?: {
+    policy?: ToolPolicyConfig;
+  };
+  /** 启用的 skills (覆盖 skills 配置中的 only/disabled) */
+  skills?: {
+    only?: string[];
+    disabled?: string[];
+  };
+  /** 记忆命名空间 (存放在 memory.directory 下的同名子目录，默认为 Agent ID) */
+  memoryNamespace?: string;
+}
+
+/** Agent 路由规则 (按顺序匹配，第一条命中的规则生效；未指定的条件视为任意) */
+export interface AgentRoutingRule {
+  /** 目标 Agent ID */
+  agent: string;
+  /** 通道 ID */
+  channel?: string;
+  /** 通道账号 ID */
+  accountId?: string;
+  /** 聊天 ID */
+  chatId?: string;
+  /** 聊天类型 */
+  chatType?: ChatType;
+  /** 消息包含任一关键词 (不区分大小写) */
+  keywords?: string[];
+  /** 斜杠命令 (如 "/sre"，命中后去掉命令再交给 Agent) */
+  command?: string;
 }
 
 /** 会话存储配置 */
@@ -214,6 +469,157 @@ export interface SessionStoreConfig {
   ttlMs?: number;
 }
 
+/** IM 通道访问策略 (列表项为 ID，全局策略中也可写作 "channel:ID") */
+export interface AccessPolicy {
+  /** 允许的发送者 (配置后仅这些用户可使用) */
+  allowUsers?: string[];
+  /** 禁止的发送者 */
+  blockUsers?: string[];
+  /** 允许的部门 (配置后仅这些部门的成员可使用，需通道支持查询部门) */
+  allowDepartments?: string[];
+  /** 允许的群聊 (配置后仅在这些群中响应) */
+  allowGroups?: string[];
+  /** 禁止的群聊 */
+  blockGroups?: string[];
+  /** 群聊中需要 @机器人 才响应 */
+  requireMention?: boolean;
+  /** 机器人自身的 ID (通道无法识别 @机器人 时按此判断，如飞书) */
+  botIds?: string[];
+  /** 仅管理员可使用 */
+  adminOnly?: boolean;
+}
+
+/** 访问控制配置 */
+export interface AccessConfig extends AccessPolicy {
+  /** 管理员 (不受名单限制，可通过 /access 命令管理名单) */
+  admins?: string[];
+  /** 按通道覆盖的策略 */
+  channels?: Partial<Record<ChannelId, AccessPolicy>>;
+  /** 拒绝访问时的回复 (不配置则静默忽略) */
+  denyMessage?: string;
+  /** 命令修改的名单保存位置，默认 ~/.mozi/access.json */
+  file?: string;
+}
+
+/** 令牌桶限流规则 */
+export interface RateLimitRule {
+  /** 突发容量 (桶大小) */
+  burst: number;
+  /** 每分钟补充的消息数 */
+  perMinute: number;
+}
+
+/** IM 消息排队与限流配置 */
+export interface QueueConfig {
+  /** 合并同一会话连续消息的等待时间 (毫秒，默认 0 不合并) */
+  coalesceMs?: number;
+  /** 全局同时处理的消息数上限 (默认不限) */
+  maxConcurrent?: number;
+  /** 每个发送者的限流 */
+  perSender?: RateLimitRule;
+  /** 每个聊天的限流 */
+  perChat?: RateLimitRule;
+  /** 触发限流时的回复 (每轮限流只提示一次，{seconds} 为建议等待秒数) */
+  rateLimitMessage?: string;
+}
+
+/** WebChat 角色: admin 可访问控制台与配置，chat 仅可聊天 */
+export type WebRole = "admin" | "chat";
+
+/** WebChat 登录配置 (未配置任何令牌时不启用登录) */
+export interface WebAuthConfig {
+  /** 管理员令牌或密码 */
+  adminToken?: string;
+  /** 仅聊天权限的令牌或密码 */
+  chatToken?: string;
+  /** Cookie 签名密钥 (未配置时每次启动随机生成) */
+  secret?: string;
+  /** 登录有效期 (小时，默认 168) */
+  sessionTtlHours?: number;
+}
+
+/** OpenAI 兼容 API 配置 (配置 apiKeys 后启用 /v1 接口) */
+export interface OpenAIApiConfig {
+  /** 允许访问的 API Key (请求头 Authorization: Bearer <key>) */
+  apiKeys?: string[];
+}
+
+/** IM 流式回复配置 */
+export interface StreamingConfig {
+  /** 是否启用流式回复 (默认 true) */
+  enabled?: boolean;
+  /** 两次更新的最小间隔 (毫秒，默认 1000) */
+  throttleMs?: number;
+}
+
+/** 入站媒体配置 */
+export interface MediaConfig {
+  /** 媒体缓存目录，默认 ~/.mozi/media */
+  cacheDir?: string;
+  /** 单个文件大小上限 (字节，默认 20MB) */
+  maxFileSize?: number;
+  /** 缓存文件保留时间 (小时，默认 72) */
+  retentionHours?: number;
+}
+
+/** 用量统计配置 */
+export interface UsageConfig {
+  /** 是否记录用量 (默认 true) */
+  enabled?: boolean;
+  /** 账本文件 (JSONL，按月轮转为 usage.YYYY-MM.jsonl)，默认 ~/.mozi/usage.jsonl */
+  file?: string;
+  /** 每个用户的每日 token 上限 (不配置则不限制) */
+  dailyTokenBudget?: number;
+  /** 按用户覆盖每日上限 (key 为 senderId 或 "channel:senderId") */
+  userBudgets?: Record<string, number>;
+}
+
+/** 错过调度时间 (如网关停机期间) 的任务处理策略: skip 跳过，runOnce 补跑一次，runAll 逐次补跑 */
+export type CronMisfirePolicy = "skip" | "runOnce" | "runAll";
+
+/** 定时任务失败重试 (仅 agentTurn 任务) */
+export interface CronRetryConfig {
+  /** 最大重试次数 (默认 0 不重试) */
+  maxRetries?: number;
+  /** 首次重试前等待 (毫秒，默认 60000，之后每次翻倍) */
+  backoffMs?: number;
+  /** 重试等待上限 (毫秒，默认 3600000) */
+  maxBackoffMs?: number;
+}
+
+/** 定时任务配置 */
+export interface CronConfig {
+  /** 是否启用调度 (默认 true) */
+  enabled?: boolean;
+  /** 任务存储文件，默认 ~/.mozi/cron/jobs.json */
+  storePath?: string;
+  /** 错过调度时间的处理策略 (默认 skip，可在任务上覆盖) */
+  misfirePolicy?: CronMisfirePolicy;
+  /** 失败重试 (可在任务上覆盖) */
+  retry?: CronRetryConfig;
+  /** 运行记录保留 (超出任一上限的旧记录被删除) */
+  runLog?: {
+    /** 每个任务保留的条数 (默认 200) */
+    maxEntries?: number;
+    /** 保留天数 (默认 30) */
+    maxAgeDays?: number;
+  };
+}
+
+/** 插件配置 */
+export interface PluginsConfig {
+  /** 是否加载插件 (默认 true) */
+  enabled?: boolean;
+  /** 只加载这些插件 */
+  allow?: string[];
+  /** 不加载这些插件 */
+  deny?: string[];
+  /** 额外的插件目录 */
+  paths?: string[];
+  /** 各插件的启用状态与配置 */
+  entries?: Record<string, { enabled?: boolean; config?: Record<string, unknown> }>;
+}
+
 /** Memory 配置 */
 export interface MemoryConfig {
   enabled?: boolean;
@@ -221,23 +627,41 @@ export interface MemoryConfig {
   directory?: string;
   /** 嵌入模型 */
   embeddingModel?: string;
-  /** 嵌入提供商 */
-  embeddingProvider?: ProviderId;
+  /** 嵌入提供商 (OpenAI 兼容的 /embeddings 接口，"local" 为本地 transformers 模型) */
+  embeddingProvider?: ProviderId | "local";
+  /** 每次请求的最大文本数 */
+  embeddingBatchSize?: number;
+  /** 向量维度 (支持时请求指定维度) */
+  embeddingDimensions?: number;
 }
 
 /** 主配置 */
 export interface MoziConfig {
   providers: Record<string, SimpleProviderConfig | Record<string, unknown>>;
   channels: {
-    feishu?: FeishuConfig;
-    dingtalk?: DingtalkConfig;
-    qq?: QQConfig;
-    wecom?: WeComConfig;
+    feishu?: ChannelConfig<FeishuConfig>;
+    dingtalk?: ChannelConfig<DingtalkConfig>;
+    qq?: ChannelConfig<QQConfig>;
+    wecom?: ChannelConfig<WeComConfig>;
+    webhook?: ChannelConfig<WebhookConfig>;
+    telegram?: ChannelConfig<TelegramConfig>;
+    slack?: ChannelConfig<SlackConfig>;
+    discord?: ChannelConfig<DiscordConfig>;
+    /** 插件注册的通道 (key 为通道 ID) */
+    [channelId: string]: unknown;
   };
   agent: AgentConfig;
+  /** 命名 Agent (按 agentRouting 选择，未命中时使用 agent 配置的默认 Agent) */
+  agents?: NamedAgentConfig[];
+  /** Agent 路由规则 */
+  agentRouting?: AgentRoutingRule[];
   server: {
     port: number;
     host?: string;
+    /** WebChat 与 Control UI 登录 */
+    auth?: WebAuthConfig;
+    /** OpenAI 兼容 API */
+    openai?: OpenAIApiConfig;
   };
   logging: {
     level: "debug" | "info" | "warn" | "error";
@@ -246,6 +670,20 @@ export interface MoziConfig {
   sessions?: SessionStoreConfig;
   /** Memory 配置 */
   memory?: MemoryConfig;
+  /** 用量统计配置 */
+  usage?: UsageConfig;
+  /** 定时任务配置 */
+  cron?: CronConfig;
+  /** IM 访问控制 */
+  access?: AccessConfig;
+  /** IM 消息排队与限流 */
+  queue?: QueueConfig;
+  /** IM 流式回复配置 */
+  streaming?: StreamingConfig;
+  /** 入站媒体配置 */
+  media?: MediaConfig;
+  /** 插件配置 */
+  plugins?: PluginsConfig;
   /** Skills 配置 */
   skills?: {
     enabled?: boolean;
@@ -295,6 +733,18 @@ export class ProviderError extends MoziError {
   }
 }
 
+/** 用量预算超限错误 */
+export class UsageBudgetError extends MoziError {
+  constructor(
+    message: string,
+    public senderId: string,
+    public budget: number
+  ) {
+    super(message, "USAGE_BUDGET_EXCEEDED");
+    this.name = "UsageBudgetError";
+  }
+}
+
 /** 通道错误 */
 export class ChannelError extends MoziError {
   constructor(
@@ -0,0 +1,6 @@
+/**
+ * 用量统计模块
+ */
+
+export * from "./types.js";
+export * from "./ledger.js";
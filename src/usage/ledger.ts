@@ -0,0 +1,331 @@
+/**
+ * 用量账本
+ *
+ * JSONL 追加存储 (按月轮转)，每个对话轮次记录一条 token 用量与费用，
+ * 支持按会话、用户、通道、模型查询汇总，以及每日 token 预算
+ */
+
+import * as fs from "fs";
+import { join, dirname, basename, extname } from "path";
+import { homedir } from "os";
+import type { ModelCost, UsageConfig } from "../types/index.js";
+import { UsageBudgetError } from "../types/index.js";
+import { getChildLogger } from "../utils/logger.js";
+import type { UsageRecord, UsageQuery, UsageGroupBy, UsageSummary } from "./types.js";
+
+const logger = getChildLogger("usage");
+
+/** 默认账本文件 (实际按月写入 usage.YYYY-MM.jsonl，该文件本身只保留轮转前的旧记录) */
+export const DEFAULT_USAGE_FILE = join(homedir(), ".mozi", "usage.jsonl");
+
+/** 记录用量的参数 */
+export interface UsageRecordInput {
+  sessionKey: string;
+  channelId: string;
+  chatId: string;
+  senderId: string;
+  provider: string;
+  model: string;
+  usage: {
+    input: number;
+    output: number;
+    cacheRead?: number;
+    cacheWrite?: number;
+  };
+  /** 模型价格 (每百万 token)，未提供时费用为 0 */
+  cost?: Partial<ModelCost>;
+  timestamp?: number;
+}
+
+/** 按模型价格计算费用 */
+export function calculateCost(usage: UsageRecordInput["usage"], cost?: Partial<ModelCost>): number {
+  if (!cost) return 0;
+  const total =
+    usage.input * (cost.input ?? 0) +
+    usage.output * (cost.output ?? 0) +
+    (usage.cacheRead ?? 0) * (cost.cacheRead ?? 0) +
+    (usage.cacheWrite ?? 0) * (cost.cacheWrite ?? 0);
+  return total / 1_000_000;
+}
+
+/** 本地日期 (YYYY-MM-DD) */
+export function formatUsageDay(timestamp: number): string {
+  const date = new Date(timestamp);
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/** 本地月份 (YYYY-MM) */
+function formatUsageMonth(timestamp: number): string {
+  return formatUsageDay(timestamp).slice(0, 7);
+}
+
+/** 预算统计使用的用户键 */
+function budgetUserKey(channelId: string, senderId: string): string {
+  return `${channelId}:${senderId}`;
+}
+
+/** 用量账本 */
+export class UsageLedger {
+  private filePath: string;
+  private config: UsageConfig;
+  /** 当日各用户的 token 累计 (首次使用时从账本异步加载) */
+  private daily: { day: string; totals: Map<string, number>; loaded: Promise<void> } | null = null;
+
+  constructor(config: UsageConfig = {}) {
+    this.config = config;
+    this.filePath = config.file ?? DEFAULT_USAGE_FILE;
+  }
+
+  /** 账本文件路径 */
+  getFilePath(): string {
+    return this.filePath;
+  }
+
+  /** 记录时间所在月份的账本文件 */
+  getMonthFile(timestamp: number): string {
+    const ext = extname(this.filePath);
+    return `${this.filePath.slice(0, this.filePath.length - ext.length)}.${formatUsageMonth(timestamp)}${ext}`;
+  }
+
+  /** 记录一次用量 */
+  record(input: UsageRecordInput): UsageRecord {
+    const cacheRead = input.usage.cacheRead ?? 0;
+    const cacheWrite = input.usage.cacheWrite ?? 0;
+    const record: UsageRecord = {
+      timestamp: input.timestamp ?? Date.now(),
+      sessionKey: input.sessionKey,
+      channelId: input.channelId,
+      chatId: input.chatId,
+      senderId: input.senderId,
+      provider: input.provider,
+      model: input.model,
+      inputTokens: input.usage.input,
+      outputTokens: input.usage.output,
+      cacheReadTokens: cacheRead,
+      cacheWriteTokens: cacheWrite,
+      totalTokens: input.usage.input + input.usage.output + cacheRead + cacheWrite,
+      cost: calculateCost(input.usage, input.cost),
+    };
+
+    const file = this.getMonthFile(record.timestamp);
+    try {
+      fs.mkdirSync(dirname(file), { recursive: true });
+      fs.appendFileSync(file, JSON.stringify(record) + "\n");
+    } catch (error) {
+      logger.error({ error, file }, "Failed to write usage record");
+    }
+
+    // 当日累计已开始加载时直接计入 (加载只读取到开始时的文件大小)；未加载时由加载读取
+    if (this.daily && formatUsageDay(record.timestamp) === this.daily.day) {
+      const key = budgetUserKey(record.channelId, record.senderId);
+      this.daily.totals.set(key, (this.daily.totals.get(key) ?? 0) + record.totalTokens);
+    }
+
+    logger.debug(
+      { sessionKey: record.sessionKey, model: `${record.provider}/${record.model}`, totalTokens: record.totalTokens },
+      "Usage recorded"
+    );
+    return record;
+  }
+
+  /** 读取账本文件中的记录 (指定 size 时只读取前 size 字节) */
+  private async readRecords(file: string, size?: number): Promise<UsageRecord[]> {
+    let content: string;
+    try {
+      if (size === undefined) {
+        content = await fs.promises.readFile(file, "utf-8");
+      } else {
+        const handle = await fs.promises.open(file, "r");
+        try {
+          const buffer = Buffer.alloc(size);
+          const { bytesRead } = await handle.read(buffer, 0, size, 0);
+          content = buffer.subarray(0, bytesRead).toString("utf-8");
+        } finally {
+          await handle.close();
+        }
+      }
+    } catch {
+      return [];
+    }
+
+    const records: UsageRecord[] = [];
+    for (const line of content.split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        records.push(JSON.parse(line) as UsageRecord);
+      } catch {
+        // 跳过损坏的行
+      }
+    }
+    return records;
+  }
+
+  /** 时间范围涉及的账本文件 (轮转前的旧文件在前，月份文件按时间排序) */
+  private async listFiles(since?: number, until?: number): Promise<string[]> {
+    const dir = dirname(this.filePath);
+    const ext = extname(this.filePath);
+    const legacy = basename(this.filePath);
+    const prefix = `${basename(this.filePath, ext)}.`;
+    const from = since !== undefined ? formatUsageMonth(since) : undefined;
+    const to = until !== undefined ? formatUsageMonth(until - 1) : undefined;
+
+    let names: string[];
+    try {
+      names = await fs.promises.readdir(dir);
+    } catch {
+      return [];
+    }
+
+    const files = names.includes(legacy) ? [this.filePath] : [];
+    for (const name of names.sort()) {
+      if (name === legacy || !name.startsWith(prefix) || !name.endsWith(ext)) continue;
+      const month = name.slice(prefix.length, name.length - ext.length);
+      if (!/^\d{4}-\d{2}$/.test(month) || (from && month < from) || (to && month > to)) continue;
+      files.push(join(dir, name));
+    }
+    return files;
+  }
+
+  /** 查询用量记录 (只读取时间范围涉及的月份文件) */
+  async query(filter: UsageQuery = {}): Promise<UsageRecord[]> {
+    const records: UsageRecord[] = [];
+    for (const file of await this.listFiles(filter.since, filter.until)) {
+      records.push(...(await this.readRecords(file)));
+    }
+    return records.filter(
+      (r) =>
+        (filter.since === undefined || r.timestamp >= filter.since) &&
+        (filter.until === undefined || r.timestamp < filter.until) &&
+        (filter.sessionKey === undefined || r.sessionKey === filter.sessionKey) &&
+        (filter.senderId === undefined || r.senderId === filter.senderId) &&
+        (filter.channelId === undefined || r.channelId === filter.channelId) &&
+        (filter.provider === undefined || r.provider === filter.provider) &&
+        (filter.model === undefined || r.model === filter.model)
+    );
+  }
+
+  /** 汇总用量 (不指定维度时返回单条合计)，按 token 数降序 */
+  async summarize(filter: UsageQuery = {}, groupBy?: UsageGroupBy): Promise<UsageSummary[]> {
+    const groups = new Map<string, UsageSummary>();
+
+    for (const record of await this.query(filter)) {
+      const key = groupBy ? getGroupKey(record, groupBy) : "total";
+      const summary = groups.get(key) ?? {
+        key,
+        requests: 0,
+        inputTokens: 0,
+        outputTokens: 0,
+        cacheReadTokens: 0,
+        totalTokens: 0,
+        cost: 0,
+      };
+      summary.requests++;
+      summary.inputTokens += record.inputTokens;
+      summary.outputTokens += record.outputTokens;
+      summary.cacheReadTokens += record.cacheReadTokens;
+      summary.totalTokens += record.totalTokens;
+      summary.cost += record.cost;
+      groups.set(key, summary);
+    }
+
+    return Array.from(groups.values()).sort((a, b) => b.totalTokens - a.totalTokens);
+  }
+
+  /** 获取当日累计 (跨天时从当月文件与轮转前的旧文件重新加载) */
+  private async getDailyTotals(): Promise<Map<string, number>> {
+    const now = Date.now();
+    const today = formatUsageDay(now);
+    if (this.daily?.day !== today) {
+      const totals = new Map<string, number>();
+      const file = this.getMonthFile(now);
+      // 只读取到当前大小，之后追加的记录由 record 直接计入
+      const size = fs.existsSync(file) ? fs.statSync(file).size : 0;
+      const loaded = Promise.all([
+        this.readRecords(file, size),
+        fs.existsSync(this.filePath) ? this.readRecords(this.filePath) : [],
+      ]).then((groups) => {
+        for (const record of groups.flat()) {
+          if (formatUsageDay(record.timestamp) !== today) continue;
+          const key = budgetUserKey(record.channelId, record.senderId);
+          totals.set(key, (totals.get(key) ?? 0) + record.totalTokens);
+        }
+      });
+      this.daily = { day: today, totals, loaded };
+    }
+
+    const { totals, loaded } = this.daily;
+    await loaded;
+    return totals;
+  }
+
+  /** 用户今日已用 token */
+  async getTodayTokens(channelId: string, senderId: string): Promise<number> {
+    return (await this.getDailyTotals()).get(budgetUserKey(channelId, senderId)) ?? 0;
+  }
+
+  /** 用户的每日 token 上限 (未配置时返回 undefined) */
+  getDailyBudget(channelId: string, senderId: string): number | undefined {
+    const budgets = this.config.userBudgets;
+    return budgets?.[budgetUserKey(channelId, senderId)] ?? budgets?.[senderId] ?? this.config.dailyTokenBudget;
+  }
+
+  /** 检查每日预算，已用尽时抛出 UsageBudgetError */
+  async checkBudget(channelId: string, senderId: string): Promise<void> {
+    const budget = this.getDailyBudget(channelId, senderId);
+    if (budget === undefined) return;
+
+    const used = await this.getTodayTokens(channelId, senderId);
+    if (used >= budget) {
+      logger.warn({ channelId, senderId, used, budget }, "Daily token budget exhausted");
+      throw new UsageBudgetError(
+        `今日 token 额度已用完 (${used}/${budget})，请明天再试`,
+        senderId,
+        budget
+      );
+    }
+  }
+}
+
+/** 获取记录的分组键 */
+function getGroupKey(record: UsageRecord, groupBy: UsageGroupBy): string {
+  switch (groupBy) {
+    case "session":
+      return record.sessionKey;
+    case "sender":
+      return budgetUserKey(record.channelId, record.senderId);
+    case "channel":
+      return record.channelId;
+    case "model":
+      return `${record.provider}/${record.model}`;
+    case "day":
+      return formatUsageDay(record.timestamp);
+  }
+}
+
+/** 格式化汇总为文本行 */
+export function formatUsageSummary(summary: UsageSummary): string {
+  const cost = summary.cost > 0 ? `, 费用 ${summary.cost.toFixed(4)}` : "";
+  return (
+    `${summary.requests} 次请求, 输入 ${summary.inputTokens} / 输出 ${summary.outputTokens}` +
+    ` / 合计 ${summary.totalTokens} tokens${cost}`
+  );
+}
+
+/** 全局账本实例 */
+let globalLedger: UsageLedger | null = null;
+
+/** 获取全局用量账本 */
+export function getUsageLedger(): UsageLedger {
+  if (!globalLedger) {
+    globalLedger = new UsageLedger();
+  }
+  return globalLedger;
+}
+
+/** 初始化用量账本 */
+export function initUsageLedger(config?: UsageConfig): UsageLedger {
+  globalLedger = new UsageLedger(config);
+  return globalLedger;
+}
@@ -0,0 +1,49 @@
+/**
+ * 用量统计类型定义
+ */
+
+/** 用量记录 (每个对话轮次一条) */
+export interface UsageRecord {
+  timestamp: number;
+  sessionKey: string;
+  channelId: string;
+  chatId: string;
+  senderId: string;
+  provider: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheWriteTokens: number;
+  totalTokens: number;
+  /** 费用 (按模型价格计算，币种与价格配置一致) */
+  cost: number;
+}
+
+/** 用量查询条件 */
+export interface UsageQuery {
+  /** 起始时间 (毫秒时间戳，含) */
+  since?: number;
+  /** 结束时间 (毫秒时间戳，不含) */
+  until?: number;
+  sessionKey?: string;
+  senderId?: string;
+  channelId?: string;
+  provider?: string;
+  model?: string;
+}
+
+/** 汇总维度 */
+export type UsageGroupBy = "session" | "sender" | "channel" | "model" | "day";
+
+/** 用量汇总 */
+export interface UsageSummary {
+  /** 分组键 (不分组时为 "total") */
+  key: string;
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  totalTokens: number;
+  cost: number;
+}
@@ -108,6 +108,13 @@ export function computeHmacSha256(secret: string, data: string): string {
   return crypto.createHmac("sha256", secret).update(data).digest("base64");
 }
 
+/** 常量时间比较字符串 (用于令牌与签名校验) */
+export function safeEqual(a: string, b: string): boolean {
+  const digestA = crypto.createHash("sha256").update(a).digest();
+  const digestB = crypto.createHash("sha256").update(b).digest();
+  return crypto.timingSafeEqual(digestA, digestB);
+}
+
 /** AES 解密 (用于飞书加密消息) */
 export function aesDecrypt(key: string, encryptedData: string): string {
   const keyBuffer = crypto.createHash("sha256").update(key).digest();
@@ -0,0 +1,126 @@
+/**
+ * WebChat 登录与权限
+ *
+ * 使用配置中的令牌登录，登录状态保存在签名 Cookie 中；
+ * 也支持 Authorization: Bearer <token> 请求头 (便于脚本访问)
+ */
+
+import { createHmac, randomBytes } from "crypto";
+import type { IncomingMessage } from "http";
+import type { WebAuthConfig, WebRole } from "../types/index.js";
+import { safeEqual } from "../utils/index.js";
+
+/** 登录 Cookie 名称 */
+export const AUTH_COOKIE_NAME = "mozi_session";
+
+/** 默认登录有效期 (小时) */
+const DEFAULT_SESSION_TTL_HOURS = 168;
+
+/** chat 角色可调用的 RPC 方法 (其余方法仅限 admin) */
+const CHAT_METHODS = new Set([
+  "chat.send",
+  "chat.cancel",
+  "chat.clear",
+  "sessions.list",
+  "sessions.history",
+  "sessions.delete",
+  "sessions.restore",
+  "session.info",
+  "session.setModel",
+  "status.get",
+  "approval.respond",
+  "ping",
+]);
+
+/** 角色是否可以调用 RPC 方法 */
+export function isMethodAllowed(role: WebRole, method: string): boolean {
+  return role === "admin" || CHAT_METHODS.has(method);
+}
+
+/** 解析 Cookie 请求头 */
+export function parseCookies(header: string | undefined): Record<string, string> {
+  const cookies: Record<string, string> = {};
+  for (const part of (header ?? "").split(";")) {
+    const index = part.indexOf("=");
+    if (index <= 0) continue;
+    const name = part.slice(0, index).trim();
+    try {
+      cookies[name] = decodeURIComponent(part.slice(index + 1).trim());
+    } catch {
+      // 忽略无法解码的 Cookie
+    }
+  }
+  return cookies;
+}
+
+/** WebChat 登录管理 */
+export class WebAuth {
+  private config: WebAuthConfig;
+  private secret: string;
+  private ttlMs: number;
+
+  constructor(config: WebAuthConfig = {}) {
+    this.config = config;
+    this.secret = config.secret ?? randomBytes(32).toString("hex");
+    this.ttlMs = (config.sessionTtlHours ?? DEFAULT_SESSION_TTL_HOURS) * 3600_000;
+  }
+
+  /** 是否启用登录 (配置了任一令牌) */
+  isEnabled(): boolean {
+    return !!(this.config.adminToken || this.config.chatToken);
+  }
+
+  /** 校验令牌，返回对应角色 */
+  login(token: string): WebRole | null {
+    if (!token) return null;
+    if (this.config.adminToken && safeEqual(token, this.config.adminToken)) return "admin";
+    if (this.config.chatToken && safeEqual(token, this.config.chatToken)) return "chat";
+    return null;
+  }
+
+  /** 签发登录 Cookie 值 */
+  issueSession(role: WebRole, now = Date.now()): string {
+    const payload = Buffer.from(JSON.stringify({ role, exp: now + this.ttlMs })).toString("base64url");
+    return `${payload}.${this.sign(payload)}`;
+  }
+
+  /** 校验登录 Cookie 值，返回角色 (无效或过期时返回 null) */
+  verifySession(value: string, now = Date.now()): WebRole | null {
+    const [payload, signature] = value.split(".");
+    if (!payload || !signature || !safeEqual(signature, this.sign(payload))) return null;
+    try {
+      const data = JSON.parse(Buffer.from(payload, "base64url").toString("utf-8")) as { role?: WebRole; exp?: number };
+      if ((data.role !== "admin" && data.role !== "chat") || !data.exp || data.exp < now) return null;
+      return data.role;
+    } catch {
+      return null;
+    }
+  }
+
+  /** 识别请求的角色 (未启用登录时视为 admin) */
+  authenticate(req: IncomingMessage): WebRole | null {
+    if (!this.isEnabled()) return "admin";
+
+    const authorization = req.headers.authorization;
+    if (authorization?.startsWith("Bearer ")) {
+      return this.login(authorization.slice(7).trim());
+    }
+    const cookie = parseCookies(req.headers.cookie)[AUTH_COOKIE_NAME];
+    return cookie ? this.verifySession(cookie) : null;
+  }
+
+  /** 登录 Cookie 响应头 */
+  createCookie(role: WebRole): string {
+    const maxAge = Math.floor(this.ttlMs / 1000);
+    return `${AUTH_COOKIE_NAME}=${this.issueSession(role)}; Path=/; HttpOnly; SameSite=Lax; Max-Age=${maxAge}`;
+  }
+
+  /** 清除登录 Cookie 的响应头 */
+  clearCookie(): string {
+    return `${AUTH_COOKIE_NAME}=; Path=/; HttpOnly; SameSite=Lax; Max-Age=0`;
+  }
+
+  private sign(payload: string): string {
+    return createHmac("sha256", this.secret).update(payload).digest("base64url");
+  }
+}
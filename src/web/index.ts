@@ -3,5 +3,7 @@
  */
 
 export * from "./types.js";
+export * from "./protocol.js";
 export * from "./websocket.js";
 export * from "./static.js";
+export * from "./auth.js";
@@ -0,0 +1,6 @@
+/**
+ * WebSocket 协议常量 - 网关、CLI 与前端页面共用
+ */
+
+/** 未登录时的关闭码 (前端据此跳转登录页) */
+export const WS_CLOSE_UNAUTHORIZED = 4401;
@@ -7,6 +7,8 @@ import { join, extname } from "path";
 import type { IncomingMessage, ServerResponse } from "http";
 import { getChildLogger } from "../utils/logger.js";
 import type { MoziConfig } from "../types/index.js";
+import type { WebAuth } from "./auth.js";
+import { WS_CLOSE_UNAUTHORIZED } from "./protocol.js";
 
 const logger = getChildLogger("static");
 
@@ -215,6 +217,14 @@ function getEmbeddedHtml(config: MoziConfig): string {
     .cancel-btn { background: var(--border) !important; color: var(--text) !important; }
     .cancel-btn:hover { background: var(--text-secondary) !important; color: white !important; }
     .cancelled-hint { color: var(--text-secondary); margin-top: 0.5rem; font-size: 0.875rem; }
+    .approval-card { align-self: center; width: 100%; max-width: 560px; background: var(--bg-card); border: 1px solid #f59e0b; border-radius: 0.75rem; padding: 0.75rem 1rem; display: flex; flex-direction: column; gap: 0.5rem; }
+    .approval-title { font-weight: 600; }
+    .approval-args { font-family: "SF Mono", Monaco, Consolas, monospace; font-size: 0.8rem; background: var(--bg); border-radius: 0.375rem; padding: 0.5rem; white-space: pre-wrap; word-break: break-all; max-height: 160px; overflow-y: auto; }
+    .approval-actions { display: flex; gap: 0.5rem; flex-wrap: wrap; }
+    .approval-actions button { border: 1px solid var(--border); background: var(--bg); color: var(--text); border-radius: 0.375rem; padding: 0.375rem 0.75rem; font-size: 0.875rem; cursor: pointer; }
+    .approval-actions button.approve { background: var(--primary); border-color: var(--primary); color: white; }
+    .approval-actions button.reject { color: #dc2626; border-color: #dc2626; }
+    .approval-status { color: var(--text-secondary); font-size: 0.875rem; }
     .welcome { flex: 1; display: flex; flex-direction: column; align-items: center; justify-content: center; text-align: center; gap: 1rem; color: var(--text-secondary); }
     .welcome-icon { font-size: 4rem; }
     .welcome h2 { color: var(--text); font-size: 1.5rem; }
@@ -363,7 +373,12 @@ function getEmbeddedHtml(config: MoziConfig): string {
         // 注意：不在此处加载数据，等待服务器发送 connected 事件后再操作
       };
 
-      ws.onclose = () => {
+      ws.onclose = (event) => {
+        // 未登录或登录已过期
+        if (event.code === ${WS_CLOSE_UNAUTHORIZED}) {
+          location.href = '/login?next=' + encodeURIComponent(location.pathname);
+          return;
+        }
         statusDot.classList.add('disconnected');
         statusText.textContent = '已断开';
         reconnectTimer = setTimeout(connect, 3000);
@@ -507,7 +522,7 @@ function getEmbeddedHtml(config: MoziConfig): string {
     newChatBtn.addEventListener('click', createNewChat);
 
     function clearMessagesUI() {
-      const msgs = messagesEl.querySelectorAll('.message');
+      const msgs = messagesEl.querySelectorAll('.message, .approval-card');
       msgs.forEach(m => m.remove());
     }
 
@@ -564,6 +579,10 @@ function getEmbeddedHtml(config: MoziConfig): string {
           updateStreamingMessage(currentStreamContent);
         }
         if (payload.done) {
+          if (typeof payload.content === 'string') {
+            currentStreamContent = payload.content;
+            updateStreamingMessage(currentStreamContent);
+          }
           isStreaming = false;
           sendBtn.style.display = '';
           cancelBtn.style.display = 'none';
@@ -577,6 +596,10 @@ function getEmbeddedHtml(config: MoziConfig): string {
           finalizeStreamingMessage();
           loadSessionList();
         }
+      } else if (event === 'approval.request') {
+        showApprovalRequest(payload);
+      } else if (event === 'approval.resolved') {
+        markApprovalResolved(payload.id, payload.decision);
       } else if (event === 'chat.error') {
         isStreaming = false;
         sendBtn.style.display = '';
@@ -634,6 +657,52 @@ function getEmbeddedHtml(config: MoziConfig): string {
       if (msgEl) msgEl.removeAttribute('id');
     }
 
+    const APPROVAL_STATUS = {
+      approved: '✅ 已批准',
+      always: '✅ 已批准（本会话始终允许）',
+      rejected: '🚫 已拒绝',
+      timeout: '⏱️ 已超时，未执行',
+      cancelled: '已取消',
+      unavailable: '无法确认，未执行',
+    };
+
+    function showApprovalRequest(payload) {
+      const seconds = Math.max(0, Math.round((payload.expiresAt - Date.now()) / 1000));
+      const el = document.createElement('div');
+      el.className = 'approval-card';
+      el.dataset.approvalId = payload.id;
+      el.innerHTML = \`
+        <div class="approval-title">⚠️ 工具 \${escapeHtml(payload.toolName)} 请求执行</div>
+        <div class="approval-args">\${escapeHtml(payload.argsPreview)}</div>
+        <div class="approval-actions">
+          <button class="approve" data-decision="approve">批准</button>
+          <button data-decision="always">本会话始终允许</button>
+          <button class="reject" data-decision="reject">拒绝</button>
+        </div>
+        <div class="approval-status">\${seconds} 秒内未答复将自动拒绝</div>
+      \`;
+      el.querySelectorAll('.approval-actions button').forEach(btn => {
+        btn.addEventListener('click', async () => {
+          el.querySelectorAll('.approval-actions button').forEach(b => b.disabled = true);
+          try {
+            await request('approval.respond', { id: payload.id, decision: btn.dataset.decision });
+          } catch (e) {
+            el.querySelector('.approval-status').textContent = '❌ ' + e.message;
+          }
+        });
+      });
+      messagesEl.appendChild(el);
+      messagesEl.scrollTop = messagesEl.scrollHeight;
+    }
+
+    function markApprovalResolved(id, decision) {
+      const el = messagesEl.querySelector('.approval-card[data-approval-id="' + id + '"]');
+      if (!el) return;
+      const actions = el.querySelector('.approval-actions');
+      if (actions) actions.remove();
+      el.querySelector('.approval-status').textContent = APPROVAL_STATUS[decision] || decision;
+    }
+
     function escapeHtml(text) {
       const div = document.createElement('div');
       div.textContent = text;
@@ -1244,6 +1313,10 @@ function getControlHtml(config: MoziConfig): string {
         <span>通讯通道</span>
       </div>
       <div class="nav-section">工具</div>
+      <div class="nav-item" data-view="cron">
+        <span class="nav-item-icon">⏰</span>
+        <span>定时任务</span>
+      </div>
       <div class="nav-item" data-view="logs">
         <span class="nav-item-icon">📋</span>
         <span>日志</span>
@@ -1568,6 +1641,98 @@ function getControlHtml(config: MoziConfig): string {
         <div id="save-result" class="save-result"></div>
       </div>
 
+      <!-- 定时任务视图 -->
+      <div class="view" id="view-cron">
+        <div class="page-header">
+          <h1 class="page-title">定时任务</h1>
+          <p class="page-desc">管理定时任务，预览调度并查看运行记录</p>
+        </div>
+        <div class="table-container">
+          <div class="table-header">
+            <span class="table-title">任务列表</span>
+            <button class="btn btn-secondary" onclick="loadCronJobs()">刷新</button>
+          </div>
+          <table>
+            <thead>
+              <tr>
+                <th>名称</th>
+                <th>调度</th>
+                <th>下次运行</th>
+                <th>上次结果</th>
+                <th>启用</th>
+                <th>操作</th>
+              </tr>
+            </thead>
+            <tbody id="cron-jobs-list">
+              <tr><td colspan="6" class="empty-state">加载中...</td></tr>
+            </tbody>
+          </table>
+        </div>
+        <div class="table-container" id="cron-runs-container" style="display:none;">
+          <div class="table-header">
+            <span class="table-title" id="cron-runs-title">运行记录</span>
+            <button class="btn btn-secondary" onclick="document.getElementById('cron-runs-container').style.display='none'">关闭</button>
+          </div>
+          <table>
+            <thead>
+              <tr>
+                <th>开始时间</th>
+                <th>触发</th>
+                <th>结果</th>
+                <th>耗时</th>
+                <th>详情</th>
+              </tr>
+            </thead>
+            <tbody id="cron-runs-list"></tbody>
+          </table>
+        </div>
+        <div class="form-section">
+          <div class="form-section-title">新建任务</div>
+          <div class="form-row">
+            <div class="form-group">
+              <label>名称</label>
+              <input type="text" id="cron-name" class="form-input" placeholder="例如: 每日早报" />
+            </div>
+            <div class="form-group">
+              <label>类型</label>
+              <select id="cron-payload-kind" class="form-input">
+                <option value="agentTurn">agentTurn (Agent 执行)</option>
+                <option value="systemEvent">systemEvent (系统事件)</option>
+              </select>
+            </div>
+          </div>
+          <div class="form-row">
+            <div class="form-group">
+              <label>调度方式</label>
+              <select id="cron-schedule-kind" class="form-input" onchange="updateCronScheduleFields()">
+                <option value="cron">Cron 表达式</option>
+                <option value="every">固定间隔 (分钟)</option>
+                <option value="at">一次性</option>
+              </select>
+            </div>
+            <div class="form-group">
+              <label id="cron-schedule-label">Cron 表达式</label>
+              <input type="text" id="cron-schedule-value" class="form-input" placeholder="0 9 * * *" />
+            </div>
+          </div>
+          <div class="form-group">
+            <label>消息</label>
+            <textarea id="cron-message" class="form-input" rows="3" placeholder="发给 Agent 的内容或系统事件消息"></textarea>
+          </div>
+          <div class="form-group">
+            <label>投递目标 (可选，仅 agentTurn)</label>
+            <input type="text" id="cron-deliver" class="form-input" placeholder="通道:聊天ID 或 通道:账号:聊天ID" />
+          </div>
+          <div class="form-group">
+            <div id="cron-preview" class="form-hint">点击“预览”查看之后几次运行时间</div>
+          </div>
+          <div style="display:flex;gap:0.5rem;">
+            <button class="btn btn-secondary" onclick="previewCronSchedule()">预览</button>
+            <button class="btn btn-primary" onclick="addCronJob()">创建</button>
+          </div>
+        </div>
+      </div>
+
       <!-- 日志视图 -->
       <div class="view" id="view-logs">
         <div class="page-header">
@@ -1649,6 +1814,9 @@ function getControlHtml(config: MoziConfig): string {
         if (item.dataset.view === 'config' && ws?.readyState === WebSocket.OPEN) {
           loadConfig();
         }
+        if (item.dataset.view === 'cron' && ws?.readyState === WebSocket.OPEN) {
+          loadCronJobs();
+        }
       });
     });
 
@@ -1664,7 +1832,11 @@ function getControlHtml(config: MoziConfig): string {
         refreshStatus();
       };
 
-      ws.onclose = () => {
+      ws.onclose = (event) => {
+        if (event.code === ${WS_CLOSE_UNAUTHORIZED}) {
+          location.href = '/login?next=' + encodeURIComponent(location.pathname);
+          return;
+        }
         document.getElementById('connection-status').innerHTML =
           '<span class="status-badge offline"><span class="status-dot"></span>已断开</span>';
         addLog('warn', '连接已断开，正在重连...');
@@ -2278,6 +2450,170 @@ function getControlHtml(config: MoziConfig): string {
       resultEl.textContent = '';
     }
 
+    // ===== 定时任务 =====
+    function escapeText(text) {
+      const div = document.createElement('div');
+      div.textContent = text == null ? '' : String(text);
+      return div.innerHTML;
+    }
+
+    function formatTime(ms) {
+      return ms ? new Date(ms).toLocaleString() : '-';
+    }
+
+    // 调度方式切换时更新输入提示
+    function updateCronScheduleFields() {
+      const kind = document.getElementById('cron-schedule-kind').value;
+      const input = document.getElementById('cron-schedule-value');
+      const labels = { cron: 'Cron 表达式', every: '间隔 (分钟)', at: '执行时间' };
+      const placeholders = { cron: '0 9 * * *', every: '30', at: '2025-01-01 09:00' };
+      document.getElementById('cron-schedule-label').textContent = labels[kind];
+      input.placeholder = placeholders[kind];
+      input.value = '';
+    }
+
+    // 由表单构造调度
+    function getCronScheduleInput() {
+      const kind = document.getElementById('cron-schedule-kind').value;
+      const value = document.getElementById('cron-schedule-value').value.trim();
+      if (kind === 'every') return { kind, everyMs: Math.round(parseFloat(value) * 60000) };
+      if (kind === 'at') return { kind, atMs: new Date(value).getTime() };
+      return { kind, expr: value };
+    }
+
+    // 预览调度
+    async function previewCronSchedule() {
+      const el = document.getElementById('cron-preview');
+      try {
+        const preview = await request('cron.preview', { schedule: getCronScheduleInput(), count: 5 });
+        if (!preview.valid) {
+          el.textContent = '调度无效: ' + preview.error;
+          return false;
+        }
+        el.innerHTML = '<strong>' + escapeText(preview.description) + '</strong><br>' +
+          preview.nextRuns.map(ms => escapeText(formatTime(ms))).join('<br>');
+        return true;
+      } catch (e) {
+        el.textContent = '预览失败: ' + e.message;
+        return false;
+      }
+    }
+
+    // 加载任务列表
+    async function loadCronJobs() {
+      const tbody = document.getElementById('cron-jobs-list');
+      try {
+        const { jobs } = await request('cron.list', { includeDisabled: true });
+        if (jobs.length === 0) {
+          tbody.innerHTML = '<tr><td colspan="6" class="empty-state">暂无定时任务</td></tr>';
+          return;
+        }
+        const previews = await Promise.all(jobs.map(job =>
+          request('cron.preview', { schedule: job.schedule, count: 1 }).catch(() => null)
+        ));
+        tbody.innerHTML = jobs.map((job, i) => \`
+          <tr>
+            <td>\${escapeText(job.name)}<div class="form-hint">\${escapeText(job.id.slice(0, 8))} · \${escapeText(job.payload.kind)}</div></td>
+            <td>\${escapeText(previews[i]?.description || job.schedule.kind)}</td>
+            <td>\${job.enabled ? escapeText(formatTime(job.state.nextRunAtMs)) : '-'}</td>
+            <td>\${job.state.lastStatus
+              ? '<span class="status-badge ' + (job.state.lastStatus === 'ok' ? 'online' : 'offline') + '"><span class="status-dot"></span>' + escapeText(job.state.lastStatus) + '</span>'
+              : '-'}</td>
+            <td><input type="checkbox" \${job.enabled ? 'checked' : ''} onchange="toggleCronJob('\${job.id}', this.checked)" /></td>
+            <td style="white-space:nowrap;">
+              <button class="btn btn-secondary" onclick="runCronJob('\${job.id}')">运行</button>
+              <button class="btn btn-secondary" onclick="showCronRuns('\${job.id}')">记录</button>
+              <button class="btn btn-danger" onclick="removeCronJob('\${job.id}')">删除</button>
+            </td>
+          </tr>
+        \`).join('');
+      } catch (e) {
+        tbody.innerHTML = '<tr><td colspan="6" class="empty-state">加载失败: ' + escapeText(e.message) + '</td></tr>';
+      }
+    }
+
+    // 新建任务
+    async function addCronJob() {
+      const name = document.getElementById('cron-name').value.trim();
+      const kind = document.getElementById('cron-payload-kind').value;
+      const message = document.getElementById('cron-message').value.trim();
+      const deliver = document.getElementById('cron-deliver').value.trim();
+      if (!(await previewCronSchedule())) return;
+
+      const payload = { kind, message };
+      if (kind === 'agentTurn' && deliver) {
+        const parts = deliver.split(':');
+        if (parts.length !== 2 && parts.length !== 3) {
+          addLog('error', '投递目标格式应为 通道:聊天ID 或 通道:账号:聊天ID');
+          return;
+        }
+        Object.assign(payload, { deliver: true, channel: parts[0], to: parts[parts.length - 1] });
+        if (parts.length === 3) payload.accountId = parts[1];
+      }
+
+      try {
+        const { job } = await request('cron.add', { name, schedule: getCronScheduleInput(), payload });
+        addLog('info', '已创建定时任务: ' + escapeText(job.name));
+        document.getElementById('cron-name').value = '';
+        document.getElementById('cron-message').value = '';
+        loadCronJobs();
+      } catch (e) {
+        addLog('error', '创建定时任务失败: ' + escapeText(e.message));
+        document.getElementById('cron-preview').textContent = '创建失败: ' + e.message;
+      }
+    }
+
+    async function toggleCronJob(jobId, enabled) {
+      try {
+        await request('cron.update', { jobId, patch: { enabled } });
+      } catch (e) {
+        addLog('error', '更新定时任务失败: ' + escapeText(e.message));
+      }
+      loadCronJobs();
+    }
+
+    async function runCronJob(jobId) {
+      try {
+        const result = await request('cron.run', { jobId });
+        addLog(result.status === 'ok' ? 'info' : 'error', '任务执行结果: ' + escapeText(result.status + (result.error ? ' ' + result.error : '')));
+      } catch (e) {
+        addLog('error', '执行定时任务失败: ' + escapeText(e.message));
+      }
+      loadCronJobs();
+    }
+
+    async function removeCronJob(jobId) {
+      if (!confirm('确定删除该定时任务？')) return;
+      try {
+        await request('cron.remove', { jobId });
+      } catch (e) {
+        addLog('error', '删除定时任务失败: ' + escapeText(e.message));
+      }
+      loadCronJobs();
+    }
+
+    // 运行记录
+    async function showCronRuns(jobId) {
+      try {
+        const { job, runs } = await request('cron.runs', { jobId, limit: 20 });
+        document.getElementById('cron-runs-title').textContent = '运行记录: ' + job.name;
+        document.getElementById('cron-runs-list').innerHTML = runs.length === 0
+          ? '<tr><td colspan="5" class="empty-state">暂无运行记录</td></tr>'
+          : runs.map(run => \`
+            <tr>
+              <td>\${escapeText(formatTime(run.startedAtMs))}</td>
+              <td>\${escapeText(run.trigger)}\${run.attempt > 0 ? ' #' + run.attempt : ''}</td>
+              <td>\${escapeText(run.status)}</td>
+              <td>\${run.durationMs}ms</td>
+              <td>\${escapeText(run.error || run.summary || '')}\${run.delivery ? '<div class="form-hint">投递: ' + escapeText(run.delivery.status) + '</div>' : ''}</td>
+            </tr>
+          \`).join('');
+        document.getElementById('cron-runs-container').style.display = '';
+      } catch (e) {
+        addLog('error', '获取运行记录失败: ' + escapeText(e.message));
+      }
+    }
+
     // 启动
     connect();
   </script>
@@ -2285,9 +2621,126 @@ function getControlHtml(config: MoziConfig): string {
 </html>`;
 }
 
+/** HTML 转义 */
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (ch) => `&#${ch.charCodeAt(0)};`);
+}
+
+/** 登录后跳转地址 (仅允许站内路径) */
+function getSafeNext(next: unknown): string {
+  return typeof next === "string" && next.startsWith("/") && !next.startsWith("//") ? next : "/";
+}
+
+/** 获取登录页面 */
+function getLoginHtml(next: string, error?: string): string {
+  return `<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>墨子 - 登录</title>
+  <style>
+    * { margin: 0; padding: 0; box-sizing: border-box; }
+    body {
+      font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, "Helvetica Neue", Arial, sans-serif;
+      background: #f9fafb;
+      color: #111827;
+      height: 100vh;
+      display: flex;
+      align-items: center;
+      justify-content: center;
+    }
+    form {
+      width: 320px;
+      background: #fff;
+      border: 1px solid #e5e7eb;
+      border-radius: 12px;
+      padding: 32px 24px;
+      text-align: center;
+    }
+    h1 { font-size: 20px; margin: 12px 0 20px; }
+    input {
+      width: 100%;
+      padding: 10px 12px;
+      border: 1px solid #e5e7eb;
+      border-radius: 8px;
+      font-size: 14px;
+      margin-bottom: 12px;
+    }
+    button {
+      width: 100%;
+      padding: 10px;
+      border: none;
+      border-radius: 8px;
+      background: #4f46e5;
+      color: #fff;
+      font-size: 14px;
+      cursor: pointer;
+    }
+    button:hover { background: #4338ca; }
+    .error { color: #dc2626; font-size: 13px; margin-bottom: 12px; }
+  </style>
+</head>
+<body>
+  <form method="POST" action="/login">
+    ${MASCOT_SVG_LARGE}
+    <h1>登录墨子</h1>
+    ${error ? `<div class="error">${escapeHtml(error)}</div>` : ""}
+    <input type="hidden" name="next" value="${escapeHtml(next)}">
+    <input type="password" name="token" placeholder="访问令牌 / 密码" autofocus required>
+    <button type="submit">登录</button>
+  </form>
+</body>
+</html>`;
+}
+
+/** 发送 HTML 响应 */
+function sendHtml(res: ServerResponse, status: number, html: string, headers: Record<string, string> = {}): void {
+  res.writeHead(status, {
+    "Content-Type": "text/html; charset=utf-8",
+    "Content-Length": Buffer.byteLength(html),
+    ...headers,
+  });
+  res.end(html);
+}
+
+/** 重定向 */
+function redirect(res: ServerResponse, location: string, headers: Record<string, string> = {}): void {
+  res.writeHead(302, { Location: location, ...headers });
+  res.end();
+}
+
+/** 处理登录与退出 (请求体由 express.urlencoded 解析) */
+function handleLoginRequest(req: IncomingMessage & { body?: Record<string, unknown> }, res: ServerResponse, auth: WebAuth): void {
+  const url = new URL(req.url || "/", "http://localhost");
+  if (url.pathname === "/logout") {
+    redirect(res, "/login", { "Set-Cookie": auth.clearCookie() });
+    return;
+  }
+
+  if (req.method !== "POST") {
+    sendHtml(res, 200, getLoginHtml(getSafeNext(url.searchParams.get("next"))));
+    return;
+  }
+
+  const next = getSafeNext(req.body?.next);
+  const token = typeof req.body?.token === "string" ? req.body.token : "";
+  const role = auth.login(token);
+  if (!role) {
+    logger.warn({ remoteAddress: req.socket.remoteAddress }, "WebChat login failed");
+    sendHtml(res, 401, getLoginHtml(next, "令牌错误"));
+    return;
+  }
+
+  logger.info({ role, remoteAddress: req.socket.remoteAddress }, "WebChat login");
+  redirect(res, next, { "Set-Cookie": auth.createCookie(role) });
+}
+
 /** 静态文件服务选项 */
 export interface StaticServerOptions {
   config: MoziConfig;
+  /** 登录管理 (未启用登录时所有页面公开) */
+  auth?: WebAuth;
 }
 
 /** 处理静态文件请求 */
@@ -2314,8 +2767,28 @@ export function handleStaticRequest(
     return false;
   }
 
+  const auth = options.auth?.isEnabled() ? options.auth : undefined;
+  if (auth && (pathname === "/login" || pathname === "/logout")) {
+    handleLoginRequest(req, res, auth);
+    return true;
+  }
+
+  const isControl = pathname === "/control" || pathname === "/control/";
+  if (auth && (isControl || pathname === "/" || pathname === "/index.html")) {
+    const role = auth.authenticate(req);
+    if (!role) {
+      redirect(res, `/login?next=${encodeURIComponent(pathname)}`);
+      return true;
+    }
+    // 控制台仅限管理员
+    if (isControl && role !== "admin") {
+      sendHtml(res, 403, getLoginHtml(pathname, "当前账号没有控制台权限，请使用管理员令牌登录"));
+      return true;
+    }
+  }
+
   // Control UI
-  if (pathname === "/control" || pathname === "/control/") {
+  if (isControl) {
     const html = getControlHtml(options.config);
     res.writeHead(200, {
       "Content-Type": "text/html; charset=utf-8",
@@ -2,6 +2,8 @@
  * Web 模块类型定义
  */
 
+import type { CronJobUpdate, CronSchedule } from "../cron/types.js";
+
 /** WebSocket 请求帧 */
 export interface WsRequestFrame {
   type: "req";
@@ -74,6 +76,54 @@ export interface SessionsRestoreParams {
   sessionKey: string;
 }
 
+/** 切换会话模型请求参数 */
+export interface SessionSetModelParams {
+  provider: string;
+  model: string;
+}
+
+/** 用量查询请求参数 */
+export interface UsageGetParams {
+  /** 起始时间 (毫秒时间戳) */
+  since?: number;
+  /** 结束时间 (毫秒时间戳) */
+  until?: number;
+  groupBy?: "session" | "sender" | "channel" | "model" | "day";
+  sessionKey?: string;
+  senderId?: string;
+  channelId?: string;
+}
+
+/** 定时任务列表请求参数 */
+export interface CronListParams {
+  includeDisabled?: boolean;
+}
+
+/** 指定定时任务的请求参数 */
+export interface CronJobParams {
+  jobId: string;
+}
+
+/** 定时任务更新请求参数 */
+export interface CronUpdateParams {
+  jobId: string;
+  patch: CronJobUpdate;
+}
+
+/** 定时任务运行记录查询参数 */
+export interface CronRunsParams {
+  jobId: string;
+  /** 返回条数 (默认 20) */
+  limit?: number;
+}
+
+/** 调度预览请求参数 */
+export interface CronPreviewParams {
+  schedule: CronSchedule;
+  /** 预览次数 (默认 5) */
+  count?: number;
+}
+
 /** 聊天流事件 */
 export interface ChatDeltaEvent {
   sessionId: string;
@@ -81,6 +131,29 @@ export interface ChatDeltaEvent {
   done: boolean;
   /** 是否为用户取消 */
   cancelled?: boolean;
+  /** 最终内容 (被 message_sending Hook 改写时提供，前端应替换已流式输出的内容) */
+  content?: string;
+}
+
+/** 工具审批请求事件 */
+export interface ApprovalRequestEvent {
+  id: string;
+  sessionId: string | null;
+  toolName: string;
+  argsPreview: string;
+  expiresAt: number;
+}
+
+/** 工具审批结果事件 */
+export interface ApprovalResolvedEvent {
+  id: string;
+  decision: string;
+}
+
+/** 工具审批答复参数 */
+export interface ApprovalRespondParams {
+  id: string;
+  decision: "approve" | "always" | "reject";
 }
 
 /** 会话信息 */
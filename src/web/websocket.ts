@@ -19,19 +19,49 @@ import type {
   SessionsDeleteParams,
   SessionsResetParams,
   SessionsRestoreParams,
+  SessionSetModelParams,
+  UsageGetParams,
+  CronListParams,
+  CronJobParams,
+  CronUpdateParams,
+  CronRunsParams,
+  CronPreviewParams,
   ConfigInfo,
   ConfigSaveParams,
   ConfigValidateResult,
+  ApprovalRequestEvent,
+  ApprovalResolvedEvent,
+  ApprovalRespondParams,
 } from "./types.js";
 import type { Agent } from "../agents/agent.js";
-import type { MoziConfig, ProviderId } from "../types/index.js";
-import { getAllProviders } from "../providers/index.js";
+import type { MoziConfig, ProviderId, WebRole } from "../types/index.js";
+import { getAllProviders, getProviderHealth } from "../providers/index.js";
 import { getAllChannels } from "../channels/index.js";
 import { getSessionStore, type TranscriptMessage } from "../sessions/index.js";
+import { getUsageLedger } from "../usage/index.js";
+import {
+  computeNextRuns,
+  formatSchedule,
+  getCronService,
+  validateCronJobInput,
+  validateSchedule,
+  type CronJob,
+  type CronJobCreate,
+} from "../cron/index.js";
+import { emitMessageReceived, emitMessageSending, emitMessageSent, emitError } from "../hooks/index.js";
+import {
+  registerApprovalPrompter,
+  unregisterApprovalPrompter,
+  onApprovalResolved,
+  resolveApproval,
+  type ApprovalRequest,
+} from "../tools/approval.js";
 import { join } from "path";
 import { homedir } from "os";
 import { writeFileSync, readFileSync, existsSync, mkdirSync } from "fs";
 import json5 from "json5";
+import { isMethodAllowed, type WebAuth } from "./auth.js";
+import { WS_CLOSE_UNAUTHORIZED } from "./protocol.js";
 const logger = getChildLogger("websocket");
 
 /** WebSocket 客户端 */
@@ -41,6 +71,8 @@ interface WsClient {
   sessionKey: string | null;  // null 表示尚未绑定 session
   sessionId: string | null;
   lastPing: number;
+  /** 登录角色 */
+  role: WebRole;
   /** 当前聊天请求的 AbortController，用于取消 */
   currentAbortController: AbortController | null;
 }
@@ -50,25 +82,67 @@ export interface WsServerOptions {
   server: HttpServer;
   agent: Agent;
   config: MoziConfig;
+  /** 登录管理 (未提供或未启用时所有连接视为 admin) */
+  auth?: WebAuth;
   /** 心跳检测间隔 (毫秒), 默认 30000 */
   heartbeatInterval?: number;
   /** 客户端超时时间 (毫秒), 默认 60000 */
   clientTimeout?: number;
 }
 
+/** 合并控制台编辑的通道配置 (未编辑的通道原样保留，包括插件等非内置通道) */
+export function mergeChannelEdits(
+  existingChannels: MoziConfig["channels"] | undefined,
+  edits: NonNullable<ConfigSaveParams["channels"]>
+): MoziConfig["channels"] {
+  const channels: MoziConfig["channels"] = { ...existingChannels };
+
+  for (const [id, c] of Object.entries(edits)) {
+    if (!c.hasConfig) {
+      // 删除通道配置
+      delete (channels as any)[id];
+      continue;
+    }
+    const existing = (existingChannels as any)?.[id];
+    (channels as any)[id] = {
+      ...existing,
+      enabled: c.enabled,
+      ...(c.appId && { appId: c.appId }),
+      ...(c.appSecret && { appSecret: c.appSecret }),
+      ...(c.appKey && { appKey: c.appKey }),
+      ...(c.corpId && { corpId: c.corpId }),
+      ...(c.corpSecret && { corpSecret: c.corpSecret }),
+      ...(c.agentId && { agentId: c.agentId }),
+      ...(c.token && { token: c.token }),
+      ...(c.encodingAESKey && { encodingAESKey: c.encodingAESKey }),
+      ...(c.clientSecret && { clientSecret: c.clientSecret }),
+      ...(c.verificationToken && { verificationToken: c.verificationToken }),
+      ...(c.encryptKey && { encryptKey: c.encryptKey }),
+      ...(c.sandbox !== undefined && { sandbox: c.sandbox }),
+      ...(c.robotCode && { robotCode: c.robotCode }),
+    };
+  }
+
+  return channels;
+}
+
 /** WebSocket 服务器类 */
 export class WsServer {
   private wss: WebSocketServer;
   private clients = new Map<string, WsClient>();
   private agent: Agent;
   private config: MoziConfig;
+  private auth?: WebAuth;
   private startTime = Date.now();
   private heartbeatInterval: number;
   private clientTimeout: number;
+  /** 取消审批结果监听 */
+  private offApprovalResolved: () => void;
 
   constructor(options: WsServerOptions) {
     this.agent = options.agent;
     this.config = options.config;
+    this.auth = options.auth;
     this.heartbeatInterval = options.heartbeatInterval ?? 30000;
     this.clientTimeout = options.clientTimeout ?? 60000;
 
@@ -78,17 +152,33 @@ export class WsServer {
     });
 
     this.wss.on("connection", (ws, req) => {
-      this.handleConnection(ws);
+      const role = this.auth ? this.auth.authenticate(req) : "admin";
+      if (!role) {
+        logger.warn({ remoteAddress: req.socket.remoteAddress }, "Unauthorized WebSocket connection");
+        ws.close(WS_CLOSE_UNAUTHORIZED, "Unauthorized");
+        return;
+      }
+      this.handleConnection(ws, role);
     });
 
     // 心跳检测
     setInterval(() => this.checkHeartbeat(), this.heartbeatInterval);
 
+    // 工具审批: 通过对话框向发起会话的客户端确认
+    registerApprovalPrompter("webchat", (request) => this.sendApprovalRequest(request));
+    this.offApprovalResolved = onApprovalResolved((request, decision) => {
+      if (request.context.channelId !== "webchat") return;
+      const client = this.findClientBySessionKey(request.context.chatId);
+      if (client && client.ws.readyState === WebSocket.OPEN) {
+        this.sendEvent(client.ws, "approval.resolved", { id: request.id, decision } as ApprovalResolvedEvent);
+      }
+    });
+
     logger.info("WebSocket server initialized");
   }
 
   /** 处理新连接 */
-  private async handleConnection(ws: WebSocket): Promise<void> {
+  private async handleConnection(ws: WebSocket, role: WebRole): Promise<void> {
     const clientId = generateId("client");
 
     // 不立即创建 session，等待客户端发送 sessions.restore 或 chat.send 时再创建
@@ -98,16 +188,18 @@ export class WsServer {
       sessionKey: null,
       sessionId: null,
       lastPing: Date.now(),
+      role,
       currentAbortController: null,
     };
 
     this.clients.set(clientId, client);
-    logger.info({ clientId }, "Client connected");
+    logger.info({ clientId, role }, "Client connected");
 
     // 发送欢迎消息 - 不包含 session 信息，等待客户端决定
     this.sendEvent(ws, "connected", {
       clientId,
       version: "1.0.0",
+      role,
     });
 
     ws.on("message", (data) => {
@@ -148,6 +240,15 @@ export class WsServer {
   ): Promise<void> {
     const { id, method, params } = frame;
 
+    if (!isMethodAllowed(client.role, method)) {
+      logger.warn({ clientId: client.id, role: client.role, method }, "Method not allowed");
+      this.sendResponse(client.ws, id, false, undefined, {
+        code: "FORBIDDEN",
+        message: `Permission denied: ${method}`,
+      });
+      return;
+    }
+
     try {
       let result: unknown;
 
@@ -162,13 +263,13 @@ export class WsServer {
           result = await this.handleChatClear(client);
           break;
         case "sessions.list":
-          result = await this.handleSessionsList(params as SessionsListParams);
+          result = await this.handleSessionsList(client, params as SessionsListParams);
           break;
         case "sessions.history":
-          result = await this.handleSessionsHistory(params as SessionsHistoryParams);
+          result = await this.handleSessionsHistory(client, params as SessionsHistoryParams);
           break;
         case "sessions.delete":
-          result = await this.handleSessionsDelete(params as SessionsDeleteParams);
+          result = await this.handleSessionsDelete(client, params as SessionsDeleteParams);
           break;
         case "sessions.reset":
           result = await this.handleSessionsReset(params as SessionsResetParams);
@@ -180,7 +281,34 @@ export class WsServer {
           result = this.getSystemStatus();
           break;
         case "session.info":
-          result = this.getSessionInfo(client);
+          result = await this.getSessionInfo(client);
+          break;
+        case "session.setModel":
+          result = await this.handleSessionSetModel(client, params as SessionSetModelParams);
+          break;
+        case "usage.get":
+          result = await this.handleUsageGet(params as UsageGetParams);
+          break;
+        case "cron.list":
+          result = this.handleCronList(params as CronListParams);
+          break;
+        case "cron.add":
+          result = this.handleCronAdd(params as CronJobCreate);
+          break;
+        case "cron.update":
+          result = this.handleCronUpdate(params as CronUpdateParams);
+          break;
+        case "cron.remove":
+          result = this.handleCronRemove(params as CronJobParams);
+          break;
+        case "cron.run":
+          result = await getCronService().run(this.getCronJob(params as CronJobParams).id);
+          break;
+        case "cron.runs":
+          result = this.handleCronRuns(params as CronRunsParams);
+          break;
+        case "cron.preview":
+          result = this.handleCronPreview(params as CronPreviewParams);
           break;
         case "config.get":
           result = this.getConfigInfo();
@@ -191,6 +319,9 @@ export class WsServer {
         case "config.save":
           result = await this.saveConfig(params as ConfigSaveParams);
           break;
+        case "approval.respond":
+          result = this.handleApprovalRespond(client, params as ApprovalRespondParams);
+          break;
         case "ping":
           result = { pong: Date.now() };
           break;
@@ -265,6 +396,8 @@ export class WsServer {
       timestamp: Date.now(),
     };
 
+    emitMessageReceived(context, client.sessionKey!);
+
     const controller = new AbortController();
     client.currentAbortController = controller;
 
@@ -283,20 +416,40 @@ export class WsServer {
 
       client.currentAbortController = null;
 
-      // 保存助手消息到 transcript
-      const assistantMessage: TranscriptMessage = {
-        id: generateId("msg"),
-        role: "assistant",
+      // message_sending Hook 可改写或取消最终回复 (流式增量已推送，改写后由前端整体替换)
+      const outgoing = await emitMessageSending({
+        channelId: "webchat",
+        chatId: client.sessionKey!,
         content: fullContent,
-        timestamp: Date.now(),
-      };
-      await store.appendTranscript(client.sessionId!, client.sessionKey!, assistantMessage);
+        replyToId: messageId,
+        sessionKey: client.sessionKey!,
+      });
+      const finalContent = outgoing.cancelled ? "" : outgoing.content;
+
+      // 保存助手消息到 transcript
+      if (finalContent) {
+        const assistantMessage: TranscriptMessage = {
+          id: generateId("msg"),
+          role: "assistant",
+          content: finalContent,
+          timestamp: Date.now(),
+        };
+        await store.appendTranscript(client.sessionId!, client.sessionKey!, assistantMessage);
+      }
 
       this.sendEvent(client.ws, "chat.delta", {
         sessionId: client.sessionId,
         delta: "",
         done: true,
+        ...(finalContent !== fullContent && { content: finalContent }),
       } as ChatDeltaEvent);
+
+      emitMessageSent({
+        channelId: "webchat",
+        chatId: client.sessionKey!,
+        success: !outgoing.cancelled,
+        sessionKey: client.sessionKey!,
+      });
     } catch (error) {
       client.currentAbortController = null;
       const isAborted =
@@ -311,6 +464,7 @@ export class WsServer {
         } as ChatDeltaEvent);
       } else {
         const errorMessage = error instanceof Error ? error.message : String(error);
+        emitError(error instanceof Error ? error : new Error(errorMessage), "webchat.chat", client.sessionKey!);
         this.sendEvent(client.ws, "chat.error", {
           sessionId: client.sessionId,
           error: errorMessage,
@@ -331,6 +485,53 @@ export class WsServer {
     return { cancelled: false };
   }
 
+  /** 按 sessionKey 查找客户端 */
+  private findClientBySessionKey(sessionKey: string): WsClient | undefined {
+    for (const client of this.clients.values()) {
+      if (client.sessionKey === sessionKey) return client;
+    }
+    return undefined;
+  }
+
+  /** 向发起会话的客户端推送审批请求 */
+  private async sendApprovalRequest(request: ApprovalRequest): Promise<void> {
+    const client = this.findClientBySessionKey(request.context.chatId);
+    if (!client || client.ws.readyState !== WebSocket.OPEN) {
+      throw new Error(`No WebChat client for session: ${request.context.chatId}`);
+    }
+
+    this.sendEvent(client.ws, "approval.request", {
+      id: request.id,
+      sessionId: client.sessionId,
+      toolName: request.toolName,
+      argsPreview: request.argsPreview,
+      expiresAt: request.expiresAt,
+    } as ApprovalRequestEvent);
+  }
+
+  /** 处理审批答复 */
+  private handleApprovalRespond(client: WsClient, params: ApprovalRespondParams): { success: boolean } {
+    if (!client.sessionKey) {
+      throw new Error("No active session");
+    }
+
+    const decisions = { approve: "approved", always: "always", reject: "rejected" } as const;
+    const decision = decisions[params?.decision];
+    if (!params?.id || !decision) {
+      throw new Error("Invalid approval response");
+    }
+
+    const result = resolveApproval(params.id, decision, {
+      channelId: "webchat",
+      chatId: client.sessionKey,
+      senderId: client.sessionKey.replace("webchat:", ""),
+    });
+    if (!result.success) {
+      throw new Error(result.error);
+    }
+    return { success: true };
+  }
+
   /** 处理清除会话 */
   private async handleChatClear(client: WsClient): Promise<{ success: boolean; sessionKey: string; sessionId: string }> {
     // 确保有 session
@@ -359,18 +560,31 @@ export class WsServer {
   }
 
   /** 处理会话列表 */
-  private async handleSessionsList(params?: SessionsListParams): Promise<unknown> {
+  private async handleSessionsList(client: WsClient, params?: SessionsListParams): Promise<unknown> {
     const store = getSessionStore();
     const sessions = await store.list({
       limit: params?.limit,
       activeMinutes: params?.activeMinutes,
       search: params?.search,
     });
-    return { sessions };
+    return { sessions: sessions.filter((session) => this.canAccessSession(client, session.sessionKey)) };
+  }
+
+  /** chat 角色只能访问 WebChat 会话 */
+  private canAccessSession(client: WsClient, sessionKey: string): boolean {
+    return client.role === "admin" || sessionKey.startsWith("webchat:");
+  }
+
+  /** 校验会话访问权限 */
+  private assertSessionAccess(client: WsClient, sessionKey: string): void {
+    if (!this.canAccessSession(client, sessionKey)) {
+      throw new Error(`Permission denied: ${sessionKey}`);
+    }
   }
 
   /** 处理获取会话历史 */
-  private async handleSessionsHistory(params: SessionsHistoryParams): Promise<unknown> {
+  private async handleSessionsHistory(client: WsClient, params: SessionsHistoryParams): Promise<unknown> {
+    this.assertSessionAccess(client, params.sessionKey);
     const store = getSessionStore();
     const session = await store.get(params.sessionKey);
     if (!session) {
@@ -385,7 +599,8 @@ export class WsServer {
   }
 
   /** 处理删除会话 */
-  private async handleSessionsDelete(params: SessionsDeleteParams): Promise<{ success: boolean }> {
+  private async handleSessionsDelete(client: WsClient, params: SessionsDeleteParams): Promise<{ success: boolean }> {
+    this.assertSessionAccess(client, params.sessionKey);
     const store = getSessionStore();
     await store.delete(params.sessionKey);
     return { success: true };
@@ -404,6 +619,7 @@ export class WsServer {
 
   /** 处理恢复会话 */
   private async handleSessionsRestore(client: WsClient, params: SessionsRestoreParams): Promise<unknown> {
+    this.assertSessionAccess(client, params.sessionKey);
     const store = getSessionStore();
     const session = await store.get(params.sessionKey);
     if (!session) {
@@ -421,12 +637,11 @@ export class WsServer {
     // Agent 使用 "webchat:{senderId}" 作为 sessionKey，对于 direct chat
     // senderId 从 sessionKey 中提取（去掉 "webchat:" 前缀）
     const agentSessionKey = session.sessionKey; // webchat:session_xxx
-    const transcriptMessages = messages
-      .filter((m) => (m.role === "user" || m.role === "assistant") && typeof m.content === "string")
-      .map((m) => ({ role: m.role as "user" | "assistant", content: m.content as string }));
-
-    if (transcriptMessages.length > 0) {
-      this.agent.restoreSessionFromTranscript(agentSessionKey, transcriptMessages);
+    try {
+      await this.agent.restoreSessionFromTranscript(agentSessionKey, messages);
+    } catch (error) {
+      // 恢复失败不影响历史展示，后续对话将从空上下文开始
+      logger.warn({ error, sessionKey: agentSessionKey }, "Failed to restore agent session");
     }
 
     return {
@@ -438,10 +653,15 @@ export class WsServer {
 
   /** 获取系统状态 */
   private getSystemStatus(): SystemStatus {
+    // 冷却或熔断中的提供商标记为不可用
+    const now = Date.now();
+    const unavailable = new Set(
+      getProviderHealth().filter((h) => h.unavailableUntil > now).map((h) => h.provider)
+    );
     const providers = getAllProviders().map((p) => ({
       id: p.id,
       name: p.name,
-      available: true,
+      available: !unavailable.has(p.id),
     }));
 
     const channels = getAllChannels().map((c) => ({
@@ -459,13 +679,94 @@ export class WsServer {
     };
   }
 
+  /** 切换当前会话的模型 (保留历史消息) */
+  private async handleSessionSetModel(
+    client: WsClient,
+    params: SessionSetModelParams
+  ): Promise<{ success: boolean; provider: string; model: string }> {
+    if (!params?.provider || !params?.model) {
+      throw new Error("provider and model are required");
+    }
+
+    await this.ensureSession(client);
+    await this.agent.setSessionModel(client.sessionKey!, {
+      provider: params.provider as ProviderId,
+      model: params.model,
+    });
+    return { success: true, provider: params.provider, model: params.model };
+  }
+
+  /** 查询用量汇总 */
+  private async handleUsageGet(params?: UsageGetParams): Promise<unknown> {
+    const { groupBy, ...filter } = params ?? {};
+    const ledger = getUsageLedger();
+    const [total] = await ledger.summarize(filter);
+    return {
+      total: total ?? null,
+      groups: groupBy ? await ledger.summarize(filter, groupBy) : [],
+    };
+  }
+
+  /** 获取请求指定的定时任务 */
+  private getCronJob(params: CronJobParams): CronJob {
+    if (!params?.jobId) throw new Error("jobId is required");
+    const job = getCronService().get(params.jobId);
+    if (!job) throw new Error(`Job not found: ${params.jobId}`);
+    return job;
+  }
+
+  /** 定时任务列表 */
+  private handleCronList(params?: CronListParams): unknown {
+    return { jobs: getCronService().list({ includeDisabled: params?.includeDisabled ?? true }) };
+  }
+
+  /** 新建定时任务 */
+  private handleCronAdd(params: CronJobCreate): unknown {
+    const validation = validateCronJobInput(params);
+    if (!validation.valid) throw new Error(validation.error);
+    return { job: getCronService().add(params) };
+  }
+
+  /** 更新定时任务 */
+  private handleCronUpdate(params: CronUpdateParams): unknown {
+    const job = this.getCronJob(params);
+    if (params.patch?.schedule) {
+      const validation = validateSchedule(params.patch.schedule);
+      if (!validation.valid) throw new Error(validation.error);
+    }
+    return { job: getCronService().update(job.id, params.patch ?? {}) };
+  }
+
+  /** 删除定时任务 */
+  private handleCronRemove(params: CronJobParams): unknown {
+    return { removed: getCronService().remove(this.getCronJob(params).id) };
+  }
+
+  /** 定时任务运行记录 */
+  private handleCronRuns(params: CronRunsParams): unknown {
+    const job = this.getCronJob(params);
+    return { job, runs: getCronService().runs(job.id, params.limit) };
+  }
+
+  /** 调度预览: 描述与之后几次运行时间 */
+  private handleCronPreview(params: CronPreviewParams): unknown {
+    const validation = validateSchedule(params?.schedule);
+    if (!validation.valid) return { valid: false, error: validation.error, nextRuns: [] };
+    return {
+      valid: true,
+      description: formatSchedule(params.schedule),
+      nextRuns: computeNextRuns(params.schedule, Date.now(), Math.min(params.count ?? 5, 20)),
+    };
+  }
+
   /** 获取会话信息 */
-  private getSessionInfo(client: WsClient): unknown {
+  private async getSessionInfo(client: WsClient): Promise<unknown> {
+    const sessionKey = client.sessionKey || `webchat:${client.id}`;
     const context = {
       channelId: "webchat" as const,
-      chatId: client.sessionKey || `webchat:${client.id}`,
+      chatId: sessionKey,
       messageId: "",
-      senderId: client.id,
+      senderId: sessionKey.replace("webchat:", ""),
       senderName: "",
       content: "",
       chatType: "direct" as const,
@@ -476,6 +777,7 @@ export class WsServer {
     return {
       sessionKey: client.sessionKey,
       sessionId: client.sessionId,
+      ...(await this.agent.getSessionModel(context)),
       ...info,
     };
   }
@@ -534,9 +836,7 @@ export class WsServer {
         } else if (id === "wecom") {
           (channelConfig as any).corpId = (config as any).corpId;
           (channelConfig as any).agentId = (config as any).agentId;
-          (channelConfig as any).token = (config as any).token;
-          (channelConfig as any).encodingAESKey = (config as any).encodingAESKey;
-          // corpSecret 不返回
+          // corpSecret、token、encodingAESKey 不返回 (保存时留空则保留原值)
         }
         channels[id] = channelConfig;
       }
@@ -737,39 +1037,7 @@ export class WsServer {
 
     // 更新通道
     if (params.channels) {
-      const channels: MoziConfig["channels"] = {
-        feishu: existingConfig.channels?.feishu,
-        dingtalk: existingConfig.channels?.dingtalk,
-        qq: existingConfig.channels?.qq,
-        wecom: existingConfig.channels?.wecom,
-      };
-
-      for (const [id, c] of Object.entries(params.channels)) {
-        if (!c.hasConfig) {
-          // 删除通道配置
-          delete (channels as any)[id];
-          continue;
-        }
-        const existing = (existingConfig.channels as any)?.[id];
-        (channels as any)[id] = {
-          ...existing,
-          enabled: c.enabled,
-          ...(c.appId && { appId: c.appId }),
-          ...(c.appSecret && { appSecret: c.appSecret }),
-          ...(c.appKey && { appKey: c.appKey }),
-          ...(c.corpId && { corpId: c.corpId }),
-          ...(c.corpSecret && { corpSecret: c.corpSecret }),
-          ...(c.agentId && { agentId: c.agentId }),
-          ...(c.token && { token: c.token }),
-          ...(c.encodingAESKey && { encodingAESKey: c.encodingAESKey }),
-          ...(c.clientSecret && { clientSecret: c.clientSecret }),
-          ...(c.verificationToken && { verificationToken: c.verificationToken }),
-          ...(c.encryptKey && { encryptKey: c.encryptKey }),
-          ...(c.sandbox !== undefined && { sandbox: c.sandbox }),
-          ...(c.robotCode && { robotCode: c.robotCode }),
-        };
-      }
-      configToSave.channels = channels;
+      configToSave.channels = mergeChannelEdits(existingConfig.channels, params.channels);
     }
 
     // 更新 Agent 配置
@@ -936,6 +1204,8 @@ export class WsServer {
 
   /** 关闭服务器 */
   close(): void {
+    unregisterApprovalPrompter("webchat");
+    this.offApprovalResolved();
     for (const client of this.clients.values()) {
       client.ws.close();
     }
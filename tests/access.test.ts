@@ -0,0 +1,173 @@
+/**
+ * IM 访问控制测试
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+
+// Mock logger
+vi.mock("../src/utils/logger.js", () => ({
+  getChildLogger: () => ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+import { AccessController, initAccessController } from "../src/access/control.js";
+import { executeCommand, registerBuiltinCommands } from "../src/commands/index.js";
+import type { InboundMessageContext } from "../src/types/index.js";
+
+function createMessage(overrides: Partial<InboundMessageContext> = {}): InboundMessageContext {
+  return {
+    channelId: "feishu",
+    messageId: "msg-1",
+    chatId: "chat-1",
+    chatType: "group",
+    senderId: "user-1",
+    content: "你好",
+    mentions: ["bot"],
+    mentionedBot: true,
+    timestamp: Date.now(),
+    ...overrides,
+  };
+}
+
+describe("access", () => {
+  let file: string;
+
+  beforeEach(() => {
+    file = path.join(os.tmpdir(), `mozi-access-test-${Date.now()}-${Math.random().toString(36).slice(2)}.json`);
+  });
+
+  afterEach(() => {
+    fs.rmSync(file, { force: true });
+  });
+
+  describe("AccessController", () => {
+    it("should allow everything without a policy", async () => {
+      const access = new AccessController({ file });
+      expect(await access.check(createMessage({ mentions: undefined }))).toEqual({ allowed: true });
+    });
+
+    it("should apply user and group lists with channel overrides", async () => {
+      const access = new AccessController({
+        file,
+        blockUsers: ["feishu:bad"],
+        allowGroups: ["chat-1"],
+        channels: { dingtalk: { allowUsers: ["staff-1"] } },
+      });
+
+      expect(await access.check(createMessage({ senderId: "bad" }))).toEqual({ allowed: false, reason: "blocked_user" });
+      expect(await access.check(createMessage({ chatId: "chat-2" }))).toEqual({
+        allowed: false,
+        reason: "group_not_allowed",
+      });
+      // 群聊名单不影响私聊
+      expect(await access.check(createMessage({ chatId: "dm", chatType: "direct" }))).toEqual({ allowed: true });
+
+      const dingtalk = createMessage({ channelId: "dingtalk", chatId: "chat-1" });
+      expect(await access.check({ ...dingtalk, senderId: "staff-1" })).toEqual({ allowed: true });
+      expect(await access.check({ ...dingtalk, senderId: "staff-2" })).toEqual({
+        allowed: false,
+        reason: "user_not_allowed",
+      });
+    });
+
+    it("should require mentions in groups", async () => {
+      const access = new AccessController({ file, requireMention: true, channels: { qq: { botIds: ["bot-qq"] } } });
+
+      expect(await access.check(createMessage({ mentions: [], mentionedBot: false }))).toEqual({
+        allowed: false,
+        reason: "mention_required",
+      });
+      expect(await access.check(createMessage())).toEqual({ allowed: true });
+      // @ 其他成员不算提及机器人
+      expect(await access.check(createMessage({ mentions: ["someone"], mentionedBot: false }))).toEqual({
+        allowed: false,
+        reason: "mention_required",
+      });
+      expect(await access.check(createMessage({ chatType: "direct", mentions: undefined, mentionedBot: undefined }))).toEqual({
+        allowed: true,
+      });
+
+      // 通道未标记时按 botIds 判断
+      const qq = createMessage({ channelId: "qq", mentionedBot: undefined });
+      expect(await access.check({ ...qq, mentions: ["someone"] })).toEqual({ allowed: false, reason: "mention_required" });
+      expect(await access.check({ ...qq, mentions: ["bot-qq"] })).toEqual({ allowed: true });
+
+      // 斜杠命令不受 @ 限制
+      const command = createMessage({ content: "/approve abc", mentions: [], mentionedBot: false });
+      expect(await access.check(command, undefined, { skipMention: true })).toEqual({ allowed: true });
+    });
+
+    it("should allow members of allowed departments and cache lookups", async () => {
+      const access = new AccessController({ file, allowDepartments: ["42"] });
+      const resolve = vi.fn().mockResolvedValue(["7", "42"]);
+
+      expect(await access.check(createMessage(), resolve)).toEqual({ allowed: true });
+      expect(await access.check(createMessage(), resolve)).toEqual({ allowed: true });
+      expect(resolve).toHaveBeenCalledTimes(1);
+
+      const failing = vi.fn().mockRejectedValue(new Error("no permission"));
+      expect(await access.check(createMessage({ senderId: "user-2" }), failing)).toEqual({
+        allowed: false,
+        reason: "user_not_allowed",
+      });
+    });
+
+    it("should let admins bypass lists and enforce admin-only mode", async () => {
+      const access = new AccessController({ file, adminOnly: true, admins: ["feishu:boss"] });
+      expect(await access.check(createMessage({ senderId: "boss" }))).toEqual({ allowed: true });
+      expect(await access.check(createMessage())).toEqual({ allowed: false, reason: "admin_only" });
+      expect(access.isAdmin("dingtalk", "boss")).toBe(false);
+    });
+
+    it("should persist lists changed at runtime", async () => {
+      const access = new AccessController({ file, allowUsers: ["user-1"] });
+      expect(access.addToList("feishu", "allowUsers", "user-2")).toBe(true);
+      expect(access.addToList("feishu", "allowUsers", "user-2")).toBe(false);
+      expect(access.getPolicy("feishu").allowUsers).toEqual(["user-1", "user-2"]);
+
+      const reloaded = new AccessController({ file, allowUsers: ["user-1"] });
+      expect(await reloaded.check(createMessage({ senderId: "user-2" }))).toEqual({ allowed: true });
+      // 配置文件中的条目不能通过命令移除
+      expect(reloaded.removeFromList("feishu", "allowUsers", "user-1")).toBe(false);
+      expect(reloaded.removeFromList("feishu", "allowUsers", "user-2")).toBe(true);
+      expect(reloaded.getPolicy("feishu").allowUsers).toEqual(["user-1"]);
+    });
+  });
+
+  describe("/access command", () => {
+    beforeEach(() => {
+      registerBuiltinCommands();
+    });
+
+    it("should only be available to admins", async () => {
+      initAccessController({ file, admins: ["feishu:admin"] });
+      expect(await executeCommand(createMessage({ content: "/access" }))).toBe("🔒 仅管理员可以管理访问名单");
+    });
+
+    it("should update lists and admins", async () => {
+      const access = initAccessController({ file, admins: ["feishu:admin"] });
+      const run = (content: string) => executeCommand(createMessage({ senderId: "admin", content }));
+
+      expect(await run("/access allow group")).toBe("✅ 已将 chat-1 加入允许群聊名单");
+      expect(await run("/access block user spammer")).toBe("✅ 已将 spammer 加入禁止用户名单");
+      expect(await run("/access unblock user spammer")).toBe("✅ 已将 spammer 移出禁止用户名单");
+      expect(await run("/access admin add helper")).toBe("✅ 已添加管理员 feishu:helper");
+      expect(await run("/access allow user")).toBe("请指定用户 ID");
+
+      expect(access.getPolicy("feishu").allowGroups).toEqual(["chat-1"]);
+      expect(access.isAdmin("feishu", "helper")).toBe(true);
+      expect(await run("/access")).toContain("允许群聊: chat-1");
+      expect(JSON.parse(fs.readFileSync(file, "utf-8"))).toEqual({
+        admins: ["feishu:helper"],
+        channels: { feishu: { allowGroups: ["chat-1"], blockUsers: [] } },
+      });
+    });
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * Agent 路由测试
+ */
+
+import { describe, it, expect, vi } from "vitest";
+
+// Mock logger
+vi.mock("../src/utils/logger.js", () => ({
+  getChildLogger: () => ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+import { AgentRouter, matchAgentRoute } from "../src/agents/router.js";
+import type { Agent } from "../src/agents/agent.js";
+import type { AgentRoutingRule, InboundMessageContext } from "../src/types/index.js";
+
+function createContext(overrides: Partial<InboundMessageContext> = {}): InboundMessageContext {
+  return {
+    channelId: "feishu",
+    messageId: "msg-1",
+    chatId: "oc_ops",
+    chatType: "group",
+    senderId: "ou_1",
+    content: "你好",
+    timestamp: Date.now(),
+    ...overrides,
+  };
+}
+
+const rules: AgentRoutingRule[] = [
+  { agent: "sre", command: "/sre" },
+  { agent: "sre", channel: "feishu", accountId: "ops" },
+  { agent: "crm", chatId: "oc_sales" },
+  { agent: "translator", keywords: ["Translate", "翻译"] },
+];
+
+describe("agents/router", () => {
+  describe("matchAgentRoute", () => {
+    it("should match by channel, account and chat", () => {
+      expect(matchAgentRoute(rules, createContext({ accountId: "ops" }))?.agent).toBe("sre");
+      expect(matchAgentRoute(rules, createContext({ channelId: "dingtalk", accountId: "ops" }))).toBeUndefined();
+      expect(matchAgentRoute(rules, createContext({ chatId: "oc_sales" }))?.agent).toBe("crm");
+    });
+
+    it("should match keywords case-insensitively", () => {
+      expect(matchAgentRoute(rules, createContext({ content: "please translate this" }))?.agent).toBe("translator");
+      expect(matchAgentRoute(rules, createContext({ content: "帮我翻译一下" }))?.agent).toBe("translator");
+    });
+
+    it("should match slash commands only as a whole word", () => {
+      expect(matchAgentRoute(rules, createContext({ content: "/sre 查看告警" }))?.agent).toBe("sre");
+      expect(matchAgentRoute(rules, createContext({ content: "/sre" }))?.agent).toBe("sre");
+      expect(matchAgentRoute(rules, createContext({ content: "/srex 查看告警" }))).toBeUndefined();
+    });
+  });
+
+  describe("AgentRouter", () => {
+    const defaultAgent = { name: "default" } as unknown as Agent;
+    const sre = { name: "sre" } as unknown as Agent;
+    const router = new AgentRouter(defaultAgent, new Map([["sre", sre]]), rules);
+
+    it("should route to the named agent and strip the command", () => {
+      const context = createContext({ content: "/sre 查看告警" });
+      expect(router.route(context)).toBe(sre);
+      expect(context.agentId).toBe("sre");
+      expect(context.content).toBe("查看告警");
+      expect(router.get(context.agentId)).toBe(sre);
+    });
+
+    it("should fall back to the default agent", () => {
+      const context = createContext({ chatId: "oc_sales" });
+      // crm 未创建，规则被忽略
+      expect(router.route(context)).toBe(defaultAgent);
+      expect(context.agentId).toBeUndefined();
+      expect(router.get("unknown")).toBe(defaultAgent);
+      expect(router.getAgentIds()).toEqual(["sre"]);
+    });
+  });
+});
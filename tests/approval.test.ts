@@ -0,0 +1,251 @@
+/**
+ * 工具审批测试
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import { Type } from "@sinclair/typebox";
+
+// Mock logger
+vi.mock("../src/utils/logger.js", () => ({
+  getChildLogger: () => ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+import {
+  configureApprovals,
+  registerApprovalPrompter,
+  requiresApproval,
+  resolveApproval,
+  getPendingApprovals,
+  getApprovalAuditLog,
+  clearSessionApprovals,
+  wrapToolWithApproval,
+  formatApprovalPrompt,
+  resetApprovals,
+  type ApprovalRequest,
+} from "../src/tools/approval.js";
+import { initAccessController } from "../src/access/control.js";
+import type { Tool } from "../src/tools/types.js";
+import type { InboundMessageContext } from "../src/types/index.js";
+
+const context: InboundMessageContext = {
+  channelId: "qq",
+  messageId: "msg-1",
+  chatId: "group-1",
+  chatType: "group",
+  senderId: "user-1",
+  content: "帮我清理临时文件",
+  timestamp: Date.now(),
+};
+
+const responder = { channelId: "qq", chatId: "group-1", senderId: "user-1" };
+
+function createBashTool() {
+  const execute = vi.fn().mockResolvedValue({ content: [{ type: "text", text: "ok" }], details: {} });
+  const tool: Tool = {
+    name: "bash",
+    label: "Bash",
+    description: "Run a command",
+    parameters: Type.Object({ command: Type.String() }),
+    execute,
+  };
+  return { tool, execute };
+}
+
+/** 注册一个记录请求的提示发送器 */
+function capturePrompts(): ApprovalRequest[] {
+  const prompts: ApprovalRequest[] = [];
+  registerApprovalPrompter("qq", async (request) => {
+    prompts.push(request);
+  });
+  return prompts;
+}
+
+describe("tools/approval", () => {
+  let testDir: string;
+
+  beforeEach(() => {
+    testDir = path.join(os.tmpdir(), `mozi-approval-test-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    configureApprovals({ enabled: true, auditFile: path.join(testDir, "approvals.jsonl") });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    resetApprovals();
+    if (fs.existsSync(testDir)) {
+      fs.rmSync(testDir, { recursive: true, force: true });
+    }
+  });
+
+  describe("requiresApproval", () => {
+    it("should match default tools and action patterns", () => {
+      expect(requiresApproval("bash")).toBe(true);
+      expect(requiresApproval("apply_patch")).toBe(true);
+      expect(requiresApproval("browser", { action: "evaluate" })).toBe(true);
+      expect(requiresApproval("browser", { action: "navigate" })).toBe(false);
+      expect(requiresApproval("web_search")).toBe(false);
+    });
+
+    it("should support configured tool groups", () => {
+      configureApprovals({ tools: ["group:fs"] });
+      expect(requiresApproval("write_file")).toBe(true);
+      expect(requiresApproval("bash")).toBe(false);
+    });
+
+    it("should be disabled without config", () => {
+      configureApprovals(undefined);
+      expect(requiresApproval("bash")).toBe(false);
+    });
+  });
+
+  describe("wrapToolWithApproval", () => {
+    it("should execute after approval", async () => {
+      const prompts = capturePrompts();
+      const { tool, execute } = createBashTool();
+      const wrapped = wrapToolWithApproval(tool, () => ({ sessionKey: "qq:group-1", context }));
+
+      const pending = wrapped.execute("call-1", { command: "rm -rf /tmp/cache" });
+      await vi.waitFor(() => expect(prompts).toHaveLength(1));
+
+      expect(formatApprovalPrompt(prompts[0]!)).toContain(`/approve ${prompts[0]!.id}`);
+      expect(getPendingApprovals("qq:group-1")).toHaveLength(1);
+      expect(resolveApproval(prompts[0]!.id, "approved", responder).success).toBe(true);
+
+      const result = await pending;
+      expect(result.content[0]).toEqual({ type: "text", text: "ok" });
+      expect(execute).toHaveBeenCalledWith("call-1", { command: "rm -rf /tmp/cache" }, undefined, undefined);
+      expect(getApprovalAuditLog()).toEqual([
+        expect.objectContaining({ toolName: "bash", decision: "approved", decidedBy: "user-1", requestedBy: "user-1" }),
+      ]);
+    });
+
+    it("should not execute when rejected", async () => {
+      const prompts = capturePrompts();
+      const { tool, execute } = createBashTool();
+      const wrapped = wrapToolWithApproval(tool, () => ({ sessionKey: "qq:group-1", context }));
+
+      const pending = wrapped.execute("call-1", { command: "ls" });
+      await vi.waitFor(() => expect(prompts).toHaveLength(1));
+      resolveApproval(prompts[0]!.id, "rejected", responder);
+
+      const result = await pending;
+      expect(execute).not.toHaveBeenCalled();
+      expect(JSON.stringify(result.details)).toContain("用户拒绝");
+    });
+
+    it("should reject answers from another chat", async () => {
+      const prompts = capturePrompts();
+      const { tool } = createBashTool();
+      const wrapped = wrapToolWithApproval(tool, () => ({ sessionKey: "qq:group-1", context }));
+
+      const pending = wrapped.execute("call-1", { command: "ls" });
+      await vi.waitFor(() => expect(prompts).toHaveLength(1));
+
+      const result = resolveApproval(prompts[0]!.id, "approved", { ...responder, chatId: "group-2" });
+      expect(result.success).toBe(false);
+      expect(getPendingApprovals()).toHaveLength(1);
+
+      resolveApproval(prompts[0]!.id, "rejected", responder);
+      await pending;
+    });
+
+    it("should only accept answers from the requester or an admin in groups", async () => {
+      initAccessController({ admins: ["qq:admin"], file: path.join(testDir, "access.json") });
+      const prompts = capturePrompts();
+      const { tool, execute } = createBashTool();
+      const wrapped = wrapToolWithApproval(tool, () => ({ sessionKey: "qq:group-1", context }));
+
+      const pending = wrapped.execute("call-1", { command: "rm -rf /tmp/x" });
+      await vi.waitFor(() => expect(prompts).toHaveLength(1));
+
+      const result = resolveApproval(prompts[0]!.id, "approved", { ...responder, senderId: "user-2" });
+      expect(result).toEqual({ success: false, error: "只有发起请求的用户或管理员可以答复审批" });
+      expect(getPendingApprovals()).toHaveLength(1);
+
+      expect(resolveApproval(prompts[0]!.id, "approved", { ...responder, senderId: "admin" }).success).toBe(true);
+      await pending;
+      expect(execute).toHaveBeenCalledTimes(1);
+      expect(getApprovalAuditLog().at(-1)?.decidedBy).toBe("admin");
+      initAccessController();
+    });
+
+    it("should reject on timeout", async () => {
+      vi.useFakeTimers();
+      configureApprovals({ enabled: true, timeoutSeconds: 5, auditFile: path.join(testDir, "approvals.jsonl") });
+      const prompts = capturePrompts();
+      const { tool, execute } = createBashTool();
+      const wrapped = wrapToolWithApproval(tool, () => ({ sessionKey: "qq:group-1", context }));
+
+      const pending = wrapped.execute("call-1", { command: "ls" });
+      await vi.advanceTimersByTimeAsync(5000);
+
+      const result = await pending;
+      expect(prompts).toHaveLength(1);
+      expect(execute).not.toHaveBeenCalled();
+      expect(JSON.stringify(result.details)).toContain("超时");
+      expect(getApprovalAuditLog()[0]?.decision).toBe("timeout");
+    });
+
+    it("should skip prompts after always allow until the session is cleared", async () => {
+      const prompts = capturePrompts();
+      const { tool, execute } = createBashTool();
+      const wrapped = wrapToolWithApproval(tool, () => ({ sessionKey: "qq:group-1", context }));
+
+      const first = wrapped.execute("call-1", { command: "ls" });
+      await vi.waitFor(() => expect(prompts).toHaveLength(1));
+      resolveApproval(prompts[0]!.id, "always", responder);
+      await first;
+
+      await wrapped.execute("call-2", { command: "pwd" });
+      expect(prompts).toHaveLength(1);
+      expect(execute).toHaveBeenCalledTimes(2);
+
+      clearSessionApprovals("qq:group-1");
+      const third = wrapped.execute("call-3", { command: "pwd" });
+      await vi.waitFor(() => expect(prompts).toHaveLength(2));
+      resolveApproval(prompts[1]!.id, "rejected", responder);
+      await third;
+      expect(execute).toHaveBeenCalledTimes(2);
+    });
+
+    it("should refuse when the channel cannot prompt", async () => {
+      const { tool, execute } = createBashTool();
+      const wrapped = wrapToolWithApproval(tool, () => ({ sessionKey: "qq:group-1", context }));
+
+      await wrapped.execute("call-1", { command: "ls" });
+      expect(execute).not.toHaveBeenCalled();
+      expect(getApprovalAuditLog()[0]?.decision).toBe("unavailable");
+    });
+
+    it("should pass through tools that need no approval", async () => {
+      configureApprovals({ tools: ["write_file"] });
+      const { tool, execute } = createBashTool();
+      const wrapped = wrapToolWithApproval(tool, () => ({ sessionKey: "qq:group-1", context }));
+
+      await wrapped.execute("call-1", { command: "ls" });
+      expect(execute).toHaveBeenCalledTimes(1);
+    });
+
+    it("should append decisions to the audit file", async () => {
+      const prompts = capturePrompts();
+      const { tool } = createBashTool();
+      const wrapped = wrapToolWithApproval(tool, () => ({ sessionKey: "qq:group-1", context }));
+
+      const pending = wrapped.execute("call-1", { command: "ls" });
+      await vi.waitFor(() => expect(prompts).toHaveLength(1));
+      resolveApproval(prompts[0]!.id, "approved", responder);
+      await pending;
+
+      const auditFile = path.join(testDir, "approvals.jsonl");
+      const entry = JSON.parse(fs.readFileSync(auditFile, "utf-8").trim());
+      expect(entry).toMatchObject({ id: prompts[0]!.id, toolName: "bash", decision: "approved" });
+    });
+  });
+});
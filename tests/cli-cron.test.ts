@@ -0,0 +1,91 @@
+/**
+ * mozi cron 命令与网关 RPC 客户端测试
+ */
+
+import { describe, it, expect, vi, afterEach } from "vitest";
+import type { AddressInfo } from "net";
+import { WebSocketServer } from "ws";
+
+vi.mock("../src/utils/logger.js", () => ({
+  getChildLogger: () => ({ debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() }),
+}));
+
+import { parseDeliverOption, parseDuration, parseScheduleOptions } from "../src/cli/cron.js";
+import { connectGateway, GatewayUnavailableError } from "../src/cli/gateway-client.js";
+import { TIME_CONSTANTS } from "../src/cron/types.js";
+
+describe("cli/cron options", () => {
+  it("should parse durations", () => {
+    expect(parseDuration("30s")).toBe(30 * TIME_CONSTANTS.SECOND);
+    expect(parseDuration("1.5h")).toBe(90 * TIME_CONSTANTS.MINUTE);
+    expect(parseDuration("500")).toBe(500);
+    expect(parseDuration("soon")).toBeUndefined();
+  });
+
+  it("should build and validate schedules", () => {
+    expect(parseScheduleOptions({ every: "10m" })).toEqual({ kind: "every", everyMs: 10 * TIME_CONSTANTS.MINUTE });
+    expect(parseScheduleOptions({ cron: "0 9 * * *", tz: "Asia/Shanghai" })).toEqual({
+      kind: "cron",
+      expr: "0 9 * * *",
+      tz: "Asia/Shanghai",
+    });
+    expect(parseScheduleOptions({})).toBeUndefined();
+    expect(() => parseScheduleOptions({ cron: "bad" })).toThrow("调度无效");
+    expect(() => parseScheduleOptions({ every: "1m", at: "2030-01-01" })).toThrow("只能指定一个");
+  });
+
+  it("should parse delivery targets with optional account", () => {
+    expect(parseDeliverOption("telegram:123")).toEqual({ channel: "telegram", to: "123" });
+    expect(parseDeliverOption("feishu:work:oc_1")).toEqual({ channel: "feishu", accountId: "work", to: "oc_1" });
+    expect(() => parseDeliverOption("telegram")).toThrow("无效的投递目标");
+  });
+});
+
+describe("cli/gateway-client", () => {
+  let server: WebSocketServer | undefined;
+
+  afterEach(async () => {
+    await new Promise((resolve) => server?.close(resolve) ?? resolve(undefined));
+    server = undefined;
+  });
+
+  /** 启动模拟网关 */
+  async function startGateway(onConnection: (ws: import("ws").WebSocket, token?: string) => void): Promise<string> {
+    server = new WebSocketServer({ port: 0, host: "127.0.0.1" });
+    server.on("connection", (ws, req) => onConnection(ws, req.headers.authorization));
+    await new Promise((resolve) => server!.once("listening", resolve));
+    return `ws://127.0.0.1:${(server.address() as AddressInfo).port}/ws`;
+  }
+
+  it("should send requests with the admin token and resolve responses", async () => {
+    const url = await startGateway((ws, token) => {
+      ws.send(JSON.stringify({ type: "event", event: "connected", payload: {} }));
+      ws.on("message", (data) => {
+        const frame = JSON.parse(data.toString());
+        ws.send(
+          frame.method === "cron.list"
+            ? JSON.stringify({ type: "res", id: frame.id, ok: true, payload: { jobs: [], token } })
+            : JSON.stringify({ type: "res", id: frame.id, ok: false, error: { code: "ERR", message: "Unknown method" } })
+        );
+      });
+    });
+
+    const client = await connectGateway({ url, token: "secret" });
+    await expect(client.request("cron.list")).resolves.toEqual({ jobs: [], token: "Bearer secret" });
+    await expect(client.request("cron.nope")).rejects.toThrow("Unknown method");
+    client.close();
+  });
+
+  it("should report an unreachable gateway", async () => {
+    const url = await startGateway(() => {});
+    server!.close();
+    await expect(connectGateway({ url, timeoutMs: 1000 })).rejects.toBeInstanceOf(GatewayUnavailableError);
+  });
+
+  it("should not treat a rejected login as unreachable", async () => {
+    const url = await startGateway((ws) => ws.close(4401, "Unauthorized"));
+    const error = await connectGateway({ url }).catch((err) => err);
+    expect(error).not.toBeInstanceOf(GatewayUnavailableError);
+    expect(error.message).toContain("adminToken");
+  });
+});
@@ -0,0 +1,253 @@
+/**
+ * 命令系统测试
+ */
+
+import { describe, it, expect, vi, beforeAll } from "vitest";
+import { mkdtempSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+
+// Mock logger
+vi.mock("../src/utils/logger.js", () => ({
+  getChildLogger: () => ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+// Mock providers
+vi.mock("../src/providers/index.js", () => ({
+  getAllModels: vi.fn().mockReturnValue([
+    { provider: "deepseek", model: { id: "deepseek-chat", name: "DeepSeek Chat" } },
+  ]),
+}));
+
+import {
+  executeCommand,
+  parseCommand,
+  isCommand,
+  registerBuiltinCommands,
+} from "../src/commands/index.js";
+import { getCronJobOwner, getCronService } from "../src/cron/service.js";
+import { initAccessController } from "../src/access/control.js";
+import type { Agent } from "../src/agents/agent.js";
+import type { InboundMessageContext } from "../src/types/index.js";
+
+function createMessage(content: string): InboundMessageContext {
+  return {
+    channelId: "feishu",
+    messageId: "msg-1",
+    chatId: "chat-1",
+    chatType: "group",
+    senderId: "user-1",
+    senderName: "Tester",
+    content,
+    timestamp: Date.now(),
+  };
+}
+
+function createMockAgent(overrides: Record<string, unknown> = {}) {
+  return {
+    clearSession: vi.fn().mockResolvedValue(undefined),
+    getSessionInfo: vi.fn().mockReturnValue({
+      provider: "deepseek",
+      model: "deepseek-chat",
+      messageCount: 4,
+      estimatedTokens: 150,
+      usage: { promptTokens: 100, completionTokens: 50, totalTokens: 150 },
+      hasSummary: false,
+      lastUpdate: new Date(),
+    }),
+    getDefaultModel: vi.fn().mockReturnValue({ provider: "deepseek", model: "deepseek-chat" }),
+    getSessionModel: vi.fn().mockResolvedValue({ provider: "deepseek", model: "deepseek-chat" }),
+    setSessionModel: vi.fn().mockResolvedValue(undefined),
+    getSessionKey: vi.fn().mockReturnValue("feishu:chat-1"),
+    compactSession: vi.fn().mockResolvedValue({ tokensBefore: 12000, summary: "之前讨论了部署方案" }),
+    getMemoryManager: vi.fn().mockReturnValue(undefined),
+    ...overrides,
+  };
+}
+
+describe("commands", () => {
+  beforeAll(() => {
+    registerBuiltinCommands();
+  });
+
+  describe("parseCommand", () => {
+    it("should parse name, positional and named args", () => {
+      const parsed = parseCommand('/memory search "部署 方案" --limit=3');
+      expect(parsed).toEqual({
+        name: "memory",
+        args: 'search "部署 方案" --limit=3',
+        argsArray: ["search", "部署 方案"],
+        namedArgs: { limit: "3" },
+      });
+    });
+
+    it("should detect command prefixes", () => {
+      expect(isCommand("/help")).toBe(true);
+      expect(isCommand("!help")).toBe(true);
+      expect(isCommand("hello")).toBe(false);
+    });
+  });
+
+  describe("executeCommand", () => {
+    it("should return null for non-command messages", async () => {
+      expect(await executeCommand(createMessage("你好"))).toBeNull();
+    });
+
+    it("should report unknown commands", async () => {
+      const reply = await executeCommand(createMessage("/nope"));
+      expect(reply).toContain("未知命令");
+    });
+
+    it("should dispose the agent session on /clear", async () => {
+      const agent = createMockAgent();
+      const message = createMessage("/clear");
+
+      const reply = await executeCommand(message, { agent: agent as unknown as Agent });
+
+      expect(agent.clearSession).toHaveBeenCalledWith(message);
+      expect(reply).toContain("会话已清除");
+    });
+
+    it("should report model and usage on /status", async () => {
+      const agent = createMockAgent();
+      const reply = await executeCommand(createMessage("/status"), { agent: agent as unknown as Agent });
+
+      expect(reply).toContain("deepseek/deepseek-chat");
+      expect(reply).toContain("消息数: 4");
+      expect(reply).toContain("合计 150");
+    });
+
+    it("should fall back to default model on /status without session", async () => {
+      const agent = createMockAgent({ getSessionInfo: vi.fn().mockReturnValue(null) });
+      const reply = await executeCommand(createMessage("/status"), { agent: agent as unknown as Agent });
+
+      expect(reply).toContain("deepseek/deepseek-chat");
+      expect(reply).toContain("尚未开始");
+    });
+
+    it("should list models on /model", async () => {
+      const agent = createMockAgent();
+      const reply = await executeCommand(createMessage("/model"), { agent: agent as unknown as Agent });
+
+      expect(reply).toContain("当前模型: deepseek/deepseek-chat");
+      expect(reply).toContain("deepseek/deepseek-chat - DeepSeek Chat");
+    });
+
+    it("should switch the session model on /model provider/model", async () => {
+      const agent = createMockAgent();
+      const reply = await executeCommand(createMessage("/model deepseek/deepseek-reasoner"), {
+        agent: agent as unknown as Agent,
+      });
+
+      expect(agent.setSessionModel).toHaveBeenCalledWith("feishu:chat-1", {
+        provider: "deepseek",
+        model: "deepseek-reasoner",
+      });
+      expect(reply).toContain("已切换到 deepseek/deepseek-reasoner");
+    });
+
+    it("should resolve bare model ids and report failures", async () => {
+      const agent = createMockAgent({
+        setSessionModel: vi.fn().mockRejectedValue(new Error("Cannot resolve model: deepseek/deepseek-chat")),
+      });
+      const reply = await executeCommand(createMessage("/model deepseek-chat"), { agent: agent as unknown as Agent });
+      expect(agent.setSessionModel).toHaveBeenCalledWith("feishu:chat-1", { provider: "deepseek", model: "deepseek-chat" });
+      expect(reply).toContain("切换模型失败");
+
+      const unknown = await executeCommand(createMessage("/model gpt-9"), { agent: agent as unknown as Agent });
+      expect(unknown).toContain("未找到模型");
+    });
+
+    it("should compact the session on /compact", async () => {
+      const agent = createMockAgent();
+      const reply = await executeCommand(createMessage("/compact 保留决策"), { agent: agent as unknown as Agent });
+
+      expect(agent.compactSession).toHaveBeenCalledWith(expect.anything(), "保留决策");
+      expect(reply).toContain("12000");
+      expect(reply).toContain("之前讨论了部署方案");
+    });
+
+    it("should report compaction failures on /compact", async () => {
+      const agent = createMockAgent({
+        compactSession: vi.fn().mockRejectedValue(new Error("Nothing to compact (session too small)")),
+      });
+      const reply = await executeCommand(createMessage("/compact"), { agent: agent as unknown as Agent });
+
+      expect(reply).toBe("❌ 压缩失败: Nothing to compact (session too small)");
+    });
+
+    it("should manage memories on /memory", async () => {
+      initAccessController({ admins: ["feishu:admin"], file: join(mkdtempSync(join(tmpdir(), "mozi-access-")), "access.json") });
+      const own = { id: "mem-1", content: "喜欢简洁回答", metadata: { chat: "feishu:chat-1" } };
+      const other = { id: "mem-2", content: "私聊里的回答", metadata: { chat: "feishu:dm-2" } };
+      const manager = {
+        remember: vi.fn().mockResolvedValue("mem-1"),
+        recall: vi.fn().mockResolvedValue([other, own]),
+        list: vi.fn().mockResolvedValue([own, other]),
+        forget: vi.fn().mockResolvedValue(true),
+      };
+      const agent = createMockAgent({ getMemoryManager: vi.fn().mockReturnValue(manager) });
+      const options = { agent: agent as unknown as Agent };
+      const asAdmin = (content: string) => ({ ...createMessage(content), senderId: "admin" });
+
+      expect(await executeCommand(createMessage("/memory add 喜欢简洁回答"), options)).toContain("mem-1");
+      expect(manager.remember).toHaveBeenCalledWith(
+        "喜欢简洁回答",
+        expect.objectContaining({ type: "note", source: "feishu:user-1", chat: "feishu:chat-1" })
+      );
+
+      // 只能看到当前聊天保存的记忆
+      const found = await executeCommand(createMessage("/memory search 回答"), options);
+      expect(found).toContain("喜欢简洁回答");
+      expect(found).not.toContain("私聊");
+      const listed = await executeCommand(createMessage("/memory list"), options);
+      expect(listed).toContain("mem-1");
+      expect(listed).not.toContain("mem-2");
+
+      // 查看全部与删除需要管理员
+      expect(await executeCommand(createMessage("/memory list all"), options)).toContain("仅管理员");
+      expect(await executeCommand(asAdmin("/memory list all"), options)).toContain("mem-2");
+      expect(await executeCommand(createMessage("/memory forget mem-2"), options)).toContain("仅管理员");
+      expect(manager.forget).not.toHaveBeenCalled();
+      expect(await executeCommand(asAdmin("/memory forget mem-2"), options)).toContain("已删除");
+      initAccessController();
+    });
+
+    it("should report disabled memory", async () => {
+      const agent = createMockAgent();
+      const reply = await executeCommand(createMessage("/memory list"), { agent: agent as unknown as Agent });
+      expect(reply).toBe("记忆系统未启用");
+    });
+
+    it("should manage the sender's own jobs on /cron", async () => {
+      const service = getCronService({
+        storePath: join(mkdtempSync(join(tmpdir(), "mozi-cron-cmd-")), "jobs.json"),
+        enabled: false,
+      });
+      const payload = { kind: "agentTurn" as const, message: "查询今日天气" };
+      const schedule = { kind: "cron" as const, expr: "0 9 * * *" };
+      const own = service.add({ name: "今日天气", schedule, payload, owner: getCronJobOwner(createMessage("")) });
+      service.add({ name: "别人的任务", schedule, payload, owner: { ...getCronJobOwner(createMessage("")), senderId: "user-2" } });
+
+      const list = await executeCommand(createMessage("/cron"));
+      expect(list).toContain("今日天气");
+      expect(list).not.toContain("别人的任务");
+
+      const shortId = own.id.slice(0, 8);
+      expect(await executeCommand(createMessage(`/cron pause ${shortId}`))).toContain("已暂停");
+      expect(service.get(own.id)?.enabled).toBe(false);
+      expect(await executeCommand(createMessage(`/cron resume ${shortId}`))).toContain("已恢复");
+      expect(service.get(own.id)?.enabled).toBe(true);
+
+      const other = service.list().find((job) => job.name === "别人的任务")!;
+      expect(await executeCommand(createMessage(`/cron delete ${other.id}`))).toContain("未找到任务");
+      expect(await executeCommand(createMessage(`/cron delete ${own.id}`))).toContain("已删除");
+      expect(service.list({ includeDisabled: true })).toHaveLength(1);
+    });
+  });
+});
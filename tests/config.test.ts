@@ -17,7 +17,7 @@ vi.mock("../src/utils/logger.js", () => ({
   }),
 }));
 
-import { loadConfig, validateRequiredConfig, MoziConfigSchema } from "../src/config/index.js";
+import { loadConfig, validateRequiredConfig, MoziConfigSchema, resolveChannelAccounts } from "../src/config/index.js";
 
 describe("config", () => {
   let testDir: string;
@@ -160,6 +160,99 @@ describe("config", () => {
       expect(result.success).toBe(true);
     });
 
+    it("should keep plugin channel blocks", () => {
+      const result = MoziConfigSchema.parse({
+        channels: {
+          telegram: { botToken: "123:abc" },
+          matrix: { homeserver: "https://matrix.example.com", token: "t" },
+        },
+      });
+
+      expect(result.channels.telegram?.botToken).toBe("123:abc");
+      expect(result.channels.matrix).toEqual({ homeserver: "https://matrix.example.com", token: "t" });
+      expect(validateRequiredConfig({ ...result, providers: { deepseek: { apiKey: "key" } } })).toHaveLength(0);
+    });
+
+    it("should validate channel accounts", () => {
+      const result = MoziConfigSchema.safeParse({
+        channels: {
+          feishu: {
+            appSecret: "shared-secret",
+            accounts: [
+              { id: "sales", appId: "cli_sales", systemPrompt: "你是销售助手" },
+              { id: "ops", appId: "cli_ops", appSecret: "ops-secret", sessionNamespace: "ops-team" },
+            ],
+          },
+        },
+      });
+      expect(result.success).toBe(true);
+
+      // 未配置 accounts 时通道级凭据必填，账号 ID 不能重复或包含冒号
+      expect(MoziConfigSchema.safeParse({ channels: { feishu: { appSecret: "s" } } }).success).toBe(false);
+      expect(
+        MoziConfigSchema.safeParse({
+          channels: { dingtalk: { appKey: "k", appSecret: "s", accounts: [{ id: "a" }, { id: "a" }] } },
+        }).success
+      ).toBe(false);
+      expect(
+        MoziConfigSchema.safeParse({ channels: { dingtalk: { appKey: "k", appSecret: "s", accounts: [{ id: "a:b" }] } } })
+          .success
+      ).toBe(false);
+    });
+
+    it("should resolve channel accounts with channel-level defaults", () => {
+      expect(resolveChannelAccounts({ appId: "cli_1", appSecret: "s" })).toEqual([
+        { config: { appId: "cli_1", appSecret: "s" } },
+      ]);
+      expect(resolveChannelAccounts({ appId: "cli_1", enabled: false })).toEqual([]);
+
+      const accounts = resolveChannelAccounts({
+        appSecret: "shared",
+        accounts: [
+          { id: "sales", appId: "cli_sales", systemPrompt: "你是销售助手" },
+          { id: "ops", appId: "cli_ops", appSecret: "ops-secret" },
+          { id: "hr", appId: "cli_hr", enabled: false },
+        ],
+      });
+      expect(accounts).toEqual([
+        {
+          accountId: "sales",
+          options: { id: "sales", systemPrompt: "你是销售助手" },
+          config: { appSecret: "shared", appId: "cli_sales" },
+        },
+        {
+          accountId: "ops",
+          options: { id: "ops" },
+          config: { appSecret: "ops-secret", appId: "cli_ops" },
+        },
+      ]);
+    });
+
+    it("should validate named agents and routing rules", () => {
+      const result = MoziConfigSchema.safeParse({
+        agents: [
+          { id: "sre", systemPrompt: "你是 SRE", model: "deepseek-reasoner", skills: { only: ["k8s"] } },
+          { id: "crm", workingDirectory: "/srv/crm", memoryNamespace: "sales" },
+        ],
+        agentRouting: [
+          { agent: "sre", channel: "feishu", accountId: "ops" },
+          { agent: "crm", keywords: ["客户"], command: "/crm" },
+        ],
+      });
+      expect(result.success).toBe(true);
+
+      expect(MoziConfigSchema.safeParse({ agents: [{ id: "a" }, { id: "a" }] }).success).toBe(false);
+      expect(MoziConfigSchema.safeParse({ agentRouting: [{ agent: "a", command: "crm" }] }).success).toBe(false);
+
+      const config = MoziConfigSchema.parse({
+        providers: { deepseek: { apiKey: "key" } },
+        channels: { telegram: { botToken: "t" } },
+        agents: [{ id: "sre" }],
+        agentRouting: [{ agent: "crm", chatId: "c1" }],
+      });
+      expect(validateRequiredConfig(config)).toEqual(["Agent routing rule refers to unknown agent: crm"]);
+    });
+
     it("should validate agent config with valid provider", () => {
       const result = MoziConfigSchema.safeParse({
         agent: {
@@ -240,6 +333,46 @@ describe("config", () => {
       expect(config.providers.deepseek?.apiKey).toBe("file-key");
     });
 
+    it("should keep usage section from file", () => {
+      const configPath = path.join(testDir, "config.json");
+      fs.writeFileSync(configPath, JSON.stringify({ usage: { dailyTokenBudget: 1000 } }));
+
+      const config = loadConfig({ configPath });
+      expect(config.usage?.dailyTokenBudget).toBe(1000);
+    });
+
+    it("should keep streaming section from file", () => {
+      const configPath = path.join(testDir, "config.json");
+      fs.writeFileSync(configPath, JSON.stringify({ streaming: { enabled: false } }));
+
+      const config = loadConfig({ configPath });
+      expect(config.streaming?.enabled).toBe(false);
+    });
+
+    it("should keep media section from file", () => {
+      const configPath = path.join(testDir, "config.json");
+      fs.writeFileSync(configPath, JSON.stringify({ media: { retentionHours: 24 } }));
+
+      const config = loadConfig({ configPath });
+      expect(config.media?.retentionHours).toBe(24);
+    });
+
+    it("should keep access section from file", () => {
+      const configPath = path.join(testDir, "config.json");
+      fs.writeFileSync(configPath, JSON.stringify({ access: { requireMention: true } }));
+
+      const config = loadConfig({ configPath });
+      expect(config.access?.requireMention).toBe(true);
+    });
+
+    it("should keep queue section from file", () => {
+      const configPath = path.join(testDir, "config.json");
+      fs.writeFileSync(configPath, JSON.stringify({ queue: { coalesceMs: 500 } }));
+
+      const config = loadConfig({ configPath });
+      expect(config.queue?.coalesceMs).toBe(500);
+    });
+
     it("should load config from YAML file", () => {
       const configPath = path.join(testDir, "config.yaml");
       const configContent = `
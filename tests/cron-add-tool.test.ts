@@ -3,8 +3,23 @@
  */
 
 import { describe, it, expect, vi, beforeEach } from "vitest";
+
+// Mock logger
+vi.mock("../src/utils/logger.js", () => ({
+  getChildLogger: () => ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
 import { createCronTools } from "../src/tools/builtin/cron.js";
 import { CronService } from "../src/cron/service.js";
+import { runWithToolContext } from "../src/tools/context.js";
+import { registerChannel, type ChannelAdapter } from "../src/channels/common/index.js";
+import { initAccessController } from "../src/access/control.js";
+import type { InboundMessageContext } from "../src/types/index.js";
 
 // Mock fs
 vi.mock("fs", () => ({
@@ -16,12 +31,26 @@ vi.mock("fs", () => ({
   copyFileSync: vi.fn(),
 }));
 
+/** 管理员的 WebChat 会话 (可以投递到任意聊天) */
+const adminSession: InboundMessageContext = {
+  channelId: "webchat",
+  messageId: "msg-1",
+  chatId: "webchat:admin",
+  chatType: "direct",
+  senderId: "admin",
+  content: "",
+  timestamp: 0,
+};
+
 describe("cron_add tool - agentTurn support", () => {
   let service: CronService;
   let cronAddTool: ReturnType<typeof createCronTools>[number];
+  const addJob = (toolCallId: string, args: Record<string, unknown>) =>
+    runWithToolContext({ sessionKey: "webchat:admin", context: adminSession }, () => cronAddTool.execute(toolCallId, args));
 
   beforeEach(() => {
     vi.clearAllMocks();
+    initAccessController({ admins: ["webchat:admin"] });
     service = new CronService({
       nowMs: () => 1000000,
       storePath: "/tmp/test-cron-add-tools.json",
@@ -35,7 +64,7 @@ describe("cron_add tool - agentTurn support", () => {
   });
 
   it("should create systemEvent job by default", async () => {
-    const result = await cronAddTool.execute("tc-1", {
+    const result = await addJob("tc-1", {
       name: "Test Event",
       scheduleType: "every",
       everyUnit: "minutes",
@@ -53,7 +82,7 @@ describe("cron_add tool - agentTurn support", () => {
   });
 
   it("should create agentTurn job with delivery", async () => {
-    const result = await cronAddTool.execute("tc-2", {
+    const result = await addJob("tc-2", {
       name: "Daily Report",
       scheduleType: "cron",
       cronExpr: "0 9 * * *",
@@ -89,7 +118,7 @@ describe("cron_add tool - agentTurn support", () => {
   });
 
   it("should create agentTurn job without delivery", async () => {
-    const result = await cronAddTool.execute("tc-3", {
+    const result = await addJob("tc-3", {
       name: "Background Task",
       scheduleType: "every",
       everyUnit: "hours",
@@ -113,7 +142,7 @@ describe("cron_add tool - agentTurn support", () => {
 
   it("should create one-shot agentTurn job", async () => {
     const futureTime = new Date(Date.now() + 3600000).toISOString();
-    const result = await cronAddTool.execute("tc-4", {
+    const result = await addJob("tc-4", {
       name: "One-shot Report",
       scheduleType: "at",
       atTime: futureTime,
@@ -131,7 +160,7 @@ describe("cron_add tool - agentTurn support", () => {
   });
 
   it("should still validate schedule params for agentTurn", async () => {
-    const result = await cronAddTool.execute("tc-5", {
+    const result = await addJob("tc-5", {
       name: "Bad Job",
       scheduleType: "cron",
       // missing cronExpr
@@ -148,7 +177,7 @@ describe("cron_add tool - agentTurn support", () => {
   });
 
   it("should reject invalid channel", async () => {
-    const result = await cronAddTool.execute("tc-6", {
+    const result = await addJob("tc-6", {
       name: "Bad Channel",
       scheduleType: "every",
       everyUnit: "minutes",
@@ -167,7 +196,7 @@ describe("cron_add tool - agentTurn support", () => {
   });
 
   it("should reject invalid timeoutSeconds", async () => {
-    const result = await cronAddTool.execute("tc-7", {
+    const result = await addJob("tc-7", {
       name: "Bad Timeout",
       scheduleType: "every",
       everyUnit: "minutes",
@@ -185,7 +214,7 @@ describe("cron_add tool - agentTurn support", () => {
 
   it("should accept valid channels", async () => {
     for (const channel of ["dingtalk", "feishu", "qq", "wecom", "webchat"]) {
-      const result = await cronAddTool.execute(`tc-valid-${channel}`, {
+      const result = await addJob(`tc-valid-${channel}`, {
         name: `Valid ${channel}`,
         scheduleType: "every",
         everyUnit: "minutes",
@@ -201,4 +230,109 @@ describe("cron_add tool - agentTurn support", () => {
       expect(text).toContain("定时任务已创建");
     }
   });
-});
\ No newline at end of file
+});
+
+describe("cron tools - chat owner scope", () => {
+  let service: CronService;
+  let tools: ReturnType<typeof createCronTools>;
+
+  const chat = (overrides: Partial<InboundMessageContext> = {}): InboundMessageContext => ({
+    channelId: "feishu",
+    accountId: "hr",
+    messageId: "msg-1",
+    chatId: "oc_chat",
+    chatType: "direct",
+    senderId: "ou_alice",
+    content: "每天早上9点给我发今日天气",
+    timestamp: 0,
+    ...overrides,
+  });
+  const run = (context: InboundMessageContext, name: string, args: Record<string, unknown>) =>
+    runWithToolContext({ sessionKey: "feishu:hr:ou_alice", context }, () =>
+      tools.find((t) => t.name === name)!.execute("tc", args)
+    );
+  const textOf = (result: Awaited<ReturnType<typeof run>>) =>
+    result.content[0]?.type === "text" ? result.content[0].text : "";
+
+  beforeEach(() => {
+    initAccessController({ admins: ["feishu:ou_admin"] });
+    registerChannel({ id: "feishu", accountId: "hr" } as ChannelAdapter);
+    service = new CronService({
+      nowMs: () => 1000000,
+      storePath: "/tmp/test-cron-owner-tools.json",
+      enabled: false,
+      executeJob: async () => ({ status: "ok" as const }),
+      onEvent: () => {},
+    });
+    tools = createCronTools({ service });
+  });
+
+  it("should default to an agentTurn delivered back to the current chat", async () => {
+    const result = await run(chat(), "cron_add", {
+      name: "今日天气",
+      scheduleType: "cron",
+      cronExpr: "0 9 * * *",
+      message: "查询今日天气并简要汇报",
+    });
+    expect(textOf(result)).toContain("投递到 feishu:hr:oc_chat");
+
+    const job = service.list()[0]!;
+    expect(job.payload).toMatchObject({ kind: "agentTurn", deliver: true, channel: "feishu", accountId: "hr", to: "oc_chat" });
+    expect(job.owner).toEqual({
+      channel: "feishu",
+      accountId: "hr",
+      chatId: "oc_chat",
+      chatType: "direct",
+      senderId: "ou_alice",
+      agentId: undefined,
+    });
+  });
+
+  it("should only expose the sender's own jobs", async () => {
+    await run(chat(), "cron_add", { name: "alice", scheduleType: "every", everyMs: 60000, message: "a" });
+    const bob = chat({ senderId: "ou_bob" });
+    await run(bob, "cron_add", { name: "bob", scheduleType: "every", everyMs: 60000, message: "b" });
+    const aliceJob = service.list().find((job) => job.name === "alice")!;
+
+    const listed = textOf(await run(bob, "cron_list", {}));
+    expect(listed).toContain("bob");
+    expect(listed).not.toContain("alice");
+
+    expect(textOf(await run(bob, "cron_remove", { jobId: aliceJob.id }))).toContain("找不到任务");
+    expect(textOf(await run(bob, "cron_update", { jobId: aliceJob.id, enabled: false }))).toContain("找不到任务");
+    expect(service.get(aliceJob.id)?.enabled).toBe(true);
+
+    // 控制台直接通过服务管理全部任务
+    expect(service.list({ owner: { channel: "feishu", accountId: "hr", senderId: "ou_alice" } })).toHaveLength(1);
+    expect(service.list()).toHaveLength(2);
+  });
+
+  it("should only deliver to the current chat unless the sender is an admin", async () => {
+    const args = { name: "转发", scheduleType: "every", everyMs: 60000, message: "m", channel: "feishu", to: "oc_other" };
+
+    const denied = await run(chat(), "cron_add", args);
+    expect(textOf(denied)).toContain("需要管理员权限");
+    expect(service.list()).toHaveLength(0);
+
+    const allowed = await run(chat({ senderId: "ou_admin" }), "cron_add", args);
+    expect(textOf(allowed)).toContain("投递到 feishu:hr:oc_other");
+  });
+
+  it("should scope WebChat sessions by session id and deny calls outside a session", async () => {
+    const webchat = (sessionId: string) =>
+      chat({ channelId: "webchat", accountId: undefined, chatId: `webchat:${sessionId}`, senderId: sessionId });
+    await run(webchat("s1"), "cron_add", { name: "s1-job", scheduleType: "every", everyMs: 60000, message: "a" });
+    const job = service.list()[0]!;
+    expect(job.owner).toMatchObject({ channel: "webchat", chatId: "webchat:s1", senderId: "s1" });
+    expect(job.payload.kind).toBe("systemEvent");
+
+    expect(textOf(await run(webchat("s2"), "cron_list", {}))).toBe("没有定时任务");
+    expect(textOf(await run(webchat("s2"), "cron_remove", { jobId: job.id }))).toContain("找不到任务");
+
+    const tool = (name: string) => tools.find((t) => t.name === name)!;
+    expect(textOf(await tool("cron_list").execute("tc", {}))).toContain("只能在会话中管理");
+    expect(textOf(await tool("cron_run").execute("tc", { jobId: job.id }))).toContain("找不到任务");
+    expect(textOf(await tool("cron_add").execute("tc", { name: "x", scheduleType: "every", everyMs: 60000, message: "x" }))).toContain("只能在会话中管理");
+    expect(service.list()).toHaveLength(1);
+  });
+});
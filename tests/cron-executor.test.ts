@@ -282,6 +282,34 @@ describe("cron/executor", () => {
         })
       );
     });
+
+    it("should run as the owner and deliver to the owner's account", async () => {
+      const mockAgent: AgentExecutor = vi.fn().mockResolvedValue({ success: true, output: "晴，25°C" });
+      const executor = createCronExecutor({ agentExecutor: mockAgent });
+      const owner = { channel: "feishu", accountId: "hr", chatId: "oc_chat", senderId: "ou_alice" };
+
+      const job = createMockJob({
+        owner,
+        payload: {
+          kind: "agentTurn",
+          message: "查询今日天气",
+          deliver: true,
+          channel: "feishu",
+          accountId: "hr",
+          to: "oc_chat",
+        },
+      });
+
+      const result = await executor.executeJob(job);
+
+      expect(result.status).toBe("ok");
+      expect(mockAgent).toHaveBeenCalledWith(expect.objectContaining({ sessionKey: "cron:job-1", owner }));
+      expect(isChannelAvailable).toHaveBeenCalledWith("feishu", "hr");
+      expect(deliverOutboundPayloads).toHaveBeenCalledWith(
+        expect.objectContaining({ channel: "feishu", accountId: "hr", to: "oc_chat" })
+      );
+      expect(result.delivery).toEqual({ status: "ok", channel: "feishu", accountId: "hr", to: "oc_chat" });
+    });
   });
 
   describe("executeJob - unknown payload kind", () => {
@@ -0,0 +1,158 @@
+/**
+ * 定时任务运行记录、失败重试与错过调度补跑测试
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { CronService, computeRetryDelayMs } from "../src/cron/service.js";
+import { CronRunLog } from "../src/cron/run-log.js";
+import type { CronRunLogEntry } from "../src/cron/types.js";
+import { TIME_CONSTANTS } from "../src/cron/types.js";
+
+function createEntry(overrides: Partial<CronRunLogEntry> = {}): CronRunLogEntry {
+  return {
+    jobId: "job-1",
+    trigger: "schedule",
+    attempt: 0,
+    startedAtMs: 1000,
+    endedAtMs: 1100,
+    durationMs: 100,
+    status: "ok",
+    ...overrides,
+  };
+}
+
+describe("cron run history", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "mozi-cron-runs-"));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe("CronRunLog", () => {
+    it("should cap entries by count and age", () => {
+      const log = new CronRunLog(dir, { maxEntries: 2, maxAgeMs: TIME_CONSTANTS.DAY });
+      const now = 10 * TIME_CONSTANTS.DAY;
+      log.append(createEntry({ startedAtMs: now - 2 * TIME_CONSTANTS.DAY, summary: "expired" }), now);
+      log.append(createEntry({ startedAtMs: now - 3000, summary: "a" }), now);
+      log.append(createEntry({ startedAtMs: now - 2000, summary: "b" }), now);
+      log.append(createEntry({ startedAtMs: now - 1000, summary: "c" }), now);
+
+      expect(log.read("job-1").map((entry) => entry.summary)).toEqual(["b", "c"]);
+      expect(log.list("job-1", 1).map((entry) => entry.summary)).toEqual(["c"]);
+
+      log.remove("job-1");
+      expect(log.read("job-1")).toEqual([]);
+    });
+  });
+
+  it("should compute exponential backoff with a cap", () => {
+    const retry = { backoffMs: 1000, maxBackoffMs: 5000 };
+    expect([1, 2, 3, 4].map((attempt) => computeRetryDelayMs(retry, attempt))).toEqual([1000, 2000, 4000, 5000]);
+  });
+
+  it("should record runs and retry failed agentTurn jobs with backoff", async () => {
+    vi.useFakeTimers();
+    const executeJob = vi.fn().mockResolvedValue({ status: "error", error: "model timeout" });
+    const service = new CronService({
+      storePath: join(dir, "jobs.json"),
+      executeJob,
+      retry: { maxRetries: 2, backoffMs: 1000 },
+    });
+    const job = service.add({
+      name: "日报",
+      schedule: { kind: "at", atMs: Date.now() + 500 },
+      payload: { kind: "agentTurn", message: "生成日报" },
+    });
+    service.start();
+
+    await vi.advanceTimersByTimeAsync(500);
+    expect(executeJob).toHaveBeenCalledTimes(1);
+    expect(service.get(job.id)?.state.retryAttempt).toBe(1);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    await vi.advanceTimersByTimeAsync(2000);
+    await vi.advanceTimersByTimeAsync(10_000);
+    expect(executeJob).toHaveBeenCalledTimes(3);
+    expect(service.get(job.id)?.state.retryAttempt).toBeUndefined();
+
+    const runs = service.runs(job.id);
+    expect(runs.map((run) => [run.trigger, run.attempt])).toEqual([
+      ["retry", 2],
+      ["retry", 1],
+      ["schedule", 0],
+    ]);
+    expect(runs[0]).toMatchObject({ status: "error", error: "model timeout" });
+    service.stop();
+  });
+
+  it("should not retry systemEvent jobs or manual runs", async () => {
+    const executeJob = vi.fn().mockResolvedValue({ status: "error", error: "boom" });
+    const service = new CronService({
+      storePath: join(dir, "jobs.json"),
+      enabled: false,
+      executeJob,
+      retry: { maxRetries: 3 },
+    });
+    const job = service.add({
+      name: "manual",
+      schedule: { kind: "every", everyMs: TIME_CONSTANTS.HOUR },
+      payload: { kind: "agentTurn", message: "hi" },
+    });
+
+    await service.run(job.id);
+    expect(service.get(job.id)?.state.retryAttempt).toBeUndefined();
+    expect(service.runs(job.id)[0]).toMatchObject({ trigger: "manual", status: "error" });
+  });
+
+  describe("misfire policy", () => {
+    const start = 1_700_000_000_000;
+
+    /** 网关在 start 时创建每小时任务，3.5 小时后才重新启动 */
+    async function restartAfterDowntime(misfirePolicy: "skip" | "runOnce" | "runAll") {
+      const storePath = join(dir, `${misfirePolicy}.json`);
+      const before = new CronService({ storePath, enabled: false, nowMs: () => start });
+      const job = before.add({
+        name: "hourly",
+        schedule: { kind: "every", everyMs: TIME_CONSTANTS.HOUR, anchorMs: start },
+        payload: { kind: "systemEvent", message: "tick" },
+      });
+
+      const now = start + 3.5 * TIME_CONSTANTS.HOUR;
+      const executeJob = vi.fn().mockResolvedValue({ status: "ok" });
+      const after = new CronService({ storePath, nowMs: () => now, executeJob, misfirePolicy });
+      after.start();
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      after.stop();
+      return { service: after, job: after.get(job.id)!, executeJob, now };
+    }
+
+    it("should skip missed runs", async () => {
+      const { executeJob, job, now } = await restartAfterDowntime("skip");
+      expect(executeJob).not.toHaveBeenCalled();
+      expect(job.state.nextRunAtMs).toBe(start + 4 * TIME_CONSTANTS.HOUR);
+      expect(job.state.nextRunAtMs).toBeGreaterThan(now);
+    });
+
+    it("should run missed jobs once", async () => {
+      const { executeJob, service, job } = await restartAfterDowntime("runOnce");
+      expect(executeJob).toHaveBeenCalledTimes(1);
+      expect(service.runs(job.id).map((run) => run.trigger)).toEqual(["catchUp"]);
+      expect(job.state.missedRuns).toBeUndefined();
+      expect(job.state.nextRunAtMs).toBe(start + 4 * TIME_CONSTANTS.HOUR);
+    });
+
+    it("should run every missed occurrence", async () => {
+      const { executeJob, job } = await restartAfterDowntime("runAll");
+      expect(executeJob).toHaveBeenCalledTimes(3);
+      expect(job.state.nextRunAtMs).toBe(start + 4 * TIME_CONSTANTS.HOUR);
+    });
+  });
+});
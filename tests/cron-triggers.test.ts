@@ -0,0 +1,158 @@
+/**
+ * 事件触发任务测试 (Webhook、文件变化、消息匹配)
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import express from "express";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+
+vi.mock("../src/utils/logger.js", () => ({
+  getChildLogger: () => ({ debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() }),
+}));
+
+import { CronService } from "../src/cron/service.js";
+import { formatTriggeredMessage } from "../src/cron/executor.js";
+import { createCronHookRouter } from "../src/gateway/cron-hooks.js";
+import { emitMessageReceived } from "../src/hooks/index.js";
+import type { InboundMessageContext } from "../src/types/index.js";
+
+function createContext(overrides: Partial<InboundMessageContext> = {}): InboundMessageContext {
+  return {
+    channelId: "telegram",
+    messageId: "m1",
+    chatId: "chat-1",
+    chatType: "group",
+    senderId: "u1",
+    senderName: "Alice",
+    content: "deploy failed on prod",
+    timestamp: Date.now(),
+    ...overrides,
+  };
+}
+
+describe("cron event triggers", () => {
+  let dir: string;
+  let service: CronService;
+  let executeJob: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "mozi-cron-triggers-"));
+    executeJob = vi.fn().mockResolvedValue({ status: "ok" });
+    service = new CronService({ storePath: join(dir, "cron", "jobs.json"), executeJob, workingDirectory: dir });
+  });
+
+  afterEach(() => {
+    service.stop();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should run messageMatch jobs for matching messages in the chat", async () => {
+    const job = service.add({
+      name: "告警",
+      schedule: { kind: "messageMatch", pattern: "deploy\\s+failed", flags: "i", channel: "telegram", chatId: "chat-1" },
+      payload: { kind: "agentTurn", message: "排查部署失败" },
+    });
+    service.start();
+
+    emitMessageReceived(createContext({ chatId: "chat-2" }));
+    emitMessageReceived(createContext({ content: "all good" }));
+    emitMessageReceived(createContext({ content: "Deploy  FAILED again" }));
+
+    await vi.waitFor(() => expect(executeJob).toHaveBeenCalledTimes(1));
+    expect(executeJob.mock.calls[0]![1]).toEqual({ kind: "messageMatch", detail: "Alice: Deploy  FAILED again" });
+    await vi.waitFor(() => expect(service.runs(job.id)[0]).toMatchObject({ trigger: "event", status: "ok" }));
+    expect(service.get(job.id)?.state.nextRunAtMs).toBeUndefined();
+  });
+
+  it("should stop matching once the job is disabled", async () => {
+    const job = service.add({
+      name: "告警",
+      schedule: { kind: "messageMatch", pattern: "failed", channel: "telegram", chatId: "chat-1" },
+      payload: { kind: "systemEvent", message: "failed" },
+    });
+    service.start();
+    service.update(job.id, { enabled: false });
+
+    emitMessageReceived(createContext());
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(executeJob).not.toHaveBeenCalled();
+  });
+
+  it("should run fileWatch jobs with the changed files", async () => {
+    mkdirSync(join(dir, "inbox"));
+    service.add({
+      name: "收件箱",
+      schedule: { kind: "fileWatch", path: "inbox", debounceMs: 50 },
+      payload: { kind: "agentTurn", message: "整理新文件" },
+    });
+    service.start();
+
+    writeFileSync(join(dir, "inbox", "report.csv"), "a,b\n");
+    await vi.waitFor(() => expect(executeJob).toHaveBeenCalledTimes(1), { timeout: 3000 });
+    expect(executeJob.mock.calls[0]![1]).toMatchObject({ kind: "fileWatch" });
+    expect(executeJob.mock.calls[0]![1].detail).toContain(join("inbox", "report.csv"));
+  });
+
+  describe("webhook", () => {
+    let server: Server;
+    let baseUrl: string;
+
+    beforeEach(async () => {
+      const app = express();
+      app.use(express.json());
+      app.use(createCronHookRouter({ getService: () => service }));
+      server = app.listen(0);
+      await new Promise((resolve) => server.once("listening", resolve));
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterEach(() => {
+      server.close();
+    });
+
+    it("should require the job secret and pass the body to the job", async () => {
+      const secret = "0123456789abcdef0123";
+      const job = service.add({
+        name: "CI",
+        schedule: { kind: "webhook", secret },
+        payload: { kind: "agentTurn", message: "总结构建结果" },
+      });
+      const post = (headers: Record<string, string>) =>
+        fetch(`${baseUrl}/hooks/${job.id}`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json", ...headers },
+          body: JSON.stringify({ build: 42 }),
+        });
+
+      expect((await post({ "X-Mozi-Secret": "wrong" })).status).toBe(401);
+      expect((await post({})).status).toBe(401);
+      expect(executeJob).not.toHaveBeenCalled();
+
+      const res = await post({ Authorization: `Bearer ${secret}` });
+      expect(res.status).toBe(202);
+      await vi.waitFor(() => expect(executeJob).toHaveBeenCalledTimes(1));
+      expect(executeJob.mock.calls[0]![1]).toEqual({ kind: "webhook", detail: '{"build":42}' });
+    });
+
+    it("should not trigger jobs of another kind", async () => {
+      const job = service.add({
+        name: "hourly",
+        schedule: { kind: "every", everyMs: 3_600_000 },
+        payload: { kind: "systemEvent", message: "tick" },
+      });
+      const res = await fetch(`${baseUrl}/hooks/${job.id}`, { method: "POST", headers: { "X-Mozi-Secret": "x" } });
+      expect(res.status).toBe(401);
+    });
+  });
+
+  it("should append the trigger event to the agent message", () => {
+    expect(formatTriggeredMessage("整理新文件")).toBe("整理新文件");
+    expect(formatTriggeredMessage("整理新文件", { kind: "fileWatch", detail: "Changed files:\ninbox/a.csv" })).toBe(
+      "整理新文件\n\n[Triggered by fileWatch]\nChanged files:\ninbox/a.csv"
+    );
+  });
+});
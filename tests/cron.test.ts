@@ -6,7 +6,9 @@ import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
 import {
   computeNextRunAtMs,
   computeJobNextRunAtMs,
+  computeNextRuns,
   validateCronExpr,
+  validateSchedule,
   formatSchedule,
 } from "../src/cron/schedule.js";
 import { CronStore } from "../src/cron/store.js";
@@ -151,6 +153,66 @@ describe("cron/schedule", () => {
       expect(formatted).toContain("Asia/Shanghai");
     });
   });
+
+  describe("computeNextRuns", () => {
+    it("should list upcoming runs for every schedule", () => {
+      const schedule: CronSchedule = { kind: "every", everyMs: 1000, anchorMs: 0 };
+      expect(computeNextRuns(schedule, 2500, 3)).toEqual([3000, 4000, 5000]);
+    });
+
+    it("should stop after a one-shot run", () => {
+      expect(computeNextRuns({ kind: "at", atMs: 2000 }, 1000)).toEqual([2000]);
+    });
+  });
+
+  describe("validateSchedule", () => {
+    it("should reject invalid schedules", () => {
+      expect(validateSchedule({ kind: "at", atMs: 500 }, 1000).valid).toBe(false);
+      expect(validateSchedule({ kind: "every", everyMs: 0 }).valid).toBe(false);
+      expect(validateSchedule({ kind: "cron", expr: "bad" }).valid).toBe(false);
+      expect(validateSchedule({ kind: "cron", expr: "0 9 * * *" }).valid).toBe(true);
+    });
+
+    it("should validate event triggers", () => {
+      expect(validateSchedule({ kind: "webhook", secret: "short" }).valid).toBe(false);
+      expect(validateSchedule({ kind: "webhook", secret: "0123456789abcdef" }).valid).toBe(true);
+      expect(validateSchedule({ kind: "fileWatch", path: "../etc" }).valid).toBe(false);
+      expect(validateSchedule({ kind: "fileWatch", path: "/etc" }).valid).toBe(false);
+      expect(validateSchedule({ kind: "fileWatch", path: "docs/../inbox" }).valid).toBe(true);
+      expect(validateSchedule({ kind: "messageMatch", pattern: "(", channel: "telegram", chatId: "1" }).valid).toBe(false);
+      expect(validateSchedule({ kind: "messageMatch", pattern: "hi", channel: "telegram", chatId: "1" }).valid).toBe(true);
+    });
+
+    it("should reject message patterns prone to catastrophic backtracking", () => {
+      const match = (pattern: string) => validateSchedule({ kind: "messageMatch", pattern, channel: "telegram", chatId: "1" });
+      for (const pattern of [
+        "(a+)+$",
+        "(a*)*b",
+        "((ab)+)+",
+        "(\\w+\\s?){2,}x",
+        "(a|aa)+$",
+        "((a|b)c)*",
+        ".*.*.*x",
+        "a.+b.*c",
+        "(a)\\1",
+        "a".repeat(201),
+      ]) {
+        expect(match(pattern).valid).toBe(false);
+      }
+      for (const pattern of [
+        "deploy\\s+failed",
+        "(foo|bar)",
+        "deploy.*failed",
+        "v\\d+\\.*\\d+\\.*",
+        "v\\d+(\\.\\d+)?",
+        "[(+)]+",
+        "\\(a+\\)+",
+      ]) {
+        expect(match(pattern).valid).toBe(true);
+      }
+      expect(match("(a+)+").error).toContain("Nested quantifiers");
+    });
+  });
 });
 
 describe("cron/store", () => {
@@ -0,0 +1,201 @@
+/**
+ * Discord 通道测试 (本地 REST 与 Gateway 桩服务)
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import * as http from "http";
+import type { AddressInfo } from "net";
+import { WebSocketServer, type WebSocket } from "ws";
+
+// Mock logger
+vi.mock("../src/utils/logger.js", () => ({
+  getChildLogger: () => ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+import { DiscordChannel } from "../src/channels/discord/index.js";
+import type { InboundMessageContext } from "../src/types/index.js";
+
+interface RestCall {
+  method: string;
+  path: string;
+  authorization?: string;
+  body: Record<string, any>;
+}
+
+/** 本地 Discord 桩服务: REST 与 Gateway 共用一个端口，收到 Identify/Resume 后应答 READY/RESUMED */
+function startDiscordStub(): Promise<{
+  server: http.Server;
+  wss: WebSocketServer;
+  baseUrl: string;
+  gatewayUrl: string;
+  rest: RestCall[];
+  frames: Array<{ op: number; d: any }>;
+  sockets: WebSocket[];
+}> {
+  const rest: RestCall[] = [];
+  const frames: Array<{ op: number; d: any }> = [];
+  const sockets: WebSocket[] = [];
+  let messageId = 900;
+  const server = http.createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      const path = req.url!.replace(/^\/api/, "");
+      rest.push({ method: req.method!, path, authorization: req.headers.authorization, body: body ? JSON.parse(body) : {} });
+      res.setHeader("Content-Type", "application/json");
+      if (path === "/users/@me") {
+        res.end(JSON.stringify({ id: "B1", username: "mozi", bot: true }));
+      } else if (req.method === "POST" && path.endsWith("/messages")) {
+        res.end(JSON.stringify({ id: String(++messageId), channel_id: path.split("/")[2], content: "" }));
+      } else if (req.method === "PATCH") {
+        res.end(JSON.stringify({}));
+      } else {
+        res.statusCode = 404;
+        res.end(JSON.stringify({ message: "Unknown" }));
+      }
+    });
+  });
+
+  const wss = new WebSocketServer({ server });
+  wss.on("connection", (socket) => {
+    sockets.push(socket);
+    const { port } = server.address() as AddressInfo;
+    socket.on("message", (data) => {
+      const frame = JSON.parse(data.toString());
+      frames.push(frame);
+      if (frame.op === 2) {
+        socket.send(
+          JSON.stringify({
+            op: 0,
+            s: 1,
+            t: "READY",
+            d: { session_id: "sess-1", resume_gateway_url: `ws://127.0.0.1:${port}`, user: { id: "B1", username: "mozi" } },
+          })
+        );
+      } else if (frame.op === 6) {
+        socket.send(JSON.stringify({ op: 0, s: frame.d.seq + 1, t: "RESUMED", d: {} }));
+      }
+    });
+    socket.send(JSON.stringify({ op: 10, d: { heartbeat_interval: 45000 } }));
+  });
+
+  return new Promise((resolve) => {
+    server.listen(0, "127.0.0.1", () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({
+        server,
+        wss,
+        baseUrl: `http://127.0.0.1:${port}/api`,
+        gatewayUrl: `ws://127.0.0.1:${port}`,
+        rest,
+        frames,
+        sockets,
+      });
+    });
+  });
+}
+
+describe("channels/discord", () => {
+  let stub: Awaited<ReturnType<typeof startDiscordStub>>;
+  let channel: DiscordChannel;
+
+  beforeEach(async () => {
+    stub = await startDiscordStub();
+    channel = new DiscordChannel({ botToken: "token-1", apiBase: stub.baseUrl, gatewayUrl: stub.gatewayUrl });
+  });
+
+  afterEach(async () => {
+    await channel.shutdown();
+    for (const client of stub.wss.clients) client.terminate();
+    stub.wss.close();
+    stub.server.close();
+  });
+
+  it("should identify, receive messages and resume after reconnect", async () => {
+    const received: InboundMessageContext[] = [];
+    channel.setMessageHandler(async (context) => {
+      received.push(context);
+    });
+    await channel.initialize();
+
+    expect(stub.rest[0]).toMatchObject({ path: "/users/@me", authorization: "Bot token-1" });
+    expect(stub.frames[0]).toMatchObject({ op: 2, d: { token: "token-1", intents: 37377 } });
+    expect(await channel.isHealthy()).toBe(true);
+
+    const socket = stub.sockets[0]!;
+    socket.send(
+      JSON.stringify({
+        op: 0,
+        s: 2,
+        t: "MESSAGE_CREATE",
+        d: {
+          id: "M1",
+          channel_id: "C1",
+          guild_id: "G1",
+          author: { id: "U1", username: "lilei", global_name: "Li Lei" },
+          content: "<@B1> 你好",
+          timestamp: "2026-01-01T00:00:00.000Z",
+          mentions: [{ id: "B1", username: "mozi" }],
+          attachments: [{ id: "A1", filename: "a.png", url: "https://cdn.example.com/a.png", content_type: "image/png" }],
+        },
+      })
+    );
+    socket.send(
+      JSON.stringify({
+        op: 0,
+        s: 3,
+        t: "MESSAGE_CREATE",
+        d: { id: "M2", channel_id: "C1", author: { id: "B2", username: "bot", bot: true }, content: "hi", timestamp: "" },
+      })
+    );
+
+    await vi.waitFor(() => expect(received).toHaveLength(1));
+    expect(received[0]).toMatchObject({
+      channelId: "discord",
+      messageId: "M1",
+      chatId: "C1",
+      chatType: "group",
+      senderId: "U1",
+      senderName: "Li Lei",
+      content: "你好",
+      mentions: ["B1"],
+      mentionedBot: true,
+      attachments: [{ type: "image", key: "https://cdn.example.com/a.png", fileName: "a.png" }],
+    });
+
+    // 服务端要求重连: 使用 READY 中的会话与最新序列号恢复
+    socket.send(JSON.stringify({ op: 7, d: null }));
+    await vi.waitFor(() => expect(stub.frames.some((frame) => frame.op === 6)).toBe(true));
+    expect(stub.frames.find((frame) => frame.op === 6)!.d).toEqual({ token: "token-1", session_id: "sess-1", seq: 3 });
+    await vi.waitFor(async () => expect(await channel.isHealthy()).toBe(true));
+  });
+
+  it("should reply with message references and stream by editing", async () => {
+    const result = await channel.sendText("C1", "x".repeat(2500), "M1");
+    expect(result.success).toBe(true);
+    const posts = stub.rest.filter((call) => call.method === "POST");
+    expect(posts).toHaveLength(2);
+    expect(posts[0]!.body).toMatchObject({ message_reference: { message_id: "M1" } });
+    expect(posts[0]!.body.content).toHaveLength(2000);
+
+    const stream = (await channel.createReplyStream({
+      channelId: "discord",
+      messageId: "M2",
+      chatId: "C1",
+      chatType: "direct",
+      senderId: "U1",
+      content: "hi",
+      timestamp: 0,
+    }))!;
+    await stream.update("", []);
+    await stream.finish("完成");
+    const patch = stub.rest.find((call) => call.method === "PATCH")!;
+    expect(patch.path).toMatch(/^\/channels\/C1\/messages\/\d+$/);
+    expect(patch.body).toEqual({ content: "完成" });
+  });
+});
@@ -0,0 +1,210 @@
+/**
+ * 模型故障转移测试
+ */
+
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach, afterEach } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import * as http from "http";
+import type { AddressInfo } from "net";
+
+// Mock logger
+vi.mock("../src/utils/logger.js", () => ({
+  getChildLogger: () => ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+import {
+  configureFailover,
+  getFailoverChain,
+  getProviderHealth,
+  getRetryDelay,
+  initModelResolver,
+  isProviderHealthy,
+  isRetryableProviderError,
+  markProviderCooldown,
+  reportProviderFailure,
+  reportProviderSuccess,
+  resetFailover,
+} from "../src/providers/model-resolver.js";
+import { AgentRuntime } from "../src/agents/runtime.js";
+import type { MoziConfig } from "../src/types/index.js";
+
+/** 本地 OpenAI 兼容桩服务: /bad 始终限流，/good 正常流式应答 */
+function startStubServer(): Promise<{ server: http.Server; baseUrl: string; hits: Record<string, number> }> {
+  const hits: Record<string, number> = { bad: 0, good: 0 };
+  const server = http.createServer((req, res) => {
+    req.resume();
+    req.on("end", () => {
+      if (req.url?.startsWith("/bad/")) {
+        hits.bad!++;
+        res.writeHead(429, { "Content-Type": "application/json", "x-should-retry": "false" });
+        res.end(JSON.stringify({ error: { message: "Rate limit exceeded", type: "rate_limit_error" } }));
+        return;
+      }
+
+      hits.good!++;
+      const chunk = (body: Record<string, unknown>) =>
+        `data: ${JSON.stringify({ id: "chatcmpl-1", object: "chat.completion.chunk", created: 0, model: "qwen-plus", ...body })}\n\n`;
+      res.writeHead(200, { "Content-Type": "text/event-stream" });
+      res.write(chunk({ choices: [{ index: 0, delta: { role: "assistant", content: "来自备用模型" }, finish_reason: null }] }));
+      res.write(chunk({ choices: [{ index: 0, delta: {}, finish_reason: "stop" }] }));
+      res.write(chunk({ choices: [], usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 } }));
+      res.end("data: [DONE]\n\n");
+    });
+  });
+
+  return new Promise((resolve) => {
+    server.listen(0, "127.0.0.1", () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({ server, baseUrl: `http://127.0.0.1:${port}`, hits });
+    });
+  });
+}
+
+describe("providers/failover", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    resetFailover();
+  });
+
+  it("should detect retryable errors", () => {
+    expect(isRetryableProviderError("429 Rate limit exceeded")).toBe(true);
+    expect(isRetryableProviderError("503 Service Unavailable")).toBe(true);
+    expect(isRetryableProviderError("fetch failed")).toBe(true);
+    expect(isRetryableProviderError("401 Invalid API key")).toBe(false);
+    expect(isRetryableProviderError("400 context length exceeded")).toBe(false);
+    expect(isRetryableProviderError("Request failed with status code 502")).toBe(true);
+    expect(isRetryableProviderError("Error: 500 Internal Server Error")).toBe(true);
+    expect(isRetryableProviderError("HTTP 504")).toBe(true);
+    expect(isRetryableProviderError("400 max_tokens must be at most 500")).toBe(false);
+    expect(isRetryableProviderError("Invalid request: max 500 tokens")).toBe(false);
+  });
+
+  it("should back off exponentially up to the limit", () => {
+    configureFailover({ baseDelayMs: 100, maxDelayMs: 500 });
+    expect([0, 1, 2, 3].map(getRetryDelay)).toEqual([100, 200, 400, 500]);
+  });
+
+  it("should skip providers in cooldown", () => {
+    vi.useFakeTimers();
+    configureFailover({ cooldownMs: 1000, fallbacks: [{ provider: "dashscope", model: "qwen-plus" }] });
+    const primary = { provider: "deepseek" as const, model: "deepseek-chat" };
+
+    markProviderCooldown("deepseek");
+    expect(getFailoverChain(primary)).toEqual([{ provider: "dashscope", model: "qwen-plus" }]);
+
+    vi.advanceTimersByTime(1000);
+    expect(getFailoverChain(primary)).toEqual([primary, { provider: "dashscope", model: "qwen-plus" }]);
+  });
+
+  it("should return the primary model when every provider is unavailable", () => {
+    markProviderCooldown("deepseek");
+    expect(getFailoverChain({ provider: "deepseek", model: "deepseek-chat" })).toEqual([
+      { provider: "deepseek", model: "deepseek-chat" },
+    ]);
+  });
+
+  it("should open the circuit after consecutive failures and close it on success", () => {
+    vi.useFakeTimers();
+    configureFailover({ failureThreshold: 2, circuitOpenMs: 5000 });
+
+    reportProviderFailure("kimi", "429");
+    expect(isProviderHealthy("kimi")).toBe(true);
+    reportProviderFailure("kimi", "429");
+    expect(isProviderHealthy("kimi")).toBe(false);
+    expect(getProviderHealth()[0]).toMatchObject({ provider: "kimi", state: "open", consecutiveFailures: 2 });
+
+    // 熔断到期后放行试探请求，试探失败立即再次熔断
+    vi.advanceTimersByTime(5000);
+    expect(isProviderHealthy("kimi")).toBe(true);
+    expect(getProviderHealth()[0]?.state).toBe("half-open");
+    reportProviderFailure("kimi", "503");
+    expect(isProviderHealthy("kimi")).toBe(false);
+
+    vi.advanceTimersByTime(5000);
+    expect(isProviderHealthy("kimi")).toBe(true);
+    reportProviderSuccess("kimi");
+    expect(getProviderHealth()[0]).toMatchObject({ state: "closed", consecutiveFailures: 0 });
+  });
+
+  describe("AgentRuntime with a stub server", () => {
+    let stub: Awaited<ReturnType<typeof startStubServer>>;
+    let testDir: string;
+
+    beforeAll(async () => {
+      stub = await startStubServer();
+    });
+
+    afterAll(async () => {
+      await new Promise((resolve) => stub.server.close(resolve));
+    });
+
+    beforeEach(() => {
+      testDir = path.join(os.tmpdir(), `mozi-failover-test-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+      fs.mkdirSync(testDir, { recursive: true });
+      stub.hits.bad = 0;
+      stub.hits.good = 0;
+
+      const config: MoziConfig = {
+        providers: {
+          deepseek: { apiKey: "sk-primary", baseUrl: `${stub.baseUrl}/bad/v1` },
+          dashscope: { apiKey: "sk-fallback", baseUrl: `${stub.baseUrl}/good/v1` },
+        },
+        channels: {},
+        agent: {
+          defaultProvider: "deepseek",
+          defaultModel: "deepseek-chat",
+          failover: {
+            fallbacks: [{ provider: "dashscope", model: "qwen-plus" }],
+            maxRetries: 1,
+            baseDelayMs: 1,
+          },
+        },
+      };
+      initModelResolver(config);
+    });
+
+    afterEach(() => {
+      fs.rmSync(testDir, { recursive: true, force: true });
+    });
+
+    it("should fail over to the next provider and report it", async () => {
+      const runtime = new AgentRuntime({
+        provider: "deepseek",
+        model: "deepseek-chat",
+        workingDirectory: testDir,
+        sessionDir: path.join(testDir, "sessions"),
+      });
+      const context = {
+        channelId: "qq",
+        chatId: "group-1",
+        chatType: "group" as const,
+        senderId: "user-1",
+        content: "你好",
+        messageId: "msg-1",
+        timestamp: Date.now(),
+      };
+
+      const response = await runtime.chat(context);
+
+      expect(response).toMatchObject({ provider: "dashscope", model: "qwen-plus", content: "来自备用模型" });
+      expect(stub.hits).toEqual({ bad: 2, good: 1 });
+      expect(isProviderHealthy("deepseek")).toBe(false);
+      // 会话信息报告实际应答的提供商与模型
+      expect(runtime.getSessionInfo(context)).toMatchObject({ provider: "dashscope", model: "qwen-plus" });
+
+      // 冷却期间直接使用备用模型
+      const second = await runtime.chat({ ...context, messageId: "msg-2" });
+      expect(second.provider).toBe("dashscope");
+      expect(stub.hits).toEqual({ bad: 2, good: 2 });
+
+      await runtime.shutdown();
+    });
+  });
+});
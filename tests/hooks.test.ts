@@ -30,6 +30,7 @@ import {
   emitError,
   type HookEvent,
   type MessageReceivedEvent,
+  type MessageSendingEvent,
   type AgentStartEvent,
   type ToolStartEvent,
   type ErrorEvent,
@@ -306,6 +307,51 @@ describe("hooks", () => {
           })
         );
       });
+
+      it("should apply transformers in registration order", async () => {
+        registerHook("message_sending", (event) => ({
+          ...(event as MessageSendingEvent),
+          content: (event as MessageSendingEvent).content + " [1]",
+        }));
+        registerHook("message_sending", (event) => ({
+          ...(event as MessageSendingEvent),
+          content: (event as MessageSendingEvent).content + " [2]",
+        }));
+
+        const result = await emitMessageSending({
+          channelId: "feishu",
+          chatId: "chat-1",
+          content: "Hello",
+        });
+
+        expect(result).toEqual({ content: "Hello [1] [2]", cancelled: false });
+      });
+
+      it("should allow transformers to veto the message", async () => {
+        registerHook("message_sending", (event) => ({ ...(event as MessageSendingEvent), cancel: true }));
+
+        const result = await emitMessageSending({
+          channelId: "feishu",
+          chatId: "chat-1",
+          content: "secret",
+        });
+
+        expect(result.cancelled).toBe(true);
+      });
+
+      it("should keep content when a transformer throws", async () => {
+        registerHook("message_sending", () => {
+          throw new Error("boom");
+        });
+
+        const result = await emitMessageSending({
+          channelId: "feishu",
+          chatId: "chat-1",
+          content: "Hello",
+        });
+
+        expect(result).toEqual({ content: "Hello", cancelled: false });
+      });
     });
 
     describe("emitAgentStart", () => {
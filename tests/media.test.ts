@@ -0,0 +1,323 @@
+/**
+ * 入站媒体与出站富内容测试
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+
+// Mock logger
+vi.mock("../src/utils/logger.js", () => ({
+  getChildLogger: () => ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+import { MediaCache, initMediaCache, detectImageMimeType, readLimitedBody } from "../src/media/cache.js";
+import { buildMediaPrompt } from "../src/media/prompt.js";
+import { BaseChannelAdapter, type DownloadedMedia } from "../src/channels/common/base.js";
+import { parseFeishuMessageContent } from "../src/channels/feishu/events.js";
+import { parseDingtalkAttachments, parseDingtalkMessageContent } from "../src/channels/dingtalk/events.js";
+import { getOutboundBlocks, blocksToMarkdown, loadMediaSource, isImageSource } from "../src/channels/common/rich.js";
+import { createSendFileTool, getOutboundMedia } from "../src/tools/builtin/send.js";
+import type { InboundMessageContext, MediaAttachment } from "../src/types/index.js";
+
+const PNG_HEADER = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 0x0d]);
+
+/** 测试通道 */
+class TestChannel extends BaseChannelAdapter {
+  readonly id = "feishu" as const;
+  readonly meta = {
+    id: "feishu" as const,
+    name: "Test",
+    description: "Test channel",
+    capabilities: {
+      chatTypes: ["direct" as const],
+      supportsMedia: true,
+      supportsReply: true,
+      supportsMention: false,
+      supportsReaction: false,
+      supportsThread: false,
+      supportsEdit: false,
+    },
+  };
+
+  download = vi.fn<(context: InboundMessageContext, attachment: MediaAttachment) => Promise<DownloadedMedia>>();
+
+  protected downloadAttachment(context: InboundMessageContext, attachment: MediaAttachment): Promise<DownloadedMedia> {
+    return this.download(context, attachment);
+  }
+
+  async receive(context: InboundMessageContext): Promise<void> {
+    await this.handleInboundMessage(context);
+  }
+
+  async initialize(): Promise<void> {}
+  async shutdown(): Promise<void> {}
+  async sendMessage() {
+    return { success: true };
+  }
+  async sendText() {
+    return { success: true };
+  }
+  async isHealthy(): Promise<boolean> {
+    return true;
+  }
+}
+
+describe("media", () => {
+  let testDir: string;
+
+  beforeEach(() => {
+    testDir = path.join(os.tmpdir(), `mozi-media-test-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  describe("MediaCache", () => {
+    it("should save media per channel and detect image types", () => {
+      const cache = new MediaCache({ cacheDir: testDir });
+      const saved = cache.save(PNG_HEADER, { channelId: "feishu", type: "image", mimeType: "application/octet-stream" });
+
+      expect(saved.mimeType).toBe("image/png");
+      expect(saved.path.startsWith(path.join(testDir, "feishu"))).toBe(true);
+      expect(saved.path.endsWith(".png")).toBe(true);
+      expect(fs.readFileSync(saved.path)).toEqual(PNG_HEADER);
+
+      const file = cache.save(Buffer.from("hello"), { channelId: "qq", type: "file", fileName: "notes.txt" });
+      expect(file.path.endsWith(".txt")).toBe(true);
+      expect(file.mimeType).toBeUndefined();
+    });
+
+    it("should reject files over the size limit", () => {
+      const cache = new MediaCache({ cacheDir: testDir, maxFileSize: 4 });
+      expect(() => cache.save(Buffer.from("too large"), { channelId: "qq", type: "file" })).toThrow("Media too large");
+    });
+
+    it("should prune expired files", () => {
+      const cache = new MediaCache({ cacheDir: testDir, retentionHours: 1 });
+      const saved = cache.save(Buffer.from("old"), { channelId: "wecom", type: "file" });
+      expect(cache.prune(Date.now() + 30 * 60_000)).toBe(0);
+      expect(cache.prune(Date.now() + 2 * 3600_000)).toBe(1);
+      expect(fs.existsSync(saved.path)).toBe(false);
+    });
+
+    it("should stop reading downloads over the size limit", async () => {
+      await expect(readLimitedBody(new Response("small"), 10)).resolves.toEqual(Buffer.from("small"));
+
+      const declared = new Response("0123456789", { headers: { "content-length": "10" } });
+      await expect(readLimitedBody(declared, 4)).rejects.toThrow("Media too large");
+
+      const stream = new ReadableStream<Uint8Array>({
+        start(controller) {
+          controller.enqueue(new Uint8Array(3));
+          controller.enqueue(new Uint8Array(3));
+          controller.close();
+        },
+      });
+      await expect(readLimitedBody(new Response(stream), 4)).rejects.toThrow("Media too large");
+    });
+
+    it("should detect common image headers", () => {
+      expect(detectImageMimeType(Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0, 0, 0, 0, 0, 0, 0, 0]))).toBe("image/jpeg");
+      expect(detectImageMimeType(Buffer.from("GIF89a000000"))).toBe("image/gif");
+      expect(detectImageMimeType(Buffer.from("plain text file"))).toBeUndefined();
+    });
+  });
+
+  describe("buildMediaPrompt", () => {
+    it("should attach images as image content for vision models", async () => {
+      const imagePath = path.join(testDir, "a.png");
+      fs.mkdirSync(testDir, { recursive: true });
+      fs.writeFileSync(imagePath, PNG_HEADER);
+
+      const analyzeImage = vi.fn();
+      const prompt = await buildMediaPrompt(
+        "看看这张图",
+        [
+          { type: "image", key: "img", path: imagePath, mimeType: "image/png" },
+          { type: "file", key: "file", path: path.join(testDir, "b.pdf"), fileName: "报告.pdf" },
+          { type: "audio", key: "voice" },
+        ],
+        { supportsVision: true, analyzeImage }
+      );
+
+      expect(prompt.images).toEqual([{ type: "image", data: PNG_HEADER.toString("base64"), mimeType: "image/png" }]);
+      expect(prompt.text).toBe(`看看这张图\n\n[图片: ${imagePath}]\n[文件 报告.pdf: ${path.join(testDir, "b.pdf")}]`);
+      expect(analyzeImage).not.toHaveBeenCalled();
+    });
+
+    it("should fall back to image analysis for text-only models", async () => {
+      const analyzeImage = vi.fn().mockResolvedValue("一只猫");
+      const prompt = await buildMediaPrompt("[图片]", [{ type: "image", key: "img", path: "/tmp/cat.jpg" }], {
+        supportsVision: false,
+        analyzeImage,
+      });
+
+      expect(analyzeImage).toHaveBeenCalledWith("/tmp/cat.jpg");
+      expect(prompt.images).toEqual([]);
+      expect(prompt.text).toBe("[图片]\n\n[图片: /tmp/cat.jpg]\n图片内容 (image_analyze 识别): 一只猫");
+
+      analyzeImage.mockRejectedValueOnce(new Error("no vision model"));
+      const failed = await buildMediaPrompt("[图片]", [{ type: "image", key: "img", path: "/tmp/cat.jpg" }], {
+        supportsVision: false,
+        analyzeImage,
+      });
+      expect(failed.text).toBe("[图片]\n\n[图片 cat.jpg: /tmp/cat.jpg]");
+    });
+  });
+
+  describe("channel attachments", () => {
+    it("should download attachments into the media cache on request", async () => {
+      initMediaCache({ cacheDir: testDir });
+      const channel = new TestChannel();
+      channel.download
+        .mockResolvedValueOnce({ data: PNG_HEADER, mimeType: "image/png" })
+        .mockRejectedValueOnce(new Error("expired"));
+      const handler = vi.fn().mockResolvedValue(undefined);
+      channel.setMessageHandler(handler);
+
+      const context: InboundMessageContext = {
+        channelId: "feishu",
+        messageId: "msg-1",
+        chatId: "chat-1",
+        chatType: "direct",
+        senderId: "user-1",
+        content: "[图片]",
+        attachments: [
+          { type: "image", key: "img-1" },
+          { type: "file", key: "file-1", fileName: "a.txt" },
+        ],
+        timestamp: Date.now(),
+      };
+      await channel.receive(context);
+
+      // 通道收到消息时不下载，由 Gateway 通过检查后再下载
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(channel.download).not.toHaveBeenCalled();
+
+      await channel.resolveAttachments(context);
+      const [image, file] = context.attachments!;
+      expect(image!.path).toBeDefined();
+      expect(image!.mimeType).toBe("image/png");
+      expect(fs.existsSync(image!.path!)).toBe(true);
+      // 下载失败的附件保留原样
+      expect(file!.path).toBeUndefined();
+    });
+
+    it("should parse Feishu media messages", () => {
+      expect(parseFeishuMessageContent("image", JSON.stringify({ image_key: "img_v2" }))).toEqual({
+        content: "[图片]",
+        attachments: [{ type: "image", key: "img_v2" }],
+      });
+      expect(parseFeishuMessageContent("file", JSON.stringify({ file_key: "f1", file_name: "a.pdf" }))).toEqual({
+        content: "[文件: a.pdf]",
+        attachments: [{ type: "file", key: "f1", fileName: "a.pdf" }],
+      });
+
+      const post = {
+        title: "",
+        content: [[{ tag: "text", text: "看图" }, { tag: "img", image_key: "img_post" }]],
+      };
+      expect(parseFeishuMessageContent("post", JSON.stringify(post))).toEqual({
+        content: "看图",
+        attachments: [{ type: "image", key: "img_post" }],
+      });
+    });
+
+    it("should parse DingTalk media messages", () => {
+      const picture = { msgId: "m1", msgtype: "picture" as const, content: { downloadCode: "code-1" } };
+      expect(parseDingtalkMessageContent(picture)).toBe("[图片]");
+      expect(parseDingtalkAttachments(picture)).toEqual([{ type: "image", key: "code-1" }]);
+
+      const audio = { msgId: "m2", msgtype: "audio" as const, content: { downloadCode: "code-2", recognition: "你好" } };
+      expect(parseDingtalkMessageContent(audio)).toBe("你好");
+      expect(parseDingtalkAttachments(audio)).toEqual([{ type: "audio", key: "code-2" }]);
+
+      const richText = {
+        msgId: "m3",
+        msgtype: "richText" as const,
+        content: { richText: [{ text: "看看" }, { type: "picture", downloadCode: "code-3" }] },
+      };
+      expect(parseDingtalkMessageContent(richText)).toBe("看看[图片]");
+      expect(parseDingtalkAttachments(richText)).toEqual([{ type: "image", key: "code-3" }]);
+    });
+  });
+
+  describe("outbound rich content", () => {
+    it("should collect blocks with text first and classify media urls", () => {
+      const blocks = getOutboundBlocks({
+        chatId: "c",
+        content: "结果如下",
+        blocks: [{ type: "card", title: "报告", text: "已生成", buttons: [{ text: "打开", url: "https://a.com" }] }],
+        mediaUrls: ["https://a.com/shot.PNG?x=1", "/tmp/report.pdf"],
+      });
+
+      expect(blocks).toEqual([
+        { type: "markdown", text: "结果如下" },
+        { type: "card", title: "报告", text: "已生成", buttons: [{ text: "打开", url: "https://a.com" }] },
+        { type: "image", source: "https://a.com/shot.PNG?x=1" },
+        { type: "file", source: "/tmp/report.pdf" },
+      ]);
+      expect(isImageSource("data:image/png;base64,AAAA")).toBe(true);
+    });
+
+    it("should render blocks as markdown fallback", () => {
+      const text = blocksToMarkdown([
+        { type: "markdown", text: "你好" },
+        { type: "image", source: "https://a.com/a.png" },
+        { type: "image", source: "/tmp/a.png" },
+        { type: "file", source: "https://a.com/files/r.pdf?sig=1" },
+        { type: "card", title: "确认", text: "继续吗?", buttons: [{ text: "是", command: "/yes" }] },
+      ]);
+
+      expect(text).toBe(
+        "你好\n\n![图片](https://a.com/a.png)\n\n[图片]\n\n[文件: r.pdf](https://a.com/files/r.pdf?sig=1)" +
+          "\n\n**确认**\n\n继续吗?\n\n是: 发送 /yes"
+      );
+    });
+
+    it("should load data urls and local files", async () => {
+      const fromDataUrl = await loadMediaSource(`data:image/png;base64,${PNG_HEADER.toString("base64")}`, "a.png");
+      expect(fromDataUrl).toEqual({ data: PNG_HEADER, fileName: "a.png", mimeType: "image/png" });
+
+      fs.mkdirSync(testDir, { recursive: true });
+      const filePath = path.join(testDir, "shot.png");
+      fs.writeFileSync(filePath, PNG_HEADER);
+      expect(await loadMediaSource(filePath)).toEqual({ data: PNG_HEADER, fileName: "shot.png", mimeType: "image/png" });
+    });
+
+    it("should refuse to fetch media from private addresses", async () => {
+      for (const url of [
+        "http://127.0.0.1/a.png",
+        "http://169.254.169.254/latest/meta-data",
+        "http://10.0.0.5/file.pdf",
+        "http://[::1]/a.png",
+        "http://[::ffff:192.168.1.1]/a.png",
+        "http://localhost:1/a.png",
+      ]) {
+        await expect(loadMediaSource(url)).rejects.toThrow("private address");
+      }
+    });
+
+    it("should queue files through the send_file tool", async () => {
+      fs.mkdirSync(testDir, { recursive: true });
+      const filePath = path.join(testDir, "report.pdf");
+      fs.writeFileSync(filePath, "pdf");
+      const tool = createSendFileTool({ allowedPaths: [testDir] });
+
+      const result = await tool.execute("call-1", { path: filePath, fileName: "周报.pdf" });
+      expect(getOutboundMedia(result.details)).toEqual([{ type: "file", source: filePath, fileName: "周报.pdf" }]);
+
+      const denied = await tool.execute("call-2", { path: "/etc/passwd" });
+      expect(getOutboundMedia(denied.details)).toEqual([]);
+      expect(denied.details).toMatchObject({ status: "error" });
+    });
+  });
+});
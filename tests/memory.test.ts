@@ -2,7 +2,7 @@
  * Memory 系统测试
  */
 
-import { describe, it, expect, vi, beforeEach } from "vitest";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import * as os from "os";
 import * as path from "path";
 import * as fs from "fs";
@@ -27,7 +27,11 @@ import {
   MemoryManager,
   createMemoryManager,
   JsonMemoryStore,
+  SimpleEmbedding,
+  OpenAIEmbedding,
+  createEmbeddingProvider,
   type MemoryEntry,
+  type EmbeddingProvider,
 } from "../src/memory/index.js";
 
 // 每个测试使用独立的临时目录
@@ -346,4 +350,148 @@ describe("memory/index", () => {
       expect(entry?.content).toBe("Persistent content");
     });
   });
+
+  describe("Embedding providers", () => {
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    /** Fake /embeddings endpoint returning [length, index] vectors in reverse order */
+    const stubEmbeddingsApi = () => {
+      const fetchMock = vi.fn(async (_url: string, init: RequestInit) => {
+        const { input } = JSON.parse(init.body as string) as { input: string[] };
+        const data = input.map((text, index) => ({ index, embedding: [text.length, index] })).reverse();
+        return new Response(JSON.stringify({ data }), { status: 200 });
+      });
+      vi.stubGlobal("fetch", fetchMock);
+      return fetchMock;
+    };
+
+    it("should create providers from memory config", () => {
+      expect(createEmbeddingProvider(undefined)).toBeInstanceOf(SimpleEmbedding);
+
+      const dashscope = createEmbeddingProvider(
+        { embeddingProvider: "dashscope" },
+        { dashscope: { apiKey: "sk-test" } },
+      );
+      expect(dashscope).toBeInstanceOf(OpenAIEmbedding);
+      expect(dashscope.id).toBe("dashscope:text-embedding-v3");
+      expect(dashscope.dimension).toBe(1024);
+
+      expect(() => createEmbeddingProvider({ embeddingProvider: "vllm" })).toThrow("embeddingModel");
+      expect(() => createEmbeddingProvider({ embeddingProvider: "custom-openai", embeddingModel: "bge-m3" })).toThrow(
+        "base URL",
+      );
+    });
+
+    it("should batch requests to the OpenAI-compatible endpoint", async () => {
+      const fetchMock = stubEmbeddingsApi();
+      const provider = new OpenAIEmbedding({
+        provider: "ollama",
+        baseUrl: "http://localhost:11434/v1/",
+        model: "bge-m3",
+        apiKey: "key",
+        batchSize: 2,
+        dimensions: 512,
+      });
+
+      const vectors = await provider.embed(["a", "bb", "ccc"]);
+
+      expect(vectors).toEqual([[1, 0], [2, 1], [3, 0]]);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      const [url, init] = fetchMock.mock.calls[0]!;
+      expect(url).toBe("http://localhost:11434/v1/embeddings");
+      expect((init.headers as Record<string, string>).Authorization).toBe("Bearer key");
+      expect(JSON.parse(init.body as string)).toEqual({ model: "bge-m3", input: ["a", "bb"], dimensions: 512 });
+      expect(provider.id).toBe("ollama:bge-m3@512");
+    });
+
+    it("should report API errors", async () => {
+      vi.stubGlobal("fetch", vi.fn(async () => new Response("invalid api key", { status: 401 })));
+      const provider = new OpenAIEmbedding({ provider: "zhipu", baseUrl: "http://x", model: "embedding-3" });
+      await expect(provider.embed(["a"])).rejects.toThrow("Embedding request failed (401): invalid api key");
+    });
+
+    it("should cache embeddings and re-embed entries when the model changes", async () => {
+      const testDir = getTestDir();
+      fs.mkdirSync(testDir, { recursive: true });
+
+      const legacy = new MemoryManager({ directory: testDir });
+      const id = await legacy.remember("Deploy with docker compose");
+      await legacy.close();
+      expect((await new JsonMemoryStore({ directory: testDir }).get(id))?.embedding).toHaveLength(256);
+
+      const embed = vi.fn(async (texts: string[]) => texts.map((text) => [text.length, 1]));
+      const provider: EmbeddingProvider = {
+        id: "test:model-a",
+        dimension: 2,
+        embed,
+        embedQuery: async (text) => [text.length, 1],
+      };
+      const manager = new MemoryManager({ directory: testDir, embedding: provider });
+
+      const results = await manager.recall("docker");
+      expect(results[0]?.id).toBe(id);
+      expect(results[0]?.embedding).toEqual([26, 1]);
+      expect(embed).toHaveBeenCalledWith(["Deploy with docker compose"]);
+
+      // Repeated queries hit the cache
+      embed.mockClear();
+      await manager.recall("docker");
+      expect(embed).not.toHaveBeenCalled();
+      await manager.close();
+
+      // Same model after reload: no re-embedding
+      const reloaded = new MemoryManager({ directory: testDir, embedding: provider });
+      await reloaded.recall("compose");
+      expect(embed).toHaveBeenCalledWith(["compose"]);
+      expect(embed).not.toHaveBeenCalledWith(["Deploy with docker compose"]);
+      await reloaded.close();
+    });
+
+    it("should retry re-embedding after a provider failure", async () => {
+      const testDir = getTestDir();
+      fs.mkdirSync(testDir, { recursive: true });
+      const legacy = new MemoryManager({ directory: testDir });
+      const id = await legacy.remember("Remote note");
+      await legacy.close();
+
+      const embed = vi
+        .fn<(texts: string[]) => Promise<number[][]>>()
+        .mockRejectedValueOnce(new Error("offline"))
+        .mockImplementation(async (texts) => texts.map(() => [1, 0]));
+      const manager = new MemoryManager({
+        directory: testDir,
+        embedding: { id: "test:model-b", dimension: 2, embed, embedQuery: async () => [1, 0] },
+      });
+
+      await manager.remember("Second note");
+      expect((await manager.get(id))?.embedding).toHaveLength(256);
+
+      await manager.recall("note");
+      expect((await manager.get(id))?.embedding).toEqual([1, 0]);
+      await manager.close();
+    });
+
+    it("should fall back to text scores and backfill embeddings after a provider failure", async () => {
+      const testDir = getTestDir();
+      const embed = vi.fn<(texts: string[]) => Promise<number[][]>>().mockRejectedValue(new Error("offline"));
+      const manager = new MemoryManager({
+        directory: testDir,
+        embedding: { id: "test:model-c", dimension: 2, embed, embedQuery: async () => [1, 0] },
+      });
+
+      const id = await manager.remember("Deploy with docker compose");
+      expect((await manager.get(id))?.embedding).toBeUndefined();
+
+      // Query embedding fails: results still ranked by text
+      const results = await manager.recall("docker compose");
+      expect(results.map((entry) => entry.id)).toEqual([id]);
+
+      embed.mockImplementation(async (texts) => texts.map(() => [1, 0]));
+      await manager.recall("docker");
+      expect((await manager.get(id))?.embedding).toEqual([1, 0]);
+      await manager.close();
+    });
+  });
 });
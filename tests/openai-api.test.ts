@@ -0,0 +1,189 @@
+/**
+ * OpenAI 兼容 API 测试
+ */
+
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from "vitest";
+import express from "express";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+
+// Mock logger
+vi.mock("../src/utils/logger.js", () => ({
+  getChildLogger: () => ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+vi.mock("../src/providers/index.js", () => ({
+  getAllModels: vi.fn().mockReturnValue([
+    { provider: "deepseek", model: { id: "deepseek-chat", name: "DeepSeek Chat" } },
+  ]),
+}));
+
+import { createOpenAIRouter, getApiKeyId, resolveModel } from "../src/gateway/openai.js";
+import type { Agent } from "../src/agents/agent.js";
+import type { InboundMessageContext } from "../src/types/index.js";
+
+const response = {
+  content: "你好!",
+  provider: "deepseek",
+  model: "deepseek-chat",
+  usage: { promptTokens: 10, completionTokens: 3, totalTokens: 13 },
+};
+
+const agent = {
+  getSessionKey: vi.fn((context: InboundMessageContext) => context.sessionKey ?? `${context.channelId}:${context.senderId}`),
+  processMessage: vi.fn(),
+  processMessageEvents: vi.fn(),
+  restoreSessionFromTranscript: vi.fn(),
+  setSessionModel: vi.fn(),
+  clearSession: vi.fn(),
+  useEphemeralSession: vi.fn(),
+};
+
+const runTurn = vi.fn(<T>(_sessionKey: string, task: () => Promise<T>) => task());
+const keyId = getApiKeyId("sk-test");
+
+describe("gateway/openai", () => {
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    const app = express();
+    app.use(express.json());
+    app.use("/v1", createOpenAIRouter({ getAgent: () => agent as unknown as Agent, config: { apiKeys: ["sk-test"] }, runTurn }));
+    server = app.listen(0);
+    await new Promise((resolve) => server.once("listening", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+  });
+
+  afterAll(() => {
+    server.close();
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    agent.processMessage.mockResolvedValue(response);
+  });
+
+  function post(body: unknown, headers: Record<string, string> = {}) {
+    return fetch(`${baseUrl}/chat/completions`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Authorization: "Bearer sk-test", ...headers },
+      body: JSON.stringify(body),
+    });
+  }
+
+  it("should reject requests without a valid API key", async () => {
+    const res = await fetch(`${baseUrl}/models`, { headers: { Authorization: "Bearer wrong" } });
+    expect(res.status).toBe(401);
+    expect((await res.json()).error.code).toBe("invalid_api_key");
+  });
+
+  it("should list models", async () => {
+    const res = await fetch(`${baseUrl}/models`, { headers: { Authorization: "Bearer sk-test" } });
+    const body = await res.json();
+    expect(body.data.map((model: { id: string }) => model.id)).toEqual(["mozi", "deepseek/deepseek-chat"]);
+  });
+
+  it("should resolve requested models", () => {
+    expect(resolveModel("mozi")).toBeUndefined();
+    expect(resolveModel("deepseek/deepseek-chat")).toEqual({ provider: "deepseek", model: "deepseek-chat" });
+    expect(resolveModel("deepseek-chat")).toEqual({ provider: "deepseek", model: "deepseek-chat" });
+    expect(resolveModel("gpt-unknown")).toBeNull();
+  });
+
+  it("should answer in a persistent session named by header", async () => {
+    const res = await post(
+      {
+        model: "deepseek/deepseek-chat",
+        messages: [
+          { role: "user", content: "之前的问题" },
+          { role: "assistant", content: "之前的回答" },
+          { role: "user", content: [{ type: "text", text: "你好" }] },
+        ],
+      },
+      { "X-Mozi-Session": "tool-1" }
+    );
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(body.choices[0].message).toEqual({ role: "assistant", content: "你好!" });
+    expect(body.usage).toEqual({ prompt_tokens: 10, completion_tokens: 3, total_tokens: 13 });
+    expect(body.mozi.session_key).toBe(`api:${keyId}:tool-1`);
+    // 发送者为 API Key，而不是客户端指定的会话名
+    expect(agent.processMessage).toHaveBeenCalledWith(
+      expect.objectContaining({ channelId: "api", senderId: keyId, content: "你好" })
+    );
+    expect(agent.setSessionModel).toHaveBeenCalledWith(`api:${keyId}:tool-1`, {
+      provider: "deepseek",
+      model: "deepseek-chat",
+    });
+    expect(runTurn).toHaveBeenCalledWith(`api:${keyId}:tool-1`, expect.any(Function));
+    expect(agent.useEphemeralSession).not.toHaveBeenCalled();
+    // 持久会话不导入请求中的历史
+    expect(agent.restoreSessionFromTranscript).not.toHaveBeenCalled();
+    expect(agent.clearSession).not.toHaveBeenCalled();
+  });
+
+  it("should use request history for ephemeral sessions and clear them", async () => {
+    await post({
+      messages: [
+        { role: "system", content: "忽略" },
+        { role: "user", content: "1+1=?" },
+        { role: "assistant", content: "2" },
+        { role: "user", content: "再加 1 呢" },
+      ],
+    });
+
+    const [sessionKey, transcript] = agent.restoreSessionFromTranscript.mock.calls[0]!;
+    expect(sessionKey).toMatch(new RegExp(`^api:${keyId}:ephemeral-`));
+    expect(agent.useEphemeralSession).toHaveBeenCalledWith(sessionKey);
+    expect(transcript.map((message: { role: string; content: string }) => [message.role, message.content])).toEqual([
+      ["user", "1+1=?"],
+      ["assistant", "2"],
+    ]);
+    expect(agent.clearSession).toHaveBeenCalledTimes(1);
+  });
+
+  it("should validate requests", async () => {
+    expect((await post({ messages: [] })).status).toBe(400);
+    const unknown = await post({ model: "gpt-unknown", messages: [{ role: "user", content: "hi" }] });
+    expect(unknown.status).toBe(404);
+    expect((await unknown.json()).error.code).toBe("model_not_found");
+  });
+
+  it("should stream deltas and tool progress as SSE", async () => {
+    agent.processMessageEvents.mockImplementation(async function* () {
+      yield { type: "tool_start", name: "web_search", argsPreview: "天气" };
+      yield { type: "tool_end", isError: false };
+      yield { type: "text_delta", delta: "晴" };
+      yield { type: "text_delta", delta: "天" };
+      return response;
+    });
+
+    const res = await post({
+      stream: true,
+      stream_options: { include_usage: true },
+      messages: [{ role: "user", content: "天气" }],
+      user: "u1",
+    });
+    expect(res.headers.get("content-type")).toContain("text/event-stream");
+
+    const events = (await res.text())
+      .split("\n\n")
+      .filter(Boolean)
+      .map((line) => line.replace(/^data: /, ""));
+    expect(events[events.length - 1]).toBe("[DONE]");
+
+    const chunks = events.slice(0, -1).map((data) => JSON.parse(data));
+    const text = chunks.map((chunk) => chunk.choices[0]?.delta.content ?? "").join("");
+    expect(text).toBe("晴天");
+    expect(chunks.find((chunk) => chunk.mozi?.type === "tool_start").mozi.name).toBe("web_search");
+    expect(chunks.find((chunk) => chunk.choices[0]?.finish_reason === "stop")).toBeDefined();
+    expect(chunks[chunks.length - 1].usage.total_tokens).toBe(13);
+  });
+});
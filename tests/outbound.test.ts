@@ -20,9 +20,12 @@ vi.mock("../src/channels/common/index.js", () => {
   };
 
   return {
-    getChannel: vi.fn((id: string) => {
+    getChannel: vi.fn((id: string, accountId?: string) => {
+      if (accountId && !(id === "feishu" && ["sales", "ops"].includes(accountId))) {
+        return undefined;
+      }
       if (id === "dingtalk" || id === "feishu") {
-        return { ...mockChannel, id };
+        return { ...mockChannel, id, accountId };
       }
       return undefined;
     }),
@@ -30,6 +33,7 @@ vi.mock("../src/channels/common/index.js", () => {
       { id: "dingtalk" },
       { id: "feishu" },
     ]),
+    getChannelAccountIds: vi.fn((id: string) => (id === "feishu" ? ["sales", "ops"] : [])),
   };
 });
 
@@ -74,6 +78,18 @@ describe("outbound/index", () => {
         to: "group:abc:123",
       });
     });
+
+    it("should parse channel:accountId:chatId for registered accounts", () => {
+      expect(parseDeliveryTarget("feishu:ops:oc_123")).toEqual({
+        channel: "feishu",
+        accountId: "ops",
+        to: "oc_123",
+      });
+      expect(parseDeliveryTarget("feishu:hr:oc_123")).toEqual({
+        channel: "feishu",
+        to: "hr:oc_123",
+      });
+    });
   });
 
   describe("deliverMessage", () => {
@@ -88,6 +104,18 @@ describe("outbound/index", () => {
       expect(result.messageId).toBe("msg-123");
     });
 
+    it("should deliver through the target account", async () => {
+      const target: DeliveryTarget = { channel: "feishu", to: "oc_123", accountId: "sales" };
+
+      const result = await deliverMessage(target, { text: "Hello" });
+
+      expect(result.success).toBe(true);
+      expect(getChannel).toHaveBeenCalledWith("feishu", "sales");
+      await expect(deliverMessage({ ...target, accountId: "hr" }, { text: "Hello" })).rejects.toThrow(
+        "Channel not found: feishu:hr"
+      );
+    });
+
     it("should return error for unknown channel", async () => {
       const target: DeliveryTarget = { channel: "unknown" as any, to: "user123" };
       const payload: DeliveryPayload = { text: "Hello" };
@@ -82,6 +82,24 @@ describe("plugins/index", () => {
       }));
     });
 
+    it("should register channel factories", async () => {
+      const create = vi.fn();
+      const definition: PluginDefinition = {
+        meta: {
+          id: "matrix-plugin",
+          name: "Matrix Plugin",
+          version: "1.0.0",
+        },
+        register: (api) => api.registerChannel({ id: "matrix", create }),
+      };
+
+      await pluginModule.registerPlugin(definition, {} as any);
+
+      const channels = await import("../src/channels/common/index.js");
+      expect(channels.getChannelFactory("matrix")?.create).toBe(create);
+      expect(channels.getKnownChannelIds()).toContain("matrix");
+    });
+
     it("should skip duplicate registration", async () => {
       const definition: PluginDefinition = {
         meta: {
@@ -0,0 +1,152 @@
+/**
+ * 消息排队与限流测试
+ */
+
+import { describe, it, expect, vi, afterEach } from "vitest";
+
+// Mock logger
+vi.mock("../src/utils/logger.js", () => ({
+  getChildLogger: () => ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+import { RateLimiter, ConcurrencyLimiter, SessionQueue, mergeMessages } from "../src/gateway/queue.js";
+import type { InboundMessageContext } from "../src/types/index.js";
+
+function createMessage(overrides: Partial<InboundMessageContext> = {}): InboundMessageContext {
+  return {
+    channelId: "feishu",
+    messageId: "msg-1",
+    chatId: "chat-1",
+    chatType: "group",
+    senderId: "user-1",
+    content: "你好",
+    timestamp: Date.now(),
+    ...overrides,
+  };
+}
+
+describe("gateway/queue", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe("RateLimiter", () => {
+    it("should allow bursts and refill over time", () => {
+      const limiter = new RateLimiter({ burst: 2, perMinute: 6 });
+      const now = 1_000_000;
+
+      expect(limiter.take("a", now)).toEqual({ allowed: true });
+      expect(limiter.take("a", now)).toEqual({ allowed: true });
+      expect(limiter.take("a", now)).toEqual({ allowed: false, retryAfterMs: 10_000, first: true });
+      expect(limiter.take("a", now + 1000)).toMatchObject({ allowed: false, first: false });
+      // 其他 key 独立计数
+      expect(limiter.take("b", now)).toEqual({ allowed: true });
+
+      expect(limiter.take("a", now + 10_000)).toEqual({ allowed: true });
+      expect(limiter.take("a", now + 10_000)).toMatchObject({ allowed: false, first: true });
+    });
+  });
+
+  describe("ConcurrencyLimiter", () => {
+    it("should queue callers beyond the limit in order", async () => {
+      const limiter = new ConcurrencyLimiter(1);
+      const positions: number[] = [];
+      const order: string[] = [];
+
+      await limiter.acquire();
+      const second = limiter.acquire((position) => positions.push(position)).then(() => order.push("second"));
+      const third = limiter.acquire((position) => positions.push(position)).then(() => order.push("third"));
+      expect(positions).toEqual([1, 2]);
+      expect(limiter.getStats()).toEqual({ active: 1, queued: 2 });
+
+      limiter.release();
+      await second;
+      limiter.release();
+      await third;
+      limiter.release();
+
+      expect(order).toEqual(["second", "third"]);
+      expect(limiter.getStats()).toEqual({ active: 0, queued: 0 });
+    });
+  });
+
+  describe("SessionQueue", () => {
+    it("should process messages of a session serially", async () => {
+      const events: string[] = [];
+      let release!: () => void;
+      const handler = vi.fn(async (context: InboundMessageContext) => {
+        events.push(`start:${context.content}`);
+        if (context.content === "1") await new Promise<void>((resolve) => (release = resolve));
+        events.push(`end:${context.content}`);
+      });
+      const queue = new SessionQueue(handler);
+
+      const first = queue.enqueue("s1", createMessage({ content: "1" }));
+      const second = queue.enqueue("s1", createMessage({ content: "2" }));
+      const other = queue.enqueue("s2", createMessage({ content: "3" }));
+      await other;
+      expect(events).toEqual(["start:1", "start:3", "end:3"]);
+
+      release();
+      await Promise.all([first, second]);
+      expect(events).toEqual(["start:1", "start:3", "end:3", "end:1", "start:2", "end:2"]);
+    });
+
+    it("should coalesce bursts from the same sender", async () => {
+      vi.useFakeTimers();
+      const handler = vi.fn().mockResolvedValue(undefined);
+      const queue = new SessionQueue(handler, { coalesceMs: 500 });
+
+      const done = Promise.all([
+        queue.enqueue("s1", createMessage({ messageId: "m1", content: "第一句" })),
+        queue.enqueue("s1", createMessage({ messageId: "m2", content: "第二句" })),
+        queue.enqueue("s1", createMessage({ messageId: "m3", senderId: "user-2", content: "别人" })),
+      ]);
+      await vi.advanceTimersByTimeAsync(300);
+      expect(handler).not.toHaveBeenCalled();
+
+      await vi.advanceTimersByTimeAsync(1000);
+      await done;
+      expect(handler).toHaveBeenCalledTimes(2);
+      expect(handler.mock.calls[0]![0]).toMatchObject({ messageId: "m2", content: "第一句\n第二句" });
+      expect(handler.mock.calls[1]![0]).toMatchObject({ messageId: "m3", content: "别人" });
+    });
+
+    it("should run tasks in the session lane and return their result", async () => {
+      const events: string[] = [];
+      let release!: () => void;
+      const handler = vi.fn(async (context: InboundMessageContext) => {
+        events.push(`message:${context.content}`);
+        await new Promise<void>((resolve) => (release = resolve));
+      });
+      const queue = new SessionQueue(handler, { coalesceMs: 500 });
+
+      vi.useFakeTimers();
+      const message = queue.enqueue("s1", createMessage({ content: "1" }));
+      const task = queue.run("s1", async () => {
+        events.push("task");
+        return 42;
+      });
+      await vi.advanceTimersByTimeAsync(600);
+      expect(events).toEqual(["message:1"]);
+
+      release();
+      await message;
+      expect(await task).toBe(42);
+      expect(events).toEqual(["message:1", "task"]);
+      await expect(queue.run("s1", async () => Promise.reject(new Error("boom")))).rejects.toThrow("boom");
+    });
+
+    it("should merge attachments", () => {
+      const image = { type: "image" as const, key: "img-1", path: "/tmp/a.png" };
+      const merged = mergeMessages(createMessage({ content: "", attachments: [image] }), createMessage({ content: "这是什么" }));
+      expect(merged.content).toBe("这是什么");
+      expect(merged.attachments).toEqual([image]);
+    });
+  });
+});
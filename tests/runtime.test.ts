@@ -2,9 +2,24 @@
  * AgentRuntime 测试
  */
 
-import { describe, it, expect, vi, beforeEach } from "vitest";
-import { AgentRuntime, createAgentRuntime, type RuntimeConfig } from "../src/agents/runtime.js";
-import type { MoziConfig } from "../src/types/index.js";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import { createAgentSession, SessionManager } from "@mariozechner/pi-coding-agent";
+import {
+  AgentRuntime,
+  createAgentRuntime,
+  matchModelRoute,
+  transcriptToMessages,
+  type RuntimeConfig,
+} from "../src/agents/runtime.js";
+import { resolveModel, initModelResolver } from "../src/providers/model-resolver.js";
+import { registerHook, clearHooks } from "../src/hooks/index.js";
+import { buildSystemPrompt } from "../src/agents/system-prompt.js";
+import type { UsageLedger } from "../src/usage/ledger.js";
+import type { MoziConfig, ModelRoutingRule } from "../src/types/index.js";
+import type { SessionEntry, TranscriptMessage } from "../src/sessions/types.js";
 
 // Mock pi-coding-agent
 vi.mock("@mariozechner/pi-coding-agent", () => ({
@@ -17,17 +32,31 @@ vi.mock("@mariozechner/pi-coding-agent", () => ({
         tokens: { input: 100, output: 50, total: 150 },
         totalMessages: 2,
       }),
+      getContextUsage: vi.fn().mockReturnValue(undefined),
+      compact: vi.fn(),
+      settingsManager: { applyOverrides: vi.fn() },
       dispose: vi.fn(),
+      setModel: vi.fn().mockResolvedValue(undefined),
+      model: { provider: "test-provider", id: "test-model", contextWindow: 128000 },
+      messages: [],
+      sessionManager: { appendMessage: vi.fn() },
       agent: {
         setSystemPrompt: vi.fn(),
         setTools: vi.fn(),
+        replaceMessages: vi.fn(),
         waitForIdle: vi.fn().mockResolvedValue(undefined),
+        continue: vi.fn().mockResolvedValue(undefined),
         abort: vi.fn(),
       },
     },
   }),
   SessionManager: {
     create: vi.fn().mockReturnValue({}),
+    continueRecent: vi.fn().mockReturnValue({}),
+    inMemory: vi.fn().mockReturnValue({}),
+  },
+  SettingsManager: {
+    inMemory: vi.fn().mockReturnValue({}),
   },
   AuthStorage: {
     inMemory: vi.fn().mockReturnValue({
@@ -39,7 +68,8 @@ vi.mock("@mariozechner/pi-coding-agent", () => ({
 }));
 
 // Mock model-resolver
-vi.mock("../src/providers/model-resolver.js", () => ({
+vi.mock("../src/providers/model-resolver.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../src/providers/model-resolver.js")>()),
   resolveModel: vi.fn().mockReturnValue({
     id: "test-model",
     name: "Test Model",
@@ -66,6 +96,29 @@ vi.mock("../src/utils/logger.js", () => ({
   }),
 }));
 
+// Mock session store
+vi.mock("../src/sessions/store.js", () => ({
+  getSessionStore: vi.fn().mockReturnValue({ get: vi.fn(), getOrCreate: vi.fn(), upsert: vi.fn() }),
+}));
+
+/** 内存会话存储 */
+function createMemoryStore() {
+  const entries = new Map<string, SessionEntry>();
+  return {
+    entries,
+    get: vi.fn(async (sessionKey: string) => entries.get(sessionKey) ?? null),
+    getOrCreate: vi.fn(async (sessionKey: string) => {
+      const entry = entries.get(sessionKey) ?? { sessionId: `id-${sessionKey}`, sessionKey, createdAt: 0, updatedAt: 0 };
+      entries.set(sessionKey, entry);
+      return entry;
+    }),
+    upsert: vi.fn(async (entry: SessionEntry) => {
+      entries.set(entry.sessionKey, entry);
+    }),
+    appendTranscript: vi.fn(async (_sessionId: string, _sessionKey: string, _message: TranscriptMessage) => {}),
+  };
+}
+
 // Mock system-prompt
 vi.mock("../src/agents/system-prompt.js", () => ({
   buildSystemPrompt: vi.fn().mockReturnValue("Test system prompt"),
@@ -152,6 +205,127 @@ describe("agents/runtime", () => {
           totalTokens: 150,
         });
       });
+
+      it("should send image attachments as image content to vision models", async () => {
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), "mozi-runtime-media-"));
+        const imagePath = path.join(dir, "photo.png");
+        fs.writeFileSync(imagePath, Buffer.from("fake-png"));
+        const textModel = vi.mocked(resolveModel)("test-provider", "test-model")!;
+        vi.mocked(resolveModel).mockReturnValue({ ...textModel, input: ["text", "image"] });
+
+        try {
+          await runtime.chat({
+            channelId: "test-channel",
+            chatId: "test-chat",
+            chatType: "direct" as const,
+            senderId: "test-user",
+            content: "[图片]",
+            attachments: [{ type: "image", key: "img-1", path: imagePath, mimeType: "image/png" }],
+            messageId: "msg-1",
+            timestamp: Date.now(),
+          });
+        } finally {
+          vi.mocked(resolveModel).mockReturnValue(textModel);
+          fs.rmSync(dir, { recursive: true, force: true });
+        }
+
+        const { session } = await createAgentSession();
+        expect(session.prompt).toHaveBeenCalledWith(`[图片]\n\n[图片: ${imagePath}]`, {
+          images: [{ type: "image", data: Buffer.from("fake-png").toString("base64"), mimeType: "image/png" }],
+        });
+      });
+
+      it("should collect outbound media from successful tool results", async () => {
+        const { session } = await createAgentSession();
+        const listeners: Array<(event: unknown) => void> = [];
+        vi.mocked(session.subscribe).mockImplementation((listener) => {
+          listeners.push(listener as (event: unknown) => void);
+          return () => {};
+        });
+        const toolEnd = (isError: boolean, source: string) => ({
+          type: "tool_execution_end",
+          toolCallId: source,
+          toolName: "send_file",
+          result: { content: [], details: { outboundMedia: [{ type: "image", source }] } },
+          isError,
+        });
+        vi.mocked(session.prompt).mockImplementationOnce(async () => {
+          for (const listener of listeners) {
+            listener(toolEnd(false, "/tmp/shot.png"));
+            listener(toolEnd(true, "/tmp/failed.png"));
+          }
+        });
+
+        try {
+          const response = await runtime.chat({
+            channelId: "test-channel",
+            chatId: "test-chat",
+            chatType: "direct" as const,
+            senderId: "test-user",
+            content: "截个图",
+            messageId: "msg-1",
+            timestamp: Date.now(),
+          });
+          expect(response.media).toEqual([{ type: "image", source: "/tmp/shot.png" }]);
+        } finally {
+          vi.mocked(session.subscribe).mockReturnValue(() => {});
+        }
+      });
+    });
+
+    describe("usage ledger", () => {
+      const context = {
+        channelId: "test-channel",
+        chatId: "test-chat",
+        chatType: "direct" as const,
+        senderId: "test-user",
+        content: "Hello",
+        messageId: "msg-1",
+        timestamp: Date.now(),
+      };
+
+      it("should record usage of the new assistant messages", async () => {
+        const usageLedger = { record: vi.fn(), checkBudget: vi.fn() };
+        const usageRuntime = new AgentRuntime({ ...testConfig, usageLedger });
+        const { session } = await createAgentSession();
+        const messages = session.messages as unknown[];
+        vi.mocked(session.prompt).mockImplementationOnce(async () => {
+          messages.push({
+            role: "assistant",
+            content: [{ type: "text", text: "Mock response" }],
+            usage: { input: 80, output: 20, cacheRead: 5, cacheWrite: 0, totalTokens: 105 },
+          });
+        });
+
+        try {
+          await usageRuntime.chat(context);
+        } finally {
+          messages.length = 0;
+        }
+
+        expect(usageLedger.checkBudget).toHaveBeenCalledWith("test-channel", "test-user");
+        expect(usageLedger.record).toHaveBeenCalledWith(
+          expect.objectContaining({
+            sessionKey: "test-channel:test-user",
+            provider: "test-provider",
+            model: "test-model",
+            usage: { input: 80, output: 20, cacheRead: 5, cacheWrite: 0 },
+          })
+        );
+      });
+
+      it("should reject the request when the budget is exhausted", async () => {
+        const usageLedger = {
+          record: vi.fn(),
+          checkBudget: vi.fn(async () => {
+            throw new Error("budget exhausted");
+          }),
+        };
+        const usageRuntime = new AgentRuntime({ ...testConfig, usageLedger });
+
+        await expect(usageRuntime.chat(context)).rejects.toThrow("budget exhausted");
+        expect(createAgentSession).not.toHaveBeenCalled();
+      });
     });
 
     describe("session management", () => {
@@ -185,6 +359,108 @@ describe("agents/runtime", () => {
         // Session key should be "dingtalk:group-789" for group chat
       });
 
+      it("should namespace sessions and prompts per channel account", async () => {
+        const accountRuntime = new AgentRuntime({
+          ...testConfig,
+          channelAccounts: {
+            "feishu:sales": { id: "sales", systemPrompt: "你是销售助手" },
+            "feishu:ops": { id: "ops", sessionNamespace: "ops-team" },
+          },
+        });
+        const context = {
+          channelId: "feishu",
+          accountId: "sales",
+          chatId: "chat-123",
+          chatType: "direct" as const,
+          senderId: "user-456",
+          content: "Hello",
+          messageId: "msg-1",
+          timestamp: Date.now(),
+        };
+
+        expect(accountRuntime.getSessionKey(context)).toBe("feishu:sales:user-456");
+        expect(accountRuntime.getSessionKey({ ...context, accountId: "ops" })).toBe("feishu:ops-team:user-456");
+        expect(accountRuntime.getSessionKey({ ...context, accountId: undefined })).toBe("feishu:user-456");
+
+        await accountRuntime.chat(context);
+        expect(buildSystemPrompt).toHaveBeenLastCalledWith(expect.objectContaining({ basePrompt: "你是销售助手" }));
+        await accountRuntime.chat({ ...context, accountId: "ops" });
+        expect(buildSystemPrompt).toHaveBeenLastCalledWith(
+          expect.objectContaining({ basePrompt: "You are a test assistant" })
+        );
+      });
+
+      it("should isolate sessions of named agents", () => {
+        const named = new AgentRuntime({ ...testConfig, agentId: "sre" });
+        const context = {
+          channelId: "feishu",
+          chatId: "oc_ops",
+          chatType: "group" as const,
+          senderId: "user-456",
+          content: "Hello",
+          messageId: "msg-1",
+          timestamp: Date.now(),
+        };
+
+        expect(named.getSessionKey(context)).toBe("feishu:oc_ops:agent:sre");
+        expect(runtime.getSessionKey(context)).toBe("feishu:oc_ops");
+
+        // 显式指定的会话 key 不按聊天类型推导
+        const api = { ...context, channelId: "api" as const, chatType: "direct" as const, sessionKey: "api:key-1:s1" };
+        expect(runtime.getSessionKey(api)).toBe("api:key-1:s1");
+        expect(named.getSessionKey(api)).toBe("api:key-1:s1:agent:sre");
+      });
+
+      it("should apply per-chat tool policy to namespaced session keys", async () => {
+        const scoped = new AgentRuntime({
+          ...testConfig,
+          agentId: "sre",
+          channelAccounts: { "feishu:ops": { id: "ops" } },
+          toolPolicy: { chats: { oc_ops: { deny: ["bash"] } } },
+        });
+        scoped.registerCustomTool({ name: "bash", label: "bash", description: "", parameters: {} as any, execute: vi.fn() });
+        scoped.registerCustomTool({ name: "calc", label: "calc", description: "", parameters: {} as any, execute: vi.fn() });
+
+        await scoped.chat({
+          channelId: "feishu",
+          accountId: "ops",
+          chatId: "oc_ops",
+          chatType: "group",
+          senderId: "user-456",
+          content: "Hello",
+          messageId: "msg-1",
+          timestamp: Date.now(),
+        });
+
+        const options = vi.mocked(createAgentSession).mock.calls.at(-1)![0]!;
+        expect(options.customTools!.map((tool) => tool.name)).toEqual(["calc"]);
+      });
+
+      it("should apply per-chat tool policy to direct chats by chat id", async () => {
+        const scoped = new AgentRuntime({
+          ...testConfig,
+          toolPolicy: { chats: { "dm-chat-1": { deny: ["bash"] } } },
+        });
+        scoped.registerCustomTool({ name: "bash", label: "bash", description: "", parameters: {} as any, execute: vi.fn() });
+        scoped.registerCustomTool({ name: "calc", label: "calc", description: "", parameters: {} as any, execute: vi.fn() });
+
+        const context = {
+          channelId: "feishu",
+          chatId: "dm-chat-1",
+          chatType: "direct" as const,
+          senderId: "user-456",
+          content: "Hello",
+          messageId: "msg-1",
+          timestamp: Date.now(),
+        };
+        await scoped.chat(context);
+
+        // 私聊的 session key 使用 senderId，策略仍按真实 chatId 匹配
+        expect(scoped.getSessionKey(context)).toBe("feishu:user-456");
+        const options = vi.mocked(createAgentSession).mock.calls.at(-1)![0]!;
+        expect(options.customTools!.map((tool) => tool.name)).toEqual(["calc"]);
+      });
+
       it("should clear session", async () => {
         const context = {
           channelId: "test",
@@ -243,6 +519,184 @@ describe("agents/runtime", () => {
       });
     });
 
+    describe("restoreSessionFromTranscript", () => {
+      it("should continue the session directory for the key", async () => {
+        await runtime.restoreSessionFromTranscript("feishu:user-1", []);
+
+        expect(SessionManager.continueRecent).toHaveBeenCalledWith(
+          "/tmp/test",
+          expect.stringContaining("feishu_user-1.jsonl")
+        );
+      });
+
+      it("should rehydrate the agent with transcript messages", async () => {
+        // mock 返回共享的 session 对象
+        const { session } = await createAgentSession();
+        vi.clearAllMocks();
+
+        const count = await runtime.restoreSessionFromTranscript("webchat:session_1", [
+          { role: "user", content: "你好", timestamp: 1 },
+          { role: "assistant", content: "你好！", timestamp: 2 },
+        ]);
+
+        expect(count).toBe(2);
+        expect(session.agent.replaceMessages).toHaveBeenCalledWith([
+          expect.objectContaining({ role: "user", content: [{ type: "text", text: "你好" }] }),
+          expect.objectContaining({ role: "assistant", content: [{ type: "text", text: "你好！" }] }),
+        ]);
+        expect(session.sessionManager.appendMessage).toHaveBeenCalledTimes(2);
+      });
+    });
+
+    describe("model selection", () => {
+      const groupContext = {
+        channelId: "feishu",
+        chatId: "oc_team",
+        chatType: "group" as const,
+        senderId: "user-1",
+        content: "Hello",
+        messageId: "msg-1",
+        timestamp: Date.now(),
+      };
+
+      it("should route sessions by rules", async () => {
+        const routed = new AgentRuntime({
+          ...testConfig,
+          modelRouting: [{ channel: "feishu", chatType: "group", provider: "kimi", model: "moonshot-v1-32k" }],
+        });
+
+        const response = await routed.chat(groupContext);
+        expect(response).toMatchObject({ provider: "kimi", model: "moonshot-v1-32k" });
+        expect(resolveModel).toHaveBeenCalledWith("kimi", "moonshot-v1-32k");
+
+        const direct = await routed.chat({ ...groupContext, chatType: "direct" });
+        expect(direct).toMatchObject({ provider: "test-provider", model: "test-model" });
+      });
+
+      it("should switch a live session and persist the choice", async () => {
+        const store = createMemoryStore();
+        const switching = new AgentRuntime({ ...testConfig, sessionStore: store });
+        await switching.chat(groupContext);
+        const { session } = await createAgentSession();
+        vi.clearAllMocks();
+
+        await switching.setSessionModel("feishu:oc_team", { provider: "deepseek", model: "deepseek-reasoner" });
+
+        expect(session.dispose).toHaveBeenCalled();
+        expect(createAgentSession).toHaveBeenCalledTimes(1);
+        expect(store.entries.get("feishu:oc_team")).toMatchObject({ provider: "deepseek", model: "deepseek-reasoner" });
+        expect(switching.getSessionInfo(groupContext)?.provider).toBe("deepseek");
+
+        const response = await switching.chat(groupContext);
+        expect(response).toMatchObject({ provider: "deepseek", model: "deepseek-reasoner" });
+
+        // 重启后从会话存储恢复选择
+        const restarted = new AgentRuntime({ ...testConfig, sessionStore: store });
+        expect(await restarted.getSessionModel("feishu:oc_team", groupContext)).toEqual({
+          provider: "deepseek",
+          model: "deepseek-reasoner",
+        });
+      });
+
+      it("should keep ephemeral sessions out of session files and the store", async () => {
+        const store = createMemoryStore();
+        const ephemeral = new AgentRuntime({ ...testConfig, sessionStore: store });
+        ephemeral.useEphemeralSession("feishu:oc_team");
+
+        await ephemeral.chat(groupContext);
+        await ephemeral.setSessionModel("feishu:oc_team", { provider: "deepseek", model: "deepseek-reasoner" });
+
+        expect(SessionManager.inMemory).toHaveBeenCalledWith("/tmp/test");
+        expect(SessionManager.continueRecent).not.toHaveBeenCalled();
+        expect(store.entries.has("feishu:oc_team")).toBe(false);
+      });
+
+      it("should reject unknown models", async () => {
+        vi.mocked(resolveModel).mockReturnValueOnce(undefined);
+
+        await expect(
+          runtime.setSessionModel("feishu:oc_team", { provider: "deepseek", model: "nope" })
+        ).rejects.toThrow("Cannot resolve model");
+      });
+    });
+
+    describe("compaction", () => {
+      const context = {
+        channelId: "feishu",
+        chatId: "oc_team",
+        chatType: "group" as const,
+        senderId: "ou_user",
+        content: "继续",
+        messageId: "msg-1",
+        timestamp: Date.now(),
+      };
+
+      afterEach(() => {
+        clearHooks();
+      });
+
+      it("should compact automatically past the threshold and persist the summary", async () => {
+        const store = createMemoryStore();
+        await store.getOrCreate("feishu:oc_team");
+        const compacting = new AgentRuntime({ ...testConfig, sessionStore: store, compactionThreshold: 0.5 });
+        const { session } = await createAgentSession();
+        const usage = { tokens: 70000, contextWindow: 128000, percent: 55 };
+        vi.mocked(session.getContextUsage).mockReturnValueOnce(usage).mockReturnValueOnce(usage);
+        vi.mocked(session.compact).mockResolvedValueOnce({
+          summary: "讨论了部署方案",
+          firstKeptEntryId: "entry-1",
+          tokensBefore: 70000,
+        });
+        const onStart = vi.fn();
+        const onEnd = vi.fn();
+        registerHook("compaction_start", onStart);
+        registerHook("compaction_end", onEnd);
+
+        await compacting.chat(context);
+
+        expect(session.settingsManager.applyOverrides).toHaveBeenCalledWith({
+          compaction: { reserveTokens: 16384, keepRecentTokens: 20000 },
+        });
+        expect(vi.mocked(session.compact).mock.invocationCallOrder[0]).toBeLessThan(
+          vi.mocked(session.prompt).mock.invocationCallOrder[0]!
+        );
+        expect(onStart).toHaveBeenCalledWith(expect.objectContaining({ estimatedTokens: 70000, sessionKey: "feishu:oc_team" }));
+        expect(onEnd).toHaveBeenCalledWith(expect.objectContaining({ summaryLength: 7 }));
+        expect(store.appendTranscript).toHaveBeenCalledWith(
+          "id-feishu:oc_team",
+          "feishu:oc_team",
+          expect.objectContaining({
+            role: "system",
+            content: "讨论了部署方案",
+            compaction: { tokensBefore: 70000, keptMessages: 0 },
+          })
+        );
+      });
+
+      it("should not compact below the threshold or when disabled", async () => {
+        const { session } = await createAgentSession();
+        const usage = { tokens: 70000, contextWindow: 128000, percent: 55 };
+
+        vi.mocked(session.getContextUsage).mockReturnValueOnce(usage);
+        await runtime.chat(context);
+
+        vi.mocked(session.getContextUsage).mockReturnValueOnce({ ...usage, tokens: 120000 });
+        await new AgentRuntime({ ...testConfig, enableCompaction: false }).chat(context);
+
+        expect(session.compact).not.toHaveBeenCalled();
+      });
+
+      it("should keep chatting when auto compaction fails", async () => {
+        const { session } = await createAgentSession();
+        vi.mocked(session.getContextUsage).mockReturnValueOnce({ tokens: 120000, contextWindow: 128000, percent: 94 });
+        vi.mocked(session.compact).mockRejectedValueOnce(new Error("Nothing to compact (session too small)"));
+
+        const response = await runtime.chat(context);
+
+        expect(response.content).toBe("Mock response");
+      });
+    });
+
     describe("shutdown", () => {
       it("should dispose all sessions on shutdown", async () => {
         const context = {
@@ -266,6 +720,97 @@ describe("agents/runtime", () => {
     });
   });
 
+  describe("transcriptToMessages", () => {
+    const model = { api: "openai-completions" as const, provider: "deepseek", id: "deepseek-chat" };
+
+    it("should replace compacted history with the summary", () => {
+      const transcript: TranscriptMessage[] = [
+        { role: "user", content: "第一个问题", timestamp: 1 },
+        { role: "assistant", content: "第一个回答", timestamp: 2 },
+        { role: "user", content: "第二个问题", timestamp: 3 },
+        { role: "assistant", content: "第二个回答", timestamp: 4 },
+        { role: "system", content: "用户问了两个问题", timestamp: 5, compaction: { tokensBefore: 5000, keptMessages: 2 } },
+        { role: "user", content: "第三个问题", timestamp: 6 },
+      ];
+
+      const messages = transcriptToMessages(transcript, model);
+
+      expect(messages).toHaveLength(4);
+      expect(messages[0]).toMatchObject({ role: "user", timestamp: 5 });
+      expect(JSON.stringify(messages[0])).toContain("用户问了两个问题");
+      expect(messages.slice(1).map((m) => m.timestamp)).toEqual([3, 4, 6]);
+    });
+
+    it("should convert tool call records", () => {
+      const transcript: TranscriptMessage[] = [
+        { role: "user", content: "北京天气?", timestamp: 1 },
+        {
+          role: "assistant",
+          content: "",
+          timestamp: 2,
+          tool_calls: [{ id: "call_1", type: "function", function: { name: "web_search", arguments: '{"query":"北京天气"}' } }],
+        },
+        { role: "tool", content: "晴 25°C", tool_call_id: "call_1", timestamp: 3 },
+        { role: "assistant", content: "北京今天晴，25°C", timestamp: 4 },
+      ];
+
+      const messages = transcriptToMessages(transcript, model);
+
+      expect(messages.map((m) => m.role)).toEqual(["user", "assistant", "toolResult", "assistant"]);
+      expect(messages[1]).toMatchObject({
+        content: [{ type: "toolCall", id: "call_1", name: "web_search", arguments: { query: "北京天气" } }],
+        stopReason: "toolUse",
+        provider: "deepseek",
+        model: "deepseek-chat",
+      });
+      expect(messages[2]).toMatchObject({
+        toolCallId: "call_1",
+        toolName: "web_search",
+        content: [{ type: "text", text: "晴 25°C" }],
+      });
+    });
+
+    it("should drop unmatched tool calls and results", () => {
+      const transcript: TranscriptMessage[] = [
+        {
+          role: "assistant",
+          content: "我查一下",
+          timestamp: 1,
+          tool_calls: [{ id: "call_1", type: "function", function: { name: "bash", arguments: "{}" } }],
+        },
+        { role: "tool", content: "orphan", tool_call_id: "call_x", timestamp: 2 },
+        { role: "system", content: "ignored", timestamp: 3 },
+      ];
+
+      const messages = transcriptToMessages(transcript, model);
+
+      expect(messages).toHaveLength(1);
+      expect(messages[0]).toMatchObject({ role: "assistant", content: [{ type: "text", text: "我查一下" }], stopReason: "stop" });
+    });
+  });
+
+  describe("matchModelRoute", () => {
+    const rules: ModelRoutingRule[] = [
+      { channel: "qq", chatId: "group-1", provider: "kimi", model: "moonshot-v1-8k" },
+      { senderId: "vip", provider: "openai", model: "gpt-4o" },
+      { chatType: "group", provider: "deepseek", model: "deepseek-chat" },
+    ];
+
+    it("should return the first matching rule", () => {
+      expect(matchModelRoute(rules, { channelId: "qq", chatId: "group-1", senderId: "vip", chatType: "group" })?.model)
+        .toBe("moonshot-v1-8k");
+      expect(matchModelRoute(rules, { channelId: "qq", chatId: "group-2", senderId: "vip", chatType: "group" })?.model)
+        .toBe("gpt-4o");
+      expect(matchModelRoute(rules, { channelId: "feishu", chatId: "oc_1", senderId: "u", chatType: "group" })?.model)
+        .toBe("deepseek-chat");
+    });
+
+    it("should return undefined without a match", () => {
+      expect(matchModelRoute(rules, { channelId: "feishu", senderId: "u", chatType: "direct" })).toBeUndefined();
+      expect(matchModelRoute(undefined, { channelId: "feishu" })).toBeUndefined();
+    });
+  });
+
   describe("createAgentRuntime", () => {
     it("should create runtime from MoziConfig", () => {
       const config: MoziConfig = {
@@ -285,5 +830,37 @@ describe("agents/runtime", () => {
 
       expect(runtime).toBeInstanceOf(AgentRuntime);
     });
+
+    it("should share the usage ledger passed to every named agent", async () => {
+      const config: MoziConfig = {
+        providers: {},
+        channels: {},
+        agent: { defaultModel: "test-model", defaultProvider: "test-provider" },
+        agents: [{ id: "sre" }],
+      };
+      const checkBudget = vi.fn(async () => {
+        throw new Error("budget exhausted");
+      });
+      const services = { usageLedger: { record: vi.fn(), checkBudget } as unknown as UsageLedger };
+      vi.mocked(initModelResolver).mockClear();
+
+      const runtimes = [createAgentRuntime(config, undefined, services), createAgentRuntime(config, config.agents![0], services)];
+      const context = {
+        channelId: "feishu",
+        chatId: "chat-1",
+        chatType: "direct" as const,
+        senderId: "user-1",
+        content: "Hello",
+        messageId: "msg-1",
+        timestamp: Date.now(),
+      };
+      for (const runtime of runtimes) {
+        await expect(runtime.chat(context)).rejects.toThrow("budget exhausted");
+      }
+
+      expect(checkBudget).toHaveBeenCalledTimes(2);
+      // 共用服务由调用方初始化，创建 Agent 时不再重复初始化
+      expect(initModelResolver).not.toHaveBeenCalled();
+    });
   });
 });
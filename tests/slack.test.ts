@@ -0,0 +1,227 @@
+/**
+ * Slack 通道测试 (本地 Web API 与 Socket Mode 桩服务)
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import * as http from "http";
+import type { AddressInfo } from "net";
+import express from "express";
+import { WebSocketServer, type WebSocket } from "ws";
+
+// Mock logger
+vi.mock("../src/utils/logger.js", () => ({
+  getChildLogger: () => ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+import { SlackChannel, signSlackRequest } from "../src/channels/slack/index.js";
+import type { RawBodyRequest } from "../src/channels/webhook/index.js";
+import type { InboundMessageContext } from "../src/types/index.js";
+
+interface ApiCall {
+  method: string;
+  authorization?: string;
+  params: Record<string, any>;
+}
+
+/** 本地 Slack 桩服务: Web API 与 Socket Mode WebSocket 共用一个端口 */
+function startSlackStub(): Promise<{
+  server: http.Server;
+  wss: WebSocketServer;
+  apiBase: string;
+  calls: ApiCall[];
+  acks: string[];
+  sockets: WebSocket[];
+}> {
+  const calls: ApiCall[] = [];
+  const acks: string[] = [];
+  const sockets: WebSocket[] = [];
+  let ts = 1700000000;
+  const server = http.createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      const method = req.url!.split("/").pop()!;
+      calls.push({ method, authorization: req.headers.authorization, params: body ? JSON.parse(body) : {} });
+      const { port } = server.address() as AddressInfo;
+      const reply = (data: Record<string, unknown>) => res.end(JSON.stringify({ ok: true, ...data }));
+
+      if (method === "auth.test") reply({ user_id: "UBOT", team: "mozi" });
+      else if (method === "apps.connections.open") reply({ url: `ws://127.0.0.1:${port}/link` });
+      else if (method === "chat.postMessage") reply({ ts: `${++ts}.000100` });
+      else if (method === "chat.update") reply({});
+      else res.end(JSON.stringify({ ok: false, error: "unknown_method" }));
+    });
+  });
+
+  const wss = new WebSocketServer({ server });
+  wss.on("connection", (socket) => {
+    sockets.push(socket);
+    socket.on("message", (data) => acks.push(JSON.parse(data.toString()).envelope_id));
+    socket.send(JSON.stringify({ type: "hello", num_connections: 1 }));
+  });
+
+  return new Promise((resolve) => {
+    server.listen(0, "127.0.0.1", () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({ server, wss, apiBase: `http://127.0.0.1:${port}/api`, calls, acks, sockets });
+    });
+  });
+}
+
+describe("channels/slack", () => {
+  let stub: Awaited<ReturnType<typeof startSlackStub>>;
+
+  beforeEach(async () => {
+    stub = await startSlackStub();
+  });
+
+  afterEach(() => {
+    for (const client of stub.wss.clients) client.terminate();
+    stub.wss.close();
+    stub.server.close();
+  });
+
+  it("should receive Socket Mode events and acknowledge envelopes", async () => {
+    const channel = new SlackChannel({ botToken: "xoxb-1", appToken: "xapp-1", apiBase: stub.apiBase });
+    const received: InboundMessageContext[] = [];
+    channel.setMessageHandler(async (context) => {
+      received.push(context);
+    });
+    await channel.initialize();
+
+    expect(stub.calls.find((call) => call.method === "apps.connections.open")?.authorization).toBe("Bearer xapp-1");
+    expect(stub.calls.find((call) => call.method === "auth.test")?.authorization).toBe("Bearer xoxb-1");
+
+    stub.sockets[0]!.send(
+      JSON.stringify({
+        type: "events_api",
+        envelope_id: "env-1",
+        payload: {
+          type: "event_callback",
+          event: {
+            type: "app_mention",
+            channel: "C1",
+            user: "U1",
+            text: "<@UBOT> 总结一下 <@U2>",
+            ts: "1700000000.000200",
+            thread_ts: "1700000000.000100",
+          },
+        },
+      })
+    );
+    stub.sockets[0]!.send(
+      JSON.stringify({
+        type: "events_api",
+        envelope_id: "env-2",
+        payload: { event: { type: "message", channel: "C1", bot_id: "B1", text: "bot", ts: "1700000001.000000" } },
+      })
+    );
+
+    await vi.waitFor(() => expect(stub.acks).toEqual(["env-1", "env-2"]));
+    await vi.waitFor(() => expect(received).toHaveLength(1));
+    expect(received[0]).toMatchObject({
+      channelId: "slack",
+      messageId: "1700000000.000200",
+      chatId: "C1",
+      chatType: "group",
+      senderId: "U1",
+      content: "总结一下 <@U2>",
+      replyToId: "1700000000.000100",
+      mentions: ["UBOT", "U2"],
+      mentionedBot: true,
+    });
+
+    // 回复到同一消息串
+    await channel.replyToContext(received[0]!, "好的");
+    expect(stub.calls.find((call) => call.method === "chat.postMessage")?.params).toMatchObject({
+      channel: "C1",
+      text: "好的",
+      thread_ts: "1700000000.000100",
+    });
+
+    await channel.shutdown();
+  });
+
+  it("should stream replies with chat.update", async () => {
+    const channel = new SlackChannel({ botToken: "xoxb-1", signingSecret: "s", apiBase: stub.apiBase });
+    const context = channel.parseEvent({ type: "message", channel: "D1", channel_type: "im", user: "U1", text: "hi", ts: "1.0" })!;
+    expect(context.chatType).toBe("direct");
+
+    const stream = (await channel.createReplyStream(context))!;
+    await stream.update("部分", []);
+    const result = await stream.finish("完整回复");
+
+    const posts = stub.calls.filter((call) => call.method === "chat.postMessage");
+    const updates = stub.calls.filter((call) => call.method === "chat.update");
+    expect(posts).toHaveLength(1);
+    expect(updates).toHaveLength(1);
+    expect(updates[0]!.params).toMatchObject({ channel: "D1", ts: result.messageId, text: "完整回复" });
+  });
+
+  describe("Events API", () => {
+    const signingSecret = "signing-secret";
+    let server: http.Server;
+    let url: string;
+    const received: InboundMessageContext[] = [];
+
+    beforeEach(async () => {
+      const channel = new SlackChannel({ botToken: "xoxb-1", signingSecret, apiBase: stub.apiBase });
+      channel.setMessageHandler(async (context) => {
+        received.push(context);
+      });
+      const app = express();
+      app.use(
+        express.json({
+          verify: (req, _res, buf) => {
+            (req as RawBodyRequest).rawBody = buf;
+          },
+        })
+      );
+      app.use("/slack", channel.createRouter());
+      server = app.listen(0);
+      await new Promise((resolve) => server.once("listening", resolve));
+      url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/slack/events`;
+    });
+
+    afterEach(() => {
+      server.close();
+    });
+
+    const post = (body: string, signature?: string) => {
+      const timestamp = String(Math.floor(Date.now() / 1000));
+      return fetch(url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "X-Slack-Request-Timestamp": timestamp,
+          "X-Slack-Signature": signature ?? signSlackRequest(signingSecret, timestamp, body),
+        },
+        body,
+      });
+    };
+
+    it("should answer url_verification and reject bad signatures", async () => {
+      const body = JSON.stringify({ type: "url_verification", challenge: "abc" });
+      expect((await post(body, "v0=bad")).status).toBe(401);
+
+      const res = await post(body);
+      expect(res.status).toBe(200);
+      expect(await res.json()).toEqual({ challenge: "abc" });
+    });
+
+    it("should dispatch event callbacks", async () => {
+      const body = JSON.stringify({
+        type: "event_callback",
+        event: { type: "message", channel: "D1", channel_type: "im", user: "U1", text: "你好", ts: "1700000000.000300" },
+      });
+      expect((await post(body)).status).toBe(200);
+      await vi.waitFor(() => expect(received).toHaveLength(1));
+      expect(received[0]).toMatchObject({ chatId: "D1", chatType: "direct", content: "你好" });
+    });
+  });
+});
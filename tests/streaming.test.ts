@@ -0,0 +1,141 @@
+/**
+ * 流式回复测试
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+// Mock logger
+vi.mock("../src/utils/logger.js", () => ({
+  getChildLogger: () => ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+import { StreamingReply } from "../src/gateway/streaming.js";
+import { ChunkedReplyStream, type ReplyStream } from "../src/channels/common/base.js";
+import type { StreamEvent } from "../src/agents/runtime.js";
+import type { AgentResponse } from "../src/agents/agent.js";
+
+function createStream() {
+  return {
+    update: vi.fn<(text: string, progress: string[]) => Promise<void>>().mockResolvedValue(undefined),
+    finish: vi.fn<(text: string) => Promise<{ success: boolean; messageId?: string }>>().mockResolvedValue({
+      success: true,
+      messageId: "msg-1",
+    }),
+  } satisfies ReplyStream;
+}
+
+async function* events(list: StreamEvent[], content: string): AsyncGenerator<StreamEvent, AgentResponse, unknown> {
+  for (const event of list) yield event;
+  return { content };
+}
+
+describe("gateway/streaming", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should throttle updates and finish with the full text", async () => {
+    const stream = createStream();
+    const reply = new StreamingReply(stream, { throttleMs: 1000 });
+
+    reply.apply({ type: "text_delta", delta: "你好" });
+    await vi.advanceTimersByTimeAsync(0);
+    expect(stream.update).toHaveBeenCalledTimes(1);
+    expect(stream.update).toHaveBeenLastCalledWith("你好", []);
+
+    reply.apply({ type: "text_delta", delta: "，" });
+    reply.apply({ type: "text_delta", delta: "世界" });
+    await vi.advanceTimersByTimeAsync(500);
+    expect(stream.update).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(500);
+    expect(stream.update).toHaveBeenCalledTimes(2);
+    expect(stream.update).toHaveBeenLastCalledWith("你好，世界", []);
+
+    reply.apply({ type: "text_delta", delta: "!" });
+    const result = await reply.finish();
+    expect(result).toEqual({ success: true, messageId: "msg-1" });
+    expect(stream.finish).toHaveBeenCalledWith("你好，世界!");
+
+    // 结束后不再更新
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(stream.update).toHaveBeenCalledTimes(2);
+  });
+
+  it("should show tool progress and return the agent response", async () => {
+    const stream = createStream();
+    const reply = new StreamingReply(stream, { throttleMs: 1000 });
+
+    const response = await reply.consume(
+      events(
+        [
+          { type: "tool_start", name: "bash", argsPreview: "ls" },
+          { type: "tool_end", isError: false },
+          { type: "tool_start", name: "read_file", argsPreview: "a.txt" },
+          { type: "tool_end", isError: true },
+          { type: "text_delta", delta: "完成" },
+        ],
+        "完成"
+      )
+    );
+    expect(response.content).toBe("完成");
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(stream.update).toHaveBeenLastCalledWith("完成", ["⏺ bash(ls) ✓", "⏺ read_file(a.txt) ✗"]);
+  });
+
+  it("should keep partial output when failing", async () => {
+    const stream = createStream();
+    const reply = new StreamingReply(stream);
+    reply.apply({ type: "text_delta", delta: "部分内容" });
+    await reply.fail("出错了");
+    expect(stream.finish).toHaveBeenCalledWith("部分内容\n\n出错了");
+  });
+});
+
+describe("channels/ChunkedReplyStream", () => {
+  it("should send finished paragraphs while generating", async () => {
+    const send = vi.fn().mockResolvedValue({ success: true, messageId: "m" });
+    const stream = new ChunkedReplyStream(send, { maxLength: 100, minChunkLength: 5 });
+
+    await stream.update("第一段内容\n\n第二");
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(send).toHaveBeenLastCalledWith("第一段内容");
+
+    await stream.update("第一段内容\n\n第二段未完");
+    expect(send).toHaveBeenCalledTimes(1);
+
+    await stream.finish("第一段内容\n\n第二段未完");
+    expect(send).toHaveBeenCalledTimes(2);
+    expect(send).toHaveBeenLastCalledWith("第二段未完");
+  });
+
+  it("should split long text and respect the message limit", async () => {
+    const send = vi.fn().mockResolvedValue({ success: true });
+    const stream = new ChunkedReplyStream(send, { maxLength: 10, minChunkLength: 5, maxMessages: 3 });
+
+    const text = "a".repeat(45);
+    await stream.update(text);
+    // 保留一条给结束时的剩余内容
+    expect(send).toHaveBeenCalledTimes(2);
+
+    await stream.finish(text);
+    expect(send).toHaveBeenCalledTimes(3);
+    expect(send.mock.calls.map(([chunk]) => chunk.length)).toEqual([10, 10, 10]);
+  });
+
+  it("should throw when a chunk fails to send", async () => {
+    const send = vi.fn().mockResolvedValue({ success: false, error: "rate limited" });
+    const stream = new ChunkedReplyStream(send, { maxLength: 100 });
+    await expect(stream.finish("hello")).rejects.toThrow("rate limited");
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * Telegram 通道测试 (本地 Bot API 桩服务)
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import * as http from "http";
+import type { AddressInfo } from "net";
+
+// Mock logger
+vi.mock("../src/utils/logger.js", () => ({
+  getChildLogger: () => ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+import { TelegramChannel } from "../src/channels/telegram/index.js";
+import type { InboundMessageContext } from "../src/types/index.js";
+
+interface ApiCall {
+  method: string;
+  params: Record<string, any>;
+}
+
+/** 本地 Bot API 桩服务: 第一次 getUpdates 返回 pending 中的更新，之后挂起直到客户端取消 */
+function startBotApi(updates: unknown[]): Promise<{ server: http.Server; apiBase: string; calls: ApiCall[] }> {
+  const calls: ApiCall[] = [];
+  let messageId = 100;
+  const server = http.createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      const method = req.url!.split("/").pop()!;
+      const params = body ? JSON.parse(body) : {};
+      calls.push({ method, params });
+      const reply = (result: unknown) => res.end(JSON.stringify({ ok: true, result }));
+
+      if (method === "getMe") {
+        reply({ id: 42, is_bot: true, first_name: "Mozi", username: "mozi_bot" });
+      } else if (method === "getUpdates") {
+        if (updates.length > 0) reply(updates.splice(0));
+      } else if (method === "sendMessage") {
+        reply({ message_id: ++messageId, chat: { id: params.chat_id, type: "private" }, date: 0, text: params.text });
+      } else if (method === "editMessageText") {
+        reply(true);
+      } else {
+        res.end(JSON.stringify({ ok: false, error_code: 404, description: "Not Found" }));
+      }
+    });
+  });
+
+  return new Promise((resolve) => {
+    server.listen(0, "127.0.0.1", () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({ server, apiBase: `http://127.0.0.1:${port}`, calls });
+    });
+  });
+}
+
+describe("channels/telegram", () => {
+  let stub: Awaited<ReturnType<typeof startBotApi>>;
+  let channel: TelegramChannel;
+
+  beforeEach(async () => {
+    stub = await startBotApi([
+      {
+        update_id: 7,
+        message: {
+          message_id: 1,
+          from: { id: 1001, is_bot: false, first_name: "Li", last_name: "Lei" },
+          chat: { id: -500, type: "supergroup", title: "团队" },
+          date: 1700000000,
+          text: "@mozi_bot 今天天气怎么样",
+          entities: [{ type: "mention", offset: 0, length: 9 }],
+        },
+      },
+      {
+        update_id: 8,
+        message: {
+          message_id: 2,
+          from: { id: 43, is_bot: true, first_name: "Other" },
+          chat: { id: -500, type: "supergroup" },
+          date: 1700000001,
+          text: "bot message",
+        },
+      },
+    ]);
+    channel = new TelegramChannel({ botToken: "123:abc", apiBase: stub.apiBase, pollTimeoutSec: 1 });
+  });
+
+  afterEach(async () => {
+    await channel.shutdown();
+    stub.server.closeAllConnections();
+    stub.server.close();
+  });
+
+  it("should long-poll updates and parse group mentions", async () => {
+    const received: InboundMessageContext[] = [];
+    channel.accountId = "team";
+    channel.setMessageHandler(async (context) => {
+      received.push(context);
+    });
+    await channel.initialize();
+
+    await vi.waitFor(() => expect(received).toHaveLength(1));
+    expect(received[0]).toMatchObject({
+      channelId: "telegram",
+      messageId: "1",
+      chatId: "-500",
+      chatType: "group",
+      senderId: "1001",
+      senderName: "Li Lei",
+      content: "今天天气怎么样",
+      mentions: ["42"],
+      mentionedBot: true,
+      timestamp: 1700000000000,
+      accountId: "team",
+    });
+
+    // 下一次轮询从最后一个 update_id + 1 开始
+    await vi.waitFor(() => expect(stub.calls.filter((call) => call.method === "getUpdates")).toHaveLength(2));
+    const polls = stub.calls.filter((call) => call.method === "getUpdates");
+    expect(polls[0]!.params).toMatchObject({ offset: 0, timeout: 1 });
+    expect(polls[1]!.params).toMatchObject({ offset: 9 });
+  });
+
+  it("should stream replies by editing the sent message", async () => {
+    const context = channel.parseMessage({
+      message_id: 5,
+      from: { id: 1001, is_bot: false, first_name: "Li" },
+      chat: { id: 1001, type: "private" },
+      date: 1700000000,
+      text: "你好",
+    })!;
+    expect(context.chatType).toBe("direct");
+
+    const stream = (await channel.createReplyStream(context))!;
+    await stream.update("", ["🔧 web_search"]);
+    await stream.update("你好！", []);
+    const result = await stream.finish("你好！有什么可以帮你？");
+
+    const sends = stub.calls.filter((call) => call.method === "sendMessage");
+    const edits = stub.calls.filter((call) => call.method === "editMessageText");
+    expect(sends).toHaveLength(1);
+    expect(sends[0]!.params).toMatchObject({ chat_id: "1001", reply_to_message_id: 5 });
+    expect(sends[0]!.params.text).toContain("🔧 web_search");
+    expect(edits.map((call) => call.params.text)).toEqual(["你好！", "你好！有什么可以帮你？"]);
+    expect(result).toEqual({ success: true, messageId: "101" });
+  });
+
+  it("should render card link buttons as an inline keyboard", async () => {
+    const result = await channel.sendMessage({
+      chatId: "1001",
+      content: "",
+      blocks: [{ type: "card", title: "部署", text: "已完成", buttons: [{ text: "查看", url: "https://example.com" }] }],
+    });
+
+    expect(result.success).toBe(true);
+    const send = stub.calls.find((call) => call.method === "sendMessage")!;
+    expect(send.params.text).toContain("已完成");
+    expect(send.params.reply_markup).toEqual({ inline_keyboard: [[{ text: "查看", url: "https://example.com" }]] });
+  });
+});
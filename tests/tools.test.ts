@@ -11,6 +11,7 @@ import {
   getAllTools,
   clearTools,
   filterToolsByPolicy,
+  resolveToolPolicy,
   toolsToOpenAIFunctions,
 } from "../src/tools/registry.js";
 import type { Tool, ToolResult } from "../src/tools/types.js";
@@ -199,6 +200,48 @@ describe("tools/registry", () => {
     });
   });
 
+  describe("resolveToolPolicy", () => {
+    const config = {
+      deny: ["browser"],
+      channels: {
+        qq: { deny: ["group:runtime", "group:fs"] },
+        feishu: { allow: ["group:web", "group:fs"] },
+      },
+      chats: {
+        "oc_ops": { allow: ["*"] },
+      },
+    };
+
+    it("should return empty policy without config", () => {
+      expect(resolveToolPolicy(undefined, { channelId: "qq" })).toEqual({});
+    });
+
+    it("should accumulate deny lists across layers", () => {
+      expect(resolveToolPolicy(config, { channelId: "qq", chatId: "group-1" })).toEqual({
+        deny: ["browser", "group:runtime", "group:fs"],
+      });
+    });
+
+    it("should let the most specific allow list win", () => {
+      expect(resolveToolPolicy(config, { channelId: "feishu", chatId: "oc_other" }).allow).toEqual([
+        "group:web",
+        "group:fs",
+      ]);
+      expect(resolveToolPolicy(config, { channelId: "feishu", chatId: "oc_ops" })).toEqual({
+        allow: ["*"],
+        deny: ["browser"],
+      });
+    });
+
+    it("should hide denied tools when combined with filterToolsByPolicy", () => {
+      registerTools([createTestTool("bash"), createTestTool("write_file"), createTestTool("web_search")]);
+      const policy = resolveToolPolicy(config, { channelId: "qq", chatId: "group-1" });
+      const filtered = filterToolsByPolicy(getAllTools(), policy);
+
+      expect(filtered.map((t) => t.name)).toEqual(["web_search"]);
+    });
+  });
+
   describe("toolsToOpenAIFunctions", () => {
     it("should convert tools to OpenAI function format", () => {
       const tool = createTestTool("test_tool", "A test tool");
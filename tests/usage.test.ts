@@ -0,0 +1,149 @@
+/**
+ * 用量账本测试
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+
+// Mock logger
+vi.mock("../src/utils/logger.js", () => ({
+  getChildLogger: () => ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+import { UsageLedger, calculateCost, initUsageLedger, type UsageRecordInput } from "../src/usage/ledger.js";
+import { executeCommand, registerBuiltinCommands } from "../src/commands/index.js";
+import { UsageBudgetError } from "../src/types/index.js";
+import type { Agent } from "../src/agents/agent.js";
+
+function createInput(overrides: Partial<UsageRecordInput> = {}): UsageRecordInput {
+  return {
+    sessionKey: "feishu:chat-1",
+    channelId: "feishu",
+    chatId: "chat-1",
+    senderId: "user-1",
+    provider: "deepseek",
+    model: "deepseek-chat",
+    usage: { input: 100, output: 50 },
+    ...overrides,
+  };
+}
+
+describe("usage/ledger", () => {
+  let testDir: string;
+  let file: string;
+
+  beforeEach(() => {
+    testDir = path.join(os.tmpdir(), `mozi-usage-test-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    file = path.join(testDir, "usage.jsonl");
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it("should calculate cost per million tokens", () => {
+    expect(calculateCost({ input: 1_000_000, output: 500_000 }, { input: 1, output: 2 })).toBe(2);
+    expect(calculateCost({ input: 1000, output: 1000 })).toBe(0);
+  });
+
+  it("should append records to monthly JSONL files and reload them", async () => {
+    const ledger = new UsageLedger({ file });
+    const record = ledger.record(createInput({ usage: { input: 100, output: 50, cacheRead: 10 } }));
+    expect(record.totalTokens).toBe(160);
+
+    const monthFile = ledger.getMonthFile(record.timestamp);
+    expect(path.basename(monthFile)).toMatch(/^usage\.\d{4}-\d{2}\.jsonl$/);
+    const lines = fs.readFileSync(monthFile, "utf-8").trim().split("\n");
+    expect(lines).toHaveLength(1);
+    expect(await new UsageLedger({ file }).query()).toEqual([record]);
+  });
+
+  it("should only read the months in the queried range and keep legacy records", async () => {
+    const ledger = new UsageLedger({ file });
+    const old = ledger.record(createInput({ timestamp: new Date(2025, 0, 15).getTime() }));
+    const recent = ledger.record(createInput({ timestamp: new Date(2025, 2, 15).getTime() }));
+    const legacy = { ...old, timestamp: new Date(2024, 11, 1).getTime(), sessionKey: "legacy" };
+    fs.writeFileSync(file, JSON.stringify(legacy) + "\n");
+
+    expect(await ledger.query({ since: new Date(2025, 2, 1).getTime() })).toEqual([recent]);
+    expect(await ledger.query({ until: new Date(2025, 1, 1).getTime() })).toEqual([legacy, old]);
+    expect(await ledger.query()).toHaveLength(3);
+  });
+
+  it("should filter and group records", async () => {
+    const ledger = new UsageLedger({ file });
+    ledger.record(createInput({ cost: { input: 1, output: 1 } }));
+    ledger.record(createInput({ senderId: "user-2", sessionKey: "feishu:chat-2", usage: { input: 300, output: 100 } }));
+    ledger.record(createInput({ provider: "kimi", model: "moonshot-v1-8k", timestamp: Date.now() - 86_400_000 * 3 }));
+
+    const [total] = await ledger.summarize();
+    expect(total).toMatchObject({ key: "total", requests: 3, totalTokens: 700 });
+    expect(total!.cost).toBeCloseTo(0.00015);
+
+    expect((await ledger.summarize({}, "sender")).map((s) => [s.key, s.totalTokens])).toEqual([
+      ["feishu:user-2", 400],
+      ["feishu:user-1", 300],
+    ]);
+    expect((await ledger.summarize({}, "model")).map((s) => s.key)).toEqual(["deepseek/deepseek-chat", "kimi/moonshot-v1-8k"]);
+    expect(await ledger.query({ since: Date.now() - 86_400_000 })).toHaveLength(2);
+    expect(await ledger.query({ sessionKey: "feishu:chat-2" })).toHaveLength(1);
+  });
+
+  it("should reject requests once the daily budget is used up", async () => {
+    const ledger = new UsageLedger({ file, dailyTokenBudget: 200, userBudgets: { vip: 1000 } });
+    await expect(ledger.checkBudget("feishu", "user-1")).resolves.toBeUndefined();
+
+    ledger.record(createInput({ usage: { input: 150, output: 50 } }));
+    expect(await ledger.getTodayTokens("feishu", "user-1")).toBe(200);
+    await expect(ledger.checkBudget("feishu", "user-1")).rejects.toThrow(UsageBudgetError);
+
+    // 其他用户与单独配置的用户不受影响
+    await expect(ledger.checkBudget("feishu", "user-2")).resolves.toBeUndefined();
+    ledger.record(createInput({ senderId: "vip", usage: { input: 500, output: 0 } }));
+    await expect(ledger.checkBudget("feishu", "vip")).resolves.toBeUndefined();
+
+    // 昨天的用量不计入今日
+    ledger.record(createInput({ senderId: "user-3", timestamp: Date.now() - 86_400_000 * 2, usage: { input: 500, output: 0 } }));
+    await expect(new UsageLedger({ file, dailyTokenBudget: 200 }).checkBudget("feishu", "user-3")).resolves.toBeUndefined();
+  });
+
+  it("should count records written while today's totals are loading exactly once", async () => {
+    const ledger = new UsageLedger({ file, dailyTokenBudget: 1000 });
+    ledger.record(createInput({ usage: { input: 100, output: 0 } }));
+
+    const loading = ledger.getTodayTokens("feishu", "user-1");
+    ledger.record(createInput({ usage: { input: 50, output: 0 } }));
+    expect(await loading).toBe(150);
+    expect(await ledger.getTodayTokens("feishu", "user-1")).toBe(150);
+  });
+
+  it("should report session and daily usage via /usage", async () => {
+    registerBuiltinCommands();
+    const ledger = initUsageLedger({ file, dailyTokenBudget: 1000 });
+    ledger.record(createInput());
+
+    const agent = { getSessionKey: vi.fn().mockReturnValue("feishu:chat-1") } as unknown as Agent;
+    const reply = await executeCommand(
+      {
+        channelId: "feishu",
+        messageId: "msg-1",
+        chatId: "chat-1",
+        chatType: "group",
+        senderId: "user-1",
+        content: "/usage",
+        timestamp: Date.now(),
+      },
+      { agent }
+    );
+
+    expect(reply).toContain("本会话: 1 次请求, 输入 100 / 输出 50 / 合计 150 tokens");
+    expect(reply).toContain("今日额度: 150 / 1000 tokens (剩余 850)");
+  });
+});
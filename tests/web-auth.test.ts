@@ -0,0 +1,140 @@
+/**
+ * WebChat 登录与权限测试
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import type { IncomingMessage, ServerResponse } from "http";
+
+// Mock logger
+vi.mock("../src/utils/logger.js", () => ({
+  getChildLogger: () => ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+import { WebAuth, AUTH_COOKIE_NAME, isMethodAllowed, parseCookies } from "../src/web/auth.js";
+import { handleStaticRequest } from "../src/web/static.js";
+import type { MoziConfig } from "../src/types/index.js";
+
+const config = {
+  providers: {},
+  channels: {},
+  agent: { defaultProvider: "deepseek", defaultModel: "deepseek-chat" },
+  server: { port: 3000 },
+  logging: { level: "info" },
+} as MoziConfig;
+
+function createRequest(url: string, headers: Record<string, string> = {}, body?: Record<string, unknown>) {
+  return {
+    url,
+    method: body ? "POST" : "GET",
+    headers,
+    body,
+    socket: { remoteAddress: "127.0.0.1" },
+  } as unknown as IncomingMessage;
+}
+
+function createResponse() {
+  const res = {
+    status: 0,
+    headers: {} as Record<string, string>,
+    body: "",
+    writeHead: vi.fn((status: number, headers: Record<string, string> = {}) => {
+      res.status = status;
+      res.headers = headers;
+    }),
+    end: vi.fn((body?: string) => {
+      res.body = body ?? "";
+    }),
+  };
+  return res;
+}
+
+describe("web/auth", () => {
+  const auth = new WebAuth({ adminToken: "admin-secret", chatToken: "chat-secret", secret: "s" });
+
+  it("should map tokens to roles", () => {
+    expect(auth.isEnabled()).toBe(true);
+    expect(auth.login("admin-secret")).toBe("admin");
+    expect(auth.login("chat-secret")).toBe("chat");
+    expect(auth.login("wrong")).toBeNull();
+    expect(auth.login("")).toBeNull();
+  });
+
+  it("should verify signed sessions and reject tampered or expired ones", () => {
+    const now = Date.now();
+    const session = auth.issueSession("chat", now);
+    expect(auth.verifySession(session, now)).toBe("chat");
+
+    const [payload, signature] = session.split(".");
+    const forged = Buffer.from(JSON.stringify({ role: "admin", exp: now + 1000 })).toString("base64url");
+    expect(auth.verifySession(`${forged}.${signature}`, now)).toBeNull();
+    expect(auth.verifySession(`${payload}.${signature}`, now + 200 * 3600_000)).toBeNull();
+    expect(new WebAuth({ adminToken: "admin-secret", secret: "other" }).verifySession(session, now)).toBeNull();
+  });
+
+  it("should authenticate requests by cookie or bearer token", () => {
+    const cookie = `theme=dark; ${AUTH_COOKIE_NAME}=${auth.issueSession("admin")}`;
+    expect(auth.authenticate(createRequest("/", { cookie }))).toBe("admin");
+    expect(auth.authenticate(createRequest("/", { authorization: "Bearer chat-secret" }))).toBe("chat");
+    expect(auth.authenticate(createRequest("/"))).toBeNull();
+
+    // 未配置令牌时不启用登录
+    expect(new WebAuth().authenticate(createRequest("/"))).toBe("admin");
+    expect(parseCookies("a=1; b=%E4%BD%A0")).toEqual({ a: "1", b: "你" });
+  });
+
+  it("should restrict admin methods for chat role", () => {
+    expect(isMethodAllowed("chat", "chat.send")).toBe(true);
+    expect(isMethodAllowed("chat", "sessions.restore")).toBe(true);
+    expect(isMethodAllowed("chat", "config.get")).toBe(false);
+    expect(isMethodAllowed("chat", "config.save")).toBe(false);
+    expect(isMethodAllowed("chat", "usage.get")).toBe(false);
+    expect(isMethodAllowed("admin", "config.save")).toBe(true);
+  });
+
+  describe("handleStaticRequest", () => {
+    it("should redirect to the login page without a session", () => {
+      const res = createResponse();
+      expect(handleStaticRequest(createRequest("/control"), res as unknown as ServerResponse, { config, auth })).toBe(true);
+      expect(res.status).toBe(302);
+      expect(res.headers.Location).toBe("/login?next=%2Fcontrol");
+    });
+
+    it("should log in with a token and set the session cookie", () => {
+      const res = createResponse();
+      handleStaticRequest(
+        createRequest("/login", {}, { token: "admin-secret", next: "/control" }),
+        res as unknown as ServerResponse,
+        { config, auth }
+      );
+      expect(res.status).toBe(302);
+      expect(res.headers.Location).toBe("/control");
+      expect(res.headers["Set-Cookie"]).toContain(`${AUTH_COOKIE_NAME}=`);
+      expect(res.headers["Set-Cookie"]).toContain("HttpOnly");
+
+      const failed = createResponse();
+      handleStaticRequest(
+        createRequest("/login", {}, { token: "wrong", next: "//evil.com" }),
+        failed as unknown as ServerResponse,
+        { config, auth }
+      );
+      expect(failed.status).toBe(401);
+      expect(failed.body).toContain('name="next" value="/"');
+    });
+
+    it("should keep the control UI for admins only", () => {
+      const cookie = `${AUTH_COOKIE_NAME}=${auth.issueSession("chat")}`;
+      const control = createResponse();
+      handleStaticRequest(createRequest("/control", { cookie }), control as unknown as ServerResponse, { config, auth });
+      expect(control.status).toBe(403);
+
+      const chat = createResponse();
+      handleStaticRequest(createRequest("/", { cookie }), chat as unknown as ServerResponse, { config, auth });
+      expect(chat.status).toBe(200);
+    });
+  });
+});
@@ -0,0 +1,52 @@
+/**
+ * 控制台配置保存测试
+ */
+
+import { describe, it, expect, vi } from "vitest";
+
+// Mock logger
+vi.mock("../src/utils/logger.js", () => ({
+  getChildLogger: () => ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+import { mergeChannelEdits } from "../src/web/websocket.js";
+import type { MoziConfig } from "../src/types/index.js";
+
+describe("web/config", () => {
+  it("should keep channels the console does not edit", () => {
+    const existing = {
+      feishu: { appId: "cli_1", appSecret: "secret", enabled: true },
+      telegram: { botToken: "123:abc" },
+      webhook: { secret: "hook-secret", targets: { ops: "https://ops.example.com/hook" } },
+      matrix: { homeserver: "https://matrix.example.com" },
+    } as MoziConfig["channels"];
+
+    const channels = mergeChannelEdits(existing, {
+      feishu: { id: "feishu", name: "飞书", hasConfig: true, enabled: false },
+      qq: { id: "qq", name: "QQ", hasConfig: true, enabled: true, appId: "qq-app", clientSecret: "qq-secret" },
+    });
+
+    expect(channels).toEqual({
+      feishu: { appId: "cli_1", appSecret: "secret", enabled: false },
+      qq: { appId: "qq-app", clientSecret: "qq-secret", enabled: true },
+      telegram: { botToken: "123:abc" },
+      webhook: { secret: "hook-secret", targets: { ops: "https://ops.example.com/hook" } },
+      matrix: { homeserver: "https://matrix.example.com" },
+    });
+  });
+
+  it("should remove channels the console clears", () => {
+    const existing = { dingtalk: { appKey: "k", appSecret: "s" }, matrix: { token: "t" } } as MoziConfig["channels"];
+
+    const channels = mergeChannelEdits(existing, {
+      dingtalk: { id: "dingtalk", name: "钉钉", hasConfig: false },
+    });
+
+    expect(channels).toEqual({ matrix: { token: "t" } });
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * 通用 Webhook 通道测试
+ */
+
+import { describe, it, expect, vi, beforeAll, afterAll, afterEach } from "vitest";
+import express from "express";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+
+// Mock logger
+vi.mock("../src/utils/logger.js", () => ({
+  getChildLogger: () => ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+import {
+  WebhookChannel,
+  signWebhookPayload,
+  WEBHOOK_NONCE_HEADER,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+  type RawBodyRequest,
+} from "../src/channels/webhook/index.js";
+import type { InboundMessageContext } from "../src/types/index.js";
+
+const secret = "hook-secret";
+
+describe("channels/webhook", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("should verify signatures and reject stale timestamps", () => {
+    const channel = new WebhookChannel({ secret });
+    const now = Date.now();
+    const body = JSON.stringify({ text: "构建失败" });
+    const signature = signWebhookPayload(secret, String(now), "n-1", body);
+
+    expect(channel.verifySignature(String(now), "n-1", signature, `${body} `, now)).toBe(false);
+    expect(channel.verifySignature(String(now), "n-2", signature, body, now)).toBe(false);
+    expect(channel.verifySignature(String(now), "n-1", signature, body, now + 600_000)).toBe(false);
+    expect(channel.verifySignature(undefined, "n-1", signature, body, now)).toBe(false);
+    expect(channel.verifySignature(String(now), undefined, signature, body, now)).toBe(false);
+    expect(channel.verifySignature(String(now), "n-1", signature, body, now)).toBe(true);
+  });
+
+  it("should reject replayed nonces within the tolerance window", () => {
+    const channel = new WebhookChannel({ secret, toleranceSec: 60 });
+    const now = Date.now();
+    const body = JSON.stringify({ text: "构建失败" });
+    const signature = signWebhookPayload(secret, String(now), "n-1", body);
+
+    expect(channel.verifySignature(String(now), "n-1", signature, body, now)).toBe(true);
+    expect(channel.verifySignature(String(now), "n-1", signature, body, now + 30_000)).toBe(false);
+
+    const later = now + 30_000;
+    const fresh = signWebhookPayload(secret, String(later), "n-2", body);
+    expect(channel.verifySignature(String(later), "n-2", fresh, body, later)).toBe(true);
+  });
+
+  it("should parse payloads without text as JSON content", () => {
+    const channel = new WebhookChannel({ secret });
+    const context = channel.parseInbound({ status: "firing", alertname: "HighCPU" });
+    expect(context).toMatchObject({ channelId: "webhook", chatId: "webhook", senderId: "webhook", chatType: "direct" });
+    expect(context!.content).toContain('"alertname": "HighCPU"');
+
+    const chat = channel.parseInbound({ text: "你好", chatId: "jenkins", senderId: "ci" });
+    expect(chat).toMatchObject({ content: "你好", chatId: "jenkins", senderId: "ci" });
+  });
+
+  it("should resolve callback URLs by priority", () => {
+    const channel = new WebhookChannel({
+      secret,
+      callbackUrl: "https://default.example.com/hook",
+      targets: { ops: "https://ops.example.com/hook" },
+    });
+    channel.parseInbound({ text: "hi", chatId: "jenkins", callbackUrl: "https://ci.example.com/reply" });
+
+    expect(channel.resolveCallbackUrl("ops")).toBe("https://ops.example.com/hook");
+    expect(channel.resolveCallbackUrl("jenkins")).toBe("https://ci.example.com/reply");
+    expect(channel.resolveCallbackUrl("https://any.example.com/x")).toBe("https://any.example.com/x");
+    expect(channel.resolveCallbackUrl("other")).toBe("https://default.example.com/hook");
+    expect(new WebhookChannel({ secret }).resolveCallbackUrl("other")).toBeUndefined();
+  });
+
+  it("should post signed replies to the callback URL", async () => {
+    const fetchMock = vi.fn().mockResolvedValue({ ok: true, status: 200, statusText: "OK" });
+    vi.stubGlobal("fetch", fetchMock);
+    const channel = new WebhookChannel({ secret, callbackSecret: "reply-secret", callbackUrl: "https://cb.example.com" });
+
+    const result = await channel.sendText("jenkins", "已处理", "msg-1");
+    expect(result.success).toBe(true);
+
+    const [url, init] = fetchMock.mock.calls[0]!;
+    expect(url).toBe("https://cb.example.com");
+    expect(JSON.parse(init.body)).toMatchObject({ chatId: "jenkins", replyToId: "msg-1", text: "已处理" });
+    const timestamp = init.headers[WEBHOOK_TIMESTAMP_HEADER];
+    const nonce = init.headers[WEBHOOK_NONCE_HEADER];
+    expect(nonce).toBe(result.messageId);
+    expect(init.headers[WEBHOOK_SIGNATURE_HEADER]).toBe(
+      signWebhookPayload("reply-secret", timestamp, nonce, init.body)
+    );
+
+    expect((await channel.sendText("nowhere", "x")).success).toBe(true);
+    expect((await new WebhookChannel({ secret }).sendText("nowhere", "x")).success).toBe(false);
+  });
+
+  describe("router", () => {
+    let server: Server;
+    let url: string;
+    const received: InboundMessageContext[] = [];
+
+    beforeAll(async () => {
+      const channel = new WebhookChannel({ secret });
+      channel.setMessageHandler(async (context) => {
+        received.push(context);
+      });
+      const app = express();
+      app.use(
+        express.json({
+          verify: (req, _res, buf) => {
+            (req as RawBodyRequest).rawBody = buf;
+          },
+        })
+      );
+      app.use("/webhook", channel.createRouter());
+      server = app.listen(0);
+      await new Promise((resolve) => server.once("listening", resolve));
+      url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/webhook`;
+    });
+
+    afterAll(() => {
+      server.close();
+    });
+
+    it("should accept signed requests and reject unsigned ones", async () => {
+      const body = JSON.stringify({ text: "部署完成", chatId: "deploy" });
+      const timestamp = String(Date.now());
+
+      const unsigned = await fetch(url, { method: "POST", headers: { "Content-Type": "application/json" }, body });
+      expect(unsigned.status).toBe(401);
+
+      const headers = {
+        "Content-Type": "application/json",
+        [WEBHOOK_TIMESTAMP_HEADER]: timestamp,
+        [WEBHOOK_NONCE_HEADER]: "nonce-1",
+        [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(secret, timestamp, "nonce-1", body),
+      };
+      const res = await fetch(url, { method: "POST", headers, body });
+      expect(res.status).toBe(202);
+      expect(await res.json()).toMatchObject({ accepted: true, chatId: "deploy" });
+      await vi.waitFor(() => expect(received).toHaveLength(1));
+      expect(received[0]).toMatchObject({ channelId: "webhook", content: "部署完成" });
+
+      // 重放同一请求被拒绝
+      const replay = await fetch(url, { method: "POST", headers, body });
+      expect(replay.status).toBe(401);
+    });
+  });
+});